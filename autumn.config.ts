@@ -0,0 +1,60 @@
+import { feature, product, featureItem, pricedFeatureItem, priceItem } from "atmn";
+
+// Assistant replies, reset every month.
+export const messages = feature({
+  id: "messages",
+  name: "Messages",
+  type: "single_use",
+});
+
+// Nodes in the memory graph. The worker sets the absolute count after every change.
+export const memoryNodes = feature({
+  id: "memory_nodes",
+  name: "Memory nodes",
+  type: "continuous_use",
+});
+
+export const freePlan = product({
+  id: "free",
+  name: "Free",
+  is_default: true,
+  items: [
+    featureItem({
+      feature_id: messages.id,
+      included_usage: 100,
+      interval: "month",
+    }),
+    featureItem({
+      feature_id: memoryNodes.id,
+      included_usage: 250,
+    }),
+  ],
+});
+
+export const proPlan = product({
+  id: "pro",
+  name: "Pro",
+  items: [
+    priceItem({
+      price: 20,
+      interval: "month",
+    }),
+    pricedFeatureItem({
+      feature_id: messages.id,
+      price: 5,
+      interval: "month",
+      included_usage: 2000,
+      billing_units: 100,
+      usage_model: "pay_per_use",
+    }),
+    featureItem({
+      feature_id: memoryNodes.id,
+      included_usage: 10000,
+    }),
+  ],
+});
+
+export default {
+  products: [freePlan, proPlan],
+  features: [messages, memoryNodes],
+};
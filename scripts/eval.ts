@@ -0,0 +1,372 @@
+/**
+ * Offline evaluation of memory extraction and retrieval.
+ *
+ * Replays the scripted conversations in scripts/eval/fixtures against a running app, each
+ * fixture in an account of its own, and scores what memory made of them:
+ *
+ * - extraction: the entities and entity-to-entity edges of the graph against the fixture's
+ *   expected ones, as precision, recall and F1
+ * - retrieval: `GET /api/memory/retrieve` for held-out questions, as recall@k and MRR
+ *
+ * The app has to use the mock gateway (`bun run mock:gateway` with AI_GATEWAY_BASE_URL pointing
+ * at it), so the same tree always produces the same report:
+ *
+ *   bun run memory:eval [--out eval-report.json] [--k 1,3,5,10] [--fixture work-team]
+ *
+ * The report is JSON with stable ordering and no timestamps, so two runs can be compared with
+ * any diff tool. When `--out` already holds a report, the summary is printed against it.
+ * APP_URL points it at another server than the dev server.
+ */
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { parseArgs } from "node:util"
+
+const APP_URL = process.env.APP_URL ?? process.env.VITE_BASE_URL ?? "http://localhost:5173"
+const FIXTURES_DIR = join(import.meta.dir, "eval", "fixtures")
+const REPORT_VERSION = 1
+// Extraction runs after the reply; it is awaited through the sync socket's "memory.changed"
+const EXTRACTION_TIMEOUT_MS = 30_000
+// How many retrieved items each question lists in the report
+const LISTED_ITEMS = 5
+
+interface ExpectedEdge {
+  source: string
+  target: string
+  // Any of these relation types counts; left out, any type does
+  type?: string | string[]
+}
+
+interface Fixture {
+  name: string
+  description?: string
+  sessions: { title?: string; messages: string[] }[]
+  expected: { entities: string[]; edges: ExpectedEdge[] }
+  // Questions that are not part of the conversations, with the entities a good answer draws on
+  questions: { query: string; relevant: string[] }[]
+}
+
+interface GraphNode {
+  id: string
+  kind: "entity" | "fact"
+  label: string
+}
+
+interface GraphEdge {
+  sourceId: string
+  targetId: string
+  type: string
+}
+
+interface RetrievedItem {
+  kind: "node" | "edge"
+  id: string
+  text: string
+}
+
+interface Scores {
+  expected: number
+  extracted: number
+  matched: number
+  precision: number
+  recall: number
+  f1: number
+}
+
+interface QuestionResult {
+  query: string
+  relevant: string[]
+  // 1-based rank of the first item that mentions a relevant entity, null when none does
+  firstRelevantRank: number | null
+  reciprocalRank: number
+  recallAt: Record<string, number>
+  top: string[]
+}
+
+interface FixtureReport {
+  name: string
+  extraction: {
+    entities: Scores & { missing: string[]; unexpected: string[] }
+    edges: Scores & { missing: string[]; unexpected: string[] }
+  }
+  retrieval: { recallAt: Record<string, number>; mrr: number; questions: QuestionResult[] }
+}
+
+interface Report {
+  version: number
+  k: number[]
+  summary: {
+    extraction: { entities: Scores; edges: Scores }
+    retrieval: { questions: number; recallAt: Record<string, number>; mrr: number }
+  }
+  fixtures: FixtureReport[]
+}
+
+const { values: args } = parseArgs({
+  options: {
+    out: { type: "string", default: "eval-report.json" },
+    k: { type: "string", default: "1,3,5,10" },
+    fixture: { type: "string", multiple: true },
+  },
+})
+
+const K = args.k!.split(",").map(Number).filter((k) => Number.isInteger(k) && k > 0).sort((a, b) => a - b)
+if (K.length === 0) fail("--k takes a comma separated list of positive integers, e.g. 1,3,5")
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+// Same as normalizeLabel in src/api/memory/store.ts
+const normalize = (label: string) => label.trim().toLowerCase().replace(/\s+/g, " ")
+
+const round = (value: number) => Math.round(value * 10_000) / 10_000
+
+const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length)
+
+function scores(expected: number, extracted: number, matched: number, matchedExpected = matched): Scores {
+  const precision = extracted === 0 ? 0 : matched / extracted
+  const recall = expected === 0 ? 1 : matchedExpected / expected
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+  return { expected, extracted, matched, precision: round(precision), recall: round(recall), f1: round(f1) }
+}
+
+function loadFixtures() {
+  const files = readdirSync(FIXTURES_DIR).filter((file) => file.endsWith(".json")).sort()
+  const fixtures = files.map((file) => JSON.parse(readFileSync(join(FIXTURES_DIR, file), "utf8")) as Fixture)
+  const selected = args.fixture ? fixtures.filter((fixture) => args.fixture!.includes(fixture.name)) : fixtures
+  if (selected.length === 0) fail(`No fixtures to run in ${FIXTURES_DIR}`)
+  return selected
+}
+
+// --- The app ---------------------------------------------------------------
+
+class Account {
+  private constructor(readonly cookie: string) {}
+
+  // A fresh account per fixture, so nothing remembered from another one gets in the way
+  static async create(fixture: string) {
+    const email = `eval-${fixture}-${Date.now().toString(36)}@example.com`
+    const response = await fetch(`${APP_URL}/api/auth/sign-up/email`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Origin: APP_URL },
+      body: JSON.stringify({ email, password: crypto.randomUUID(), name: `Eval ${fixture}` }),
+    })
+    if (!response.ok) fail(`Sign up failed with status ${response.status}: ${await response.text()}`)
+    return new Account(response.headers.getSetCookie().map((header) => header.split(";")[0]).join("; "))
+  }
+
+  async request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    const response = await this.fetch(path, init)
+    return response.json() as Promise<T>
+  }
+
+  async fetch(path: string, { method = "GET", body }: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${APP_URL}/api${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Origin: APP_URL, Cookie: this.cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!response.ok) fail(`${method} ${path} failed with status ${response.status}: ${await response.text()}`)
+    return response
+  }
+
+  // Counts the "memory.changed" events of the account's sync socket
+  async watchMemory() {
+    const socket = new WebSocket(`${APP_URL.replace(/^http/, "ws")}/api/sync`, { headers: { Cookie: this.cookie, Origin: APP_URL } } as never)
+    let changes = 0
+    const waiting: (() => void)[] = []
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener("message", (event) => {
+        const message = JSON.parse(String(event.data)) as { type: string }
+        if (message.type === "sync.ready") resolve()
+        if (message.type === "memory.changed") {
+          changes++
+          waiting.splice(0).forEach((wake) => wake())
+        }
+      })
+      socket.addEventListener("error", () => reject(new Error("The sync socket failed to connect")))
+    })
+    return {
+      changes: () => changes,
+      // Resolves once more than `seen` changes were published
+      after: (seen: number) => new Promise<void>((resolve, reject) => {
+        if (changes > seen) return resolve()
+        const timeout = setTimeout(() => reject(new Error("Timed out waiting for memory extraction")), EXTRACTION_TIMEOUT_MS)
+        waiting.push(() => {
+          clearTimeout(timeout)
+          resolve()
+        })
+      }),
+      close: () => socket.close(),
+    }
+  }
+}
+
+// Sends a user message and reads the streamed reply to its end, returning its text.
+async function chat(account: Account, sessionId: string, text: string) {
+  const response = await account.fetch("/chat", {
+    method: "POST",
+    body: { sessionId, message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text }] } },
+  })
+  let reply = ""
+  for (const line of (await response.text()).split("\n")) {
+    if (!line.startsWith("data: ") || line === "data: [DONE]") continue
+    const chunk = JSON.parse(line.slice("data: ".length)) as { type: string; delta?: string; errorText?: string }
+    if (chunk.type === "text-delta") reply += chunk.delta ?? ""
+    if (chunk.type === "error") fail(`The reply to "${text}" failed: ${chunk.errorText}`)
+  }
+  return reply
+}
+
+// --- Scoring ---------------------------------------------------------------
+
+const edgeName = (source: string, type: string, target: string) => `${source} -${type}-> ${target}`
+
+function scoreExtraction(fixture: Fixture, nodes: GraphNode[], edges: GraphEdge[]) {
+  const entities = nodes.filter((node) => node.kind === "entity")
+  const labels = new Map(entities.map((node) => [node.id, node.label]))
+  const extracted = new Map(entities.map((node) => [normalize(node.label), node.label]))
+  const expected = new Map(fixture.expected.entities.map((label) => [normalize(label), label]))
+  const matched = [...expected.keys()].filter((key) => extracted.has(key))
+
+  // Facts hang off entities with "about" edges, only relations between entities are scored
+  const relations = edges
+    .filter((edge) => labels.has(edge.sourceId) && labels.has(edge.targetId))
+    .map((edge) => ({ source: labels.get(edge.sourceId)!, target: labels.get(edge.targetId)!, type: edge.type }))
+  const matches = (relation: (typeof relations)[number], edge: ExpectedEdge) => {
+    const types = edge.type === undefined ? null : [edge.type].flat().map(normalize)
+    return normalize(relation.source) === normalize(edge.source)
+      && normalize(relation.target) === normalize(edge.target)
+      && (!types || types.includes(normalize(relation.type)))
+  }
+  const foundEdges = fixture.expected.edges.filter((edge) => relations.some((relation) => matches(relation, edge)))
+  const correctRelations = relations.filter((relation) => fixture.expected.edges.some((edge) => matches(relation, edge)))
+
+  return {
+    entities: {
+      ...scores(expected.size, extracted.size, matched.length),
+      missing: [...expected].filter(([key]) => !extracted.has(key)).map(([, label]) => label).sort(),
+      unexpected: [...extracted].filter(([key]) => !expected.has(key)).map(([, label]) => label).sort(),
+    },
+    edges: {
+      ...scores(fixture.expected.edges.length, relations.length, correctRelations.length, foundEdges.length),
+      missing: fixture.expected.edges
+        .filter((edge) => !foundEdges.includes(edge))
+        .map((edge) => edgeName(edge.source, [edge.type ?? "*"].flat().join("|"), edge.target))
+        .sort(),
+      unexpected: relations
+        .filter((relation) => !correctRelations.includes(relation))
+        .map((relation) => edgeName(relation.source, relation.type, relation.target))
+        .sort(),
+    },
+  }
+}
+
+// An item is relevant to an entity when its text names it, which covers the entity's own node,
+// facts about it and relations to it.
+const mentions = (text: string, label: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^\\p{L}\\p{N}])`, "iu").test(text)
+
+function scoreQuestion(question: Fixture["questions"][number], items: RetrievedItem[]): QuestionResult {
+  const firstRank = (label: string) => {
+    const index = items.findIndex((item) => mentions(item.text, label))
+    return index === -1 ? null : index + 1
+  }
+  const ranks = question.relevant.map(firstRank)
+  const found = ranks.filter((rank): rank is number => rank !== null)
+  const first = found.length > 0 ? Math.min(...found) : null
+  return {
+    query: question.query,
+    relevant: question.relevant,
+    firstRelevantRank: first,
+    reciprocalRank: round(first ? 1 / first : 0),
+    recallAt: Object.fromEntries(K.map((k) => [k, round(found.filter((rank) => rank <= k).length / question.relevant.length)])),
+    top: items.slice(0, LISTED_ITEMS).map((item) => item.text),
+  }
+}
+
+// --- Running ---------------------------------------------------------------
+
+async function runFixture(fixture: Fixture): Promise<FixtureReport> {
+  const account = await Account.create(fixture.name)
+  const memory = await account.watchMemory()
+  try {
+    for (const session of fixture.sessions) {
+      const { session: created } = await account.request<{ session: { id: string } }>("/sessions", {
+        method: "POST",
+        body: session.title ? { title: session.title } : {},
+      })
+      for (const text of session.messages) {
+        const seen = memory.changes()
+        const reply = await chat(account, created.id, text)
+        // Real models answer differently from run to run, which makes reports useless to compare
+        if (!reply.startsWith("Mock reply")) fail(`The app is not using the mock gateway, "${text}" was answered with "${reply.slice(0, 80)}"`)
+        await memory.after(seen)
+      }
+    }
+  } finally {
+    memory.close()
+  }
+
+  const graph = await account.request<{ nodes: GraphNode[]; edges: GraphEdge[] }>("/memory/graph?limit=1000")
+  const questions: QuestionResult[] = []
+  for (const question of fixture.questions) {
+    const { items } = await account.request<{ items: RetrievedItem[] }>(`/memory/retrieve?q=${encodeURIComponent(question.query)}`)
+    questions.push(scoreQuestion(question, items))
+  }
+  return {
+    name: fixture.name,
+    extraction: scoreExtraction(fixture, graph.nodes, graph.edges),
+    retrieval: {
+      recallAt: Object.fromEntries(K.map((k) => [k, round(mean(questions.map((question) => question.recallAt[k])))])),
+      mrr: round(mean(questions.map((question) => question.reciprocalRank))),
+      questions,
+    },
+  }
+}
+
+// Extraction is micro-averaged over all fixtures, retrieval averaged over all questions
+function summarize(fixtures: FixtureReport[]): Report["summary"] {
+  const total = (kind: "entities" | "edges") => {
+    const sum = (key: "expected" | "extracted" | "matched") => fixtures.reduce((count, fixture) => count + fixture.extraction[kind][key], 0)
+    const foundExpected = fixtures.reduce((count, fixture) => count + fixture.extraction[kind].expected - fixture.extraction[kind].missing.length, 0)
+    return scores(sum("expected"), sum("extracted"), sum("matched"), foundExpected)
+  }
+  const questions = fixtures.flatMap((fixture) => fixture.retrieval.questions)
+  return {
+    extraction: { entities: total("entities"), edges: total("edges") },
+    retrieval: {
+      questions: questions.length,
+      recallAt: Object.fromEntries(K.map((k) => [k, round(mean(questions.map((question) => question.recallAt[k])))])),
+      mrr: round(mean(questions.map((question) => question.reciprocalRank))),
+    },
+  }
+}
+
+function printSummary(summary: Report["summary"], previous: Report["summary"] | null) {
+  const delta = (value: number, before: number | undefined) => {
+    if (before === undefined || before === value) return ""
+    return ` (${value > before ? "+" : ""}${round(value - before)})`
+  }
+  for (const kind of ["entities", "edges"] as const) {
+    const now = summary.extraction[kind]
+    const before = previous?.extraction[kind]
+    console.log(`${kind.padEnd(10)} precision ${now.precision}${delta(now.precision, before?.precision)}  recall ${now.recall}${delta(now.recall, before?.recall)}  F1 ${now.f1}${delta(now.f1, before?.f1)}`)
+  }
+  const recall = K.map((k) => `recall@${k} ${summary.retrieval.recallAt[k]}${delta(summary.retrieval.recallAt[k], previous?.retrieval.recallAt[k])}`)
+  console.log(`retrieval  ${recall.join("  ")}  MRR ${summary.retrieval.mrr}${delta(summary.retrieval.mrr, previous?.retrieval.mrr)}`)
+}
+
+const fixtures = loadFixtures()
+const results: FixtureReport[] = []
+for (const fixture of fixtures) {
+  console.log(`Replaying ${fixture.name}…`)
+  results.push(await runFixture(fixture))
+}
+
+const report: Report = { version: REPORT_VERSION, k: K, summary: summarize(results), fixtures: results }
+const previous = existsSync(args.out!) ? (JSON.parse(readFileSync(args.out!, "utf8")) as Report) : null
+printSummary(report.summary, previous?.version === REPORT_VERSION ? previous.summary : null)
+writeFileSync(args.out!, `${JSON.stringify(report, null, 2)}\n`)
+console.log(`Report written to ${args.out}`)
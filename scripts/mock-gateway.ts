@@ -0,0 +1,292 @@
+/**
+ * A deterministic stand-in for the OpenAI-compatible AI gateway.
+ *
+ * Point AI_GATEWAY_BASE_URL at it (`bun run mock:gateway`, default http://localhost:8080)
+ * to run chat, streaming, embeddings and memory extraction end to end without network access.
+ * Replies are derived from the request only, so the same conversation always
+ * produces the same tokens and the same graph. Messages that start like an explicit
+ * request ("remember that …", "recall …", "link A to B as …", "forget <id>", "calculate …")
+ * are answered with the matching tool call when the request offers that tool, and
+ * requests for a conversation title get the first words of its opening message.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+
+interface ChatCompletionRequest {
+  model: string
+  stream?: boolean
+  messages: { role: string; content: string | { type: string; text?: string }[] | null }[]
+  response_format?: { type: string; json_schema?: { name?: string; schema?: JsonSchema } }
+  tools?: { type: string; function: { name: string } }[]
+}
+
+interface ToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+interface EmbeddingRequest {
+  model: string
+  input: string | string[]
+}
+
+interface JsonSchema {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  enum?: unknown[]
+  anyOf?: JsonSchema[]
+}
+
+const PORT = Number(process.env.MOCK_GATEWAY_PORT ?? 8080)
+const TOKEN_DELAY_MS = Number(process.env.MOCK_GATEWAY_DELAY_MS ?? 15)
+
+const textOf = (content: ChatCompletionRequest["messages"][number]["content"]) =>
+  typeof content === "string" ? content : (content ?? []).map((part) => part.text ?? "").join("")
+
+const lastUserMessage = (request: ChatCompletionRequest) =>
+  textOf([...request.messages].reverse().find((message) => message.role === "user")?.content ?? "")
+
+const STOP_WORDS = new Set(["I", "I'm", "I've", "A", "An", "And", "But", "Can", "Could", "Do", "Does", "He", "Hello", "Hi", "How", "It", "My", "She", "They", "Please", "So", "That", "The", "This", "We", "What", "When", "Where", "Which", "Who", "Why", "Will", "Would", "You", "User", "Assistant", "Mock"])
+
+// Runs of capitalized words are treated as entities, "X <verb> Y" between two of them as a relation.
+// Conversations are read from the user's lines only, document excerpts from every line after the name.
+function extractGraph(transcript: string) {
+  const isDocument = transcript.startsWith("Document:")
+  const userLines = isDocument
+    ? transcript.split(/\n+/).slice(1)
+    : transcript
+      .split(/\n+/)
+      .filter((line) => line.startsWith("User:"))
+      .map((line) => line.slice("User:".length).trim())
+  const entities = new Map<string, { label: string; type: string; attributes: Record<string, string>; confidence: number }>()
+  const relations: { source: string; target: string; type: string; weight: number }[] = []
+  const facts: { statement: string; about: string[]; confidence: number }[] = []
+
+  for (const line of userLines) {
+    for (const sentence of line.split(/(?<=[.!?])\s+/)) {
+      const mentions = [...sentence.matchAll(/\b([A-Z][\w-]*(?:\s+[A-Z][\w-]*)*)/g)]
+        .map((match) => ({ label: match[1], index: match.index ?? 0 }))
+        .filter(({ label }) => !STOP_WORDS.has(label.split(/\s+/)[0]))
+      for (const mention of mentions) {
+        entities.set(mention.label.toLowerCase(), { label: mention.label, type: "concept", attributes: {}, confidence: 0.8 })
+      }
+      for (let i = 0; i + 1 < mentions.length; i++) {
+        const between = sentence.slice(mentions[i].index + mentions[i].label.length, mentions[i + 1].index).trim()
+        const verb = between.toLowerCase().replace(/[^a-z\s]/g, "").trim().split(/\s+/).filter(Boolean).slice(0, 3).join("_")
+        if (verb) relations.push({ source: mentions[i].label, target: mentions[i + 1].label, type: verb, weight: 0.7 })
+      }
+      if (mentions.length > 0) {
+        facts.push({ statement: `${isDocument ? "The document says" : "The user said"}: ${sentence.trim()}`, about: mentions.map(({ label }) => label), confidence: 0.7 })
+      }
+    }
+  }
+
+  return { entities: [...entities.values()], facts, relations }
+}
+
+// Builds the smallest value that satisfies a JSON schema, used for structured outputs we do not special-case.
+function placeholder(schema: JsonSchema = {}): unknown {
+  if (schema.enum) return schema.enum[0]
+  if (schema.anyOf) return placeholder(schema.anyOf[0])
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+  switch (type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, placeholder(value)]))
+    case "array":
+      return []
+    case "string":
+      return "mock"
+    case "number":
+    case "integer":
+      return 0
+    case "boolean":
+      return false
+    default:
+      return null
+  }
+}
+
+function structuredReply(request: ChatCompletionRequest) {
+  const schema = request.response_format?.json_schema?.schema
+  const properties = Object.keys(schema?.properties ?? {})
+  if (["entities", "facts", "relations"].every((key) => properties.includes(key))) {
+    return JSON.stringify(extractGraph(lastUserMessage(request)))
+  }
+  return JSON.stringify(placeholder(schema))
+}
+
+function toolCall(request: ChatCompletionRequest): ToolCall | null {
+  const last = request.messages[request.messages.length - 1]
+  if (last?.role !== "user") return null
+  const offered = new Set((request.tools ?? []).map((tool) => tool.function.name))
+  const text = textOf(last.content).trim()
+  let match: RegExpMatchArray | null
+  if (offered.has("calculate") && (match = text.match(/^(?:calculate|compute)\s+(.+?)\??$/i))) {
+    return { name: "calculate", arguments: { expression: match[1] } }
+  }
+  if (offered.has("remember") && (match = text.match(/^remember(?: that)?\s+(.+?)\.?$/i))) {
+    const { entities } = extractGraph(`User: ${match[1]}`)
+    return {
+      name: "remember",
+      arguments: {
+        entities: entities.map(({ label, type }) => ({ label, type })),
+        facts: [{ statement: `The user said: ${match[1]}`, about: entities.map(({ label }) => label) }],
+      },
+    }
+  }
+  if (offered.has("recall") && (match = text.match(/^recall\s+(.+?)\??$/i))) {
+    return { name: "recall", arguments: { query: match[1] } }
+  }
+  if (offered.has("link") && (match = text.match(/^link\s+(.+?)\s+to\s+(.+?)\s+as\s+(\w+)$/i))) {
+    return { name: "link", arguments: { source: match[1], target: match[2], type: match[3].toLowerCase() } }
+  }
+  if (offered.has("forget") && (match = text.match(/^forget\s+(.+)$/i))) {
+    return { name: "forget", arguments: { ids: match[1].split(/[\s,]+/).filter(Boolean) } }
+  }
+  return null
+}
+
+// The first words of the conversation's opening message
+function titleReply(transcript: string) {
+  const opening = transcript.match(/^User:\s*(.*)$/m)?.[1] ?? transcript
+  const words = opening.replace(/[^\p{L}\p{N}\s'-]/gu, " ").split(/\s+/).filter(Boolean).slice(0, 5)
+  return words.length > 0 ? words.map((word) => word[0].toUpperCase() + word.slice(1)).join(" ") : "Untitled"
+}
+
+function chatReply(request: ChatCompletionRequest) {
+  const last = request.messages[request.messages.length - 1]
+  if (last?.role === "tool") return `Mock tool result: ${textOf(last.content).slice(0, 200)}`
+  const question = lastUserMessage(request)
+  const system = request.messages.filter((message) => message.role === "system").map((message) => textOf(message.content)).join("\n")
+  if (/short title for this conversation/i.test(system)) return titleReply(question)
+  const remembered = system
+    .split("\n")
+    .filter((line) => line.startsWith("- "))
+    .slice(0, 3)
+  const memory = remembered.length > 0 ? `\n\nFrom memory:\n${remembered.join("\n")}` : ""
+  return `Mock reply to: "${question}"${memory}`
+}
+
+// Hashed bag of words: unrelated texts are near-orthogonal and shared words raise the similarity.
+function embed(text: string, dimensions = 64) {
+  const vector = new Array<number>(dimensions).fill(0)
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter((item) => item.length >= 3)) {
+    let hash = 0
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) | 0
+    vector[Math.abs(hash) % dimensions] += hash < 0 ? -1 : 1
+  }
+  const length = Math.hypot(...vector) || 1
+  return vector.map((value) => value / length)
+}
+
+function handleEmbeddings(request: EmbeddingRequest, response: ServerResponse) {
+  const inputs = Array.isArray(request.input) ? request.input : [request.input]
+  response.writeHead(200, { "Content-Type": "application/json" })
+  response.end(JSON.stringify({
+    object: "list",
+    model: request.model,
+    data: inputs.map((input, index) => ({ object: "embedding", index, embedding: embed(input) })),
+    usage: { prompt_tokens: Math.ceil(inputs.join(" ").length / 4), total_tokens: Math.ceil(inputs.join(" ").length / 4) },
+  }))
+}
+
+const completionId = () => `chatcmpl-mock-${Date.now().toString(36)}`
+
+const usage = (prompt: string, completion: string) => ({
+  prompt_tokens: Math.ceil(prompt.length / 4),
+  completion_tokens: Math.ceil(completion.length / 4),
+  total_tokens: Math.ceil((prompt.length + completion.length) / 4),
+})
+
+async function readJson<T>(request: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) chunks.push(chunk as Buffer)
+  return JSON.parse(Buffer.concat(chunks).toString("utf8")) as T
+}
+
+async function handleChatCompletion(request: ChatCompletionRequest, response: ServerResponse) {
+  const call = request.response_format ? null : toolCall(request)
+  if (call) return handleToolCall(request, call, response)
+  const content = request.response_format?.type === "json_schema" ? structuredReply(request) : chatReply(request)
+  const prompt = request.messages.map((message) => textOf(message.content)).join("\n")
+  const id = completionId()
+  const created = Math.floor(Date.now() / 1000)
+
+  if (!request.stream) {
+    response.writeHead(200, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({
+      id,
+      object: "chat.completion",
+      created,
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: usage(prompt, content),
+    }))
+    return
+  }
+
+  response.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+  const send = (payload: unknown) => response.write(`data: ${JSON.stringify(payload)}\n\n`)
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+    ({ id, object: "chat.completion.chunk", created, model: request.model, choices: [{ index: 0, delta, finish_reason: finishReason }] })
+
+  send(chunk({ role: "assistant", content: "" }))
+  for (const token of content.match(/\S+\s*/g) ?? []) {
+    if (response.destroyed) return
+    send(chunk({ content: token }))
+    await new Promise((resolve) => setTimeout(resolve, TOKEN_DELAY_MS))
+  }
+  send(chunk({}, "stop"))
+  send({ id, object: "chat.completion.chunk", created, model: request.model, choices: [], usage: usage(prompt, content) })
+  response.end("data: [DONE]\n\n")
+}
+
+function handleToolCall(request: ChatCompletionRequest, call: ToolCall, response: ServerResponse) {
+  const id = completionId()
+  const created = Math.floor(Date.now() / 1000)
+  const toolCall = { id: `call_${id}`, type: "function", function: { name: call.name, arguments: JSON.stringify(call.arguments) } }
+  const prompt = request.messages.map((message) => textOf(message.content)).join("\n")
+
+  if (!request.stream) {
+    response.writeHead(200, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({
+      id,
+      object: "chat.completion",
+      created,
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant", content: null, tool_calls: [toolCall] }, finish_reason: "tool_calls" }],
+      usage: usage(prompt, toolCall.function.arguments),
+    }))
+    return
+  }
+
+  response.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+  const send = (payload: unknown) => response.write(`data: ${JSON.stringify(payload)}\n\n`)
+  send({ id, object: "chat.completion.chunk", created, model: request.model, choices: [{ index: 0, delta: { role: "assistant", tool_calls: [{ index: 0, ...toolCall }] }, finish_reason: null }] })
+  send({ id, object: "chat.completion.chunk", created, model: request.model, choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] })
+  send({ id, object: "chat.completion.chunk", created, model: request.model, choices: [], usage: usage(prompt, toolCall.function.arguments) })
+  response.end("data: [DONE]\n\n")
+}
+
+// Tests start it on a port of their own, see src/api/testing/gateway.ts
+export const mockGateway = createServer(async (request, response) => {
+  try {
+    if (request.method === "POST" && request.url?.endsWith("/chat/completions")) {
+      return await handleChatCompletion(await readJson<ChatCompletionRequest>(request), response)
+    }
+    if (request.method === "POST" && request.url?.endsWith("/embeddings")) {
+      return handleEmbeddings(await readJson<EmbeddingRequest>(request), response)
+    }
+    response.writeHead(404, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({ error: { message: `No mock for ${request.method} ${request.url}` } }))
+  } catch (error) {
+    response.writeHead(500, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({ error: { message: String(error) } }))
+  }
+})
+
+if (import.meta.main) {
+  mockGateway.listen(PORT, () => {
+    console.log(`Mock AI gateway listening on http://localhost:${PORT}`)
+  })
+}
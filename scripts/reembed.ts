@@ -0,0 +1,58 @@
+/**
+ * Rebuilds a user's memory embedding index with the currently configured EMBEDDING_MODEL.
+ *
+ * The worker does the embedding; this script signs in as the user and walks the paged
+ * `/api/memory/reembed` endpoint until every node and message has been processed:
+ *
+ *   REEMBED_EMAIL=... REEMBED_PASSWORD=... bun run memory:reembed
+ *
+ * APP_URL points it at a deployment instead of the dev server.
+ */
+const APP_URL = process.env.APP_URL ?? process.env.VITE_BASE_URL ?? "http://localhost:5173"
+const PAGE_SIZE = Number(process.env.REEMBED_PAGE_SIZE ?? 50)
+
+interface ReembedPage {
+  model: string
+  phase: string
+  processed: number
+  nextCursor: string | null
+}
+
+const email = process.env.REEMBED_EMAIL
+const password = process.env.REEMBED_PASSWORD
+if (!email || !password) {
+  console.error("Set REEMBED_EMAIL and REEMBED_PASSWORD to the account whose memory should be re-embedded.")
+  process.exit(1)
+}
+
+const signIn = await fetch(`${APP_URL}/api/auth/sign-in/email`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", Origin: APP_URL },
+  body: JSON.stringify({ email, password }),
+})
+if (!signIn.ok) {
+  console.error(`Sign in failed with status ${signIn.status}: ${await signIn.text()}`)
+  process.exit(1)
+}
+const cookie = signIn.headers.getSetCookie().map((header) => header.split(";")[0]).join("; ")
+
+let cursor: string | undefined
+const totals = new Map<string, number>()
+
+do {
+  const response = await fetch(`${APP_URL}/api/memory/reembed`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Origin: APP_URL, Cookie: cookie },
+    body: JSON.stringify({ cursor, limit: PAGE_SIZE }),
+  })
+  if (!response.ok) {
+    console.error(`Re-embedding failed with status ${response.status}: ${await response.text()}`)
+    process.exit(1)
+  }
+  const page = await response.json() as ReembedPage
+  totals.set(page.phase, (totals.get(page.phase) ?? 0) + page.processed)
+  console.log(`[${page.model}] ${page.phase}: ${totals.get(page.phase)} embedded`)
+  cursor = page.nextCursor ?? undefined
+} while (cursor)
+
+console.log("Index rebuilt.")
@@ -0,0 +1,21 @@
+import z from "zod"
+import { evaluate } from "mathjs"
+import { tool, type UIToolInvocation } from "ai"
+import { ToolError } from "./tool-error"
+
+export const calculate = tool({
+    description: "Calculate a mathematical expression. Use it for any arithmetic instead of working it out yourself.",
+    inputSchema: z.object({
+        expression: z.string().describe("The mathematical expression to calculate, in mathjs syntax, e.g. \"sqrt(2) * 3 ^ 2\" or \"12 km to mi\".")
+    }),
+    async execute({ expression }) {
+        // Thrown so the call ends in the error state instead of passing as a result
+        try {
+            return String(evaluate(expression))
+        } catch (error) {
+            throw new ToolError(error instanceof Error ? error.message : String(error))
+        }
+    }
+})
+
+export type CalculateToolResult = UIToolInvocation<typeof calculate>
@@ -0,0 +1,11 @@
+import { env } from "cloudflare:workers"
+import { createOpenAI } from "@ai-sdk/openai"
+
+// Every model call goes through the OpenAI-compatible gateway, so pointing
+// AI_GATEWAY_BASE_URL at a local mock is enough to run the app offline.
+export const openai = createOpenAI({
+    baseURL: env.AI_GATEWAY_BASE_URL,
+    apiKey: env.AI_GATEWAY_API_KEY
+})
+
+export const EXTRACTION_MODEL = "anthropic/claude-haiku-4.5"
@@ -0,0 +1,71 @@
+import z from "zod"
+import { stepCountIs, SystemModelMessage, ToolLoopAgent, type InferAgentUIMessage } from "ai"
+import dedent from 'dedent'
+import { openai } from "./gateway"
+import type { MessageContext } from "../database/schema"
+import { calculate } from "./calculate-tool"
+import { memoryTools, type ToolContext } from "./memory-tools"
+import { CHAT_MODEL_IDS, DEFAULT_CHAT_MODEL, supportsTemperature, TEMPERATURE_RANGE } from "./models"
+
+const INSTRUCTIONS: SystemModelMessage[] = [{
+    role: "system",
+    content: dedent`You are NeuralChat, a helpful assistant with a long-term graph memory.
+    Your job is to support the user. Answer clearly and concisely.
+    Format answers in Markdown, put code in fenced blocks with a language and write math as LaTeX between $ or $$.
+    When memory from earlier conversations is provided, use it where it is relevant and never invent memories.
+    Facts are also remembered automatically after each reply. Use the memory tools when the user explicitly asks you
+    to remember, look up, relate or forget something, and tell them what changed.`
+}]
+
+const NOT_REMEMBERED: SystemModelMessage = {
+    role: "system",
+    content: "The user asked not to remember this message. Nothing from it is saved to memory and the tools that write memory are unavailable, say so if asked."
+}
+
+export const agent = new ToolLoopAgent({
+    model: openai.chat(DEFAULT_CHAT_MODEL),
+    instructions: INSTRUCTIONS,
+    tools: {
+        calculate,
+        ...memoryTools,
+    },
+    stopWhen: [stepCountIs(100)],
+    callOptionsSchema: z.object({
+        memoryContext: z.string(),
+        userId: z.string(),
+        sessionId: z.string(),
+        messageId: z.string(),
+        canRemember: z.boolean(),
+        remember: z.boolean(),
+        // The session's settings, see src/api/settings/chat.ts
+        model: z.enum(CHAT_MODEL_IDS),
+        temperature: z.number().min(TEMPERATURE_RANGE.min).max(TEMPERATURE_RANGE.max).nullable(),
+        systemPrompt: z.string()
+    }),
+    // Retrieved memory is packed per turn, so it is appended to the instructions of each call
+    // and the memory tools learn whose graph they work on. The user's own instructions come
+    // after the app's, which keep the memory rules in force. Models that refuse a temperature
+    // are called without one, whatever the settings say.
+    prepareCall: ({ options: { memoryContext, model, temperature, systemPrompt, ...toolContext }, ...settings }) => ({
+        ...settings,
+        model: openai.chat(model),
+        temperature: supportsTemperature(model) ? temperature ?? undefined : undefined,
+        experimental_context: toolContext satisfies ToolContext,
+        instructions: [
+            ...INSTRUCTIONS,
+            ...(systemPrompt ? [{ role: "system" as const, content: systemPrompt }] : []),
+            ...(memoryContext ? [{ role: "system" as const, content: memoryContext }] : []),
+            ...(toolContext.remember ? [] : [NOT_REMEMBERED]),
+        ]
+    })
+})
+
+export interface ChatMessageMetadata {
+    context?: MessageContext
+    // False when the message is not remembered, see `messages.remember`
+    remember?: boolean
+    // The model that wrote the reply, see `messages.model`
+    model?: string
+}
+
+export type ChatMessage = InferAgentUIMessage<typeof agent, ChatMessageMetadata>
@@ -0,0 +1,117 @@
+import z from "zod"
+import { tool, type UIToolInvocation } from "ai"
+import { auditReads } from "../memory/audit"
+import { forgetJournaled, rememberJournaled, type OperationOrigin } from "../memory/journal"
+import { retrieve, retrievalOptionsSchema } from "../memory/retrieve"
+import { normalizeLabel } from "../memory/store"
+import { ToolError } from "./tool-error"
+
+/**
+ * Passed to every tool call through `experimental_context`, see the agent's `prepareCall`.
+ */
+export interface ToolContext {
+    userId: string
+    sessionId: string
+    messageId: string
+    // False once the plan's memory node quota is used up
+    canRemember: boolean
+    // False in incognito sessions and for messages the user asked not to remember
+    remember: boolean
+}
+
+const contextOf = (context: unknown) => context as ToolContext
+
+const originOf = (context: ToolContext, tool: string): OperationOrigin =>
+    ({ tool, sessionId: context.sessionId, messageId: context.messageId })
+
+const ensureWritable = (context: ToolContext) => {
+    if (!context.remember) throw new ToolError("The user asked not to remember this conversation, nothing was saved.")
+    if (!context.canRemember) throw new ToolError("Memory has reached the node limit of the user's plan, nothing was saved.")
+}
+
+const EXPLICIT_CONFIDENCE = 0.9
+
+export const remember = tool({
+    description: "Save facts and entities to the user's long-term memory graph. Use it when the user asks you to remember something or shares a durable fact about themselves or their work.",
+    inputSchema: z.object({
+        entities: z.array(z.object({
+            label: z.string().min(1).describe("Canonical name, e.g. \"Bob Smith\" or \"Project Atlas\"."),
+            type: z.string().min(1).describe("Lowercase type such as person, organization, project, place, tool or concept."),
+            attributes: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+        })).default([]),
+        facts: z.array(z.object({
+            statement: z.string().min(1).describe("A self-contained statement written in the third person."),
+            about: z.array(z.string()).describe("Labels of the entities the fact is about."),
+        })).default([]),
+    }),
+    async execute({ entities, facts }, { experimental_context }) {
+        const context = contextOf(experimental_context)
+        ensureWritable(context)
+        if (entities.length === 0 && facts.length === 0) throw new ToolError("Nothing to remember.")
+        const { operation, changes } = await rememberJournaled(context.userId, {
+            entities: entities.map((entity) => ({ ...entity, confidence: EXPLICIT_CONFIDENCE })),
+            facts: facts.map((fact) => ({ ...fact, confidence: EXPLICIT_CONFIDENCE })),
+            relations: [],
+        }, originOf(context, "remember"))
+        return { operationId: operation.id, changes }
+    }
+})
+
+export const recall = tool({
+    description: "Search the user's long-term memory graph. Returns the best matching nodes and relations with their ids, which `forget` takes.",
+    inputSchema: z.object({
+        query: z.string().min(1).describe("What to look for, in natural language."),
+        limit: z.number().int().min(1).max(20).default(8),
+    }),
+    async execute({ query, limit }, { experimental_context }) {
+        const context = contextOf(experimental_context)
+        const { items } = await retrieve(context.userId, query, retrievalOptionsSchema.parse({}))
+        const found = items
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(({ kind, id, text, score }) => ({ kind, id, text, score: Number(score.toFixed(3)) }))
+        await auditReads(context.userId, found, { via: "recall", sessionId: context.sessionId, messageId: context.messageId })
+        return { items: found }
+    }
+})
+
+export const link = tool({
+    description: "Relate two entities in the user's memory graph, creating them if they are not known yet.",
+    inputSchema: z.object({
+        source: z.string().min(1).describe("Label of the source entity."),
+        target: z.string().min(1).describe("Label of the target entity."),
+        type: z.string().min(1).describe("Lowercase snake_case relation such as works_on, knows, uses or part_of."),
+        weight: z.number().min(0).max(1).default(0.8).describe("How strongly the relation holds."),
+    }),
+    async execute({ source, target, type, weight }, { experimental_context }) {
+        const context = contextOf(experimental_context)
+        ensureWritable(context)
+        if (normalizeLabel(source) === normalizeLabel(target)) throw new ToolError("An entity cannot be related to itself.")
+        const { operation, changes } = await rememberJournaled(context.userId, {
+            entities: [],
+            facts: [],
+            relations: [{ source, target, type, weight }],
+        }, originOf(context, "link"))
+        return { operationId: operation.id, changes }
+    }
+})
+
+export const forget = tool({
+    description: "Delete nodes or relations from the user's memory graph by id. Look the ids up with `recall` first and only forget what the user asked for.",
+    inputSchema: z.object({
+        ids: z.array(z.string()).min(1).describe("Ids of nodes or relations as returned by recall."),
+    }),
+    async execute({ ids }, { experimental_context }) {
+        const context = contextOf(experimental_context)
+        const result = await forgetJournaled(context.userId, ids, originOf(context, "forget"))
+        if (!result) throw new ToolError("None of these ids are in memory.")
+        return { operationId: result.operation.id, changes: result.changes }
+    }
+})
+
+export const memoryTools = { remember, recall, link, forget }
+
+export type RememberToolResult = UIToolInvocation<typeof remember>
+export type RecallToolResult = UIToolInvocation<typeof recall>
+export type LinkToolResult = UIToolInvocation<typeof link>
+export type ForgetToolResult = UIToolInvocation<typeof forget>
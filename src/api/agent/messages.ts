@@ -0,0 +1,18 @@
+import type { UIMessage } from "ai"
+import type { Message } from "../database/schema"
+import type { ChatMessage } from "."
+
+export const textOf = (message: Pick<UIMessage, "parts">) =>
+  message.parts
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("")
+    .trim()
+
+// Stored messages keep their text, plus their tool calls when they made any.
+// Whether a message is remembered and the model that wrote it ride along in the metadata.
+export const toUIMessage = (message: Message): ChatMessage => ({
+  id: message.id,
+  role: message.role === "ai" ? "assistant" : "user",
+  parts: (message.parts as ChatMessage["parts"] | null) ?? [{ type: "text", text: message.content }],
+  metadata: { ...(message.context && { context: message.context }), remember: message.remember, ...(message.model && { model: message.model }) },
+})
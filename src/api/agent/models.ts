@@ -0,0 +1,32 @@
+/**
+ * The gateway models a chat can be answered by, cheapest of each provider first. Image models
+ * are left out since chats expect text back. Extraction, titles and consolidation keep using
+ * `EXTRACTION_MODEL` whatever a chat is set to. Reasoning models such as GPT-5 refuse a
+ * temperature, so `supportsTemperature` is false for them and a chat's setting is left out.
+ */
+export const CHAT_MODELS = [
+    { id: "anthropic/claude-haiku-4.5", name: "Claude Haiku 4.5", provider: "Anthropic", supportsTemperature: true },
+    { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5", provider: "Anthropic", supportsTemperature: true },
+    { id: "anthropic/claude-opus-4.5", name: "Claude Opus 4.5", provider: "Anthropic", supportsTemperature: true },
+    { id: "openai/gpt-5-nano", name: "GPT-5 nano", provider: "OpenAI", supportsTemperature: false },
+    { id: "openai/gpt-5-mini", name: "GPT-5 mini", provider: "OpenAI", supportsTemperature: false },
+    { id: "openai/gpt-5.2", name: "GPT-5.2", provider: "OpenAI", supportsTemperature: false },
+    { id: "google/gemini-3-pro-preview", name: "Gemini 3 Pro", provider: "Google", supportsTemperature: true },
+] as const
+
+export type ChatModel = (typeof CHAT_MODELS)[number]["id"]
+
+export const CHAT_MODEL_IDS = CHAT_MODELS.map((model) => model.id) as [ChatModel, ...ChatModel[]]
+
+export const DEFAULT_CHAT_MODEL: ChatModel = "anthropic/claude-haiku-4.5"
+
+// Stored choices can name a model that was removed from the list since
+export const isChatModel = (id: string | null | undefined): id is ChatModel => CHAT_MODEL_IDS.includes(id as ChatModel)
+
+export const supportsTemperature = (id: ChatModel) => CHAT_MODELS.some((model) => model.id === id && model.supportsTemperature)
+
+// The range every model above that takes a temperature accepts
+export const TEMPERATURE_RANGE = { min: 0, max: 1 }
+
+// Longest system prompt a persona, session or account can set
+export const SYSTEM_PROMPT_LENGTH = 4000
@@ -0,0 +1,3 @@
+// A failure a tool reports on purpose. Its message reaches the model and the tool card,
+// while any other error is replaced by a generic one.
+export class ToolError extends Error {}
@@ -0,0 +1,110 @@
+import { and, asc, eq } from "drizzle-orm"
+import { database } from "../database"
+import { memoryEdges, memoryNodes, memorySources, messages, sessions, type MemoryEdge, type MemoryNode, type Message, type Session } from "../database/schema"
+import { ARCHIVE_VERSION } from "./format"
+
+// Rows as they go into an archive, without the account they belonged to
+const messageEntry = (message: Message) => ({
+  id: message.id,
+  parentId: message.parentId,
+  role: message.role,
+  content: message.content,
+  context: message.context,
+  parts: message.parts,
+  remember: message.remember,
+  model: message.model,
+  createdAt: message.createdAt,
+})
+
+const sessionEntry = (session: Session, items: Message[]) => ({
+  id: session.id,
+  title: session.title,
+  leafId: session.leafId,
+  pinnedAt: session.pinnedAt,
+  archivedAt: session.archivedAt,
+  incognito: session.incognito,
+  model: session.model,
+  temperature: session.temperature,
+  systemPrompt: session.systemPrompt,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  messages: items.map(messageEntry),
+})
+
+const nodeEntry = (node: MemoryNode) => ({
+  id: node.id,
+  kind: node.kind,
+  type: node.type,
+  label: node.label,
+  attributes: node.attributes,
+  confidence: node.confidence,
+  createdAt: node.createdAt,
+  updatedAt: node.updatedAt,
+})
+
+const edgeEntry = (edge: MemoryEdge) => ({
+  id: edge.id,
+  sourceId: edge.sourceId,
+  targetId: edge.targetId,
+  type: edge.type,
+  weight: edge.weight,
+  attributes: edge.attributes,
+  confidence: edge.confidence,
+  createdAt: edge.createdAt,
+  updatedAt: edge.updatedAt,
+})
+
+export type SessionEntry = ReturnType<typeof sessionEntry>
+
+export interface MemoryGraph {
+  nodes: ReturnType<typeof nodeEntry>[]
+  edges: ReturnType<typeof edgeEntry>[]
+}
+
+/**
+ * Every session of the account with all of its messages, branches included, oldest first.
+ * With `sessionId` only that one, or nothing when it is not the user's.
+ */
+export async function exportSessions(userId: string, sessionId?: string) {
+  const [rows, items] = await Promise.all([
+    database
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), sessionId ? eq(sessions.id, sessionId) : undefined))
+      .orderBy(asc(sessions.createdAt)),
+    database
+      .select()
+      .from(messages)
+      .where(and(eq(messages.userId, userId), sessionId ? eq(messages.sessionId, sessionId) : undefined))
+      .orderBy(asc(messages.createdAt)),
+  ])
+  const bySession = new Map<string, Message[]>()
+  for (const message of items) {
+    if (!bySession.has(message.sessionId)) bySession.set(message.sessionId, [])
+    bySession.get(message.sessionId)!.push(message)
+  }
+  return rows.map((session) => sessionEntry(session, bySession.get(session.id) ?? []))
+}
+
+// The whole memory graph with the messages each node and edge was learned from.
+export async function exportMemory(userId: string) {
+  const [nodes, edges, sources] = await Promise.all([
+    database.select().from(memoryNodes).where(eq(memoryNodes.userId, userId)).orderBy(asc(memoryNodes.createdAt)),
+    database.select().from(memoryEdges).where(eq(memoryEdges.userId, userId)).orderBy(asc(memoryEdges.createdAt)),
+    database.select().from(memorySources).where(eq(memorySources.userId, userId)),
+  ])
+  return {
+    nodes: nodes.map(nodeEntry),
+    edges: edges.map(edgeEntry),
+    sources: sources.map((source) => ({
+      ...(source.nodeId ? { nodeId: source.nodeId } : { edgeId: source.edgeId! }),
+      messageId: source.messageId,
+    })),
+  }
+}
+
+// Everything but uploaded documents, whose files stay in R2 and are uploaded again instead.
+export async function exportArchive(userId: string) {
+  const [sessions, memory] = await Promise.all([exportSessions(userId), exportMemory(userId)])
+  return { version: ARCHIVE_VERSION, exportedAt: new Date(), sessions, memory }
+}
@@ -0,0 +1,122 @@
+import z from "zod"
+import { SYSTEM_PROMPT_LENGTH, TEMPERATURE_RANGE } from "../agent/models"
+
+/**
+ * The JSON archive of an account, as exported by `GET /api/archive` and read back by the import.
+ * Ids only need to be unique within the archive; importing keeps them where they are free and
+ * gives the rest new ones. Other tools can produce it too: apart from the memory graph's nodes,
+ * which edges refer to, ids may be left out and messages without a `parentId` follow the one
+ * before them.
+ */
+export const ARCHIVE_VERSION = 1
+
+// What one import may contain, so it fits in a single request
+export const MAX_IMPORT = { sessions: 500, messages: 10_000, nodes: 5_000, edges: 10_000 }
+
+const id = z.string().min(1).max(64)
+const attributes = z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+const score = z.number().min(0).max(1)
+const roles = z.enum(["user", "ai"])
+
+const sourceReference = z.object({
+  messageId: z.string(),
+  sessionId: z.string(),
+})
+
+const messageContext = z.object({
+  memory: z.array(z.object({
+    kind: z.enum(["node", "edge"]),
+    id: z.string(),
+    text: z.string(),
+    score: z.number(),
+    sources: z.array(sourceReference),
+  })),
+  messages: z.array(sourceReference.extend({
+    role: roles,
+    excerpt: z.string(),
+    sessionTitle: z.string(),
+    createdAt: z.string(),
+  })),
+  history: z.number(),
+})
+
+const archiveMessage = z.object({
+  id: id.optional(),
+  // Must be an earlier message of the same session; null starts a new root
+  parentId: id.nullable().optional(),
+  role: roles,
+  content: z.string(),
+  context: messageContext.nullable().optional(),
+  parts: z.array(z.looseObject({ type: z.string() })).nullable().optional(),
+  remember: z.boolean().default(true),
+  // The model that wrote an AI message; one the app does not offer is still kept as history
+  model: z.string().max(100).nullable().optional(),
+  createdAt: z.coerce.date().optional(),
+})
+
+const archiveSession = z.object({
+  id: id.optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  // Defaults to the last message
+  leafId: id.nullable().optional(),
+  pinnedAt: z.coerce.date().nullable().optional(),
+  archivedAt: z.coerce.date().nullable().optional(),
+  incognito: z.boolean().default(false),
+  model: z.string().max(100).nullable().optional(),
+  temperature: z.number().min(TEMPERATURE_RANGE.min).max(TEMPERATURE_RANGE.max).nullable().optional(),
+  systemPrompt: z.string().max(SYSTEM_PROMPT_LENGTH).nullable().optional(),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+  messages: z.array(archiveMessage).default([]),
+})
+
+const archiveNode = z.object({
+  id,
+  kind: z.enum(["entity", "fact"]),
+  type: z.string().min(1),
+  label: z.string().trim().min(1),
+  attributes: attributes.default({}),
+  confidence: score.default(0.5),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+})
+
+const archiveEdge = z.object({
+  id: id.optional(),
+  sourceId: id,
+  targetId: id,
+  type: z.string().min(1),
+  weight: score.default(0.5),
+  attributes: attributes.default({}),
+  confidence: score.default(0.5),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+})
+
+// Which message a node or edge was learned from. Sources of messages that are not imported are dropped.
+const archiveSource = z.object({
+  nodeId: id.optional(),
+  edgeId: id.optional(),
+  messageId: id,
+}).refine((source) => !source.nodeId !== !source.edgeId, "A source needs either a nodeId or an edgeId")
+
+export const archiveSchema = z.object({
+  version: z.literal(ARCHIVE_VERSION).default(ARCHIVE_VERSION),
+  exportedAt: z.coerce.date().optional(),
+  sessions: z.array(archiveSession).max(MAX_IMPORT.sessions).default([]),
+  memory: z.object({
+    nodes: z.array(archiveNode).max(MAX_IMPORT.nodes).default([]),
+    edges: z.array(archiveEdge).max(MAX_IMPORT.edges).default([]),
+    sources: z.array(archiveSource).default([]),
+  }).default({ nodes: [], edges: [], sources: [] }),
+}).refine((archive) => archive.sessions.reduce((count, session) => count + session.messages.length, 0) <= MAX_IMPORT.messages, {
+  message: `An archive can hold at most ${MAX_IMPORT.messages} messages`,
+  path: ["sessions"],
+})
+
+export type Archive = z.output<typeof archiveSchema>
+export type ArchiveInput = z.input<typeof archiveSchema>
+export type ArchiveSession = z.output<typeof archiveSession>
+export type ArchiveMessage = z.output<typeof archiveMessage>
+export type ArchiveNode = z.output<typeof archiveNode>
+export type ArchiveEdge = z.output<typeof archiveEdge>
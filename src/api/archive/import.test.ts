@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { database } from "../database"
+import { memorySources } from "../database/schema"
+import { getNode, listEdges, listNodes, upsertNode } from "../memory/store"
+import { listMessages, listSessions } from "../sessions/store"
+import { createUser } from "../testing/users"
+import { archiveSchema, type ArchiveInput } from "./format"
+import { importArchive, InvalidArchiveError } from "./import"
+
+const load = (userId: string, input: ArchiveInput, options?: { dryRun?: boolean }) => importArchive(userId, archiveSchema.parse(input), options)
+
+// One chat and what was learned from it, with the ids an export would carry
+const exported = () => {
+  const [sessionId, questionId, replyId] = [crypto.randomUUID(), crypto.randomUUID(), crypto.randomUUID()]
+  return {
+    sessionId,
+    questionId,
+    archive: {
+      sessions: [{
+        id: sessionId,
+        title: "Lisbon",
+        messages: [
+          { id: questionId, role: "user" as const, content: "Carol lives in Lisbon." },
+          { id: replyId, role: "ai" as const, content: "Noted!" },
+        ],
+      }],
+      memory: {
+        nodes: [
+          { id: "carol", kind: "entity" as const, type: "person", label: "Carol", attributes: { city: "Lisbon" } },
+          { id: "lisbon", kind: "entity" as const, type: "place", label: "Lisbon" },
+        ],
+        edges: [{ id: "lives", sourceId: "carol", targetId: "lisbon", type: "lives_in" }],
+        sources: [{ nodeId: "carol", messageId: questionId }, { edgeId: "lives", messageId: questionId }],
+      },
+    },
+  }
+}
+
+describe("importArchive", () => {
+  it("adds sessions and memory, linking what was learned to the imported messages", async () => {
+    const userId = await createUser()
+    const { archive, sessionId, questionId } = exported()
+
+    const { report } = await load(userId, archive)
+
+    expect(report).toMatchObject({ sessions: { created: 1, skipped: 0 }, messages: 2, nodes: { created: 2, merged: 0 }, edges: { created: 1, merged: 0 }, sources: 2 })
+    const sessions = (await listSessions(userId)).sessions
+    expect(sessions).toMatchObject([{ id: sessionId, title: "Lisbon", preview: "Noted!" }])
+    expect((await listMessages(sessionId)).map((message) => message.parentId)).toEqual([null, questionId])
+    expect(await listEdges(userId)).toMatchObject([{ sourceId: "carol", targetId: "lisbon", type: "lives_in" }])
+    const sources = await database.select().from(memorySources).where(eq(memorySources.messageId, questionId))
+    expect(sources.map((source) => source.nodeId ?? source.edgeId).sort()).toEqual(["carol", "lives"])
+  })
+
+  it("merges nodes the account has by kind and label, keeping its values and reporting the differences", async () => {
+    const userId = await createUser()
+    const own = await upsertNode(userId, { kind: "entity", type: "person", label: "carol", attributes: { city: "Porto" } })
+    const { archive } = exported()
+    const [carol, lisbon] = archive.memory.nodes
+
+    const { report } = await load(userId, { ...archive, memory: { ...archive.memory, nodes: [{ ...carol, attributes: { city: "Lisbon", job: "architect" } }, lisbon] } })
+
+    expect(report.nodes).toEqual({ created: 1, merged: 1 })
+    expect(report.conflicts).toEqual([{
+      kind: "node",
+      id: "carol",
+      existingId: own.id,
+      label: "carol",
+      fields: [{ name: "attributes.city", existing: "Porto", imported: "Lisbon" }],
+    }])
+    expect((await getNode(userId, own.id))?.node.attributes).toEqual({ city: "Porto", job: "architect" })
+    // The edge is re-pointed at the account's node
+    expect(await listEdges(userId)).toMatchObject([{ sourceId: own.id }])
+  })
+
+  it("gives ids another account has taken new ones and skips sessions imported before", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    const { archive, sessionId } = exported()
+    await load(alice, archive)
+
+    const { report } = await load(bob, archive)
+    const again = await load(alice, archive)
+
+    expect(Object.keys(report.remapped).sort()).toEqual([sessionId, ...archive.sessions[0].messages.map((message) => message.id), "carol", "lisbon", "lives"].sort())
+    const [session] = (await listSessions(bob)).sessions
+    expect(session.id).toBe(report.remapped[sessionId])
+    expect((await listNodes(bob)).map((node) => node.id).sort()).toEqual([report.remapped.carol, report.remapped.lisbon].sort())
+    expect(await listEdges(bob)).toMatchObject([{ sourceId: report.remapped.carol, targetId: report.remapped.lisbon }])
+    expect(again.report).toMatchObject({ sessions: { created: 0, skipped: 1 }, nodes: { created: 0, merged: 2 }, edges: { created: 0, merged: 1 } })
+    expect((await listSessions(alice)).sessions.map((item) => item.id)).toEqual([sessionId])
+  })
+
+  it("reads a transcript without ids as one chain of messages", async () => {
+    const userId = await createUser()
+
+    const { sessions, messages } = await load(userId, { sessions: [{ messages: [{ role: "user", content: "Hi" }, { role: "ai", content: "Hello!" }] }] })
+
+    expect(messages.map((message) => message.parentId)).toEqual([null, messages[0].id])
+    expect(sessions[0]).toMatchObject({ leafId: messages[1].id, preview: "Hello!" })
+  })
+
+  it("refuses an archive that does not hold together before writing anything", async () => {
+    const userId = await createUser()
+    const { archive } = exported()
+    archive.memory.edges.push({ id: "knows", sourceId: "carol", targetId: "dave", type: "knows" })
+
+    const error = await load(userId, archive).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(InvalidArchiveError)
+    expect((error as InvalidArchiveError).issues).toEqual([{ path: "memory.edges.1.targetId", message: '"dave" is not a node of the archive' }])
+    expect((await listSessions(userId)).sessions).toEqual([])
+  })
+
+  it("only reports on a dry run", async () => {
+    const userId = await createUser()
+
+    const { report } = await load(userId, exported().archive, { dryRun: true })
+
+    expect(report).toMatchObject({ dryRun: true, nodes: { created: 2 } })
+    expect(await listNodes(userId)).toEqual([])
+    expect((await listSessions(userId)).sessions).toEqual([])
+  })
+})
@@ -0,0 +1,440 @@
+import { and, eq, inArray } from "drizzle-orm"
+import type { BatchItem } from "drizzle-orm/batch"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { DEFAULT_TITLE, memoryEdges, memoryNodes, memorySources, messages, sessions, type MemoryAttributes, type MemoryChange, type MemoryEdge, type MemoryNode, type Message, type MessageContext, type Session } from "../database/schema"
+import { auditChanges } from "../memory/audit"
+import { summarize } from "../memory/journal"
+import { redactInput, redactionOf } from "../memory/redact"
+import { nodeKey } from "../memory/store"
+import { toPreview } from "../sessions/store"
+import type { Archive, ArchiveMessage, ArchiveSession } from "./format"
+
+export interface ArchiveIssue {
+  path: string
+  message: string
+}
+
+// Thrown for archives that parse but do not hold together, e.g. an edge to a node that is not in it.
+export class InvalidArchiveError extends Error {
+  constructor(readonly issues: ArchiveIssue[]) {
+    super(issues.length === 1 ? issues[0].message : `The archive has ${issues.length} problems, e.g. ${issues[0].message}`)
+  }
+}
+
+export interface ConflictField {
+  name: string
+  existing: unknown
+  imported: unknown
+}
+
+/**
+ * Something in the archive that matched what the account already has. The account's values are
+ * kept; `fields` lists those the archive disagrees on and is empty for a session that was
+ * imported before and therefore skipped.
+ */
+export interface ImportConflict {
+  kind: "session" | "node" | "edge"
+  // The id in the archive and the one it was matched with
+  id: string
+  existingId: string
+  label: string
+  fields: ConflictField[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  sessions: { created: number; skipped: number }
+  messages: number
+  nodes: { created: number; merged: number }
+  edges: { created: number; merged: number }
+  sources: number
+  conflicts: ImportConflict[]
+  // Archive ids that were taken in this database, with the ids they were imported as
+  remapped: Record<string, string>
+}
+
+// What the route needs after an import, e.g. to index the new rows
+export interface ImportResult {
+  report: ImportReport
+  sessions: Session[]
+  messages: Message[]
+  nodes: MemoryNode[]
+}
+
+interface PreparedSession extends ArchiveSession {
+  id: string
+  messages: (ArchiveMessage & { id: string; parentId: string | null })[]
+}
+
+// Statements per D1 batch; each batch is one round trip and applies all or nothing
+const STATEMENTS_PER_BATCH = 50
+
+const relationKey = (sourceId: string, targetId: string, type: string) => `${sourceId}\u0000${targetId}\u0000${type}`
+
+async function runBatches(statements: BatchItem<"sqlite">[]) {
+  for (const batch of slices(statements, STATEMENTS_PER_BATCH)) {
+    await database.batch(batch as [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]])
+  }
+}
+
+/**
+ * Runs the statements of an import over as many batches as it takes. D1 has no transaction
+ * across batches, so when one fails the statements of `undo` take back what the earlier ones
+ * wrote; they must be safe to run whether or not what they undo was written.
+ */
+async function runAll(statements: BatchItem<"sqlite">[], undo: () => BatchItem<"sqlite">[]) {
+  try {
+    await runBatches(statements)
+  } catch (error) {
+    if (statements.length > STATEMENTS_PER_BATCH) {
+      await runBatches(undo()).catch((undoError) => console.error("Rolling back an import failed", undoError))
+    }
+    throw error
+  }
+}
+
+// Who the given ids belong to, for ids that are already taken in the database
+async function owners(table: typeof sessions | typeof messages | typeof memoryNodes | typeof memoryEdges, ids: string[]) {
+  const rows = await Promise.all(slices([...new Set(ids)], MAX_PARAMS).map((batch) =>
+    database.select({ id: table.id, userId: table.userId }).from(table).where(inArray(table.id, batch))
+  ))
+  return new Map(rows.flat().map((row) => [row.id, row.userId]))
+}
+
+// Fills in the ids an archive may leave out, see `format.ts`
+const prepare = (archive: Archive) => ({
+  sessions: archive.sessions.map((session): PreparedSession => {
+    const withIds = session.messages.map((message) => ({ ...message, id: message.id ?? crypto.randomUUID() }))
+    return {
+      ...session,
+      id: session.id ?? crypto.randomUUID(),
+      messages: withIds.map((message, index) => ({
+        ...message,
+        parentId: message.parentId === undefined ? withIds[index - 1]?.id ?? null : message.parentId,
+      })),
+    }
+  }),
+  nodes: archive.memory.nodes,
+  edges: archive.memory.edges.map((edge) => ({ ...edge, id: edge.id ?? crypto.randomUUID() })),
+  sources: archive.memory.sources,
+})
+
+type Prepared = ReturnType<typeof prepare>
+
+// Everything that has to hold before anything is written
+function validate({ sessions, nodes, edges, sources }: Prepared) {
+  const issues: ArchiveIssue[] = []
+  const duplicates = (items: { id: string }[], path: (index: number) => string) => {
+    const seen = new Set<string>()
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) issues.push({ path: path(index), message: `The id "${item.id}" is used more than once` })
+      seen.add(item.id)
+    })
+  }
+
+  duplicates(sessions, (index) => `sessions.${index}.id`)
+  const messageIds = new Set<string>()
+  sessions.forEach((session, index) => {
+    const earlier = new Set<string>()
+    session.messages.forEach((message, position) => {
+      const path = `sessions.${index}.messages.${position}`
+      if (messageIds.has(message.id)) issues.push({ path: `${path}.id`, message: `The id "${message.id}" is used more than once` })
+      if (message.parentId !== null && !earlier.has(message.parentId)) {
+        issues.push({ path: `${path}.parentId`, message: `"${message.parentId}" is not an earlier message of the session` })
+      }
+      earlier.add(message.id)
+      messageIds.add(message.id)
+    })
+    if (session.leafId && !earlier.has(session.leafId)) {
+      issues.push({ path: `sessions.${index}.leafId`, message: `"${session.leafId}" is not a message of the session` })
+    }
+  })
+
+  duplicates(nodes, (index) => `memory.nodes.${index}.id`)
+  duplicates(edges, (index) => `memory.edges.${index}.id`)
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  edges.forEach((edge, index) => {
+    for (const end of ["sourceId", "targetId"] as const) {
+      if (!nodeIds.has(edge[end])) issues.push({ path: `memory.edges.${index}.${end}`, message: `"${edge[end]}" is not a node of the archive` })
+    }
+    if (edge.sourceId === edge.targetId) issues.push({ path: `memory.edges.${index}`, message: "An edge must connect two different nodes" })
+  })
+  const edgeIds = new Set(edges.map((edge) => edge.id))
+  sources.forEach((source, index) => {
+    if (source.nodeId && !nodeIds.has(source.nodeId)) issues.push({ path: `memory.sources.${index}.nodeId`, message: `"${source.nodeId}" is not a node of the archive` })
+    if (source.edgeId && !edgeIds.has(source.edgeId)) issues.push({ path: `memory.sources.${index}.edgeId`, message: `"${source.edgeId}" is not an edge of the archive` })
+  })
+  return issues
+}
+
+// Attributes the account does not have yet are added; values it has win and differing ones are reported
+function mergeAttributes(existing: MemoryAttributes, imported: MemoryAttributes) {
+  const conflicts = Object.entries(imported)
+    .filter(([name, value]) => name in existing && existing[name] !== value)
+    .map(([name, value]): ConflictField => ({ name: `attributes.${name}`, existing: existing[name], imported: value }))
+  const added = Object.keys(imported).some((name) => !(name in existing))
+  return { attributes: { ...imported, ...existing }, conflicts, added }
+}
+
+// Points the citations of an imported reply at the imported sessions, messages and memory
+const remapContext = (context: MessageContext, ids: Map<string, string>): MessageContext => ({
+  ...context,
+  memory: context.memory.map((item) => ({
+    ...item,
+    id: ids.get(item.id) ?? item.id,
+    sources: item.sources.map((source) => ({ messageId: ids.get(source.messageId) ?? source.messageId, sessionId: ids.get(source.sessionId) ?? source.sessionId })),
+  })),
+  messages: context.messages.map((source) => ({ ...source, messageId: ids.get(source.messageId) ?? source.messageId, sessionId: ids.get(source.sessionId) ?? source.sessionId })),
+})
+
+/**
+ * Merges an archive into the account. Sessions and messages are added, except sessions that are
+ * already in the account, which are skipped. Nodes are matched with the account's by kind and
+ * label and edges by their endpoints and type; matches keep the account's values and gain the
+ * attributes they lack. Ids that are taken get new ones. Memory is redacted like everything else
+ * written to it. With `dryRun` the report is built without writing anything.
+ * Throws an InvalidArchiveError before writing when the archive does not hold together; when a
+ * write fails, what the import wrote before is removed again.
+ */
+export async function importArchive(userId: string, archive: Archive, { dryRun = false }: { dryRun?: boolean } = {}): Promise<ImportResult> {
+  const prepared = prepare(archive)
+  const issues = validate(prepared)
+  if (issues.length > 0) throw new InvalidArchiveError(issues)
+
+  const now = Date.now()
+  const ids = new Map<string, string>()
+  const remapped: Record<string, string> = {}
+  const conflicts: ImportConflict[] = []
+  const assign = (id: string, owner: string | undefined) => {
+    const assigned = owner === undefined ? id : crypto.randomUUID()
+    if (assigned !== id) remapped[id] = assigned
+    ids.set(id, assigned)
+    return assigned
+  }
+
+  // Sessions and messages
+  const archiveMessages = prepared.sessions.flatMap((session) => session.messages)
+  const [sessionOwners, messageOwners] = await Promise.all([
+    owners(sessions, prepared.sessions.map((session) => session.id)),
+    owners(messages, archiveMessages.map((message) => message.id)),
+  ])
+  const sessionOf = new Map<string, string>()
+  const sessionRows: Session[] = []
+  const messageRows: Message[] = []
+  let position = 0
+  for (const session of prepared.sessions) {
+    if (sessionOwners.get(session.id) === userId) {
+      conflicts.push({ kind: "session", id: session.id, existingId: session.id, label: session.title ?? session.id, fields: [] })
+      // Memory can still be linked to the messages that are already there
+      for (const message of session.messages) {
+        if (messageOwners.get(message.id) !== userId) continue
+        ids.set(message.id, message.id)
+        sessionOf.set(message.id, session.id)
+      }
+      continue
+    }
+    const sessionId = assign(session.id, sessionOwners.get(session.id))
+    const rows = session.messages.map((message): Message => {
+      const id = assign(message.id, messageOwners.get(message.id))
+      sessionOf.set(id, sessionId)
+      return {
+        id,
+        userId,
+        sessionId,
+        parentId: message.parentId && ids.get(message.parentId)!,
+        role: message.role,
+        content: message.content,
+        context: message.context ?? null,
+        parts: (message.parts ?? null) as Message["parts"],
+        // Nothing of an incognito session is remembered
+        remember: message.remember && !session.incognito,
+        model: message.model ?? null,
+        // Numbered by the insert trigger of migration 0013
+        searchId: null,
+        // Messages without a time keep their order
+        createdAt: message.createdAt ?? new Date(now + position++),
+      }
+    })
+    messageRows.push(...rows)
+    const leaf = session.leafId ? rows.find((message) => message.id === ids.get(session.leafId!)) : rows[rows.length - 1]
+    sessionRows.push({
+      id: sessionId,
+      userId,
+      title: session.title ?? DEFAULT_TITLE,
+      preview: leaf ? toPreview(leaf.content) : "",
+      leafId: leaf?.id ?? null,
+      summaryId: null,
+      pinnedAt: session.pinnedAt ?? null,
+      archivedAt: session.archivedAt ?? null,
+      incognito: session.incognito,
+      // Personas are not part of an archive, the settings they gave are
+      personaId: null,
+      model: session.model ?? null,
+      temperature: session.temperature ?? null,
+      systemPrompt: session.systemPrompt ?? null,
+      searchId: null,
+      createdAt: session.createdAt ?? rows[0]?.createdAt ?? new Date(now),
+      updatedAt: session.updatedAt ?? leaf?.createdAt ?? new Date(now),
+    })
+  }
+
+  // Nodes, matched by kind and label after redaction
+  const redaction = await redactionOf(userId)
+  const nodes = prepared.nodes.map((node) => {
+    const redacted = redactInput(node, redaction)
+    return { ...redacted, key: nodeKey(node.kind, redacted.label) }
+  })
+  const [existingNodes, nodeOwners] = await Promise.all([
+    Promise.all(slices([...new Set(nodes.map((node) => node.key))], MAX_PARAMS - 1).map((batch) =>
+      database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.key, batch)))
+    )).then((rows) => new Map(rows.flat().map((node) => [node.key, node]))),
+    owners(memoryNodes, nodes.map((node) => node.id)),
+  ])
+  const createdNodes = new Map<string, MemoryNode>()
+  const mergedNodes = new Map<string, { before: MemoryNode; after: MemoryNode }>()
+  let nodesMerged = 0
+  for (const node of nodes) {
+    const existing = existingNodes.get(node.key)
+    const planned = createdNodes.get(node.key)
+    if (existing) {
+      const current = mergedNodes.get(existing.id)?.after ?? existing
+      const merged = mergeAttributes(current.attributes, node.attributes)
+      const fields = [...(node.type !== existing.type ? [{ name: "type", existing: existing.type, imported: node.type }] : []), ...merged.conflicts]
+      if (fields.length > 0) conflicts.push({ kind: "node", id: node.id, existingId: existing.id, label: existing.label, fields })
+      if (merged.added) mergedNodes.set(existing.id, { before: existing, after: { ...current, attributes: merged.attributes, updatedAt: new Date(now) } })
+      ids.set(node.id, existing.id)
+      nodesMerged++
+    } else if (planned) {
+      // The archive has the node twice, e.g. under labels that differ in case only
+      planned.attributes = mergeAttributes(planned.attributes, node.attributes).attributes
+      ids.set(node.id, planned.id)
+      nodesMerged++
+    } else {
+      createdNodes.set(node.key, {
+        id: assign(node.id, nodeOwners.get(node.id)),
+        userId,
+        key: node.key,
+        kind: node.kind,
+        type: node.type,
+        label: node.label,
+        attributes: node.attributes,
+        confidence: node.confidence,
+        createdAt: node.createdAt ?? new Date(now),
+        updatedAt: node.updatedAt ?? node.createdAt ?? new Date(now),
+      })
+    }
+  }
+
+  // Edges, matched by their endpoints in the account and their type
+  const edges = prepared.edges.map((edge) => ({
+    ...redactInput(edge, redaction),
+    sourceId: ids.get(edge.sourceId)!,
+    targetId: ids.get(edge.targetId)!,
+  }))
+  const existingIds = new Set([...existingNodes.values()].map((node) => node.id))
+  const matchedSources = [...new Set(edges.map((edge) => edge.sourceId))].filter((id) => existingIds.has(id))
+  const [existingEdges, edgeOwners] = await Promise.all([
+    Promise.all(slices(matchedSources, MAX_PARAMS - 1).map((batch) =>
+      database.select().from(memoryEdges).where(and(eq(memoryEdges.userId, userId), inArray(memoryEdges.sourceId, batch)))
+    )).then((rows) => new Map(rows.flat().map((edge) => [relationKey(edge.sourceId, edge.targetId, edge.type), edge]))),
+    owners(memoryEdges, edges.map((edge) => edge.id)),
+  ])
+  const createdEdges = new Map<string, MemoryEdge>()
+  const mergedEdges = new Map<string, { before: MemoryEdge; after: MemoryEdge }>()
+  let edgesMerged = 0
+  for (const edge of edges) {
+    // Two nodes of the archive that were merged into one leave nothing to relate
+    if (edge.sourceId === edge.targetId) continue
+    const key = relationKey(edge.sourceId, edge.targetId, edge.type)
+    const existing = existingEdges.get(key)
+    const planned = createdEdges.get(key)
+    if (existing) {
+      const current = mergedEdges.get(existing.id)?.after ?? existing
+      const merged = mergeAttributes(current.attributes, edge.attributes)
+      if (merged.conflicts.length > 0) {
+        conflicts.push({ kind: "edge", id: edge.id, existingId: existing.id, label: edge.type, fields: merged.conflicts })
+      }
+      if (merged.added) mergedEdges.set(existing.id, { before: existing, after: { ...current, attributes: merged.attributes, updatedAt: new Date(now) } })
+      ids.set(edge.id, existing.id)
+      edgesMerged++
+    } else if (planned) {
+      planned.attributes = mergeAttributes(planned.attributes, edge.attributes).attributes
+      ids.set(edge.id, planned.id)
+      edgesMerged++
+    } else {
+      createdEdges.set(key, {
+        id: assign(edge.id, edgeOwners.get(edge.id)),
+        userId,
+        sourceId: edge.sourceId,
+        targetId: edge.targetId,
+        type: edge.type,
+        weight: edge.weight,
+        attributes: edge.attributes,
+        confidence: edge.confidence,
+        decayedAt: null,
+        createdAt: edge.createdAt ?? new Date(now),
+        updatedAt: edge.updatedAt ?? edge.createdAt ?? new Date(now),
+      })
+    }
+  }
+
+  for (const message of messageRows) {
+    if (message.context) message.context = remapContext(message.context, ids)
+  }
+
+  // Provenance, for the messages that are in the account after the import. The ids let a failed
+  // import remove rows that link memory and messages it did not create itself.
+  const sourceRows = prepared.sources.flatMap((source) => {
+    const messageId = ids.get(source.messageId)
+    const itemId = ids.get((source.nodeId ?? source.edgeId)!)
+    if (!messageId || !itemId) return []
+    return [{ id: crypto.randomUUID(), userId, ...(source.nodeId ? { nodeId: itemId } : { edgeId: itemId }), messageId, sessionId: sessionOf.get(messageId)! }]
+  })
+
+  const report: ImportReport = {
+    dryRun,
+    sessions: { created: sessionRows.length, skipped: prepared.sessions.length - sessionRows.length },
+    messages: messageRows.length,
+    nodes: { created: createdNodes.size, merged: nodesMerged },
+    edges: { created: createdEdges.size, merged: edgesMerged },
+    sources: sourceRows.length,
+    conflicts,
+    remapped,
+  }
+  if (dryRun) return { report, sessions: [], messages: [], nodes: [] }
+
+  // Parents come before their children, so every statement only refers to rows written before it
+  await runAll([
+    ...slices(sessionRows, Math.floor(MAX_PARAMS / 15)).map((batch) => database.insert(sessions).values(batch)),
+    ...slices(messageRows, Math.floor(MAX_PARAMS / 11)).map((batch) => database.insert(messages).values(batch)),
+    ...slices([...createdNodes.values()], Math.floor(MAX_PARAMS / 10)).map((batch) => database.insert(memoryNodes).values(batch)),
+    ...[...mergedNodes.values()].map(({ after }) => database.update(memoryNodes).set({ attributes: after.attributes, updatedAt: after.updatedAt }).where(eq(memoryNodes.id, after.id))),
+    ...slices([...createdEdges.values()], Math.floor(MAX_PARAMS / 11)).map((batch) => database.insert(memoryEdges).values(batch)),
+    ...[...mergedEdges.values()].map(({ after }) => database.update(memoryEdges).set({ attributes: after.attributes, updatedAt: after.updatedAt }).where(eq(memoryEdges.id, after.id))),
+    ...slices(sourceRows, Math.floor(MAX_PARAMS / 7)).map((batch) => database.insert(memorySources).values(batch).onConflictDoNothing()),
+  ], () => [
+    // Deleting the created rows takes their sources, edges and messages with them
+    ...slices(sourceRows.map((row) => row.id), MAX_PARAMS).map((batch) => database.delete(memorySources).where(inArray(memorySources.id, batch))),
+    ...slices([...createdEdges.values()].map((edge) => edge.id), MAX_PARAMS).map((batch) => database.delete(memoryEdges).where(inArray(memoryEdges.id, batch))),
+    ...[...mergedEdges.values()].map(({ before }) => database.update(memoryEdges).set({ attributes: before.attributes, updatedAt: before.updatedAt }).where(eq(memoryEdges.id, before.id))),
+    ...slices([...createdNodes.values()].map((node) => node.id), MAX_PARAMS).map((batch) => database.delete(memoryNodes).where(inArray(memoryNodes.id, batch))),
+    ...[...mergedNodes.values()].map(({ before }) => database.update(memoryNodes).set({ attributes: before.attributes, updatedAt: before.updatedAt }).where(eq(memoryNodes.id, before.id))),
+    ...slices(sessionRows.map((session) => session.id), MAX_PARAMS).map((batch) => database.delete(sessions).where(inArray(sessions.id, batch))),
+  ])
+
+  const changes: MemoryChange[] = [
+    ...[...createdNodes.values()].map((node) => ({ kind: "node" as const, id: node.id, before: null, after: node })),
+    ...[...mergedNodes.values()].map(({ before, after }) => ({ kind: "node" as const, id: after.id, before, after })),
+    ...[...createdEdges.values()].map((edge) => ({ kind: "edge" as const, id: edge.id, before: null, after: edge })),
+    ...[...mergedEdges.values()].map(({ before, after }) => ({ kind: "edge" as const, id: after.id, before, after })),
+  ]
+  await auditChanges(userId, await summarize(userId, changes), { via: "import" })
+
+  return {
+    report,
+    sessions: sessionRows,
+    messages: messageRows,
+    nodes: [...createdNodes.values(), ...[...mergedNodes.values()].map(({ after }) => after)],
+  }
+}
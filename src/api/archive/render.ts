@@ -0,0 +1,120 @@
+import { branchTo } from "../sessions/store"
+import type { MemoryGraph, SessionEntry } from "./export"
+
+const ROLES = { user: "You", ai: "Assistant" }
+
+const timestamp = (date: Date) => `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`
+
+/**
+ * Sessions as readable transcripts, one after the other. Only the active branch of each is
+ * written out; the JSON archive keeps edits and regenerated replies as well.
+ */
+export function toMarkdown(sessions: SessionEntry[]) {
+  return sessions.map((session) => {
+    const branch = branchTo(session.messages, session.leafId)
+    const header = [
+      `# ${session.title}`,
+      "",
+      `Started ${timestamp(session.createdAt)} · ${branch.length} messages${session.incognito ? " · incognito" : ""}`,
+    ]
+    const body = branch.map((message) => `### ${ROLES[message.role]} · ${timestamp(message.createdAt)}\n\n${message.content}`)
+    return [...header, "", ...body.flatMap((part) => [part, ""])].join("\n")
+  }).join("\n---\n\n")
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const data = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`
+
+// GraphML keys are declared once per element and attribute; `attributes` holds the JSON object.
+const GRAPHML_KEYS = [
+  ["n_kind", "node", "kind", "string"],
+  ["n_type", "node", "type", "string"],
+  ["n_label", "node", "label", "string"],
+  ["n_attributes", "node", "attributes", "string"],
+  ["n_confidence", "node", "confidence", "double"],
+  ["n_created", "node", "createdAt", "string"],
+  ["e_type", "edge", "type", "string"],
+  ["e_weight", "edge", "weight", "double"],
+  ["e_attributes", "edge", "attributes", "string"],
+  ["e_confidence", "edge", "confidence", "double"],
+  ["e_created", "edge", "createdAt", "string"],
+]
+
+// The graph for tools like Gephi, yEd or networkx.
+export function toGraphML({ nodes, edges }: MemoryGraph) {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...GRAPHML_KEYS.map(([id, element, name, type]) => `  <key id="${id}" for="${element}" attr.name="${name}" attr.type="${type}"/>`),
+    `  <graph id="memory" edgedefault="directed">`,
+    ...nodes.map((node) => `    <node id="${escapeXml(node.id)}">${[
+      data("n_kind", node.kind),
+      data("n_type", node.type),
+      data("n_label", node.label),
+      data("n_attributes", JSON.stringify(node.attributes)),
+      data("n_confidence", node.confidence),
+      data("n_created", node.createdAt.toISOString()),
+    ].join("")}</node>`),
+    ...edges.map((edge) => `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.sourceId)}" target="${escapeXml(edge.targetId)}">${[
+      data("e_type", edge.type),
+      data("e_weight", edge.weight),
+      data("e_attributes", JSON.stringify(edge.attributes)),
+      data("e_confidence", edge.confidence),
+      data("e_created", edge.createdAt.toISOString()),
+    ].join("")}</edge>`),
+    `  </graph>`,
+    `</graphml>`,
+    "",
+  ].join("\n")
+}
+
+const MEMORY_NAMESPACE = "urn:x-memory:"
+
+const JSON_LD_CONTEXT = {
+  "@vocab": "https://schema.org/",
+  memory: MEMORY_NAMESPACE,
+  kind: "memory:kind",
+  confidence: "memory:confidence",
+  weight: "memory:weight",
+  relations: "memory:relation",
+  target: { "@id": "memory:target", "@type": "@id" },
+}
+
+/**
+ * Linked data with schema.org terms: entities are `Thing`s and facts `Claim`s, both with their
+ * memory type as `additionalType`. Relations, which schema.org has no term for, hang off their
+ * source node under the memory vocabulary.
+ */
+export function toJsonLd({ nodes, edges }: MemoryGraph) {
+  const iri = (kind: "node" | "edge", id: string) => `${MEMORY_NAMESPACE}${kind}:${id}`
+  const bySource = new Map<string, MemoryGraph["edges"]>()
+  for (const edge of edges) {
+    if (!bySource.has(edge.sourceId)) bySource.set(edge.sourceId, [])
+    bySource.get(edge.sourceId)!.push(edge)
+  }
+  return {
+    "@context": JSON_LD_CONTEXT,
+    "@graph": nodes.map((node) => ({
+      "@id": iri("node", node.id),
+      "@type": node.kind === "entity" ? "Thing" : "Claim",
+      additionalType: node.type,
+      [node.kind === "entity" ? "name" : "text"]: node.label,
+      kind: node.kind,
+      confidence: node.confidence,
+      dateCreated: node.createdAt,
+      dateModified: node.updatedAt,
+      additionalProperty: Object.entries(node.attributes).map(([name, value]) => ({ "@type": "PropertyValue", name, value })),
+      relations: (bySource.get(node.id) ?? []).map((edge) => ({
+        "@id": iri("edge", edge.id),
+        "@type": "memory:Relation",
+        additionalType: edge.type,
+        target: iri("node", edge.targetId),
+        weight: edge.weight,
+        confidence: edge.confidence,
+        dateCreated: edge.createdAt,
+      })),
+    })),
+  }
+}
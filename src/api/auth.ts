@@ -0,0 +1,37 @@
+import { env } from "cloudflare:workers";
+import { betterAuth } from 'better-auth';
+import { drizzleAdapter } from 'better-auth/adapters/drizzle';
+import { drizzle } from 'drizzle-orm/d1';
+import { claimLegacyData } from './database/legacy';
+import * as schema from './database/schema';
+
+const db = drizzle(env.DB, { schema });
+
+export const createAuth = (baseURL: string) => betterAuth({
+  database: drizzleAdapter(db, {
+    provider: 'sqlite',
+  }),
+  emailAndPassword: {
+    enabled: true,
+  },
+  databaseHooks: {
+    user: {
+      create: {
+        // The first account takes over what was written before there were accounts
+        after: async (user) => {
+          await claimLegacyData(user.id);
+        },
+      },
+    },
+  },
+  secret: env.BETTER_AUTH_SECRET,
+  baseURL,
+  trustedOrigins: async (request) => {
+    const origin = request?.headers.get("origin");
+    if (origin) return [origin];
+    return [];
+  },
+});
+
+// Static export for CLI schema generation
+export const auth = createAuth(env.VITE_BASE_URL ?? "http://localhost:5176");
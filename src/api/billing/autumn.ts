@@ -0,0 +1,57 @@
+import type { Autumn, AutumnError, CustomerFeature } from "autumn-js"
+import { defaultPlan } from "./plans"
+import type { BillingClient, FeatureBalance, FeatureId } from "./types"
+
+type Result<T> = { data: T; error: null } | { data: null; error: AutumnError }
+
+const unwrap = async <T>(result: Promise<Result<T>>) => {
+  const { data, error } = await result
+  if (error) throw new Error(`Autumn request failed: ${error.message}`)
+  return data!
+}
+
+const toBalance = (featureId: FeatureId, allowed: boolean, feature: Partial<CustomerFeature>): FeatureBalance => ({
+  featureId,
+  allowed,
+  usage: feature.usage ?? 0,
+  limit: feature.unlimited ? null : feature.included_usage ?? 0,
+  overage: feature.overage_allowed ?? false,
+  resetsAt: feature.next_reset_at ?? null,
+})
+
+// Autumn keys customers by the Better Auth user id, so no mapping table is needed.
+export const autumnBilling = (autumn: Autumn): BillingClient => ({
+  check: async (userId, featureId, required = 1) => {
+    const data = await unwrap(autumn.check({ customer_id: userId, feature_id: featureId, required_balance: required }))
+    return toBalance(featureId, data.allowed, data)
+  },
+  checkAndTrack: async (userId, featureId, required = 1) => {
+    const data = await unwrap(autumn.check({ customer_id: userId, feature_id: featureId, required_balance: required, send_event: true }))
+    return toBalance(featureId, data.allowed, data)
+  },
+  track: async (userId, featureId, value = 1) => {
+    await unwrap(autumn.track({ customer_id: userId, feature_id: featureId, value }))
+  },
+  setUsage: async (userId, featureId, value) => {
+    await unwrap(autumn.usage({ customer_id: userId, feature_id: featureId, value }))
+  },
+  // Creating an existing customer returns it, which also attaches the default plan on first use.
+  customer: async ({ id, name, email }) => {
+    const customer = await unwrap(autumn.customers.create({ id, name, email }))
+    const plan = customer.products.find((product) => !product.is_add_on && (product.status === "active" || product.status === "trialing"))
+    return {
+      planId: plan?.id ?? defaultPlan.id,
+      features: Object.values(customer.features)
+        .filter((feature) => feature.type !== "static")
+        .map((feature) => {
+          // Same meaning as a check for one more unit
+          const balance = toBalance(feature.id as FeatureId, true, feature)
+          return { ...balance, allowed: balance.limit === null || balance.overage || balance.usage < balance.limit }
+        }),
+    }
+  },
+  checkout: async (userId, planId, successUrl) => {
+    const data = await unwrap(autumn.attach({ customer_id: userId, product_id: planId, success_url: successUrl }))
+    return { url: data.checkout_url ?? null }
+  },
+})
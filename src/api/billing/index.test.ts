@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { allows, defaultBilling, release, reserve, type BillingClient } from "./index"
+import { localBilling } from "./local"
+
+const unreachable = (): BillingClient => {
+  const fail = () => Promise.reject(new Error("Autumn is down"))
+  return { check: fail, track: fail, checkAndTrack: fail, setUsage: fail, customer: fail, checkout: fail }
+}
+
+describe("billing", () => {
+  it("uses local billing when BILLING_BACKEND is local", async () => {
+    await defaultBilling.setUsage("user", "messages", 1)
+    expect((await defaultBilling.check("user", "messages", 0)).usage).toBe(1)
+  })
+
+  it("reserves messages until the limit and gives them back", async () => {
+    const billing = localBilling()
+    await billing.setUsage("user", "messages", 99)
+
+    expect(await reserve(billing, "user", "messages")).toBe(true)
+    expect(await reserve(billing, "user", "messages")).toBe(false)
+    await release(billing, "user", "messages")
+    expect(await allows(billing, "user", "messages")).toBe(true)
+    expect((await billing.check("user", "messages", 0)).usage).toBe(99)
+  })
+
+  it("lets requests through when the provider cannot be reached", async () => {
+    const billing = unreachable()
+
+    expect(await allows(billing, "user", "messages")).toBe(true)
+    expect(await reserve(billing, "user", "messages")).toBe(true)
+    await expect(release(billing, "user", "messages")).resolves.toBeUndefined()
+  })
+})
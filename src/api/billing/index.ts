@@ -0,0 +1,69 @@
+import { env } from "cloudflare:workers"
+import { Autumn } from "autumn-js"
+import type { Context } from "hono"
+import { createMiddleware } from "hono/factory"
+import { countNodes } from "../memory/store"
+import { autumnBilling } from "./autumn"
+import { localBilling } from "./local"
+import type { BillingClient, FeatureId } from "./types"
+
+export type { BillingClient, BillingCustomer, FeatureBalance, FeatureId } from "./types"
+export { findPlan, plans } from "./plans"
+
+declare module "hono" {
+  interface ContextVariableMap {
+    billing: BillingClient
+  }
+}
+
+// Usage is only kept in memory when asked for, a missing Autumn key must not hand out plans for free
+function createBilling() {
+  if (env.BILLING_BACKEND === "local") return localBilling()
+  if (!env.AUTUMN_SECRET_KEY) throw new Error("AUTUMN_SECRET_KEY is not set, set it or BILLING_BACKEND=local")
+  return autumnBilling(new Autumn({ secretKey: env.AUTUMN_SECRET_KEY }))
+}
+
+export const defaultBilling = createBilling()
+
+// Routes read the client from the context, so tests can mount them behind a fake.
+export const billingMiddleware = (client: BillingClient) =>
+  createMiddleware(async (c, next) => {
+    c.set("billing", client)
+    return next()
+  })
+
+export const billingOf = (c: Context) => c.get("billing")
+
+/**
+ * Whether the user may use `required` more of a feature. An unreachable billing provider
+ * should not take the app down with it, so failed checks allow the request.
+ */
+export async function allows(billing: BillingClient, userId: string, featureId: FeatureId, required = 1) {
+  try {
+    return (await billing.check(userId, featureId, required)).allowed
+  } catch (error) {
+    console.error("Usage check failed", error)
+    return true
+  }
+}
+
+/**
+ * Like `allows`, but also counts the unit when it is allowed, so concurrent requests cannot
+ * all take the last one. Give it back with `release` when nothing was used after all.
+ */
+export async function reserve(billing: BillingClient, userId: string, featureId: FeatureId) {
+  try {
+    return (await billing.checkAndTrack(userId, featureId)).allowed
+  } catch (error) {
+    console.error("Usage check failed", error)
+    return true
+  }
+}
+
+export const release = (billing: BillingClient, userId: string, featureId: FeatureId) =>
+  billing.track(userId, featureId, -1).catch((error) => console.error("Usage tracking failed", error))
+
+// Memory nodes are a continuous feature: Autumn gets the current count rather than increments.
+export async function syncMemoryUsage(billing: BillingClient, userId: string) {
+  await billing.setUsage(userId, "memory_nodes", await countNodes(userId))
+}
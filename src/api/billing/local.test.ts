@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { localBilling } from "./local"
+
+// The free plan of autumn.config.ts includes 100 messages a month and 250 memory nodes
+const MESSAGES = 100
+const NODES = 250
+
+const at = (date: string) => () => new Date(date).getTime()
+
+describe("localBilling", () => {
+  it("allows messages up to the plan's limit", async () => {
+    const billing = localBilling()
+    await billing.setUsage("user", "messages", MESSAGES - 1)
+
+    expect((await billing.check("user", "messages")).allowed).toBe(true)
+    expect((await billing.check("user", "messages", 2)).allowed).toBe(false)
+    await billing.track("user", "messages")
+    expect(await billing.check("user", "messages")).toMatchObject({ allowed: false, usage: MESSAGES, limit: MESSAGES })
+  })
+
+  it("counts a unit that checkAndTrack allows, and only then", async () => {
+    const billing = localBilling()
+    await billing.setUsage("user", "messages", MESSAGES - 2)
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => billing.checkAndTrack("user", "messages")))
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, false, false, false])
+    expect((await billing.check("user", "messages", 0)).usage).toBe(MESSAGES)
+  })
+
+  it("starts counting messages again each month", async () => {
+    let now = at("2026-03-31T23:00:00Z")
+    const billing = localBilling(() => now())
+    await billing.setUsage("user", "messages", MESSAGES)
+    expect(await billing.check("user", "messages")).toMatchObject({ allowed: false, resetsAt: Date.UTC(2026, 3, 1) })
+
+    now = at("2026-04-01T01:00:00Z")
+    expect(await billing.check("user", "messages")).toMatchObject({ allowed: true, usage: 0 })
+  })
+
+  it("sets memory nodes to the absolute count, which never resets", async () => {
+    let now = at("2026-03-15T00:00:00Z")
+    const billing = localBilling(() => now())
+    await billing.setUsage("user", "memory_nodes", NODES)
+    await billing.setUsage("user", "memory_nodes", NODES - 10)
+
+    now = at("2026-05-15T00:00:00Z")
+    expect(await billing.check("user", "memory_nodes", 10)).toMatchObject({ allowed: true, usage: NODES - 10, resetsAt: null })
+    expect((await billing.check("user", "memory_nodes", 11)).allowed).toBe(false)
+  })
+
+  it("keeps the usage of accounts apart", async () => {
+    const billing = localBilling()
+    await billing.setUsage("alice", "messages", MESSAGES)
+
+    expect((await billing.check("bob", "messages")).allowed).toBe(true)
+  })
+
+  it("switches plans without payment and bills messages past the pro plan's limit", async () => {
+    const billing = localBilling()
+    await billing.setUsage("user", "messages", MESSAGES)
+
+    expect(await billing.checkout("user", "pro", "http://localhost/")).toEqual({ url: null })
+    expect(await billing.customer({ id: "user", name: "User", email: "user@example.com" })).toMatchObject({ planId: "pro" })
+    await billing.setUsage("user", "messages", 5000)
+    expect(await billing.check("user", "messages")).toMatchObject({ allowed: true, overage: true })
+    await expect(billing.checkout("user", "enterprise", "http://localhost/")).rejects.toThrow("Unknown plan")
+  })
+})
@@ -0,0 +1,85 @@
+import { defaultPlan, findPlan, type PlanFeature } from "./plans"
+import type { BillingClient, FeatureBalance, FeatureId } from "./types"
+
+interface Account {
+  planId: string
+  // Usage per feature, with the start of the period it was counted in
+  usage: Map<FeatureId, { value: number; periodStart: number }>
+}
+
+const monthStart = (time: number) => {
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+const nextMonthStart = (time: number) => {
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+/**
+ * Applies the plans from autumn.config.ts to usage kept in memory. Usage is lost when the
+ * worker restarts and plan changes need no payment, which is what offline development
+ * and tests want. Only monthly intervals are modelled.
+ */
+export function localBilling(now = () => Date.now()): BillingClient {
+  const accounts = new Map<string, Account>()
+
+  const account = (userId: string) => {
+    const existing = accounts.get(userId)
+    if (existing) return existing
+    const created: Account = { planId: defaultPlan.id, usage: new Map() }
+    accounts.set(userId, created)
+    return created
+  }
+
+  const featureOf = (planId: string, featureId: FeatureId) =>
+    findPlan(planId)?.features.find((feature) => feature.featureId === featureId)
+
+  const usageOf = (userId: string, feature: PlanFeature | undefined) => {
+    const entry = feature && account(userId).usage.get(feature.featureId)
+    if (!entry) return 0
+    return feature.interval && entry.periodStart < monthStart(now()) ? 0 : entry.value
+  }
+
+  const balance = (userId: string, featureId: FeatureId, required: number): FeatureBalance => {
+    const feature = featureOf(account(userId).planId, featureId)
+    const usage = usageOf(userId, feature)
+    const limit = feature ? feature.included : 0
+    const overage = feature?.overage ?? false
+    return {
+      featureId,
+      allowed: limit === null || overage || usage + required <= limit,
+      usage,
+      limit,
+      overage,
+      resetsAt: feature?.interval ? nextMonthStart(now()) : null,
+    }
+  }
+
+  const write = (userId: string, featureId: FeatureId, value: number) => {
+    account(userId).usage.set(featureId, { value, periodStart: monthStart(now()) })
+  }
+
+  return {
+    check: async (userId, featureId, required = 1) => balance(userId, featureId, required),
+    track: async (userId, featureId, value = 1) => {
+      write(userId, featureId, usageOf(userId, featureOf(account(userId).planId, featureId)) + value)
+    },
+    checkAndTrack: async (userId, featureId, required = 1) => {
+      const checked = balance(userId, featureId, required)
+      if (checked.allowed) write(userId, featureId, checked.usage + required)
+      return checked
+    },
+    setUsage: async (userId, featureId, value) => write(userId, featureId, value),
+    customer: async ({ id }) => {
+      const plan = findPlan(account(id).planId) ?? defaultPlan
+      return { planId: plan.id, features: plan.features.map((feature) => balance(id, feature.featureId, 1)) }
+    },
+    checkout: async (userId, planId) => {
+      if (!findPlan(planId)) throw new Error(`Unknown plan ${planId}`)
+      account(userId).planId = planId
+      return { url: null }
+    },
+  }
+}
@@ -0,0 +1,42 @@
+import config from "../../../autumn.config"
+import type { FeatureId } from "./types"
+
+export interface PlanFeature {
+  featureId: FeatureId
+  name: string
+  included: number | null
+  interval: string | null
+  overage: boolean
+}
+
+export interface Plan {
+  id: string
+  name: string
+  // Monthly price in dollars, null for free plans
+  price: number | null
+  isDefault: boolean
+  features: PlanFeature[]
+}
+
+const featureNames = new Map(config.features.map((feature) => [feature.id, feature.name ?? feature.id]))
+
+// The plan catalogue as the UI shows it, read from the same config that `atmn push` syncs to Autumn.
+export const plans: Plan[] = config.products.map((product) => ({
+  id: product.id,
+  name: product.name,
+  price: product.items.find((item) => !item.feature_id && item.price)?.price ?? null,
+  isDefault: product.is_default ?? false,
+  features: product.items.flatMap((item) => item.feature_id
+    ? [{
+        featureId: item.feature_id as FeatureId,
+        name: featureNames.get(item.feature_id) ?? item.feature_id,
+        included: item.included_usage === "inf" ? null : item.included_usage ?? 0,
+        interval: item.interval ?? null,
+        overage: item.usage_model === "pay_per_use",
+      }]
+    : []),
+}))
+
+export const defaultPlan = plans.find((plan) => plan.isDefault) ?? plans[0]
+
+export const findPlan = (id: string) => plans.find((plan) => plan.id === id)
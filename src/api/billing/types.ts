@@ -0,0 +1,40 @@
+export type FeatureId = "messages" | "memory_nodes"
+
+export interface FeatureBalance {
+  featureId: FeatureId
+  allowed: boolean
+  usage: number
+  // null when the plan does not cap the feature
+  limit: number | null
+  // Usage past the limit is billed instead of refused
+  overage: boolean
+  // Epoch milliseconds of the next usage reset, null for features that never reset
+  resetsAt: number | null
+}
+
+export interface BillingCustomer {
+  planId: string
+  features: FeatureBalance[]
+}
+
+export interface CustomerIdentity {
+  id: string
+  name: string
+  email: string
+}
+
+/**
+ * What the app needs from a billing provider. Autumn implements it in production,
+ * `localBilling` keeps usage in memory for offline development and tests.
+ */
+export interface BillingClient {
+  check(userId: string, featureId: FeatureId, required?: number): Promise<FeatureBalance>
+  track(userId: string, featureId: FeatureId, value?: number): Promise<void>
+  // Checks for `required` more and, when allowed, records it in the same step
+  checkAndTrack(userId: string, featureId: FeatureId, required?: number): Promise<FeatureBalance>
+  // Sets the absolute usage of a continuous feature such as stored memory nodes
+  setUsage(userId: string, featureId: FeatureId, value: number): Promise<void>
+  customer(identity: CustomerIdentity): Promise<BillingCustomer>
+  // Returns a payment page to send the user to, or null when the plan was switched right away
+  checkout(userId: string, planId: string, successUrl: string): Promise<{ url: string | null }>
+}
@@ -0,0 +1,5 @@
+// D1 caps bound parameters per statement at 100, so large id lists are queried in slices.
+export const MAX_PARAMS = 90
+
+export const slices = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size))
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { upsertNode } from "../memory/store"
+import { createSession } from "../sessions/store"
+import { signUp } from "../testing/users"
+import { database } from "."
+import { LEGACY_OWNER } from "./legacy"
+import { memoryNodes, sessions, user } from "./schema"
+
+describe("claimLegacyData", () => {
+  it("gives what was written before accounts to the first account that signs up", async () => {
+    // What migration 0004 leaves behind for a database with chats from before accounts
+    await database.insert(user).values({ id: LEGACY_OWNER, name: "Legacy data", email: "legacy@localhost" })
+    const session = await createSession(LEGACY_OWNER)
+    const node = await upsertNode(LEGACY_OWNER, { kind: "entity", type: "place", label: "Rome" })
+
+    const first = await signUp()
+    const second = await signUp()
+
+    expect(await database.select({ userId: sessions.userId }).from(sessions).where(eq(sessions.id, session.id))).toEqual([{ userId: first.userId }])
+    expect(await database.select({ userId: memoryNodes.userId }).from(memoryNodes).where(eq(memoryNodes.id, node.id))).toEqual([{ userId: first.userId }])
+    expect(await database.select().from(user).where(eq(user.id, LEGACY_OWNER))).toEqual([])
+    expect(await database.select().from(sessions).where(eq(sessions.userId, second.userId))).toEqual([])
+  })
+})
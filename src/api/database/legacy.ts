@@ -0,0 +1,26 @@
+import { eq, getTableColumns, is } from "drizzle-orm"
+import type { BatchItem } from "drizzle-orm/batch"
+import { SQLiteTable } from "drizzle-orm/sqlite-core"
+import { database } from "."
+import * as schema from "./schema"
+
+// Placeholder account that migration 0004 gave the chats and memory written before accounts existed
+export const LEGACY_OWNER = "legacy"
+
+const ownedTables = (Object.values(schema) as unknown[]).filter((value): value is SQLiteTable => is(value, SQLiteTable) && "userId" in getTableColumns(value))
+
+/**
+ * Hands the placeholder's data to `userId` and removes the placeholder, in one batch so
+ * that a second sign-up at the same time finds nothing left to claim. Runs for every new
+ * account and does nothing once the data has been claimed or when there never was any.
+ */
+export async function claimLegacyData(userId: string) {
+  const legacy = await database.query.user.findFirst({ where: eq(schema.user.id, LEGACY_OWNER), columns: { id: true } })
+  if (!legacy) return
+  const statements: BatchItem<"sqlite">[] = [
+    ...ownedTables.map((table) => database.update(table).set({ userId }).where(eq(getTableColumns(table).userId, LEGACY_OWNER))),
+    // Last, since its rows would cascade away with it
+    database.delete(schema.user).where(eq(schema.user.id, LEGACY_OWNER)),
+  ]
+  await database.batch(statements as [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]])
+}
@@ -1,6 +1,361 @@
-import { } from "drizzle-orm/sqlite-core"
+import type { UIMessage } from "ai"
+import { index, integer, real, sqliteTable, text, uniqueIndex, type AnySQLiteColumn } from "drizzle-orm/sqlite-core"
+import { user } from "./auth-schema"
+
+export * from "./auth-schema"
 
 /**
  * You can write your custom database schema here.
  * Use this file for also re-exporting any generated schema for drizzle to generate proper migrations.
  */
+
+const id = () => text("id").primaryKey().$defaultFn(() => crypto.randomUUID())
+const createdAt = () => integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date())
+// Every row of user data belongs to exactly one account and goes away with it.
+const userId = () => text("user_id").notNull().references(() => user.id, { onDelete: "cascade" })
+const updatedAt = () => integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()).$onUpdateFn(() => new Date())
+
+export type MemoryAttributes = Record<string, string | number | boolean | null>
+
+export interface SourceReference {
+  messageId: string
+  sessionId: string
+}
+
+/**
+ * What was put into the model context for an AI message: the retrieved memory
+ * with the messages each piece was learned from, plus how much of the session was replayed.
+ */
+export interface MessageContext {
+  memory: {
+    kind: "node" | "edge"
+    id: string
+    text: string
+    score: number
+    sources: SourceReference[]
+  }[]
+  messages: (SourceReference & {
+    role: "user" | "ai"
+    excerpt: string
+    sessionTitle: string
+    createdAt: string
+  })[]
+  history: number
+}
+
+/**
+ * A node in the memory graph. Entities are the things a conversation talks about
+ * (people, projects, tools), facts are standalone statements linked to the entities they are about.
+ * `key` is the normalized identity used to upsert the same node from different exchanges.
+ */
+export const memoryNodes = sqliteTable("memory_nodes", {
+  id: id(),
+  userId: userId(),
+  key: text("key").notNull(),
+  kind: text("kind", { enum: ["entity", "fact"] }).notNull(),
+  type: text("type").notNull(),
+  label: text("label").notNull(),
+  attributes: text("attributes", { mode: "json" }).$type<MemoryAttributes>().notNull().default({}),
+  confidence: real("confidence").notNull().default(0.5),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+}, (table) => [
+  uniqueIndex("memory_nodes_key_idx").on(table.userId, table.key),
+  index("memory_nodes_type_idx").on(table.type),
+])
+
+/**
+ * A typed, weighted relation between two memory nodes. Weights live in [0, 1]
+ * and are reinforced every time the same relation is extracted again.
+ */
+export const memoryEdges = sqliteTable("memory_edges", {
+  id: id(),
+  userId: userId(),
+  sourceId: text("source_id").notNull().references(() => memoryNodes.id, { onDelete: "cascade" }),
+  targetId: text("target_id").notNull().references(() => memoryNodes.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  weight: real("weight").notNull().default(0.5),
+  attributes: text("attributes", { mode: "json" }).$type<MemoryAttributes>().notNull().default({}),
+  confidence: real("confidence").notNull().default(0.5),
+  // Last time consolidation weakened the edge; it decays again only after another idle period
+  decayedAt: integer("decayed_at", { mode: "timestamp_ms" }),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+}, (table) => [
+  uniqueIndex("memory_edges_relation_idx").on(table.sourceId, table.targetId, table.type),
+  index("memory_edges_target_idx").on(table.targetId),
+  index("memory_edges_user_idx").on(table.userId),
+])
+
+/**
+ * A reusable set of chat settings: instructions for the model and, optionally, the model and
+ * temperature to use. Sessions started with a persona keep using it until it is changed or deleted.
+ */
+export const personas = sqliteTable("personas", {
+  id: id(),
+  userId: userId(),
+  name: text("name").notNull(),
+  systemPrompt: text("system_prompt").notNull().default(""),
+  model: text("model"),
+  temperature: real("temperature"),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+}, (table) => [
+  index("personas_user_idx").on(table.userId, table.createdAt),
+])
+
+// Title of a session until its first exchange is titled by the model or the user renames it
+export const DEFAULT_TITLE = "New Chat"
+
+/**
+ * A chat session. `updatedAt` moves forward with every new message so the
+ * sidebar can list the most recently active sessions first.
+ */
+export const sessions = sqliteTable("sessions", {
+  id: id(),
+  userId: userId(),
+  title: text("title").notNull().default(DEFAULT_TITLE),
+  preview: text("preview").notNull().default(""),
+  // Last message of the branch that is shown and sent to the model
+  leafId: text("leaf_id"),
+  // Fact node the session was rolled into by consolidation, cleared when that node goes
+  summaryId: text("summary_id").references(() => memoryNodes.id, { onDelete: "set null" }),
+  // Pinned sessions are listed above the others, archived ones are left out of the sidebar
+  pinnedAt: integer("pinned_at", { mode: "timestamp_ms" }),
+  archivedAt: integer("archived_at", { mode: "timestamp_ms" }),
+  // Incognito sessions are never remembered: no extraction, no memory tools, no message index
+  incognito: integer("incognito", { mode: "boolean" }).notNull().default(false),
+  // Overrides of the chat settings, see src/api/settings/chat.ts; null falls back to the persona, then the account
+  personaId: text("persona_id").references(() => personas.id, { onDelete: "set null" }),
+  model: text("model"),
+  temperature: real("temperature"),
+  systemPrompt: text("system_prompt"),
+  // Key of the title in `sessions_fts`, numbered by the triggers of migration 0013
+  searchId: integer("search_id"),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+}, (table) => [
+  index("sessions_updated_at_idx").on(table.userId, table.updatedAt, table.id),
+  uniqueIndex("sessions_search_id_idx").on(table.searchId),
+])
+
+export const messages = sqliteTable("messages", {
+  id: id(),
+  userId: userId(),
+  sessionId: text("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  // Messages form a tree: edits and regenerated replies are siblings under the same parent
+  parentId: text("parent_id").references((): AnySQLiteColumn => messages.id, { onDelete: "cascade" }),
+  role: text("role", { enum: ["user", "ai"] }).notNull(),
+  content: text("content").notNull(),
+  context: text("context", { mode: "json" }).$type<MessageContext>(),
+  // Full UI parts of AI messages that called tools, `content` keeps only their text
+  parts: text("parts", { mode: "json" }).$type<UIMessage["parts"]>(),
+  // False for messages of incognito sessions, messages the user asked not to remember and the replies to them
+  remember: integer("remember", { mode: "boolean" }).notNull().default(true),
+  // The model that wrote an AI message, null for user messages and replies from before models could be chosen
+  model: text("model"),
+  // Key of the content in `messages_fts`, numbered by the triggers of migration 0013
+  searchId: integer("search_id"),
+  createdAt: createdAt(),
+}, (table) => [
+  index("messages_session_idx").on(table.sessionId, table.createdAt),
+  index("messages_parent_idx").on(table.parentId),
+  uniqueIndex("messages_search_id_idx").on(table.searchId),
+])
+
+/**
+ * Provenance of the memory graph: which message a node or edge was extracted from.
+ * Exactly one of `nodeId` and `edgeId` is set.
+ */
+export const memorySources = sqliteTable("memory_sources", {
+  id: id(),
+  userId: userId(),
+  nodeId: text("node_id").references(() => memoryNodes.id, { onDelete: "cascade" }),
+  edgeId: text("edge_id").references(() => memoryEdges.id, { onDelete: "cascade" }),
+  messageId: text("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  sessionId: text("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  // Set while the message is on a branch the user navigated away from
+  abandoned: integer("abandoned", { mode: "boolean" }).notNull().default(false),
+  createdAt: createdAt(),
+}, (table) => [
+  uniqueIndex("memory_sources_node_idx").on(table.nodeId, table.messageId),
+  uniqueIndex("memory_sources_edge_idx").on(table.edgeId, table.messageId),
+  index("memory_sources_message_idx").on(table.messageId),
+])
+
+/**
+ * A file the user uploaded into memory. The original is kept in R2 under `key`; ingestion
+ * splits it into chunks and runs each one through extraction, counting `processedChunks`.
+ */
+export const documents = sqliteTable("documents", {
+  id: id(),
+  userId: userId(),
+  name: text("name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  key: text("key").notNull(),
+  status: text("status", { enum: ["queued", "processing", "ready", "failed"] }).notNull().default("queued"),
+  // Set for PDFs only
+  pages: integer("pages"),
+  chunks: integer("chunks").notNull().default(0),
+  processedChunks: integer("processed_chunks").notNull().default(0),
+  error: text("error"),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+}, (table) => [
+  index("documents_user_idx").on(table.userId, table.createdAt),
+])
+
+export const documentChunks = sqliteTable("document_chunks", {
+  id: id(),
+  documentId: text("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  // 1-based page the chunk was taken from, null for formats without pages
+  page: integer("page"),
+  text: text("text").notNull(),
+  processedAt: integer("processed_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  uniqueIndex("document_chunks_position_idx").on(table.documentId, table.position),
+])
+
+/**
+ * Provenance of memory learned from documents, the counterpart of `memorySources` for chats.
+ * Exactly one of `nodeId` and `edgeId` is set.
+ */
+export const documentSources = sqliteTable("document_sources", {
+  id: id(),
+  userId: userId(),
+  nodeId: text("node_id").references(() => memoryNodes.id, { onDelete: "cascade" }),
+  edgeId: text("edge_id").references(() => memoryEdges.id, { onDelete: "cascade" }),
+  documentId: text("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  page: integer("page"),
+  position: integer("position").notNull(),
+  // Set when the chunk created the node or edge, rather than adding to one the user already had
+  created: integer("created", { mode: "boolean" }).notNull().default(false),
+  createdAt: createdAt(),
+}, (table) => [
+  uniqueIndex("document_sources_node_idx").on(table.nodeId, table.documentId, table.position),
+  uniqueIndex("document_sources_edge_idx").on(table.edgeId, table.documentId, table.position),
+  index("document_sources_document_idx").on(table.documentId),
+])
+
+/**
+ * A node or edge before and after a journaled write; `before` is null for created
+ * rows and `after` for removed ones. Dates come back from JSON as ISO strings.
+ */
+export type MemoryChange =
+  | { kind: "node"; id: string; before: MemoryNode | null; after: MemoryNode | null }
+  | { kind: "edge"; id: string; before: MemoryEdge | null; after: MemoryEdge | null }
+
+/**
+ * Journal of the memory writes made by the agent's tools, so each one can be undone.
+ * `sources` and `documentSources` keep the provenance of forgotten rows, which their
+ * deletion cascades away.
+ */
+export const memoryOperations = sqliteTable("memory_operations", {
+  id: id(),
+  userId: userId(),
+  sessionId: text("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  tool: text("tool").notNull(),
+  changes: text("changes", { mode: "json" }).$type<MemoryChange[]>().notNull(),
+  sources: text("sources", { mode: "json" }).$type<MemorySource[]>().notNull().default([]),
+  documentSources: text("document_sources", { mode: "json" }).$type<DocumentSource[]>().notNull().default([]),
+  undoneAt: integer("undone_at", { mode: "timestamp_ms" }),
+  createdAt: createdAt(),
+}, (table) => [
+  index("memory_operations_user_idx").on(table.userId, table.createdAt),
+])
+
+export interface ConsolidationDetails {
+  merged: { fromId: string; fromLabel: string; intoId: string; intoLabel: string }[]
+  decayed: number
+  pruned: { nodes: { id: string; label: string }[]; edges: number }
+  summarized: { sessionId: string; title: string; nodeId: string }[]
+}
+
+/**
+ * One run of the scheduled memory consolidation. The graph changes themselves are
+ * journaled in `operationId`, so reverting a report undoes that operation.
+ */
+export const consolidationReports = sqliteTable("consolidation_reports", {
+  id: id(),
+  userId: userId(),
+  operationId: text("operation_id").notNull().references(() => memoryOperations.id, { onDelete: "cascade" }),
+  details: text("details", { mode: "json" }).$type<ConsolidationDetails>().notNull(),
+  createdAt: createdAt(),
+}, (table) => [
+  index("consolidation_reports_user_idx").on(table.userId, table.createdAt),
+])
+
+/**
+ * Vectors of the local embedding index: one per memory node and one per chunk of a message.
+ * `model` is the embedder that produced the vector, so switching models never mixes vector spaces.
+ */
+export const embeddings = sqliteTable("embeddings", {
+  id: text("id").primaryKey(),
+  userId: userId(),
+  nodeId: text("node_id").references(() => memoryNodes.id, { onDelete: "cascade" }),
+  messageId: text("message_id").references(() => messages.id, { onDelete: "cascade" }),
+  sessionId: text("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  model: text("model").notNull(),
+  vector: text("vector", { mode: "json" }).$type<number[]>().notNull(),
+  createdAt: createdAt(),
+}, (table) => [
+  index("embeddings_model_idx").on(table.userId, table.model),
+  index("embeddings_node_idx").on(table.nodeId),
+  index("embeddings_message_idx").on(table.messageId),
+])
+
+export const REDACTION_CATEGORIES = ["email", "phone", "secret"] as const
+
+export type RedactionCategory = (typeof REDACTION_CATEGORIES)[number]
+
+// Per-account preferences, created with the defaults on first use
+export const userSettings = sqliteTable("user_settings", {
+  userId: text("user_id").primaryKey().references(() => user.id, { onDelete: "cascade" }),
+  // What is masked before anything is written to the memory graph
+  redaction: text("redaction", { mode: "json" }).$type<RedactionCategory[]>().notNull().default([...REDACTION_CATEGORIES]),
+  // Defaults of every chat; null uses the app's, see src/api/agent/models.ts
+  model: text("model"),
+  temperature: real("temperature"),
+  systemPrompt: text("system_prompt"),
+  updatedAt: updatedAt(),
+})
+
+/**
+ * Every write to and read from the memory graph, item by item. Rows outlive the items they
+ * describe; `label` is a copy of the item's text at the time, cleared when it is purged.
+ * `via` is what touched the item, the ids point at where it came from or what it was read for.
+ */
+export const memoryAudit = sqliteTable("memory_audit", {
+  id: id(),
+  userId: userId(),
+  action: text("action", { enum: ["created", "updated", "deleted", "read", "purged"] }).notNull(),
+  kind: text("kind", { enum: ["node", "edge"] }).notNull(),
+  itemId: text("item_id").notNull(),
+  label: text("label"),
+  via: text("via", { enum: ["extraction", "tool", "document", "consolidation", "manual", "undo", "context", "recall", "purge", "import"] }).notNull(),
+  sessionId: text("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  messageId: text("message_id").references(() => messages.id, { onDelete: "set null" }),
+  documentId: text("document_id").references(() => documents.id, { onDelete: "set null" }),
+  createdAt: createdAt(),
+}, (table) => [
+  index("memory_audit_user_idx").on(table.userId, table.createdAt),
+  index("memory_audit_item_idx").on(table.itemId, table.createdAt),
+])
+
+export type MemoryNode = typeof memoryNodes.$inferSelect
+export type MemoryEdge = typeof memoryEdges.$inferSelect
+export type Session = typeof sessions.$inferSelect
+export type Message = typeof messages.$inferSelect
+export type MemorySource = typeof memorySources.$inferSelect
+export type Embedding = typeof embeddings.$inferSelect
+export type MemoryOperation = typeof memoryOperations.$inferSelect
+export type ConsolidationReport = typeof consolidationReports.$inferSelect
+export type Document = typeof documents.$inferSelect
+export type DocumentSource = typeof documentSources.$inferSelect
+export type DocumentChunk = typeof documentChunks.$inferSelect
+export type UserSettings = typeof userSettings.$inferSelect
+export type Persona = typeof personas.$inferSelect
+export type AuditEntry = typeof memoryAudit.$inferSelect
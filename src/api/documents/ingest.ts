@@ -0,0 +1,127 @@
+import { env } from "cloudflare:workers"
+import { and, asc, count, eq, isNull, sql } from "drizzle-orm"
+import { allows, syncMemoryUsage, type BillingClient } from "../billing"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { documentChunks, documents, type Document } from "../database/schema"
+import { auditGraph } from "../memory/audit"
+import { chunkText, indexNodes } from "../memory/embeddings"
+import { applyExtraction, extractFromDocument } from "../memory/extract"
+import { deleteMemory, isNew } from "../memory/store"
+import { publish } from "../sync"
+import { parseDocument } from "./parse"
+import { recordDocumentSources } from "./store"
+
+export interface IngestionJob {
+  documentId: string
+}
+
+// Larger than embedding chunks: extraction works better with some context around a sentence
+const CHUNK_SIZE = 2000
+// Chunks extracted per queue message, which keeps each invocation well within its limits
+const CHUNKS_PER_STEP = 4
+// Matches `max_retries` of the consumer in wrangler.json
+const MAX_ATTEMPTS = 3
+
+const setStatus = (id: string, values: Partial<Pick<Document, "status" | "pages" | "chunks" | "error">>) =>
+  database.update(documents).set(values).where(eq(documents.id, id))
+
+export const queueIngestion = (document: Pick<Document, "id">) => env.INGEST_QUEUE.send({ documentId: document.id } satisfies IngestionJob)
+
+// Reads the file back from R2 and splits it into the chunks the next steps work through
+async function prepare(document: Document) {
+  const object = await env.BUCKET.get(document.key)
+  if (!object) throw new Error("The uploaded file is missing")
+  const pages = await parseDocument(await object.arrayBuffer(), document.contentType)
+  const chunks = pages.flatMap(({ page, text }) => chunkText(text, CHUNK_SIZE).map((chunk) => ({ page, text: chunk.trim() })))
+    .filter((chunk) => chunk.text)
+    .map((chunk, position) => ({ documentId: document.id, position, ...chunk }))
+  if (chunks.length === 0) {
+    await setStatus(document.id, { status: "failed", error: "No text found in this file" })
+    return false
+  }
+  // Each row binds six parameters
+  for (const batch of slices(chunks, MAX_PARAMS / 6)) {
+    await database.insert(documentChunks).values(batch).onConflictDoNothing()
+  }
+  const pageCount = document.contentType === "application/pdf" ? Math.max(...pages.map((page) => page.page ?? 0)) : null
+  await setStatus(document.id, { status: "processing", pages: pageCount, chunks: chunks.length })
+  return true
+}
+
+/**
+ * Runs the next few chunks of a document through extraction and records where each
+ * node and edge came from. Returns true while chunks are left for another step.
+ */
+export async function ingestStep(documentId: string, billing: BillingClient) {
+  const document = await database.query.documents.findFirst({ where: eq(documents.id, documentId) })
+  if (!document || document.status === "ready" || document.status === "failed") return false
+  if (document.status === "queued" && !await prepare(document)) return false
+  if (!await allows(billing, document.userId, "memory_nodes")) {
+    await setStatus(document.id, { status: "failed", error: "Your memory has reached the node limit of your plan" })
+    return false
+  }
+
+  const chunks = await database
+    .select()
+    .from(documentChunks)
+    .where(and(eq(documentChunks.documentId, document.id), isNull(documentChunks.processedAt)))
+    .orderBy(asc(documentChunks.position))
+    .limit(CHUNKS_PER_STEP)
+  for (const chunk of chunks) {
+    const graph = await applyExtraction(document.userId, await extractFromDocument(document.name, chunk.text))
+    try {
+      await recordDocumentSources(document.userId, graph, { documentId: document.id, page: chunk.page, position: chunk.position })
+    } catch (error) {
+      // E.g. the document was deleted meanwhile: what this chunk created would be left without a source
+      await deleteMemory(document.userId, { nodeIds: graph.nodes.filter(isNew).map((node) => node.id), edgeIds: graph.edges.filter(isNew).map((edge) => edge.id) })
+      throw error
+    }
+    await indexNodes(graph.nodes)
+    await auditGraph(document.userId, graph, { via: "document", documentId: document.id })
+    await database.update(documentChunks).set({ processedAt: new Date() }).where(eq(documentChunks.id, chunk.id))
+    await database
+      .update(documents)
+      .set({ processedChunks: sql`${documents.processedChunks} + 1` })
+      .where(eq(documents.id, document.id))
+  }
+  await syncMemoryUsage(billing, document.userId)
+
+  const [{ remaining }] = await database
+    .select({ remaining: count() })
+    .from(documentChunks)
+    .where(and(eq(documentChunks.documentId, document.id), isNull(documentChunks.processedAt)))
+  if (remaining === 0) await setStatus(document.id, { status: "ready" })
+  return remaining > 0
+}
+
+// Progress reaches every open tab, along with what the step added to memory
+async function publishProgress(documentId: string) {
+  const document = await database.query.documents.findFirst({ where: eq(documents.id, documentId) })
+  if (!document) return
+  await publish(document.userId, { type: "document.updated", document })
+  if (document.processedChunks > 0) await publish(document.userId, { type: "memory.changed" })
+}
+
+/**
+ * Queue consumer. A document is ingested over several messages, each one queueing the next,
+ * so progress survives restarts and a failing chunk is retried on its own.
+ */
+export async function processIngestion(batch: MessageBatch<IngestionJob>, billing: BillingClient) {
+  for (const message of batch.messages) {
+    try {
+      if (await ingestStep(message.body.documentId, billing)) await env.INGEST_QUEUE.send(message.body)
+      await publishProgress(message.body.documentId)
+      message.ack()
+    } catch (error) {
+      console.error("Document ingestion failed", message.body.documentId, error)
+      if (message.attempts < MAX_ATTEMPTS) {
+        message.retry()
+        continue
+      }
+      await setStatus(message.body.documentId, { status: "failed", error: error instanceof Error ? error.message : String(error) })
+      await publishProgress(message.body.documentId)
+      message.ack()
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { extractText } from "unpdf"
+
+export interface ParsedPage {
+  // 1-based, null for formats without pages
+  page: number | null
+  text: string
+}
+
+// Browsers often send no type for Markdown, so the extension decides.
+const CONTENT_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  pdf: "application/pdf",
+}
+
+export const SUPPORTED_EXTENSIONS = Object.keys(CONTENT_TYPES)
+
+export const contentTypeOf = (name: string) => CONTENT_TYPES[name.split(".").pop()?.toLowerCase() ?? ""] ?? null
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " }
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10))
+    return ENTITIES[name.toLowerCase()] ?? entity
+  })
+
+// Keeps the readable text of a page: no scripts or styles, block elements become line breaks.
+export const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, "")
+      .replace(/<\/?(p|div|section|article|li|ul|ol|tr|table|h[1-6]|blockquote|pre|header|footer)\b[^>]*>|<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .replace(/\n{2,}/g, "\n\n")
+    .trim()
+
+/**
+ * Turns an uploaded file into plain text, one entry per PDF page. Other formats come back as a single page.
+ */
+export async function parseDocument(data: ArrayBuffer, contentType: string): Promise<ParsedPage[]> {
+  if (contentType === "application/pdf") {
+    const { text } = await extractText(new Uint8Array(data), { mergePages: false })
+    return text.map((page, index) => ({ page: index + 1, text: page.trim() })).filter((page) => page.text)
+  }
+  const text = new TextDecoder().decode(data)
+  return [{ page: null, text: contentType === "text/html" ? htmlToText(text) : text.trim() }]
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { appendMessage, createSession } from "../sessions/store"
+import { forgetJournaled, undoOperation } from "../memory/journal"
+import { recordSources } from "../memory/provenance"
+import { getNode, mergeNodes, upsertEdge, upsertNode } from "../memory/store"
+import { createUser } from "../testing/users"
+import { createDocument, deleteDocument, nodeDocuments, recordDocumentSources } from "./store"
+
+const upload = (userId: string, name: string) =>
+  createDocument(userId, { name, contentType: "text/plain", data: new TextEncoder().encode("text").buffer as ArrayBuffer })
+
+const person = (label: string) => ({ kind: "entity" as const, type: "person", label })
+
+describe("deleteDocument", () => {
+  it("removes what the document created and nothing backs otherwise", async () => {
+    const userId = await createUser()
+    const document = await upload(userId, "notes.txt")
+    const [carol, dave] = await Promise.all([upsertNode(userId, person("Carol")), upsertNode(userId, person("Dave"))])
+    const edge = await upsertEdge(userId, { sourceId: carol.id, targetId: dave.id, type: "knows" })
+    await recordDocumentSources(userId, { nodes: [carol, dave], edges: [edge] }, { documentId: document.id, page: null, position: 0 })
+
+    expect(await deleteDocument(userId, document.id)).toEqual({ nodeIds: expect.arrayContaining([carol.id, dave.id]), edgeIds: [edge.id] })
+    expect(await getNode(userId, carol.id)).toBeNull()
+  })
+
+  it("keeps nodes the user had before the document mentioned them", async () => {
+    const userId = await createUser()
+    const added = await upsertNode(userId, person("Carol"))
+    const document = await upload(userId, "notes.txt")
+    // Extraction upserts the existing node, which comes back as not new
+    const mentioned = await upsertNode(userId, person("Carol"))
+    await recordDocumentSources(userId, { nodes: [mentioned], edges: [] }, { documentId: document.id, page: 1, position: 0 })
+
+    expect(await deleteDocument(userId, document.id)).toEqual({ nodeIds: [], edgeIds: [] })
+    expect(await getNode(userId, added.id)).not.toBeNull()
+    expect(await nodeDocuments(added.id)).toEqual([])
+  })
+
+  it("keeps what another document or a conversation also taught", async () => {
+    const userId = await createUser()
+    const [first, second] = await Promise.all([upload(userId, "a.txt"), upload(userId, "b.txt")])
+    const [carol, dave] = await Promise.all([upsertNode(userId, person("Carol")), upsertNode(userId, person("Dave"))])
+    await recordDocumentSources(userId, { nodes: [carol, dave], edges: [] }, { documentId: first.id, page: null, position: 0 })
+    await recordDocumentSources(userId, { nodes: [await upsertNode(userId, person("Carol"))], edges: [] }, { documentId: second.id, page: null, position: 0 })
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "Dave is my brother" })
+    await recordSources(userId, { nodes: [dave], edges: [] }, { sessionId: session.id, messageIds: [message.id] })
+
+    expect(await deleteDocument(userId, first.id)).toEqual({ nodeIds: [], edgeIds: [] })
+    expect(await nodeDocuments(carol.id)).toMatchObject([{ documentId: second.id }])
+  })
+})
+
+describe("document sources", () => {
+  it("move along with a merge without claiming the surviving node", async () => {
+    const userId = await createUser()
+    const bobSmith = await upsertNode(userId, person("Bob Smith"))
+    const document = await upload(userId, "notes.txt")
+    const bob = await upsertNode(userId, person("Bob"))
+    await recordDocumentSources(userId, { nodes: [bob], edges: [] }, { documentId: document.id, page: 2, position: 0 })
+    await mergeNodes(userId, bob.id, bobSmith.id)
+
+    expect(await nodeDocuments(bobSmith.id)).toMatchObject([{ documentId: document.id, page: 2 }])
+    expect(await deleteDocument(userId, document.id)).toEqual({ nodeIds: [], edgeIds: [] })
+    expect(await getNode(userId, bobSmith.id)).not.toBeNull()
+  })
+
+  it("come back when forgetting is undone", async () => {
+    const userId = await createUser()
+    const document = await upload(userId, "notes.txt")
+    const carol = await upsertNode(userId, person("Carol"))
+    await recordDocumentSources(userId, { nodes: [carol], edges: [] }, { documentId: document.id, page: null, position: 0 })
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "Forget Carol" })
+
+    const forgotten = await forgetJournaled(userId, [carol.id], { tool: "forget", sessionId: session.id, messageId: message.id })
+    await undoOperation(userId, forgotten!.operation)
+
+    expect(await nodeDocuments(carol.id)).toMatchObject([{ documentId: document.id }])
+    // Still counts as created by the document
+    expect(await deleteDocument(userId, document.id)).toEqual({ nodeIds: [carol.id], edgeIds: [] })
+  })
+})
@@ -0,0 +1,116 @@
+import { env } from "cloudflare:workers"
+import { and, desc, eq, isNotNull, ne, notExists } from "drizzle-orm"
+import { alias } from "drizzle-orm/sqlite-core"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { documents, documentSources, memorySources, type Document } from "../database/schema"
+import { audited } from "../memory/audit"
+import { deleteMemory, isNew } from "../memory/store"
+
+export interface DocumentSource {
+  documentId: string
+  page: number | null
+  position: number
+}
+
+export interface DocumentUpload {
+  name: string
+  contentType: string
+  data: ArrayBuffer
+}
+
+// Where the original file of a document lives in the bucket
+const objectKey = (userId: string, id: string) => `documents/${userId}/${id}`
+
+/**
+ * Stores an uploaded file in R2 and records it as queued for ingestion.
+ */
+export async function createDocument(userId: string, { name, contentType, data }: DocumentUpload) {
+  const id = crypto.randomUUID()
+  const key = objectKey(userId, id)
+  await env.BUCKET.put(key, data, { httpMetadata: { contentType } })
+  const [document] = await database
+    .insert(documents)
+    .values({ id, userId, name, contentType, size: data.byteLength, key })
+    .returning()
+  return document
+}
+
+export async function listDocuments(userId: string, limit = 100) {
+  return database
+    .select()
+    .from(documents)
+    .where(eq(documents.userId, userId))
+    .orderBy(desc(documents.createdAt))
+    .limit(limit)
+}
+
+export async function getDocument(userId: string, id: string) {
+  return (await database.query.documents.findFirst({ where: and(eq(documents.id, id), eq(documents.userId, userId)) })) ?? null
+}
+
+export const documentFile = (document: Document) => env.BUCKET.get(document.key)
+
+type Created = { id: string; createdAt: Date; updatedAt: Date }
+
+/**
+ * Links every node and edge extracted from one chunk of a document to that chunk, noting
+ * which ones the chunk created. Only those can go with the document.
+ */
+export async function recordDocumentSources(userId: string, graph: { nodes: Created[]; edges: Created[] }, source: DocumentSource) {
+  const rows = [
+    ...graph.nodes.map((node) => ({ userId, nodeId: node.id, created: isNew(node), ...source })),
+    ...graph.edges.map((edge) => ({ userId, edgeId: edge.id, created: isNew(edge), ...source })),
+  ]
+  // Each row binds nine parameters
+  for (const batch of slices(rows, MAX_PARAMS / 9)) {
+    await database.insert(documentSources).values(batch).onConflictDoNothing()
+  }
+}
+
+/**
+ * The documents a node was learned from, one entry per page.
+ */
+export async function nodeDocuments(nodeId: string) {
+  return database
+    .selectDistinct({ documentId: documents.id, name: documents.name, page: documentSources.page })
+    .from(documentSources)
+    .innerJoin(documents, eq(documents.id, documentSources.documentId))
+    .where(eq(documentSources.nodeId, nodeId))
+    .orderBy(documents.name, documentSources.page)
+}
+
+// Nodes and edges this document created and nothing else backs: no chat message, no other document.
+// What the user already had when the document mentioned it stays.
+async function onlyFrom(document: Document) {
+  const other = alias(documentSources, "other")
+  const exclusive = (column: "nodeId" | "edgeId") =>
+    database
+      .selectDistinct({ id: documentSources[column] })
+      .from(documentSources)
+      .where(and(
+        eq(documentSources.documentId, document.id),
+        eq(documentSources.created, true),
+        isNotNull(documentSources[column]),
+        notExists(database.select({ id: memorySources.id }).from(memorySources).where(eq(memorySources[column], documentSources[column]))),
+        notExists(database.select({ id: other.id }).from(other).where(and(eq(other[column], documentSources[column]), ne(other.documentId, document.id)))),
+      ))
+  const [nodes, edges] = await Promise.all([exclusive("nodeId"), exclusive("edgeId")])
+  return { nodeIds: nodes.map((row) => row.id!), edgeIds: edges.map((row) => row.id!) }
+}
+
+/**
+ * Deletes a document, its file and the memory that was learned from it alone. Memory that is
+ * also backed by a conversation or another document stays and only loses this source.
+ * Returns the removed node and edge ids, or null when the document does not belong to `userId`.
+ */
+export async function deleteDocument(userId: string, id: string) {
+  const document = await getDocument(userId, id)
+  if (!document) return null
+  const removed = await onlyFrom(document)
+  await audited(userId, removed, { via: "document", documentId: id }, () => deleteMemory(userId, removed))
+  await database.delete(documents).where(eq(documents.id, id))
+  await env.BUCKET.delete(document.key)
+  return removed
+}
+
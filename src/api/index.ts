@@ -1,13 +1,71 @@
+import { env } from "cloudflare:workers";
 import { Hono } from 'hono';
 import { cors } from "hono/cors"
+import { HTTPException } from 'hono/http-exception';
+import { requestId } from 'hono/request-id';
+import { billingMiddleware, defaultBilling } from './billing';
+import { processIngestion, type IngestionJob } from './documents/ingest';
+import { fail, httpError } from './lib/errors';
+import { consolidateAll, processConsolidation, type ConsolidationJob } from './memory/consolidate';
+import { authMiddleware } from './middleware/authentication';
+import { archiveRoutes } from './routes/archive';
+import { authRoutes } from './routes/auth';
+import { billingRoutes } from './routes/billing';
+import { chatRoutes } from './routes/chat';
+import { documentRoutes } from './routes/documents';
+import { memoryRoutes } from './routes/memory';
+import { sessionRoutes } from './routes/sessions';
+import { settingsRoutes } from './routes/settings';
+import { syncRoutes } from './routes/sync';
 
 const app = new Hono()
   .basePath('api');
 
+// Every response carries an X-Request-Id, error envelopes repeat it so reports can be matched to logs.
+app.use(requestId())
+
+// Requests carry the session cookie, so only the app's own origin may make them.
 app.use(cors({
-  origin: "*"
+  origin: env.VITE_BASE_URL,
+  credentials: true,
+  exposeHeaders: ['X-Request-Id'],
 }))
 
-app.get('/ping', (c) => c.json({ message: `Pong! ${Date.now()}` }));
+app.use(authMiddleware)
+app.use(billingMiddleware(defaultBilling))
+
+app.onError((error, c) => {
+  if (error instanceof HTTPException) return httpError(c, error);
+  console.error('Unhandled error', c.get('requestId'), error);
+  return fail(c, 500, 'Something went wrong');
+});
+
+app.notFound((c) => fail(c, 404, 'Route not found'));
+
+const routes = app
+  .get('/ping', (c) => c.json({ message: `Pong! ${Date.now()}` }))
+  .route('/', authRoutes)
+  .route('/archive', archiveRoutes)
+  .route('/billing', billingRoutes)
+  .route('/chat', chatRoutes)
+  .route('/documents', documentRoutes)
+  .route('/memory', memoryRoutes)
+  .route('/sessions', sessionRoutes)
+  .route('/settings', settingsRoutes)
+  .route('/sync', syncRoutes);
+
+// Durable Object classes have to be exported by the main module, see wrangler.json
+export { SyncRoom } from './sync';
+
+// Used by the web app's `hc` client, see src/web/lib/client.ts
+export type AppType = typeof routes;
 
-export default app;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+  // Memory consolidation, on the cron trigger in wrangler.json
+  scheduled: (_controller, _env, ctx) => ctx.waitUntil(consolidateAll()),
+  // Both queues of wrangler.json: consolidation of one account, and document ingestion, see src/api/documents/ingest.ts
+  queue: (batch) => batch.queue === "memory-consolidation"
+    ? processConsolidation(batch as MessageBatch<ConsolidationJob>, defaultBilling)
+    : processIngestion(batch as MessageBatch<IngestionJob>, defaultBilling),
+} satisfies ExportedHandler<Env, IngestionJob | ConsolidationJob>;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import type { Context } from "hono"
+import type { HTTPException } from "hono/http-exception"
+import type { ContentfulStatusCode } from "hono/utils/http-status"
+
+// Machine-readable error codes, one per status the API answers with
+const ERROR_CODES = {
+  400: "invalid_request",
+  401: "unauthorized",
+  402: "quota_exceeded",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  426: "upgrade_required",
+  500: "internal_error",
+} as const
+
+export type ErrorStatus = keyof typeof ERROR_CODES
+export type ErrorCode = (typeof ERROR_CODES)[ErrorStatus]
+
+export type ErrorDetails = Record<string, unknown>
+
+/**
+ * The body of every error response. `details` carries what a client may act on, e.g. the
+ * failed fields of a validation error; `requestId` matches the `X-Request-Id` header and the logs.
+ */
+export interface ErrorEnvelope {
+  code: ErrorCode
+  message: string
+  details: ErrorDetails | null
+  requestId: string
+}
+
+const errorCodeOf = (status: number): ErrorCode => ERROR_CODES[status as ErrorStatus] ?? (status < 500 ? "invalid_request" : "internal_error")
+
+const envelope = (c: Context, code: ErrorCode, message: string, details: ErrorDetails | null): ErrorEnvelope =>
+  ({ code, message, details, requestId: c.get("requestId") })
+
+// Replies with the error envelope. Returning it keeps the error in the route's inferred types.
+export const fail = <Status extends ErrorStatus & ContentfulStatusCode>(c: Context, status: Status, message: string, details: ErrorDetails | null = null) =>
+  c.json(envelope(c, ERROR_CODES[status], message, details), status)
+
+// The envelope for errors Hono throws itself, e.g. on a malformed JSON body.
+export const httpError = (c: Context, error: HTTPException) =>
+  c.json(envelope(c, errorCodeOf(error.status), error.message, null), error.status)
@@ -0,0 +1,39 @@
+import z from "zod"
+import { validator } from "hono/validator"
+import type { Env, MiddlewareHandler, ValidationTargets } from "hono"
+import { fail } from "./errors"
+
+// What the `hc` client sends and what the handler reads: the schema's input, e.g. strings that
+// `z.coerce` turns into numbers, and its parsed output.
+interface ValidatedInput<Target extends keyof ValidationTargets, Schema extends z.ZodType> {
+  in: { [K in Target]: z.input<Schema> }
+  out: { [K in Target]: z.output<Schema> }
+}
+
+type ValidationFailure = ReturnType<typeof fail<400>>
+
+/**
+ * Validates a request target against a zod schema and replies with a 400 on failure.
+ * The failed fields are listed in the details of the error envelope.
+ */
+export function zodValidator<Target extends keyof ValidationTargets, Schema extends z.ZodType, E extends Env = Env, P extends string = string>(
+  target: Target,
+  schema: Schema,
+): MiddlewareHandler<E, P, ValidatedInput<Target, Schema>, ValidationFailure>
+// Hono's validator derives what clients send from the parsed output, the signature above
+// declares the schema's input instead
+export function zodValidator(target: keyof ValidationTargets, schema: z.ZodType): MiddlewareHandler {
+  return validator(target, (value, c) => {
+    const parsed = schema.safeParse(value)
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+      return fail(c, 400, z.prettifyError(parsed.error), { target, issues })
+    }
+    return parsed.data
+  })
+}
+
+// Path parameters of routes for a single resource, e.g. `/sessions/:id`
+export const idParam = z.object({
+  id: z.string().min(1).max(64),
+})
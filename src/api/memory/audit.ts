@@ -0,0 +1,129 @@
+import { and, desc, eq, inArray, lt, or } from "drizzle-orm"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { memoryAudit, type AuditEntry, type MemoryChange, type MemoryEdge, type MemoryNode } from "../database/schema"
+import { summarize, trackChanges, type ChangeSummary } from "./journal"
+import { isNew } from "./store"
+
+export type AuditAction = AuditEntry["action"]
+
+// What touched the memory and where it came from, e.g. the message an extraction ran on
+export interface AuditOrigin {
+  via: AuditEntry["via"]
+  sessionId?: string | null
+  messageId?: string | null
+  documentId?: string | null
+}
+
+export interface AuditItem {
+  kind: "node" | "edge"
+  id: string
+  // Null once the item was purged
+  label: string | null
+}
+
+export interface AuditQuery {
+  itemId?: string
+  action?: AuditAction
+  limit?: number
+  // `nextCursor` of the previous page
+  cursor?: string
+}
+
+export async function audit(userId: string, action: AuditAction, items: AuditItem[], origin: AuditOrigin) {
+  const createdAt = new Date()
+  const rows = items.map((item) => ({
+    userId,
+    action,
+    kind: item.kind,
+    itemId: item.id,
+    label: item.label,
+    via: origin.via,
+    sessionId: origin.sessionId ?? null,
+    messageId: origin.messageId ?? null,
+    documentId: origin.documentId ?? null,
+    createdAt,
+  }))
+  // Each row binds eleven parameters
+  for (const batch of slices(rows, Math.floor(MAX_PARAMS / 11))) {
+    await database.insert(memoryAudit).values(batch)
+  }
+}
+
+// One entry per node and edge a journaled or tracked write changed
+export async function auditChanges(userId: string, changes: ChangeSummary[], origin: AuditOrigin) {
+  for (const action of ["created", "updated", "deleted"] as const) {
+    const items = changes.filter((change) => change.change === action)
+    if (items.length > 0) await audit(userId, action, items, origin)
+  }
+}
+
+const byId = <T extends { id: string }>(rows: T[]) => [...new Map(rows.map((row) => [row.id, row])).values()]
+
+/**
+ * Audits what upserts wrote, e.g. an extraction. Rows an upsert created count as created,
+ * the others as updated.
+ */
+export async function auditGraph(userId: string, graph: { nodes: MemoryNode[]; edges: MemoryEdge[] }, origin: AuditOrigin) {
+  const changes: MemoryChange[] = [
+    ...byId(graph.nodes).map((node) => ({ kind: "node" as const, id: node.id, before: isNew(node) ? null : node, after: node })),
+    ...byId(graph.edges).map((edge) => ({ kind: "edge" as const, id: edge.id, before: isNew(edge) ? null : edge, after: edge })),
+  ]
+  await auditChanges(userId, await summarize(userId, changes), origin)
+}
+
+/**
+ * Runs a write that does not report what it touched, such as a manual delete, and audits
+ * what changed in the given nodes and edges and the edges touching them.
+ */
+export async function audited<T>(userId: string, ids: { nodeIds: string[]; edgeIds: string[] }, origin: AuditOrigin, write: () => Promise<T>) {
+  let result: T | undefined
+  const { changes } = await trackChanges(userId, ids, async () => {
+    result = await write()
+  })
+  await auditChanges(userId, await summarize(userId, changes), origin)
+  return result as T
+}
+
+// Memory the assistant was given or looked up, item by item
+export const auditReads = (userId: string, items: { kind: "node" | "edge"; id: string; text: string }[], origin: AuditOrigin) =>
+  audit(userId, "read", items.map(({ kind, id, text }) => ({ kind, id, label: text })), origin)
+
+// Cursors point at the last entry of a page as "<createdAt ms>:<id>"; the entries of one call
+// share their time, so the id decides where a page ends among them.
+const encodeCursor = (entry: AuditEntry) => `${entry.createdAt.getTime()}:${entry.id}`
+
+const decodeCursor = (cursor: string) => {
+  const [time, ...id] = cursor.split(":")
+  return { createdAt: new Date(Number(time)), id: id.join(":") }
+}
+
+export async function listAudit(userId: string, { itemId, action, limit = 50, cursor }: AuditQuery = {}) {
+  const after = cursor ? decodeCursor(cursor) : undefined
+  const rows = await database
+    .select()
+    .from(memoryAudit)
+    .where(and(
+      eq(memoryAudit.userId, userId),
+      itemId ? eq(memoryAudit.itemId, itemId) : undefined,
+      action ? eq(memoryAudit.action, action) : undefined,
+      after ? or(
+        lt(memoryAudit.createdAt, after.createdAt),
+        and(eq(memoryAudit.createdAt, after.createdAt), lt(memoryAudit.id, after.id)),
+      ) : undefined,
+    ))
+    .orderBy(desc(memoryAudit.createdAt), desc(memoryAudit.id))
+    .limit(limit + 1)
+  const page = rows.slice(0, limit)
+  return {
+    entries: page,
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  }
+}
+
+// Purged items keep their history, without the text
+export async function clearAuditLabels(userId: string, ids: string[]) {
+  for (const batch of slices(ids, MAX_PARAMS - 1)) {
+    await database.update(memoryAudit).set({ label: null }).where(and(eq(memoryAudit.userId, userId), inArray(memoryAudit.itemId, batch)))
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { eq, sql } from "drizzle-orm"
+import { database } from "../database"
+import { memoryEdges, memoryNodes } from "../database/schema"
+import { createUser } from "../testing/users"
+import { consolidate, consolidationOptionsSchema, listReports, revertReport } from "./consolidate"
+import { getEdge, getNode, upsertEdge, upsertNode } from "./store"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const options = consolidationOptionsSchema.parse({ maxSummaries: 0 })
+const now = new Date()
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS)
+
+const person = (label: string, confidence?: number) => ({ kind: "entity" as const, type: "person", label, confidence })
+
+// Leaves nodes and edges untouched since `days` ago
+async function age(days: number, { nodeIds = [], edgeIds = [] }: { nodeIds?: string[]; edgeIds?: string[] }) {
+  for (const id of nodeIds) await database.update(memoryNodes).set({ updatedAt: daysAgo(days) }).where(eq(memoryNodes.id, id))
+  for (const id of edgeIds) await database.update(memoryEdges).set({ updatedAt: daysAgo(days) }).where(eq(memoryEdges.id, id))
+}
+
+describe("consolidate", () => {
+  it("decays an idle edge once per idle period", async () => {
+    const userId = await createUser()
+    const [carol, dave] = await Promise.all([upsertNode(userId, person("Carol", 0.9)), upsertNode(userId, person("Dave", 0.9))])
+    const edge = await upsertEdge(userId, { sourceId: carol.id, targetId: dave.id, type: "knows", weight: 0.5 })
+    await age(40, { edgeIds: [edge.id] })
+
+    const report = await consolidate(userId, options, now)
+    expect(report?.details.decayed).toBe(1)
+    expect(await getEdge(userId, edge.id)).toMatchObject({ weight: 0.4, decayedAt: now, updatedAt: daysAgo(40) })
+    expect(await consolidate(userId, options, now)).toBeNull()
+  })
+
+  it("prunes idle edges and nodes that became too weak, and a revert brings them back", async () => {
+    const userId = await createUser()
+    const [carol, dave, faint] = await Promise.all([upsertNode(userId, person("Carol", 0.9)), upsertNode(userId, person("Dave", 0.9)), upsertNode(userId, person("Someone", 0.1))])
+    const weak = await upsertEdge(userId, { sourceId: carol.id, targetId: dave.id, type: "met", weight: 0.1 })
+    await age(40, { nodeIds: [faint.id], edgeIds: [weak.id] })
+
+    const report = await consolidate(userId, { ...options, decay: 1 }, now)
+
+    expect(report?.details.pruned).toEqual({ nodes: [{ id: faint.id, label: "Someone" }], edges: 1 })
+    expect(await getNode(userId, faint.id)).toBeNull()
+    expect(await getEdge(userId, weak.id)).toBeNull()
+    expect(await getNode(userId, carol.id)).not.toBeNull()
+
+    await revertReport(userId, report!)
+    expect(await getNode(userId, faint.id)).not.toBeNull()
+    expect(await getEdge(userId, weak.id)).toMatchObject({ weight: 0.1 })
+  })
+
+  it("journals each change as it is made, so a run that fails partway can be reverted", async () => {
+    const userId = await createUser()
+    const [bob, bobSmith, carol] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Bob Smith")), upsertNode(userId, person("Carol", 0.9))])
+    const edge = await upsertEdge(userId, { sourceId: bobSmith.id, targetId: carol.id, type: "knows", weight: 0.5 })
+    await age(40, { edgeIds: [edge.id] })
+    // An idle row that cannot be read makes pruning, the step after merging and decaying, fail
+    const broken = await upsertNode(userId, { kind: "fact", type: "statement", label: "Unreadable" })
+    await database.update(memoryNodes).set({ attributes: sql`'{'`, updatedAt: daysAgo(40) }).where(eq(memoryNodes.id, broken.id))
+
+    await expect(consolidate(userId, options, now)).rejects.toThrow()
+
+    const [report] = await listReports(userId)
+    expect(report.details).toMatchObject({ merged: [{ fromId: bob.id, intoId: bobSmith.id }], decayed: 1 })
+    expect(await getNode(userId, bob.id)).toBeNull()
+
+    await revertReport(userId, report)
+    expect(await getNode(userId, bob.id)).not.toBeNull()
+    expect(await getEdge(userId, edge.id)).toMatchObject({ weight: 0.5 })
+  })
+})
@@ -0,0 +1,456 @@
+import { env } from "cloudflare:workers"
+import z from "zod"
+import dedent from "dedent"
+import { generateText } from "ai"
+import { and, asc, desc, eq, getTableColumns, isNotNull, isNull, lt, or, sql } from "drizzle-orm"
+import type { BatchItem } from "drizzle-orm/batch"
+import { EXTRACTION_MODEL, openai } from "../agent/gateway"
+import { syncMemoryUsage, type BillingClient } from "../billing"
+import { database } from "../database"
+import { slices } from "../database/batch"
+import {
+  consolidationReports,
+  memoryEdges,
+  memoryNodes,
+  memoryOperations,
+  memorySources,
+  messages,
+  sessions,
+  type ConsolidationDetails,
+  type ConsolidationReport,
+  type DocumentSource,
+  type MemoryChange,
+  type MemoryEdge,
+  type MemoryNode,
+  type MemorySource,
+  type Session,
+} from "../database/schema"
+import { activeBranch } from "../sessions/store"
+import { publish } from "../sync"
+import { indexNodes, removeNodeEmbeddings } from "./embeddings"
+import { auditChanges } from "./audit"
+import { transcript } from "./extract"
+import { getOperation, summarize, trackChanges, undoOperation } from "./journal"
+import { recordSources } from "./provenance"
+import { redactionOf, redactText } from "./redact"
+import { deleteMemory, mergeNodes, normalizeLabel, upsertEdge, upsertNode } from "./store"
+
+export const consolidationOptionsSchema = z.object({
+  mergeSimilarity: z.number().min(0).max(1).default(0.85).describe("Label similarity from which two entities count as the same one."),
+  idleDays: z.number().positive().default(30).describe("Edges and nodes untouched for this long count as idle."),
+  decay: z.number().min(0).max(1).default(0.8).describe("Weight multiplier applied to an idle edge once per idle period."),
+  pruneBelow: z.number().min(0).max(1).default(0.15).describe("Idle edges below this weight and idle nodes below this strength are removed."),
+  summarizeAfterDays: z.number().positive().default(14).describe("Sessions without a new message for this long are rolled into a summary node."),
+  maxSummaries: z.number().int().min(0).max(20).default(3).describe("Sessions summarized per run, each one costs a model call."),
+  maxChanges: z.number().int().min(1).max(2000).default(500).describe("Merges, decayed edges and pruned rows per run; the rest waits for the next one."),
+})
+
+export type ConsolidationOptions = z.infer<typeof consolidationOptionsSchema>
+
+interface Reverted {
+  // Nodes and edges changed by a reverted report
+  ids: Set<string>
+  sessionIds: Set<string>
+}
+
+interface Step {
+  changes: MemoryChange[]
+  sources: MemorySource[]
+  documentSources: DocumentSource[]
+}
+
+interface RunJournal {
+  // Journals changes once they are made, or in one batch with the `writes` that make them.
+  // Writes come with their changes, so a step without changes has nothing to write.
+  record(step: Step, writes?: BatchItem<"sqlite">[]): Promise<void>
+  // Everything the run changed so far, each row before its first and after its last change
+  changes(): MemoryChange[]
+  // The run's report, null while nothing has changed
+  report(): Promise<ConsolidationReport | null>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Decayed edges per D1 batch
+const DECAY_BATCH = 50
+const SUMMARY_CONFIDENCE = 0.8
+const SUMMARY_SUBJECTS = 8
+const SUMMARY_MESSAGES = 40
+
+const SUMMARY_INSTRUCTIONS = dedent`
+  You maintain the long-term memory of a chat assistant.
+  Summarize the conversation in two or three sentences written in the third person.
+  Keep what would help in a later conversation: what the user wanted, decisions, conclusions and open questions.
+`
+
+const tokensOf = (label: string) => normalizeLabel(label).split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+
+const bigrams = (text: string) => Array.from({ length: Math.max(0, text.length - 1) }, (_, index) => text.slice(index, index + 2))
+
+// Dice coefficient over character bigrams
+const dice = (a: string, b: string) => {
+  const left = bigrams(a)
+  const right = bigrams(b)
+  if (left.length === 0 || right.length === 0) return a === b ? 1 : 0
+  const counts = new Map<string, number>()
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1)
+  const shared = right.filter((gram) => {
+    const count = counts.get(gram) ?? 0
+    counts.set(gram, count - 1)
+    return count > 0
+  })
+  return (2 * shared.length) / (left.length + right.length)
+}
+
+// A name that starts a longer one ("Bob" and "Bob Smith") scores 0.9, other labels score by spelling.
+const labelSimilarity = (a: string, b: string) => {
+  const [shorter, longer] = [tokensOf(a), tokensOf(b)].sort((left, right) => left.length - right.length)
+  if (shorter.length === 0) return 0
+  if (shorter.length < longer.length && shorter.every((token, index) => longer[index] === token)) return 0.9
+  return dice(shorter.join(" "), longer.join(" "))
+}
+
+// Untyped concepts come from relations and facts that only mentioned a label
+const compatible = (a: MemoryNode, b: MemoryNode) => a.type === b.type || a.type === "concept" || b.type === "concept"
+
+// Positive when `a` should survive a merge with `b`: the fuller label, then the better supported, then the older node
+const rank = (a: MemoryNode, b: MemoryNode) =>
+  tokensOf(a.label).length - tokensOf(b.label).length
+  || a.confidence - b.confidence
+  || b.createdAt.getTime() - a.createdAt.getTime()
+  || (a.id < b.id ? 1 : -1)
+
+// A row touched by several steps keeps its state from before the first and after the last
+const fold = (changes: MemoryChange[]) => {
+  const folded = new Map<string, MemoryChange>()
+  for (const change of changes) {
+    const first = folded.get(change.id)
+    folded.set(change.id, (first ? { ...change, before: first.before } : change) as MemoryChange)
+  }
+  return [...folded.values()].filter((change) => change.before || change.after)
+}
+
+// Later runs leave alone whatever a reverted report touched, so that reverting sticks
+async function revertedTargets(userId: string): Promise<Reverted> {
+  const rows = await database
+    .select({ changes: memoryOperations.changes, details: consolidationReports.details })
+    .from(consolidationReports)
+    .innerJoin(memoryOperations, eq(memoryOperations.id, consolidationReports.operationId))
+    .where(and(eq(consolidationReports.userId, userId), isNotNull(memoryOperations.undoneAt)))
+  return {
+    ids: new Set(rows.flatMap((row) => row.changes.map((change) => change.id))),
+    sessionIds: new Set(rows.flatMap((row) => row.details.summarized.map((item) => item.sessionId))),
+  }
+}
+
+/**
+ * Journals a run as it goes: its memory operation and report are written with the first
+ * change and brought up to date with every later one, so a run that fails partway can
+ * still be reverted as far as it got. `details` is the report, filled in by the steps.
+ */
+function runJournal(userId: string, details: ConsolidationDetails): RunJournal {
+  const run: Step & { operationId?: string; reportId?: string } = { changes: [], sources: [], documentSources: [] }
+  return {
+    async record(step, writes = []) {
+      if (step.changes.length === 0) return
+      if (!run.operationId || !run.reportId) {
+        const [operation] = await database.insert(memoryOperations).values({ userId, tool: "consolidate", changes: [] }).returning()
+        const [report] = await database.insert(consolidationReports).values({ userId, operationId: operation.id, details }).returning()
+        run.operationId = operation.id
+        run.reportId = report.id
+      }
+      run.changes = fold([...run.changes, ...step.changes])
+      run.sources.push(...step.sources)
+      run.documentSources.push(...step.documentSources)
+      await database.batch([
+        database.update(memoryOperations)
+          .set({ changes: run.changes, sources: run.sources, documentSources: run.documentSources })
+          .where(eq(memoryOperations.id, run.operationId)),
+        database.update(consolidationReports).set({ details }).where(eq(consolidationReports.id, run.reportId)),
+        ...writes,
+      ])
+      await auditChanges(userId, await summarize(userId, step.changes), { via: "consolidation" })
+    },
+    changes: () => run.changes,
+    async report() {
+      if (!run.reportId) return null
+      const [report] = await database.select().from(consolidationReports).where(eq(consolidationReports.id, run.reportId))
+      return report
+    },
+  }
+}
+
+/**
+ * Pairs of entities that name the same thing, each pointing at the node that survives.
+ * Only labels starting alike are compared, and a label close to several others is
+ * skipped, since "Bob" next to "Bob Smith" and "Bob Jones" is not for us to decide.
+ */
+async function findDuplicates(userId: string, options: ConsolidationOptions, reverted: Reverted) {
+  const entities = (await database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), eq(memoryNodes.kind, "entity"))))
+    .filter((node) => !reverted.ids.has(node.id))
+  const blocks = new Map<string, MemoryNode[]>()
+  for (const node of entities) {
+    const block = tokensOf(node.label)[0]?.slice(0, 2) ?? ""
+    blocks.set(block, [...blocks.get(block) ?? [], node])
+  }
+
+  const merges = new Map<string, MemoryNode>()
+  for (const block of blocks.values()) {
+    for (const node of block) {
+      const candidates = block.filter((other) =>
+        rank(other, node) > 0 && compatible(node, other) && labelSimilarity(node.label, other.label) >= options.mergeSimilarity
+      )
+      if (candidates.length === 1) merges.set(node.id, candidates[0])
+    }
+  }
+  // "Bob" → "Bob Smith" → "Robert Bob Smith" folds both straight into the last one
+  const survivor = (node: MemoryNode): MemoryNode => {
+    const next = merges.get(node.id)
+    return next ? survivor(next) : node
+  }
+  return entities
+    .filter((node) => merges.has(node.id))
+    .map((from) => ({ from, into: survivor(from) }))
+    .slice(0, options.maxChanges)
+}
+
+async function mergeDuplicates(userId: string, options: ConsolidationOptions, reverted: Reverted, details: ConsolidationDetails, journal: RunJournal) {
+  for (const { from, into } of await findDuplicates(userId, options, reverted)) {
+    const tracked = await trackChanges(userId, { nodeIds: [from.id, into.id], edgeIds: [] }, () => mergeNodes(userId, from.id, into.id))
+    details.merged.push({ fromId: from.id, fromLabel: from.label, intoId: into.id, intoLabel: into.label })
+    await journal.record(tracked)
+  }
+}
+
+/**
+ * Weakens edges nobody has extracted or edited for `idleDays`. An edge decays once per
+ * idle period rather than on every run, and keeps its `updatedAt` so it stays idle.
+ */
+async function decayIdleEdges(userId: string, options: ConsolidationOptions, reverted: Reverted, now: Date, details: ConsolidationDetails, journal: RunJournal) {
+  const cutoff = new Date(now.getTime() - options.idleDays * DAY_MS)
+  const idle = (await database
+    .select()
+    .from(memoryEdges)
+    .where(and(
+      eq(memoryEdges.userId, userId),
+      lt(memoryEdges.updatedAt, cutoff),
+      or(isNull(memoryEdges.decayedAt), lt(memoryEdges.decayedAt, cutoff)),
+    )))
+    .filter((edge) => !reverted.ids.has(edge.id))
+    .slice(0, options.maxChanges)
+
+  // Each batch of updates is applied together with its journal entry
+  for (const batch of slices(idle, DECAY_BATCH)) {
+    const decayed: MemoryEdge[] = batch.map((edge) => ({ ...edge, weight: edge.weight * options.decay, decayedAt: now }))
+    const writes = decayed.map((edge) =>
+      database
+        .update(memoryEdges)
+        .set({ weight: edge.weight, decayedAt: edge.decayedAt, updatedAt: edge.updatedAt })
+        .where(eq(memoryEdges.id, edge.id))
+    )
+    details.decayed += batch.length
+    await journal.record({
+      changes: batch.map((edge, index) => ({ kind: "edge", id: edge.id, before: edge, after: decayed[index] })),
+      sources: [],
+      documentSources: [],
+    }, writes)
+  }
+}
+
+/**
+ * Removes idle edges whose weight fell below `pruneBelow`, and idle nodes whose
+ * strength did: their confidence times the weight of their strongest edge.
+ * Nodes without edges are judged by their confidence alone.
+ */
+async function pruneWeak(userId: string, options: ConsolidationOptions, reverted: Reverted, now: Date, details: ConsolidationDetails, journal: RunJournal) {
+  const cutoff = new Date(now.getTime() - options.idleDays * DAY_MS)
+  const strengths = await database
+    .select({ node: memoryNodes, strongest: sql<number | null>`max(${memoryEdges.weight})` })
+    .from(memoryNodes)
+    .leftJoin(memoryEdges, or(eq(memoryEdges.sourceId, memoryNodes.id), eq(memoryEdges.targetId, memoryNodes.id)))
+    .where(and(eq(memoryNodes.userId, userId), lt(memoryNodes.updatedAt, cutoff)))
+    .groupBy(memoryNodes.id)
+  const nodes = strengths
+    .filter(({ node, strongest }) => !reverted.ids.has(node.id) && node.confidence * (strongest ?? 1) < options.pruneBelow)
+    .map(({ node }) => node)
+    .slice(0, options.maxChanges)
+  const edges = (await database
+    .select({ id: memoryEdges.id })
+    .from(memoryEdges)
+    .where(and(eq(memoryEdges.userId, userId), lt(memoryEdges.updatedAt, cutoff), lt(memoryEdges.weight, options.pruneBelow))))
+    .filter((edge) => !reverted.ids.has(edge.id))
+    .slice(0, options.maxChanges)
+  if (nodes.length === 0 && edges.length === 0) return
+
+  const ids = { nodeIds: nodes.map((node) => node.id), edgeIds: edges.map((edge) => edge.id) }
+  const tracked = await trackChanges(userId, ids, () => deleteMemory(userId, ids))
+  details.pruned.nodes.push(...nodes.map(({ id, label }) => ({ id, label })))
+  details.pruned.edges += tracked.changes.filter((change) => change.kind === "edge").length
+  await journal.record(tracked)
+}
+
+// Sessions with at least one remembered reply and no new message for `summarizeAfterDays`, oldest first
+async function idleSessions(userId: string, options: ConsolidationOptions, reverted: Reverted, now: Date) {
+  const cutoff = new Date(now.getTime() - options.summarizeAfterDays * DAY_MS)
+  const rows = await database
+    .select()
+    .from(sessions)
+    .where(and(
+      eq(sessions.userId, userId),
+      isNull(sessions.summaryId),
+      eq(sessions.incognito, false),
+      lt(sessions.updatedAt, cutoff),
+      sql`exists (select 1 from ${messages} where ${messages.sessionId} = ${sessions.id} and ${messages.role} = 'ai' and ${messages.remember} = 1)`,
+    ))
+    .orderBy(asc(sessions.updatedAt))
+  return rows.filter((session) => !reverted.sessionIds.has(session.id)).slice(0, options.maxSummaries)
+}
+
+/**
+ * Rolls the active branch of a session into one fact node about the entities the
+ * session taught most, sourced from the messages it summarizes. Messages the user
+ * asked not to remember are left out.
+ */
+async function summarizeSession(userId: string, session: Session): Promise<Step & { node: MemoryNode }> {
+  const branch = (await activeBranch(session)).filter((message) => message.remember).slice(-SUMMARY_MESSAGES)
+  const { text } = await generateText({
+    model: openai.chat(EXTRACTION_MODEL),
+    system: SUMMARY_INSTRUCTIONS,
+    prompt: transcript(branch),
+  })
+  const node = await upsertNode(userId, {
+    kind: "fact",
+    type: "summary",
+    label: redactText(`Conversation "${session.title}": ${text.trim()}`, await redactionOf(userId)),
+    attributes: { sessionId: session.id },
+    confidence: SUMMARY_CONFIDENCE,
+  })
+
+  const subjects = await database
+    .select({ id: memoryNodes.id })
+    .from(memorySources)
+    .innerJoin(memoryNodes, eq(memoryNodes.id, memorySources.nodeId))
+    .where(and(eq(memorySources.sessionId, session.id), eq(memorySources.abandoned, false), eq(memoryNodes.kind, "entity")))
+    .groupBy(memoryNodes.id)
+    .orderBy(desc(sql`count(*)`))
+    .limit(SUMMARY_SUBJECTS)
+  const edges: MemoryEdge[] = []
+  for (const subject of subjects) {
+    edges.push(await upsertEdge(userId, { sourceId: node.id, targetId: subject.id, type: "about", weight: SUMMARY_CONFIDENCE, confidence: SUMMARY_CONFIDENCE }))
+  }
+  await recordSources(userId, { nodes: [node], edges }, { sessionId: session.id, messageIds: branch.map((message) => message.id) })
+  // Keeps the session where it is in the sidebar
+  await database.update(sessions).set({ summaryId: node.id, updatedAt: session.updatedAt }).where(eq(sessions.id, session.id))
+
+  return {
+    node,
+    changes: [
+      { kind: "node", id: node.id, before: null, after: node },
+      ...edges.map((edge) => ({ kind: "edge" as const, id: edge.id, before: null, after: edge })),
+    ],
+    sources: [],
+    documentSources: [],
+  }
+}
+
+async function summarizeIdleSessions(userId: string, options: ConsolidationOptions, reverted: Reverted, now: Date, details: ConsolidationDetails, journal: RunJournal) {
+  for (const session of await idleSessions(userId, options, reverted, now)) {
+    // A failed model call should not lose the rest of the run, the session is tried again next time
+    try {
+      const summary = await summarizeSession(userId, session)
+      details.summarized.push({ sessionId: session.id, title: session.title, nodeId: summary.node.id })
+      await journal.record(summary)
+    } catch (error) {
+      console.error("Session summary failed", session.id, error)
+    }
+  }
+}
+
+/**
+ * Tidies one user's memory graph: merges near-duplicate entities, decays idle edges,
+ * prunes what has become too weak and rolls idle sessions into summary nodes.
+ * Everything it changes is journaled as one memory operation while it is changed, and
+ * described by the returned report. Returns null when there was nothing to do.
+ */
+export async function consolidate(userId: string, options: ConsolidationOptions, now = new Date()) {
+  const reverted = await revertedTargets(userId)
+  const details: ConsolidationDetails = { merged: [], decayed: 0, pruned: { nodes: [], edges: 0 }, summarized: [] }
+  const journal = runJournal(userId, details)
+
+  await mergeDuplicates(userId, options, reverted, details, journal)
+  await decayIdleEdges(userId, options, reverted, now, details, journal)
+  await pruneWeak(userId, options, reverted, now, details, journal)
+  await summarizeIdleSessions(userId, options, reverted, now, details, journal)
+
+  const report = await journal.report()
+  if (!report) return null
+  const changes = journal.changes()
+  await removeNodeEmbeddings(changes.filter((change) => change.kind === "node" && !change.after).map((change) => change.id))
+  await indexNodes(changes.flatMap((change) => (change.kind === "node" && change.after ? [change.after] : [])))
+  return { ...report, revertedAt: null }
+}
+
+export interface ConsolidationJob {
+  userId: string
+}
+
+// Matches `max_retries` of the consumer in wrangler.json
+const MAX_ATTEMPTS = 3
+// The most messages a queue takes in one `sendBatch`
+const MESSAGES_PER_SEND = 100
+
+/**
+ * The scheduled run: queues one message per account with memory or sessions, so every
+ * account is consolidated in an invocation of its own instead of all of them in the cron's.
+ */
+export async function consolidateAll() {
+  const users = await database
+    .selectDistinct({ id: memoryNodes.userId })
+    .from(memoryNodes)
+    .union(database.selectDistinct({ id: sessions.userId }).from(sessions))
+  for (const batch of slices(users, MESSAGES_PER_SEND)) {
+    await env.CONSOLIDATION_QUEUE.sendBatch(batch.map(({ id }) => ({ body: { userId: id } satisfies ConsolidationJob })))
+  }
+}
+
+// Queue consumer, with the default options. One account failing does not stop the others.
+export async function processConsolidation(batch: MessageBatch<ConsolidationJob>, billing: BillingClient) {
+  const options = consolidationOptionsSchema.parse({})
+  for (const message of batch.messages) {
+    const { userId } = message.body
+    try {
+      if (await consolidate(userId, options)) await Promise.all([syncMemoryUsage(billing, userId), publish(userId, { type: "memory.changed" })])
+      message.ack()
+    } catch (error) {
+      console.error("Memory consolidation failed", userId, error)
+      if (message.attempts < MAX_ATTEMPTS) message.retry()
+      else message.ack()
+    }
+  }
+}
+
+const reportColumns = { ...getTableColumns(consolidationReports), revertedAt: memoryOperations.undoneAt }
+
+const selectReports = () =>
+  database
+    .select(reportColumns)
+    .from(consolidationReports)
+    .innerJoin(memoryOperations, eq(memoryOperations.id, consolidationReports.operationId))
+
+export async function listReports(userId: string, limit = 20) {
+  return selectReports()
+    .where(eq(consolidationReports.userId, userId))
+    .orderBy(desc(consolidationReports.createdAt))
+    .limit(limit)
+}
+
+export async function getReport(userId: string, id: string) {
+  const [report] = await selectReports().where(and(eq(consolidationReports.id, id), eq(consolidationReports.userId, userId)))
+  return report ?? null
+}
+
+// Undoes the report's operation. Returns null when it was already reverted.
+export async function revertReport(userId: string, report: { operationId: string }) {
+  const operation = await getOperation(userId, report.operationId)
+  if (!operation || operation.undoneAt) return null
+  return undoOperation(userId, operation)
+}
@@ -0,0 +1,64 @@
+import { embedMany } from "ai"
+import { openai } from "../../agent/gateway"
+
+export interface Embedder {
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export const HASH_MODEL = "hash-256"
+const HASH_DIMENSIONS = 256
+
+// 32-bit FNV-1a, enough to spread features over a few hundred buckets.
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export const normalize = (vector: number[]) => {
+  const length = Math.hypot(...vector)
+  return length === 0 ? vector : vector.map((value) => value / length)
+}
+
+export const cosine = (a: number[], b: number[]) => {
+  let dot = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i]
+  return dot
+}
+
+/**
+ * Feature-hashed bag of words and character trigrams. It has no notion of meaning,
+ * but it is deterministic, needs no network and still matches inflections and
+ * partial words, which keeps local development and the eval fixtures reproducible.
+ */
+export function hashEmbed(text: string) {
+  const vector = new Array<number>(HASH_DIMENSIONS).fill(0)
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length >= 2)
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature)
+    vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight
+  }
+  for (const word of words) {
+    add(`w:${word}`, 1)
+    const padded = `^${word}$`
+    for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5)
+  }
+  return normalize(vector)
+}
+
+export const hashEmbedder: Embedder = {
+  model: HASH_MODEL,
+  embed: async (texts) => texts.map(hashEmbed),
+}
+
+export const gatewayEmbedder = (model: string): Embedder => ({
+  model,
+  embed: async (texts) => {
+    const { embeddings } = await embedMany({ model: openai.embedding(model), values: texts })
+    return embeddings.map(normalize)
+  },
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { database } from "../../database"
+import { embeddings } from "../../database/schema"
+import { appendMessage, createSession } from "../../sessions/store"
+import { createUser } from "../../testing/users"
+import { upsertNode } from "../store"
+import { embedder, reembed, vectorIndex } from "."
+
+// Runs every page of a rebuild
+async function reembedAll(userId: string) {
+  let cursor: string | undefined
+  do {
+    cursor = (await reembed(userId, { cursor, limit: 1 })).nextCursor ?? undefined
+  } while (cursor)
+}
+
+describe("reembed", () => {
+  it("embeds every node and message page by page, then drops the vectors of other models", async () => {
+    const userId = await createUser()
+    const nodes = await Promise.all(["Carol", "Dave", "Lyon"].map((label) => upsertNode(userId, { kind: "entity", type: "person", label })))
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "Carol moved to Lyon" })
+    await vectorIndex.upsert([{ id: `node:${nodes[0].id}`, userId, nodeId: nodes[0].id, text: "Carol", vector: [1] }], "old-model")
+
+    const first = await reembed(userId, { limit: 2 })
+    expect(first).toMatchObject({ phase: "nodes", processed: 2, nextCursor: `nodes:${[...nodes].sort((a, b) => (a.id < b.id ? -1 : 1))[1].id}` })
+    await reembedAll(userId)
+
+    const rows = await database.select({ id: embeddings.id, model: embeddings.model }).from(embeddings).where(eq(embeddings.userId, userId))
+    expect(rows.map((row) => row.id).sort()).toEqual([...nodes.map((node) => `node:${node.id}`), `chunk:${message.id}:0`].sort())
+    expect(rows.every((row) => row.model === embedder.model)).toBe(true)
+  })
+
+  it("leaves out messages that are not remembered", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    const { message: kept } = await appendMessage(userId, session.id, { role: "user", content: "My sister lives in Lyon" })
+    await appendMessage(userId, session.id, { role: "user", content: "My password hint is Rex", remember: false })
+    await reembedAll(userId)
+
+    const rows = await database.select({ messageId: embeddings.messageId }).from(embeddings).where(eq(embeddings.userId, userId))
+    expect(rows.map((row) => row.messageId)).toEqual([kept.id])
+  })
+})
@@ -0,0 +1,101 @@
+import { env } from "cloudflare:workers"
+import { and, asc, eq, gt } from "drizzle-orm"
+import { database } from "../../database"
+import { memoryNodes, messages, type MemoryNode, type Message } from "../../database/schema"
+import { describeNode } from "../store"
+import { gatewayEmbedder, HASH_MODEL, hashEmbedder } from "./embedder"
+import { localIndex } from "./local"
+import type { EmbeddingRecord } from "./types"
+import { vectorizeIndex } from "./vectorize"
+
+export type { VectorMatch } from "./types"
+
+// EMBEDDING_MODEL names a gateway embedding model, or "hash-256" for the offline embedder.
+// VECTOR_BACKEND picks where vectors live: "vectorize" or "d1". Both default to the offline setup.
+export const embedder = env.EMBEDDING_MODEL && env.EMBEDDING_MODEL !== HASH_MODEL ? gatewayEmbedder(env.EMBEDDING_MODEL) : hashEmbedder
+export const vectorIndex = env.VECTOR_BACKEND === "vectorize" ? vectorizeIndex(env.VECTORIZE) : localIndex
+
+const CHUNK_SIZE = 800
+
+// Splits on paragraph and sentence boundaries so a chunk rarely ends mid-thought.
+export function chunkText(text: string, size = CHUNK_SIZE) {
+  const chunks: string[] = []
+  let current = ""
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n{2,}/)) {
+    if (current && current.length + sentence.length + 1 > size) {
+      chunks.push(current)
+      current = ""
+    }
+    current = current ? `${current} ${sentence}` : sentence
+    while (current.length > size) {
+      chunks.push(current.slice(0, size))
+      current = current.slice(size)
+    }
+  }
+  if (current.trim()) chunks.push(current)
+  return chunks
+}
+
+const nodeRecord = (node: MemoryNode): EmbeddingRecord => ({ id: `node:${node.id}`, userId: node.userId, nodeId: node.id, text: describeNode(node) })
+
+const messageRecords = (message: Pick<Message, "id" | "userId" | "sessionId" | "content">): EmbeddingRecord[] =>
+  chunkText(message.content).map((text, index) => ({
+    id: `chunk:${message.id}:${index}`,
+    userId: message.userId,
+    messageId: message.id,
+    sessionId: message.sessionId,
+    text,
+  }))
+
+async function embedRecords(records: EmbeddingRecord[]) {
+  if (records.length === 0) return
+  const vectors = await embedder.embed(records.map((record) => record.text))
+  await vectorIndex.upsert(records.map((record, index) => ({ ...record, vector: vectors[index] })), embedder.model)
+}
+
+export const indexNodes = (nodes: MemoryNode[]) => embedRecords(nodes.map(nodeRecord))
+
+export const indexMessages = (items: Pick<Message, "id" | "userId" | "sessionId" | "content">[]) => embedRecords(items.flatMap(messageRecords))
+
+export const removeNodeEmbeddings = (ids: string[]) => vectorIndex.remove(ids.map((id) => `node:${id}`))
+
+export const removeMessageEmbeddings = (items: Pick<Message, "id" | "userId" | "sessionId" | "content">[]) =>
+  vectorIndex.remove(items.flatMap(messageRecords).map((record) => record.id))
+
+export async function searchSimilar(userId: string, query: string, topK: number) {
+  const [vector] = await embedder.embed([query])
+  return vectorIndex.query(vector, { userId, topK, model: embedder.model })
+}
+
+/**
+ * Rebuilds a user's part of the index with the current embedder, one page per call so it fits in
+ * a request. Start without a cursor and call again with `nextCursor` until it is null;
+ * vectors of other models are only dropped once everything has been re-embedded.
+ * Messages that are not remembered, including those of incognito sessions, are skipped.
+ */
+export async function reembed(userId: string, { cursor, limit = 50 }: { cursor?: string; limit?: number } = {}) {
+  const [phase, after = ""] = (cursor ?? "nodes:").split(":")
+
+  if (phase === "nodes") {
+    const rows = await database
+      .select()
+      .from(memoryNodes)
+      .where(and(eq(memoryNodes.userId, userId), gt(memoryNodes.id, after)))
+      .orderBy(asc(memoryNodes.id))
+      .limit(limit)
+    await indexNodes(rows)
+    const nextCursor = rows.length < limit ? "messages:" : `nodes:${rows[rows.length - 1].id}`
+    return { model: embedder.model, phase, processed: rows.length, nextCursor }
+  }
+
+  const rows = await database
+    .select()
+    .from(messages)
+    .where(and(eq(messages.userId, userId), eq(messages.remember, true), gt(messages.id, after)))
+    .orderBy(asc(messages.id))
+    .limit(limit)
+  await indexMessages(rows)
+  if (rows.length === limit) return { model: embedder.model, phase, processed: rows.length, nextCursor: `messages:${rows[rows.length - 1].id}` }
+  await vectorIndex.prune(userId, embedder.model)
+  return { model: embedder.model, phase, processed: rows.length, nextCursor: null }
+}
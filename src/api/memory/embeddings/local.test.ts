@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { database } from "../../database"
+import { embeddings } from "../../database/schema"
+import { createUser } from "../../testing/users"
+import { normalize } from "./embedder"
+import { localIndex } from "./local"
+
+const record = (userId: string, id: string, vector: number[]) => ({ id, userId, text: id, vector: normalize(vector) })
+
+describe("localIndex", () => {
+  it("returns the closest vectors of the user and model, best first", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    await localIndex.upsert([record(alice, "near", [1, 0.1]), record(alice, "far", [0, 1]), record(alice, "middle", [1, 1])], "test-model")
+    await localIndex.upsert([record(bob, "bob's", [1, 0])], "test-model")
+    await localIndex.upsert([record(alice, "other model", [1, 0])], "other-model")
+
+    const matches = await localIndex.query([1, 0], { userId: alice, topK: 2, model: "test-model" })
+
+    expect(matches.map((match) => match.id)).toEqual(["near", "middle"])
+    expect(matches[0].score).toBeCloseTo(Math.cos(Math.atan(0.1)))
+  })
+
+  it("replaces the vector of a record embedded again", async () => {
+    const userId = await createUser()
+    await localIndex.upsert([record(userId, "node:a", [1, 0])], "test-model")
+    await localIndex.upsert([record(userId, "node:a", [0, 1])], "test-model")
+
+    const [match] = await localIndex.query([0, 1], { userId, topK: 1, model: "test-model" })
+    expect(match).toMatchObject({ id: "node:a", score: 1 })
+  })
+
+  it("prunes only the user's vectors of other models", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    await localIndex.upsert([record(alice, "current", [1, 0])], "new-model")
+    await localIndex.upsert([record(alice, "stale", [1, 0])], "old-model")
+    await localIndex.upsert([record(bob, "bob's", [1, 0])], "old-model")
+
+    await localIndex.prune(alice, "new-model")
+
+    const left = await database.select({ id: embeddings.id }).from(embeddings).where(eq(embeddings.model, "old-model"))
+    expect(left).toEqual([{ id: "bob's" }])
+  })
+})
@@ -0,0 +1,70 @@
+import { and, eq, gt, inArray, ne, sql } from "drizzle-orm"
+import { database } from "../../database"
+import { MAX_PARAMS, slices } from "../../database/batch"
+import { embeddings } from "../../database/schema"
+import { cosine } from "./embedder"
+import type { VectorIndex, VectorMatch } from "./types"
+
+const SCAN_PAGE = 500
+
+/**
+ * Exact cosine search over vectors stored in D1. Every query scans the whole
+ * index, which is fine for one person's memory and needs nothing but the database.
+ */
+export const localIndex: VectorIndex = {
+  async upsert(records, model) {
+    // Each row binds nine parameters
+    for (const batch of slices(records, MAX_PARAMS / 9)) {
+      await database
+        .insert(embeddings)
+        .values(batch.map((record) => ({
+          id: record.id,
+          userId: record.userId,
+          nodeId: record.nodeId,
+          messageId: record.messageId,
+          sessionId: record.sessionId,
+          text: record.text,
+          model,
+          vector: record.vector,
+        })))
+        .onConflictDoUpdate({
+          target: embeddings.id,
+          set: {
+            text: sql`excluded.text`,
+            model: sql`excluded.model`,
+            vector: sql`excluded.vector`,
+            createdAt: sql`excluded.created_at`,
+          },
+        })
+    }
+  },
+
+  async query(vector, { userId, topK, model }) {
+    const best: VectorMatch[] = []
+    let after = ""
+    for (;;) {
+      const rows = await database
+        .select({ id: embeddings.id, nodeId: embeddings.nodeId, messageId: embeddings.messageId, vector: embeddings.vector })
+        .from(embeddings)
+        .where(and(eq(embeddings.userId, userId), eq(embeddings.model, model), gt(embeddings.id, after)))
+        .orderBy(embeddings.id)
+        .limit(SCAN_PAGE)
+      for (const row of rows) {
+        best.push({ id: row.id, nodeId: row.nodeId ?? undefined, messageId: row.messageId ?? undefined, score: cosine(vector, row.vector) })
+      }
+      best.sort((a, b) => b.score - a.score).splice(topK)
+      if (rows.length < SCAN_PAGE) return best
+      after = rows[rows.length - 1].id
+    }
+  },
+
+  async remove(ids) {
+    for (const batch of slices(ids, MAX_PARAMS)) {
+      await database.delete(embeddings).where(inArray(embeddings.id, batch))
+    }
+  },
+
+  async prune(userId, model) {
+    await database.delete(embeddings).where(and(eq(embeddings.userId, userId), ne(embeddings.model, model)))
+  },
+}
@@ -0,0 +1,29 @@
+/**
+ * Something that was embedded: a memory node, or one chunk of a chat message.
+ * Ids are derived from what they point at (`node:<id>`, `chunk:<messageId>:<n>`),
+ * so embedding the same thing again replaces its vector.
+ */
+export interface EmbeddingRecord {
+  id: string
+  userId: string
+  nodeId?: string
+  messageId?: string
+  sessionId?: string
+  text: string
+}
+
+export interface VectorMatch {
+  id: string
+  nodeId?: string
+  messageId?: string
+  score: number
+}
+
+export interface VectorIndex {
+  upsert(records: (EmbeddingRecord & { vector: number[] })[], model: string): Promise<void>
+  // Only ever returns vectors of `userId`.
+  query(vector: number[], options: { userId: string; topK: number; model: string }): Promise<VectorMatch[]>
+  remove(ids: string[]): Promise<void>
+  // Drops the user's vectors made by any other model, once a re-embed has replaced them.
+  prune(userId: string, model: string): Promise<void>
+}
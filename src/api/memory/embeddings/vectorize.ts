@@ -0,0 +1,50 @@
+import type { VectorIndex } from "./types"
+
+// Vectorize caps upserts at 1000 vectors and ids lookups at 100 per call.
+const UPSERT_BATCH = 500
+const ID_BATCH = 100
+
+/**
+ * Cloudflare Vectorize backend. Each user's vectors live in their own namespace,
+ * and the embedding model is kept in the metadata of
+ * every vector so matches from a previous model are ignored until they are re-embedded.
+ * The index must be created with the embedder's dimensions and the cosine metric.
+ */
+export const vectorizeIndex = (index: Vectorize): VectorIndex => ({
+  async upsert(records, model) {
+    for (let i = 0; i < records.length; i += UPSERT_BATCH) {
+      await index.upsert(records.slice(i, i + UPSERT_BATCH).map((record) => ({
+        id: record.id,
+        namespace: record.userId,
+        values: record.vector,
+        metadata: {
+          model,
+          ...(record.nodeId && { nodeId: record.nodeId }),
+          ...(record.messageId && { messageId: record.messageId }),
+          ...(record.sessionId && { sessionId: record.sessionId }),
+        },
+      })))
+    }
+  },
+
+  async query(vector, { userId, topK, model }) {
+    const { matches } = await index.query(vector, { topK, namespace: userId, returnMetadata: "all" })
+    return matches
+      .filter((match) => match.metadata?.model === model)
+      .map((match) => ({
+        id: match.id,
+        nodeId: match.metadata?.nodeId as string | undefined,
+        messageId: match.metadata?.messageId as string | undefined,
+        score: match.score,
+      }))
+  },
+
+  async remove(ids) {
+    for (let i = 0; i < ids.length; i += ID_BATCH) {
+      await index.deleteByIds(ids.slice(i, i + ID_BATCH))
+    }
+  },
+
+  // Vectors are addressed by what they embed, so a full re-embed overwrites every live one in place.
+  async prune() {},
+})
@@ -0,0 +1,124 @@
+import z from "zod"
+import dedent from "dedent"
+import { generateText, Output } from "ai"
+import { openai, EXTRACTION_MODEL } from "../agent/gateway"
+import { normalizeLabel, upsertEdge, upsertNode } from "./store"
+import { indexNodes } from "./embeddings"
+import { recordSources, type ExtractionSource } from "./provenance"
+import { redactExtraction, redactionOf } from "./redact"
+import { auditGraph } from "./audit"
+import type { MemoryEdge, MemoryNode } from "../database/schema"
+
+export interface ExchangeMessage {
+  role: "user" | "ai"
+  content: string
+}
+
+const attributes = z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+
+export const extractionSchema = z.object({
+  entities: z.array(z.object({
+    label: z.string().describe("Canonical name of the entity, e.g. \"Bob Smith\" or \"Project Atlas\"."),
+    type: z.string().describe("Lowercase entity type such as person, organization, project, place, tool or concept."),
+    attributes: attributes.optional().describe("Short key/value properties stated in the conversation."),
+    confidence: z.number().min(0).max(1),
+  })),
+  facts: z.array(z.object({
+    statement: z.string().describe("A self-contained statement worth remembering, written in the third person."),
+    about: z.array(z.string()).describe("Labels of the entities the fact is about."),
+    confidence: z.number().min(0).max(1),
+  })),
+  relations: z.array(z.object({
+    source: z.string().describe("Label of the source entity."),
+    target: z.string().describe("Label of the target entity."),
+    type: z.string().describe("Lowercase snake_case relation such as works_on, knows, uses or part_of."),
+    weight: z.number().min(0).max(1).describe("How strongly the conversation supports the relation."),
+  })),
+})
+
+export type Extraction = z.infer<typeof extractionSchema>
+
+const INSTRUCTIONS = dedent`
+  You maintain the long-term memory graph of a chat assistant.
+  Read the conversation and extract only durable knowledge about the user and their world:
+  people, organizations, projects, tools, preferences, decisions and plans.
+  Ignore greetings, small talk and anything that only matters for the current reply.
+  Reuse the exact same label whenever the same entity is mentioned again.
+  Return empty arrays when there is nothing worth remembering.
+`
+
+const DOCUMENT_INSTRUCTIONS = dedent`
+  You maintain the long-term memory graph of a chat assistant.
+  Read this excerpt of a document the user saved and extract the knowledge worth keeping:
+  people, organizations, projects, tools, concepts, decisions and key facts.
+  Reuse the exact same label whenever the same entity is mentioned again.
+  Return empty arrays when there is nothing worth remembering.
+`
+
+export const transcript = (messages: ExchangeMessage[]) =>
+  messages.map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`).join("\n\n")
+
+async function extract(system: string, prompt: string) {
+  const { output } = await generateText({
+    model: openai.chat(EXTRACTION_MODEL),
+    system,
+    prompt,
+    output: Output.object({ schema: extractionSchema }),
+  })
+  return output
+}
+
+export const extractFromMessages = (messages: ExchangeMessage[]) => extract(INSTRUCTIONS, transcript(messages))
+
+export const extractFromDocument = (name: string, excerpt: string) => extract(DOCUMENT_INSTRUCTIONS, `Document: ${name}\n\n${excerpt}`)
+
+/**
+ * Writes an extraction into the graph, with the personal data the user chose masked.
+ * Relations and facts may reference entities the model did not list explicitly;
+ * those are created as concepts.
+ */
+export async function applyExtraction(userId: string, input: Extraction) {
+  const extraction = redactExtraction(input, await redactionOf(userId))
+  const nodes = new Map<string, MemoryNode>()
+  const edges: MemoryEdge[] = []
+
+  const entity = async (label: string, type = "concept", attributes = {}, confidence = 0.5) => {
+    const existing = nodes.get(normalizeLabel(label))
+    if (existing) return existing
+    const node = await upsertNode(userId, { kind: "entity", type, label, attributes, confidence })
+    nodes.set(normalizeLabel(label), node)
+    return node
+  }
+
+  for (const item of extraction.entities) {
+    await entity(item.label, item.type, item.attributes, item.confidence)
+  }
+
+  for (const relation of extraction.relations) {
+    const source = await entity(relation.source)
+    const target = await entity(relation.target)
+    if (source.id === target.id) continue
+    edges.push(await upsertEdge(userId, { sourceId: source.id, targetId: target.id, type: relation.type, weight: relation.weight }))
+  }
+
+  const facts: MemoryNode[] = []
+  for (const fact of extraction.facts) {
+    const node = await upsertNode(userId, { kind: "fact", type: "fact", label: fact.statement, confidence: fact.confidence })
+    facts.push(node)
+    for (const label of fact.about) {
+      const subject = await entity(label)
+      edges.push(await upsertEdge(userId, { sourceId: node.id, targetId: subject.id, type: "about", weight: fact.confidence, confidence: fact.confidence }))
+    }
+  }
+
+  return { nodes: [...nodes.values(), ...facts], edges }
+}
+
+export async function extractMemory(userId: string, messages: ExchangeMessage[], source?: ExtractionSource) {
+  const extraction = await extractFromMessages(messages)
+  const graph = await applyExtraction(userId, extraction)
+  if (source) await recordSources(userId, graph, source)
+  await indexNodes(graph.nodes)
+  await auditGraph(userId, graph, { via: "extraction", sessionId: source?.sessionId, messageId: source?.messageIds[0] })
+  return graph
+}
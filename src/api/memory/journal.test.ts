@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { database } from "../database"
+import { memorySources } from "../database/schema"
+import { appendMessage, createSession } from "../sessions/store"
+import { createUser } from "../testing/users"
+import { forgetJournaled, rememberJournaled, undoOperation } from "./journal"
+import { recordSources } from "./provenance"
+import { getNode, listEdges, listNodes, upsertEdge, upsertNode } from "./store"
+
+const person = (label: string, attributes = {}) => ({ kind: "entity" as const, type: "person", label, attributes })
+
+// A session with one user message, the origin tools journal their writes under
+async function origin(userId: string, tool: string) {
+  const session = await createSession(userId)
+  const { message } = await appendMessage(userId, session.id, { role: "user", content: "Remember this" })
+  return { tool, sessionId: session.id, messageId: message.id }
+}
+
+describe("rememberJournaled", () => {
+  it("reports what it created and updated, and undoing it puts the graph back", async () => {
+    const userId = await createUser()
+    const bob = await upsertNode(userId, person("Bob", { city: "Paris" }))
+
+    const { operation, changes } = await rememberJournaled(userId, {
+      entities: [{ label: "Bob", type: "person", attributes: { job: "baker" }, confidence: 0.9 }, { label: "Carol", type: "person", confidence: 0.9 }],
+      facts: [],
+      relations: [{ source: "Bob", target: "Carol", type: "knows", weight: 0.8 }],
+    }, await origin(userId, "remember"))
+
+    expect(changes.map(({ label, change }) => ({ label, change }))).toEqual([
+      { label: "Bob", change: "updated" },
+      { label: "Carol", change: "created" },
+      { label: "Bob → knows → Carol", change: "created" },
+    ])
+    expect((await getNode(userId, bob.id))?.node.attributes).toEqual({ city: "Paris", job: "baker" })
+
+    expect(await undoOperation(userId, operation)).toMatchObject({ id: operation.id, undoneAt: expect.any(Date) })
+    expect((await listNodes(userId)).map((node) => node.label)).toEqual(["Bob"])
+    expect((await getNode(userId, bob.id))?.node).toMatchObject({ attributes: { city: "Paris" }, confidence: bob.confidence })
+    expect(await listEdges(userId)).toEqual([])
+    // Undoing twice does nothing
+    expect(await undoOperation(userId, operation)).toBeNull()
+  })
+})
+
+describe("forgetJournaled", () => {
+  it("deletes nodes with their edges, and undoing it restores them with their sources", async () => {
+    const userId = await createUser()
+    const [bob, carol] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Carol"))])
+    const edge = await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows" })
+    const learned = await origin(userId, "remember")
+    await recordSources(userId, { nodes: [carol], edges: [edge] }, { sessionId: learned.sessionId, messageIds: [learned.messageId] })
+
+    const result = await forgetJournaled(userId, [carol.id], await origin(userId, "forget"))
+
+    expect(result?.changes.map(({ label, change }) => ({ label, change }))).toEqual([
+      { label: "Carol", change: "deleted" },
+      { label: "Bob → knows → Carol", change: "deleted" },
+    ])
+    expect(await getNode(userId, carol.id)).toBeNull()
+    expect(await listEdges(userId)).toEqual([])
+
+    await undoOperation(userId, result!.operation)
+
+    expect((await getNode(userId, carol.id))?.node.label).toBe("Carol")
+    expect((await listEdges(userId)).map((row) => row.id)).toEqual([edge.id])
+    const sources = await database.select().from(memorySources).where(eq(memorySources.messageId, learned.messageId))
+    expect(sources.map((source) => source.nodeId ?? source.edgeId).sort()).toEqual([carol.id, edge.id].sort())
+  })
+
+  it("forgets nothing of another account", async () => {
+    const [alice, mallory] = await Promise.all([createUser(), createUser()])
+    const carol = await upsertNode(alice, person("Carol"))
+
+    expect(await forgetJournaled(mallory, [carol.id], await origin(mallory, "forget"))).toBeNull()
+    expect(await getNode(alice, carol.id)).not.toBeNull()
+  })
+
+  it("leaves a forgotten edge deleted when its endpoint has gone for good since", async () => {
+    const userId = await createUser()
+    const [bob, carol] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Carol"))])
+    const edge = await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows" })
+    const forgotten = await forgetJournaled(userId, [edge.id], await origin(userId, "forget"))
+    await forgetJournaled(userId, [carol.id], await origin(userId, "forget"))
+
+    await undoOperation(userId, forgotten!.operation)
+
+    expect(await listEdges(userId)).toEqual([])
+  })
+})
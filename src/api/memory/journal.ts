@@ -0,0 +1,304 @@
+import { and, desc, eq, inArray, isNull, or } from "drizzle-orm"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import {
+  documents,
+  documentSources,
+  memoryEdges,
+  memoryNodes,
+  memoryOperations,
+  memorySources,
+  messages,
+  type DocumentSource,
+  type MemoryChange,
+  type MemoryEdge,
+  type MemoryNode,
+  type MemoryOperation,
+  type MemorySource,
+} from "../database/schema"
+import { indexNodes, removeNodeEmbeddings } from "./embeddings"
+import { auditChanges } from "./audit"
+import { applyExtraction, type Extraction } from "./extract"
+import { recordSources } from "./provenance"
+import { redactExtraction, redactionOf } from "./redact"
+import { deleteMemory, nodeKey } from "./store"
+
+export interface OperationOrigin {
+  tool: string
+  sessionId: string
+  // The user message that led to the write, recorded as the source of what was written
+  messageId: string
+}
+
+export interface ChangeSummary {
+  kind: "node" | "edge"
+  id: string
+  label: string
+  change: "created" | "updated" | "deleted"
+}
+
+const byId = <T extends { id: string }>(rows: T[]) => new Map(rows.map((row) => [row.id, row]))
+
+async function selectIn<T>(ids: string[], query: (batch: string[]) => Promise<T[]>) {
+  return (await Promise.all(slices([...new Set(ids)], MAX_PARAMS).map(query))).flat()
+}
+
+const edgesTouching = (userId: string, nodeIds: string[]) =>
+  selectIn(nodeIds, (batch) =>
+    database.select().from(memoryEdges).where(and(
+      eq(memoryEdges.userId, userId),
+      or(inArray(memoryEdges.sourceId, batch), inArray(memoryEdges.targetId, batch)),
+    ))
+  )
+
+const reviveNode = (node: MemoryNode): MemoryNode => ({ ...node, createdAt: new Date(node.createdAt), updatedAt: new Date(node.updatedAt) })
+const reviveEdge = (edge: MemoryEdge): MemoryEdge => ({
+  ...edge,
+  decayedAt: edge.decayedAt && new Date(edge.decayedAt),
+  createdAt: new Date(edge.createdAt),
+  updatedAt: new Date(edge.updatedAt),
+})
+const reviveSource = <T extends MemorySource | DocumentSource>(source: T): T => ({ ...source, createdAt: new Date(source.createdAt) })
+
+/**
+ * What a journaled write did, one line per node and edge. Edges are described by
+ * the labels of their endpoints, looked up in the change itself or in the graph.
+ */
+export async function summarize(userId: string, changes: MemoryChange[]): Promise<ChangeSummary[]> {
+  const labels = new Map<string, string>()
+  for (const change of changes) {
+    if (change.kind === "node") labels.set(change.id, (change.after ?? change.before)!.label)
+  }
+  const endpoints = changes.flatMap((change) => {
+    if (change.kind !== "edge") return []
+    const edge = (change.after ?? change.before)!
+    return [edge.sourceId, edge.targetId].filter((id) => !labels.has(id))
+  })
+  const known = await selectIn(endpoints, (batch) =>
+    database.select({ id: memoryNodes.id, label: memoryNodes.label }).from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  )
+  for (const node of known) labels.set(node.id, node.label)
+
+  const describe = (change: MemoryChange) => {
+    if (change.kind === "node") return (change.after ?? change.before)!.label
+    const edge = (change.after ?? change.before)!
+    return `${labels.get(edge.sourceId) ?? "?"} → ${edge.type.replace(/_/g, " ")} → ${labels.get(edge.targetId) ?? "?"}`
+  }
+  return changes.map((change) => ({
+    kind: change.kind,
+    id: change.id,
+    label: describe(change),
+    change: !change.before ? "created" : !change.after ? "deleted" : "updated",
+  }))
+}
+
+// Chat and document provenance of the given rows, which deleting them cascades away
+const provenanceOf = async (nodeIds: string[], edgeIds: string[]) => ({
+  sources: [
+    ...await selectIn(nodeIds, (batch) => database.select().from(memorySources).where(inArray(memorySources.nodeId, batch))),
+    ...await selectIn(edgeIds, (batch) => database.select().from(memorySources).where(inArray(memorySources.edgeId, batch))),
+  ],
+  documentSources: [
+    ...await selectIn(nodeIds, (batch) => database.select().from(documentSources).where(inArray(documentSources.nodeId, batch))),
+    ...await selectIn(edgeIds, (batch) => database.select().from(documentSources).where(inArray(documentSources.edgeId, batch))),
+  ],
+})
+
+// Rows that are the same before and after are left out
+const diff = <T extends { id: string }>(before: Map<string, T>, after: Map<string, T>) =>
+  [...new Set([...before.keys(), ...after.keys()])]
+    .map((id) => ({ id, before: before.get(id) ?? null, after: after.get(id) ?? null }))
+    .filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after))
+
+// Consolidation journals its runs like a tool, the audit log tells them apart
+export async function journal(
+  userId: string,
+  origin: { tool: string; sessionId?: string | null; messageId?: string | null },
+  changes: MemoryChange[],
+  { sources = [], documentSources = [] }: { sources?: MemorySource[]; documentSources?: DocumentSource[] } = {},
+) {
+  const [operation] = await database
+    .insert(memoryOperations)
+    .values({ userId, sessionId: origin.sessionId ?? null, tool: origin.tool, changes, sources, documentSources })
+    .returning()
+  const summary = await summarize(userId, changes)
+  await auditChanges(userId, summary, { ...origin, via: origin.tool === "consolidate" ? "consolidation" : "tool" })
+  return { operation, changes: summary }
+}
+
+/**
+ * Writes an extraction like passive extraction does, but keeps every touched node
+ * and edge as it was before so the write can be undone.
+ */
+export async function rememberJournaled(userId: string, input: Extraction, origin: OperationOrigin) {
+  // Redacted up front so the keys below match the labels that are written
+  const extraction = redactExtraction(input, await redactionOf(userId))
+  const keys = [
+    ...extraction.entities.map((item) => nodeKey("entity", item.label)),
+    ...extraction.facts.flatMap((fact) => [nodeKey("fact", fact.statement), ...fact.about.map((label) => nodeKey("entity", label))]),
+    ...extraction.relations.flatMap((relation) => [nodeKey("entity", relation.source), nodeKey("entity", relation.target)]),
+  ]
+  const nodesBefore = byId(await selectIn(keys, (batch) =>
+    database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.key, batch)))
+  ))
+  // An edge can only exist already if both of its endpoints did
+  const edgesBefore = byId(await edgesTouching(userId, [...nodesBefore.keys()]))
+
+  const graph = await applyExtraction(userId, extraction)
+  const changes: MemoryChange[] = [
+    ...[...byId(graph.nodes).values()].map((node) => ({ kind: "node" as const, id: node.id, before: nodesBefore.get(node.id) ?? null, after: node })),
+    ...[...byId(graph.edges).values()].map((edge) => ({ kind: "edge" as const, id: edge.id, before: edgesBefore.get(edge.id) ?? null, after: edge })),
+  ]
+  await recordSources(userId, graph, { sessionId: origin.sessionId, messageIds: [origin.messageId] })
+  await indexNodes(graph.nodes)
+  return journal(userId, origin, changes)
+}
+
+/**
+ * Deletes nodes and edges by id. Edges of deleted nodes and the provenance of
+ * everything removed are journaled too, since the deletion cascades to them.
+ * Returns null when none of the ids belong to the user.
+ */
+export async function forgetJournaled(userId: string, ids: string[], origin: OperationOrigin) {
+  const nodes = await selectIn(ids, (batch) =>
+    database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  )
+  const direct = await selectIn(ids, (batch) =>
+    database.select().from(memoryEdges).where(and(eq(memoryEdges.userId, userId), inArray(memoryEdges.id, batch)))
+  )
+  const edges = [...byId([...direct, ...await edgesTouching(userId, nodes.map((node) => node.id))]).values()]
+  if (nodes.length === 0 && edges.length === 0) return null
+
+  const provenance = await provenanceOf(nodes.map((node) => node.id), edges.map((edge) => edge.id))
+  await deleteMemory(userId, { nodeIds: nodes.map((node) => node.id), edgeIds: edges.map((edge) => edge.id) })
+  await removeNodeEmbeddings(nodes.map((node) => node.id))
+
+  const changes: MemoryChange[] = [
+    ...nodes.map((node) => ({ kind: "node" as const, id: node.id, before: node, after: null })),
+    ...edges.map((edge) => ({ kind: "edge" as const, id: edge.id, before: edge, after: null })),
+  ]
+  return journal(userId, origin, changes, provenance)
+}
+
+/**
+ * Runs a write that does not report what it touched, such as a merge, and returns the
+ * changes to journal: the given nodes and edges plus every edge touching those nodes
+ * are read before and after it. Removed rows keep their provenance like in `forgetJournaled`.
+ */
+export async function trackChanges(userId: string, ids: { nodeIds: string[]; edgeIds: string[] }, write: () => Promise<unknown>) {
+  const read = async () => {
+    const nodes = await selectIn(ids.nodeIds, (batch) =>
+      database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+    )
+    const direct = await selectIn(ids.edgeIds, (batch) =>
+      database.select().from(memoryEdges).where(and(eq(memoryEdges.userId, userId), inArray(memoryEdges.id, batch)))
+    )
+    return { nodes: byId(nodes), edges: byId([...direct, ...await edgesTouching(userId, ids.nodeIds)]) }
+  }
+  const before = await read()
+  const provenance = await provenanceOf([...before.nodes.keys()], [...before.edges.keys()])
+  await write()
+  const after = await read()
+
+  const changes: MemoryChange[] = [
+    ...diff(before.nodes, after.nodes).map((change) => ({ kind: "node" as const, ...change })),
+    ...diff(before.edges, after.edges).map((change) => ({ kind: "edge" as const, ...change })),
+  ]
+  const removed = new Set(changes.filter((change) => !change.after).map((change) => change.id))
+  const wasRemoved = (source: { nodeId: string | null; edgeId: string | null }) => removed.has(source.nodeId ?? source.edgeId!)
+  return { changes, sources: provenance.sources.filter(wasRemoved), documentSources: provenance.documentSources.filter(wasRemoved) }
+}
+
+export async function getOperation(userId: string, id: string) {
+  return (await database.query.memoryOperations.findFirst({ where: and(eq(memoryOperations.id, id), eq(memoryOperations.userId, userId)) })) ?? null
+}
+
+export async function listOperations(userId: string, { sessionId, limit = 50 }: { sessionId?: string; limit?: number } = {}) {
+  return database
+    .select()
+    .from(memoryOperations)
+    .where(and(eq(memoryOperations.userId, userId), sessionId ? eq(memoryOperations.sessionId, sessionId) : undefined))
+    .orderBy(desc(memoryOperations.createdAt))
+    .limit(limit)
+}
+
+// What undoing a change did to the item; deleted rows that could not be restored are left out
+const inverseOf = (item: ChangeSummary, restored: Set<string>): ChangeSummary[] => {
+  if (item.change === "created") return [{ ...item, change: "deleted" }]
+  if (item.change === "deleted") return restored.has(item.id) ? [{ ...item, change: "created" }] : []
+  return [item]
+}
+
+/**
+ * Puts every node and edge of an operation back the way it was before it: created
+ * rows are deleted, changed rows get their old values back and deleted rows are
+ * re-inserted with their provenance. Later writes to the same rows are overwritten.
+ * Forgotten edges whose endpoint has since gone for good stay deleted.
+ */
+export async function undoOperation(userId: string, operation: MemoryOperation) {
+  // Labels of edge endpoints are looked up while the endpoints still exist
+  const summary = await summarize(userId, operation.changes)
+  const nodeChanges = operation.changes.flatMap((change) => (change.kind === "node" ? [change] : []))
+  const edgeChanges = operation.changes.flatMap((change) => (change.kind === "edge" ? [change] : []))
+  const created = {
+    nodeIds: nodeChanges.filter((change) => !change.before).map((change) => change.id),
+    edgeIds: edgeChanges.filter((change) => !change.before).map((change) => change.id),
+  }
+  const changedNodes = nodeChanges.filter((change) => change.before && change.after).map((change) => reviveNode(change.before!))
+  const changedEdges = edgeChanges.filter((change) => change.before && change.after).map((change) => reviveEdge(change.before!))
+  const deletedNodes = nodeChanges.filter((change) => !change.after).map((change) => reviveNode(change.before!))
+  const deletedEdges = edgeChanges.filter((change) => !change.after).map((change) => reviveEdge(change.before!))
+
+  await deleteMemory(userId, created)
+  for (const node of changedNodes) {
+    const { type, label, key, attributes, confidence, updatedAt } = node
+    await database.update(memoryNodes).set({ type, label, key, attributes, confidence, updatedAt }).where(and(eq(memoryNodes.id, node.id), eq(memoryNodes.userId, userId)))
+  }
+  for (const edge of changedEdges) {
+    const { weight, attributes, confidence, decayedAt, updatedAt } = edge
+    await database.update(memoryEdges).set({ weight, attributes, confidence, decayedAt, updatedAt }).where(and(eq(memoryEdges.id, edge.id), eq(memoryEdges.userId, userId)))
+  }
+
+  // Each row binds eleven parameters
+  for (const batch of slices(deletedNodes, Math.floor(MAX_PARAMS / 11))) {
+    await database.insert(memoryNodes).values(batch).onConflictDoNothing()
+  }
+  const present = new Set((await selectIn([...deletedNodes.map((node) => node.id), ...deletedEdges.flatMap((edge) => [edge.sourceId, edge.targetId])], (batch) =>
+    database.select({ id: memoryNodes.id }).from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  )).map((node) => node.id))
+  // A node that was learned again under the same label since keeps the newer row
+  const restoredNodes = deletedNodes.filter((node) => present.has(node.id))
+  const restorable = deletedEdges.filter((edge) => present.has(edge.sourceId) && present.has(edge.targetId))
+  for (const batch of slices(restorable, Math.floor(MAX_PARAMS / 11))) {
+    await database.insert(memoryEdges).values(batch).onConflictDoNothing()
+  }
+
+  // Provenance comes back only for rows that were restored and messages and documents that still exist
+  const sources = operation.sources.map(reviveSource)
+  const restored = new Set([...restoredNodes.map((node) => node.id), ...restorable.map((edge) => edge.id)])
+  const messageIds = new Set((await selectIn(sources.map((source) => source.messageId), (batch) =>
+    database.select({ id: messages.id }).from(messages).where(and(eq(messages.userId, userId), inArray(messages.id, batch)))
+  )).map((message) => message.id))
+  const kept = sources.filter((source) => restored.has(source.nodeId ?? source.edgeId!) && messageIds.has(source.messageId))
+  for (const batch of slices(kept, Math.floor(MAX_PARAMS / 8))) {
+    await database.insert(memorySources).values(batch).onConflictDoNothing()
+  }
+  const fromDocuments = operation.documentSources.map(reviveSource)
+  const documentIds = new Set((await selectIn(fromDocuments.map((source) => source.documentId), (batch) =>
+    database.select({ id: documents.id }).from(documents).where(and(eq(documents.userId, userId), inArray(documents.id, batch)))
+  )).map((document) => document.id))
+  const keptFromDocuments = fromDocuments.filter((source) => restored.has(source.nodeId ?? source.edgeId!) && documentIds.has(source.documentId))
+  for (const batch of slices(keptFromDocuments, Math.floor(MAX_PARAMS / 9))) {
+    await database.insert(documentSources).values(batch).onConflictDoNothing()
+  }
+
+  await removeNodeEmbeddings(created.nodeIds)
+  await indexNodes([...changedNodes, ...restoredNodes])
+  const [undone] = await database
+    .update(memoryOperations)
+    .set({ undoneAt: new Date() })
+    .where(and(eq(memoryOperations.id, operation.id), isNull(memoryOperations.undoneAt)))
+    .returning()
+  await auditChanges(userId, summary.flatMap((item) => inverseOf(item, restored)), { via: "undo", sessionId: operation.sessionId })
+  return undone ?? null
+}
@@ -0,0 +1,138 @@
+import { and, desc, eq, inArray, isNotNull, notExists, or, sql } from "drizzle-orm"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { documentSources, memorySources, messages, sessions, type MessageContext, type SourceReference } from "../database/schema"
+import { toPreview } from "../sessions/store"
+import type { Retrieval } from "./retrieve"
+
+export interface ExtractionSource {
+  sessionId: string
+  messageIds: string[]
+}
+
+const SOURCES_PER_ITEM = 3
+const MAX_CITED_MESSAGES = 8
+
+/**
+ * Links every node and edge of an extraction to the messages it came from.
+ */
+export async function recordSources(userId: string, graph: { nodes: { id: string }[]; edges: { id: string }[] }, source: ExtractionSource) {
+  const rows = source.messageIds.flatMap((messageId) => [
+    ...graph.nodes.map((node) => ({ userId, nodeId: node.id, messageId, sessionId: source.sessionId })),
+    ...graph.edges.map((edge) => ({ userId, edgeId: edge.id, messageId, sessionId: source.sessionId })),
+  ])
+  // Each row binds seven parameters
+  for (const batch of slices(rows, MAX_PARAMS / 7)) {
+    await database.insert(memorySources).values(batch).onConflictDoNothing()
+  }
+}
+
+/**
+ * Nodes and edges that were only ever learned from messages on abandoned branches.
+ * Anything also backed by an active message or a document, or added by hand, is not included.
+ */
+export async function abandonedMemory(userId: string) {
+  const onlyAbandoned = sql`min(${memorySources.abandoned}) = 1`
+  const fromNoDocument = (column: "nodeId" | "edgeId") =>
+    notExists(database.select({ id: documentSources.id }).from(documentSources).where(eq(documentSources[column], memorySources[column])))
+  const [nodes, edges] = await Promise.all([
+    database
+      .select({ id: memorySources.nodeId })
+      .from(memorySources)
+      .where(and(eq(memorySources.userId, userId), isNotNull(memorySources.nodeId), fromNoDocument("nodeId")))
+      .groupBy(memorySources.nodeId)
+      .having(onlyAbandoned),
+    database
+      .select({ id: memorySources.edgeId })
+      .from(memorySources)
+      .where(and(eq(memorySources.userId, userId), isNotNull(memorySources.edgeId), fromNoDocument("edgeId")))
+      .groupBy(memorySources.edgeId)
+      .having(onlyAbandoned),
+  ])
+  return { nodeIds: nodes.map((row) => row.id!), edgeIds: edges.map((row) => row.id!) }
+}
+
+/**
+ * Most recent source messages for each of the given nodes and edges, keyed by node or edge id.
+ */
+export async function sourcesOf(ids: string[]) {
+  const sources = new Map<string, SourceReference[]>()
+  for (const batch of slices(ids, MAX_PARAMS / 2)) {
+    const rows = await database
+      .select()
+      .from(memorySources)
+      .where(or(inArray(memorySources.nodeId, batch), inArray(memorySources.edgeId, batch)))
+      .orderBy(desc(memorySources.createdAt))
+    for (const row of rows) {
+      const key = row.nodeId ?? row.edgeId!
+      const list = sources.get(key) ?? []
+      if (list.length < SOURCES_PER_ITEM) list.push({ messageId: row.messageId, sessionId: row.sessionId })
+      sources.set(key, list)
+    }
+  }
+  return sources
+}
+
+/**
+ * Every message a node was learned from, newest first.
+ */
+export async function nodeSources(nodeId: string, limit = 20) {
+  const rows = await database
+    .select({ messageId: memorySources.messageId })
+    .from(memorySources)
+    .where(eq(memorySources.nodeId, nodeId))
+    .orderBy(desc(memorySources.createdAt))
+    .limit(limit)
+  const found = await sourceMessages(rows.map((row) => row.messageId))
+  return found
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map((row) => ({ ...row, excerpt: toPreview(row.content) }))
+}
+
+export async function sourceMessages(messageIds: string[]) {
+  if (messageIds.length === 0) return []
+  return database
+    .select({
+      messageId: messages.id,
+      sessionId: messages.sessionId,
+      role: messages.role,
+      content: messages.content,
+      createdAt: messages.createdAt,
+      sessionTitle: sessions.title,
+    })
+    .from(messages)
+    .innerJoin(sessions, eq(sessions.id, messages.sessionId))
+    .where(inArray(messages.id, messageIds.slice(0, MAX_PARAMS)))
+}
+
+/**
+ * Describes what an AI message was given to work with, so the UI can cite it.
+ */
+export async function buildContext(retrieval: Retrieval, history: number): Promise<MessageContext> {
+  const included = retrieval.items.filter((item) => item.included)
+  const sources = await sourcesOf(included.map((item) => item.id))
+  const memory = included.map((item) => ({
+    kind: item.kind,
+    id: item.id,
+    text: item.text,
+    score: Number(item.score.toFixed(3)),
+    sources: sources.get(item.id) ?? [],
+  }))
+
+  const cited = [...new Set(memory.flatMap((item) => item.sources.map((source) => source.messageId)))].slice(0, MAX_CITED_MESSAGES)
+  const rows = await sourceMessages(cited)
+  return {
+    memory,
+    messages: rows
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((row) => ({
+        messageId: row.messageId,
+        sessionId: row.sessionId,
+        role: row.role,
+        excerpt: toPreview(row.content),
+        sessionTitle: row.sessionTitle,
+        createdAt: row.createdAt.toISOString(),
+      })),
+    history,
+  }
+}
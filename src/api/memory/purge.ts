@@ -0,0 +1,156 @@
+import { and, eq, inArray, isNotNull, like, notExists, or, sql } from "drizzle-orm"
+import { alias, type AnySQLiteColumn } from "drizzle-orm/sqlite-core"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import {
+  consolidationReports,
+  documentSources,
+  memoryEdges,
+  memoryNodes,
+  memoryOperations,
+  memorySources,
+  messages,
+  type ConsolidationDetails,
+  type MemoryChange,
+} from "../database/schema"
+import { audit, clearAuditLabels, type AuditOrigin } from "./audit"
+import { removeNodeEmbeddings } from "./embeddings"
+import { scrubEvents } from "../sync"
+import { deleteMemory } from "./store"
+
+export interface PurgedMemory {
+  nodeIds: string[]
+  edgeIds: string[]
+}
+
+// Rows whose JSON column mentions one of the ids, i.e. keeps a copy of a purged item
+const mentions = (column: AnySQLiteColumn, ids: string[]) => or(...ids.map((id) => like(column, `%${id}%`)))
+
+const touches = (change: MemoryChange, purged: Set<string>) => {
+  if (purged.has(change.id)) return true
+  const edge = change.kind === "edge" ? change.after ?? change.before : null
+  return !!edge && (purged.has(edge.sourceId) || purged.has(edge.targetId))
+}
+
+/**
+ * Removes the copies other tables keep of purged items: the undo journal, consolidation
+ * reports and the memory context saved with AI messages. Undoing an older operation
+ * therefore cannot bring a purged item back.
+ */
+async function scrubCopies(userId: string, purged: Set<string>) {
+  // Two LIKE patterns per id in the largest query
+  for (const batch of slices([...purged], MAX_PARAMS / 2 - 1)) {
+    const operations = await database
+      .select()
+      .from(memoryOperations)
+      .where(and(eq(memoryOperations.userId, userId), or(mentions(memoryOperations.changes, batch), mentions(memoryOperations.sources, batch))))
+    for (const operation of operations) {
+      await database
+        .update(memoryOperations)
+        .set({
+          changes: operation.changes.filter((change) => !touches(change, purged)),
+          sources: operation.sources.filter((source) => !purged.has(source.nodeId ?? source.edgeId!)),
+          documentSources: operation.documentSources.filter((source) => !purged.has(source.nodeId ?? source.edgeId!)),
+        })
+        .where(eq(memoryOperations.id, operation.id))
+    }
+
+    const reports = await database
+      .select()
+      .from(consolidationReports)
+      .where(and(eq(consolidationReports.userId, userId), mentions(consolidationReports.details, batch)))
+    for (const { id, details } of reports) {
+      const scrubbed: ConsolidationDetails = {
+        ...details,
+        merged: details.merged.filter((merge) => !purged.has(merge.fromId) && !purged.has(merge.intoId)),
+        pruned: { ...details.pruned, nodes: details.pruned.nodes.filter((node) => !purged.has(node.id)) },
+        summarized: details.summarized.filter((summary) => !purged.has(summary.nodeId)),
+      }
+      await database.update(consolidationReports).set({ details: scrubbed }).where(eq(consolidationReports.id, id))
+    }
+
+    const cited = await database
+      .select({ id: messages.id, context: messages.context })
+      .from(messages)
+      .where(and(eq(messages.userId, userId), mentions(messages.context, batch)))
+    for (const { id, context } of cited) {
+      if (!context) continue
+      await database
+        .update(messages)
+        .set({ context: { ...context, memory: context.memory.filter((item) => !purged.has(item.id)) } })
+        .where(eq(messages.id, id))
+    }
+  }
+}
+
+/**
+ * Deletes nodes and edges for good: unlike forgetting, nothing about them is kept to
+ * undo it, copies in the journal, in saved contexts and in the sync log are scrubbed, and
+ * their audit history loses its text. Edges touching the nodes go too.
+ */
+export async function purgeMemory(userId: string, { nodeIds, edgeIds }: PurgedMemory, origin: Omit<AuditOrigin, "via">): Promise<PurgedMemory> {
+  const nodes = (await Promise.all(slices(nodeIds, MAX_PARAMS - 1).map((batch) =>
+    database.select({ id: memoryNodes.id }).from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  ))).flat()
+  const edges = (await Promise.all([
+    ...slices(edgeIds, MAX_PARAMS - 1).map((batch) =>
+      database.select({ id: memoryEdges.id }).from(memoryEdges).where(and(eq(memoryEdges.userId, userId), inArray(memoryEdges.id, batch)))
+    ),
+    ...slices(nodes.map((node) => node.id), MAX_PARAMS / 2 - 1).map((batch) =>
+      database.select({ id: memoryEdges.id }).from(memoryEdges).where(and(eq(memoryEdges.userId, userId), or(inArray(memoryEdges.sourceId, batch), inArray(memoryEdges.targetId, batch))))
+    ),
+  ])).flat()
+  const purged = { nodeIds: nodes.map((node) => node.id), edgeIds: [...new Set(edges.map((edge) => edge.id))] }
+  if (purged.nodeIds.length === 0 && purged.edgeIds.length === 0) return purged
+
+  await deleteMemory(userId, purged)
+  await removeNodeEmbeddings(purged.nodeIds)
+  await scrubCopies(userId, new Set([...purged.nodeIds, ...purged.edgeIds]))
+  await clearAuditLabels(userId, [...purged.nodeIds, ...purged.edgeIds])
+  await scrubEvents(userId, [...purged.nodeIds, ...purged.edgeIds])
+  await audit(userId, "purged", [
+    ...purged.nodeIds.map((id) => ({ kind: "node" as const, id, label: null })),
+    ...purged.edgeIds.map((id) => ({ kind: "edge" as const, id, label: null })),
+  ], { ...origin, via: "purge" })
+  return purged
+}
+
+/**
+ * Purges a node with the facts derived from it, i.e. fact and summary nodes that are
+ * about this node and nothing else. Returns null when the node does not belong to `userId`.
+ */
+export async function purgeNode(userId: string, nodeId: string) {
+  const node = await database.query.memoryNodes.findFirst({ where: and(eq(memoryNodes.id, nodeId), eq(memoryNodes.userId, userId)) })
+  if (!node) return null
+  const other = alias(memoryEdges, "other")
+  const derived = await database
+    .select({ id: memoryNodes.id })
+    .from(memoryNodes)
+    .innerJoin(memoryEdges, and(eq(memoryEdges.sourceId, memoryNodes.id), eq(memoryEdges.targetId, nodeId), eq(memoryEdges.type, "about")))
+    .where(and(
+      eq(memoryNodes.userId, userId),
+      eq(memoryNodes.kind, "fact"),
+      notExists(database.select({ id: other.id }).from(other).where(and(eq(other.sourceId, memoryNodes.id), eq(other.type, "about"), sql`${other.targetId} <> ${nodeId}`))),
+    ))
+  return purgeMemory(userId, { nodeIds: [nodeId, ...derived.map((row) => row.id)], edgeIds: [] }, {})
+}
+
+/**
+ * Purges the memory that was learned from the given messages and nothing else, e.g. after
+ * the user asked not to remember a message. Memory also backed by a document stays.
+ */
+export async function purgeLearnedFrom(userId: string, messageIds: string[], origin: Omit<AuditOrigin, "via">) {
+  if (messageIds.length === 0) return { nodeIds: [], edgeIds: [] }
+  const fromThese = sql`sum(case when ${memorySources.messageId} in (${sql.join(messageIds.map((id) => sql`${id}`), sql`, `)}) then 1 else 0 end) = count(*)`
+  const fromNoDocument = (column: "nodeId" | "edgeId") =>
+    notExists(database.select({ id: documentSources.id }).from(documentSources).where(eq(documentSources[column], memorySources[column])))
+  const exclusive = (column: "nodeId" | "edgeId") =>
+    database
+      .select({ id: memorySources[column] })
+      .from(memorySources)
+      .where(and(eq(memorySources.userId, userId), isNotNull(memorySources[column]), fromNoDocument(column)))
+      .groupBy(memorySources[column])
+      .having(fromThese)
+  const [nodes, edges] = await Promise.all([exclusive("nodeId"), exclusive("edgeId")])
+  return purgeMemory(userId, { nodeIds: nodes.map((row) => row.id!), edgeIds: edges.map((row) => row.id!) }, origin)
+}
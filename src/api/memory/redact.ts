@@ -0,0 +1,71 @@
+import type { MemoryAttributes, RedactionCategory } from "../database/schema"
+import { getSettings } from "../settings/store"
+import type { Extraction } from "./extract"
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g
+// Loose on purpose; candidates are checked for their digit count below
+const PHONE = /(?<![\w+])\+?(?:\(\d{1,4}\)[ .-]?)?\d[\d .-]{5,}\d(?!\w)/g
+const SECRETS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  // JSON Web Tokens
+  /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g,
+  /\bBearer\s+[\w.~+/-]{16,}=*/gi,
+  // Long runs of letters and digits such as API keys; hashes are caught too, which errs on the safe side
+  /\b(?=[A-Za-z0-9_-]*\d)(?=[A-Za-z0-9_-]*[A-Za-z])[A-Za-z0-9_-]{32,}\b/g,
+]
+
+// 7 to 15 digits, and not a date such as 2024-05-01
+const isPhoneNumber = (match: string) => {
+  const digits = match.replace(/\D/g, "").length
+  return digits >= 7 && digits <= 15 && !/^\d{4}[-.]\d{1,2}[-.]\d{1,2}$/.test(match.trim())
+}
+
+const REDACTORS: Record<RedactionCategory, (text: string) => string> = {
+  email: (text) => text.replace(EMAIL, "[email]"),
+  phone: (text) => text.replace(PHONE, (match) => (isPhoneNumber(match) ? "[phone]" : match)),
+  secret: (text) => SECRETS.reduce((result, pattern) => result.replace(pattern, "[secret]"), text),
+}
+
+// Labels that were nothing but personal data, e.g. an entity named after an email address
+const PLACEHOLDER = /^\s*(?:\[(?:email|phone|secret)\][\s,;]*)+$/
+
+export const redactText = (text: string, categories: readonly RedactionCategory[]) =>
+  categories.reduce((result, category) => REDACTORS[category](result), text)
+
+export const redactAttributes = (attributes: MemoryAttributes, categories: readonly RedactionCategory[]): MemoryAttributes =>
+  Object.fromEntries(Object.entries(attributes).map(([key, value]) => [key, typeof value === "string" ? redactText(value, categories) : value]))
+
+// Nodes and edges written by hand are masked like extracted ones
+export const redactInput = <T extends { label?: string; attributes?: MemoryAttributes }>(input: T, categories: readonly RedactionCategory[]): T => ({
+  ...input,
+  ...(input.label !== undefined && { label: redactText(input.label, categories) }),
+  ...(input.attributes && { attributes: redactAttributes(input.attributes, categories) }),
+})
+
+/**
+ * Masks personal data in everything an extraction would write. Entities whose label was only
+ * personal data are dropped along with their relations, since they would all collapse into one
+ * "[email]" node. Redacting twice changes nothing.
+ */
+export function redactExtraction(extraction: Extraction, categories: readonly RedactionCategory[]): Extraction {
+  if (categories.length === 0) return extraction
+  const label = (text: string) => redactText(text, categories)
+  const kept = (text: string) => !PLACEHOLDER.test(label(text))
+  return {
+    entities: extraction.entities
+      .filter((entity) => kept(entity.label))
+      .map((entity) => ({ ...entity, label: label(entity.label), attributes: entity.attributes && redactAttributes(entity.attributes, categories) })),
+    facts: extraction.facts
+      .filter((fact) => kept(fact.statement))
+      .map((fact) => ({ ...fact, statement: label(fact.statement), about: fact.about.filter(kept).map(label) })),
+    relations: extraction.relations
+      .filter((relation) => kept(relation.source) && kept(relation.target))
+      .map((relation) => ({ ...relation, source: label(relation.source), target: label(relation.target) })),
+  }
+}
+
+// The categories the user has redaction switched on for
+export const redactionOf = async (userId: string) => (await getSettings(userId)).redaction
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest"
+import { appendMessage, createSession } from "../sessions/store"
+import { createUser } from "../testing/users"
+import { indexMessages, indexNodes } from "./embeddings"
+import { recordSources } from "./provenance"
+import { retrievalOptionsSchema, retrieve } from "./retrieve"
+import { upsertEdge, upsertNode } from "./store"
+
+const options = (overrides: Partial<ReturnType<typeof retrievalOptionsSchema.parse>> = {}) => retrievalOptionsSchema.parse(overrides)
+
+describe("hybrid scoring", () => {
+  it("weighs vector similarity against graph proximity", async () => {
+    const userId = await createUser()
+    const carol = await upsertNode(userId, { kind: "entity", type: "person", label: "Carol" })
+    await indexNodes([carol])
+
+    const hybrid = await retrieve(userId, "Carol", options({ minSimilarity: 0 }))
+    const similarity = hybrid.similar.find((item) => item.id === carol.id)!.score
+    const labelsOnly = await retrieve(userId, "Carol", options({ minSimilarity: 0, vectorWeight: 0 }))
+
+    // A name mentioned in the query is a perfect graph match
+    expect(hybrid.items[0]).toMatchObject({ id: carol.id, reason: expect.stringContaining("mentioned by name") })
+    expect(hybrid.items[0].score).toBeCloseTo(0.5 * similarity + 0.5, 3)
+    expect(labelsOnly.items[0].score).toBeCloseTo(1, 3)
+  })
+
+  it("seeds nodes that no query term names by their own vector", async () => {
+    const userId = await createUser()
+    const pottery = await upsertNode(userId, { kind: "entity", type: "activity", label: "Pottery class" })
+    await indexNodes([pottery])
+
+    const retrieval = await retrieve(userId, "potteries", options({ minSimilarity: 0.1 }))
+    const similarity = retrieval.similar.find((item) => item.id === pottery.id)!.score
+
+    expect(retrieval.seeds).toMatchObject([{ id: pottery.id, matched: [] }])
+    expect(retrieval.items[0]).toMatchObject({ id: pottery.id, reason: expect.stringContaining("similar to the message") })
+    // Proximity of a vector seed is its similarity, so both halves agree
+    expect(retrieval.items[0].score).toBeCloseTo(similarity, 3)
+  })
+
+  it("seeds nodes through the messages they were learned from", async () => {
+    const userId = await createUser()
+    const anna = await upsertNode(userId, { kind: "entity", type: "person", label: "Anna" })
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "My sister moved to the seaside last spring" })
+    await recordSources(userId, { nodes: [anna], edges: [] }, { sessionId: session.id, messageIds: [message.id] })
+    await indexMessages([message])
+
+    const retrieval = await retrieve(userId, "Where did my sister move, the seaside?", options({ minSimilarity: 0.1 }))
+
+    expect(retrieval.seeds.map((seed) => seed.id)).toEqual([anna.id])
+    expect(retrieval.similar).toMatchObject([{ id: anna.id, reason: expect.stringContaining("learned from a message") }])
+  })
+
+  it("falls back to labels when vector search is off", async () => {
+    const userId = await createUser()
+    const pottery = await upsertNode(userId, { kind: "entity", type: "activity", label: "Pottery class" })
+    await indexNodes([pottery])
+
+    const retrieval = await retrieve(userId, "potteries", options({ vectorTopK: 0 }))
+
+    expect(retrieval.similar).toEqual([])
+    expect(retrieval.items).toEqual([])
+  })
+})
+
+describe("traversal", () => {
+  const labelsOnly = (overrides: Partial<ReturnType<typeof retrievalOptionsSchema.parse>> = {}) => options({ vectorTopK: 0, vectorWeight: 0, ...overrides })
+
+  it("spreads from the seeds along edges, scoring each hop by weight and decay", async () => {
+    const userId = await createUser()
+    const [bob, carol, dave] = await Promise.all(["Bob", "Carol", "Dave"].map((label) => upsertNode(userId, { kind: "entity", type: "person", label })))
+    await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows", weight: 0.8 })
+    // Edges are followed in both directions
+    await upsertEdge(userId, { sourceId: dave.id, targetId: carol.id, type: "knows", weight: 0.5 })
+
+    const retrieval = await retrieve(userId, "Tell me about Bob", labelsOnly())
+    const node = (id: string) => retrieval.items.find((item) => item.kind === "node" && item.id === id)
+
+    expect(retrieval.seeds.map((seed) => seed.id)).toEqual([bob.id])
+    expect(node(bob.id)).toMatchObject({ hops: 0 })
+    expect(node(carol.id)).toMatchObject({ hops: 1, reason: expect.stringContaining('1 hop from "Bob" via knows') })
+    expect(node(carol.id)!.score).toBeCloseTo(0.8 * 0.5, 3)
+    expect(node(dave.id)).toMatchObject({ hops: 2 })
+    expect(node(dave.id)!.score).toBeCloseTo(0.8 * 0.5 * 0.5 * 0.5, 3)
+    expect(retrieval.items.filter((item) => item.kind === "edge").map((item) => item.text)).toEqual(["Bob knows Carol", "Dave knows Carol"])
+  })
+
+  it("stops at the configured depth and packs only what fits the budget", async () => {
+    const userId = await createUser()
+    const [bob, carol] = await Promise.all(["Bob", "Carol"].map((label) => upsertNode(userId, { kind: "entity", type: "person", label })))
+    await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows", weight: 1 })
+
+    const seedsOnly = await retrieve(userId, "Bob", labelsOnly({ hops: 0 }))
+    const oneItem = await retrieve(userId, "Bob", labelsOnly({ budget: 6 }))
+
+    expect(seedsOnly.items.map((item) => item.id)).toEqual([bob.id])
+    expect(oneItem.items.map((item) => item.included)).toEqual([true, false, false])
+    expect(oneItem.context).toBe("Relevant memory from earlier conversations, most relevant first:\n- Bob (person)")
+    expect(oneItem.usedTokens).toBe(oneItem.items[0].tokens)
+  })
+
+  it("skips memory learned only from replies on an abandoned branch", async () => {
+    const userId = await createUser()
+    const [bob, eve] = await Promise.all(["Bob", "Eve"].map((label) => upsertNode(userId, { kind: "entity", type: "person", label })))
+    await upsertEdge(userId, { sourceId: bob.id, targetId: eve.id, type: "knows", weight: 1 })
+    const session = await createSession(userId)
+    const { message: question } = await appendMessage(userId, session.id, { role: "user", content: "Who does Bob know?" })
+    const { message: reply } = await appendMessage(userId, session.id, { role: "ai", content: "Bob knows Eve." })
+    await recordSources(userId, { nodes: [eve], edges: [] }, { sessionId: session.id, messageIds: [reply.id] })
+    // Regenerating the reply leaves the first one behind
+    await appendMessage(userId, session.id, { role: "ai", content: "Bob knows nobody.", parentId: question.id })
+
+    const fromBob = await retrieve(userId, "Bob", labelsOnly())
+    const byName = await retrieve(userId, "Eve", labelsOnly())
+
+    expect(fromBob.items.map((item) => item.id)).toEqual([bob.id])
+    expect(byName.seeds).toEqual([])
+  })
+})
@@ -0,0 +1,278 @@
+import z from "zod"
+import { and, eq, inArray, isNotNull, like, or } from "drizzle-orm"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { memoryEdges, memoryNodes, memorySources, type MemoryEdge, type MemoryNode } from "../database/schema"
+import { searchSimilar, type VectorMatch } from "./embeddings"
+import { abandonedMemory } from "./provenance"
+import { describeNode, normalizeLabel } from "./store"
+
+export const retrievalOptionsSchema = z.object({
+  hops: z.coerce.number().int().min(0).max(4).default(2),
+  decay: z.coerce.number().min(0).max(1).default(0.5).describe("Score multiplier applied per hop."),
+  halfLifeDays: z.coerce.number().positive().default(30).describe("Age after which a node counts half as much."),
+  budget: z.coerce.number().int().min(0).max(8000).default(800).describe("Maximum tokens of memory context."),
+  seeds: z.coerce.number().int().min(1).max(32).default(8),
+  vectorWeight: z.coerce.number().min(0).max(1).default(0.5).describe("Share of a node's score taken from vector similarity; the rest is graph proximity."),
+  minSimilarity: z.coerce.number().min(0).max(1).default(0.2).describe("Vector matches below this cosine similarity are ignored."),
+  vectorTopK: z.coerce.number().int().min(0).max(100).default(16).describe("Vector matches to consider, 0 disables vector search."),
+})
+
+export type RetrievalOptions = z.infer<typeof retrievalOptionsSchema>
+
+export interface RetrievedItem {
+  kind: "node" | "edge"
+  id: string
+  text: string
+  score: number
+  hops: number
+  reason: string
+  tokens: number
+  included: boolean
+}
+
+interface Similarity {
+  score: number
+  reason: string
+}
+
+interface Visit {
+  node: MemoryNode
+  score: number
+  hops: number
+  reason: string
+}
+
+const MAX_TERMS = 12
+const MAX_FRONTIER = 40
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const STOP_WORDS = new Set(["about", "after", "again", "also", "and", "any", "are", "can", "could", "did", "does", "for", "from", "had", "has", "have", "how", "into", "just", "know", "like", "more", "not", "now", "our", "out", "please", "should", "some", "tell", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "was", "were", "what", "when", "where", "which", "who", "why", "will", "with", "would", "you", "your"])
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+export const queryTerms = (query: string) =>
+  [...new Set(normalizeLabel(query).split(/[^\p{L}\p{N}]+/u))]
+    .filter((term) => term.length >= 3 && !STOP_WORDS.has(term))
+    .slice(0, MAX_TERMS)
+
+const ageFactor = (node: MemoryNode, halfLifeDays: number, now: number) =>
+  Math.pow(0.5, Math.max(0, now - node.updatedAt.getTime()) / DAY_MS / halfLifeDays)
+
+const describeEdge = (edge: MemoryEdge, source: MemoryNode, target: MemoryNode) =>
+  `${source.label} ${edge.type.replace(/_/g, " ")} ${target.label}`
+
+// Seeds are nodes whose label mentions the query terms; a full label mention counts as a perfect match.
+async function findSeeds(userId: string, query: string, terms: string[], limit: number) {
+  if (terms.length === 0) return []
+  const candidates = await database
+    .select()
+    .from(memoryNodes)
+    .where(and(eq(memoryNodes.userId, userId), or(...terms.map((term) => like(memoryNodes.label, `%${term}%`)))))
+    .limit(200)
+  const normalizedQuery = normalizeLabel(query)
+  return candidates
+    .map((node) => {
+      const label = normalizeLabel(node.label)
+      const matched = terms.filter((term) => label.includes(term))
+      const mentioned = node.kind === "entity" && normalizedQuery.includes(label)
+      return { node, matched, mentioned, score: mentioned ? 1 : matched.length / terms.length }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+/**
+ * Cosine similarity of the query to each node, from the node's own vector or,
+ * failing that, from the best matching message the node was learned from.
+ * Vector search is an enhancement: when the embedder is unreachable, retrieval falls back to labels.
+ */
+async function findSimilar(userId: string, query: string, options: RetrievalOptions) {
+  const similarity = new Map<string, Similarity>()
+  if (options.vectorTopK === 0) return similarity
+  let matches: VectorMatch[]
+  try {
+    matches = (await searchSimilar(userId, query, options.vectorTopK)).filter((match) => match.score >= options.minSimilarity)
+  } catch (error) {
+    console.error("Vector search failed, using label matches only", error)
+    return similarity
+  }
+
+  const note = (nodeId: string, score: number, reason: string) => {
+    const known = similarity.get(nodeId)
+    if (!known || known.score < score) similarity.set(nodeId, { score, reason })
+  }
+  for (const match of matches) {
+    if (match.nodeId) note(match.nodeId, match.score, `similarity ${match.score.toFixed(2)}`)
+  }
+
+  const messageScores = new Map<string, number>()
+  for (const match of matches) {
+    if (match.messageId) messageScores.set(match.messageId, Math.max(match.score, messageScores.get(match.messageId) ?? 0))
+  }
+  for (const batch of slices([...messageScores.keys()], MAX_PARAMS)) {
+    const rows = await database
+      .select({ nodeId: memorySources.nodeId, messageId: memorySources.messageId })
+      .from(memorySources)
+      .where(and(inArray(memorySources.messageId, batch), isNotNull(memorySources.nodeId)))
+    for (const row of rows) {
+      const score = messageScores.get(row.messageId)!
+      note(row.nodeId!, score, `learned from a message with similarity ${score.toFixed(2)}`)
+    }
+  }
+  return similarity
+}
+
+async function edgesTouching(userId: string, ids: string[]) {
+  const batches = await Promise.all(slices(ids, MAX_PARAMS / 2).map((batch) =>
+    database
+      .select()
+      .from(memoryEdges)
+      .where(and(eq(memoryEdges.userId, userId), or(inArray(memoryEdges.sourceId, batch), inArray(memoryEdges.targetId, batch))))
+  ))
+  return [...new Map(batches.flat().map((edge) => [edge.id, edge])).values()]
+}
+
+async function nodesById(userId: string, ids: string[]) {
+  const batches = await Promise.all(slices(ids, MAX_PARAMS).map((batch) =>
+    database.select().from(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  ))
+  return new Map(batches.flat().map((node) => [node.id, node]))
+}
+
+/**
+ * Finds the memory most relevant to a message. Seeds are nodes whose label
+ * mentions the query terms or whose embedding is close to the query; the search
+ * then spreads along weighted edges for up to `hops` steps, a node reached
+ * through an edge getting `parent * weight * decay` as its graph proximity.
+ * Each node finally scores
+ *
+ *   (vectorWeight * similarity + (1 - vectorWeight) * proximity) * 0.5 ^ (age / halfLifeDays)
+ *
+ * and the best items are packed into the token budget. Memory learned only on
+ * abandoned conversation branches is skipped.
+ */
+export async function retrieve(userId: string, query: string, options: RetrievalOptions = retrievalOptionsSchema.parse({})) {
+  const now = Date.now()
+  const terms = queryTerms(query)
+  const [labelSeeds, similarity, abandoned] = await Promise.all([
+    findSeeds(userId, query, terms, options.seeds),
+    findSimilar(userId, query, options),
+    abandonedMemory(userId),
+  ])
+  const skippedNodes = new Set(abandoned.nodeIds)
+  const skippedEdges = new Set(abandoned.edgeIds)
+  const similarNodes = await nodesById(userId, [...similarity.keys()].filter((id) => !labelSeeds.some(({ node }) => node.id === id)))
+
+  const seeds = [
+    ...labelSeeds.map(({ node, matched, mentioned, score }) => ({
+      node,
+      matched,
+      score: Math.max(score, similarity.get(node.id)?.score ?? 0),
+      reason: mentioned ? "mentioned by name" : `matched ${matched.map((term) => `"${term}"`).join(", ")}`,
+    })),
+    ...[...similarNodes.values()].map((node) => ({
+      node,
+      matched: [] as string[],
+      score: similarity.get(node.id)!.score,
+      reason: "similar to the message",
+    })),
+  ]
+    .filter(({ node }) => !skippedNodes.has(node.id))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.seeds)
+
+  const visits = new Map<string, Visit>(seeds.map(({ node, score, reason }) => [node.id, { node, score, hops: 0, reason }]))
+  const traversed = new Map<string, { edge: MemoryEdge; score: number; hops: number }>()
+
+  let frontier = [...visits.keys()]
+  for (let hop = 1; hop <= options.hops && frontier.length > 0; hop++) {
+    const edges = await edgesTouching(userId, frontier)
+    const neighborIds = edges.flatMap((edge) => [edge.sourceId, edge.targetId]).filter((id) => !visits.has(id))
+    const neighbors = await nodesById(userId, [...new Set(neighborIds)])
+    const reached = new Set<string>()
+
+    for (const edge of edges) {
+      if (skippedEdges.has(edge.id)) continue
+      for (const [fromId, toId] of [[edge.sourceId, edge.targetId], [edge.targetId, edge.sourceId]]) {
+        const from = visits.get(fromId)
+        if (!from || from.hops !== hop - 1) continue
+        const score = from.score * edge.weight * options.decay
+        const known = traversed.get(edge.id)
+        if (!known || known.score < score) traversed.set(edge.id, { edge, score, hops: hop })
+
+        const to = visits.get(toId)
+        const node = to?.node ?? neighbors.get(toId)
+        if (!node || skippedNodes.has(toId) || (to && (to.hops < hop || to.score >= score))) continue
+        visits.set(toId, {
+          node,
+          score,
+          hops: hop,
+          reason: `${hop} hop${hop > 1 ? "s" : ""} from "${from.node.label}" via ${edge.type} (weight ${edge.weight.toFixed(2)})`,
+        })
+        reached.add(toId)
+      }
+    }
+
+    frontier = [...reached]
+      .sort((a, b) => visits.get(b)!.score - visits.get(a)!.score)
+      .slice(0, MAX_FRONTIER)
+  }
+
+  const candidates: Omit<RetrievedItem, "tokens" | "included">[] = []
+  for (const visit of visits.values()) {
+    const age = ageFactor(visit.node, options.halfLifeDays, now)
+    const similar = similarity.get(visit.node.id)
+    candidates.push({
+      kind: "node",
+      id: visit.node.id,
+      text: describeNode(visit.node),
+      score: (options.vectorWeight * (similar?.score ?? 0) + (1 - options.vectorWeight) * visit.score) * age,
+      hops: visit.hops,
+      reason: `${visit.reason}${similar ? `; ${similar.reason}` : ""}; age factor ${age.toFixed(2)}`,
+    })
+  }
+  // Relations between two entities are worth stating; "about" edges are already implied by their fact.
+  for (const { edge, score, hops } of traversed.values()) {
+    const source = visits.get(edge.sourceId)?.node
+    const target = visits.get(edge.targetId)?.node
+    if (!source || !target || source.kind === "fact" || target.kind === "fact") continue
+    candidates.push({
+      kind: "edge",
+      id: edge.id,
+      text: describeEdge(edge, source, target),
+      score: (1 - options.vectorWeight) * score,
+      hops,
+      reason: `relation traversed at hop ${hops} (weight ${edge.weight.toFixed(2)})`,
+    })
+  }
+
+  let usedTokens = 0
+  const items = candidates
+    .sort((a, b) => b.score - a.score)
+    .map((candidate) => {
+      const tokens = estimateTokens(`- ${candidate.text}\n`)
+      const included = usedTokens + tokens <= options.budget
+      if (included) usedTokens += tokens
+      return { ...candidate, tokens, included }
+    })
+
+  const included = items.filter((item) => item.included)
+  const context = included.length > 0
+    ? `Relevant memory from earlier conversations, most relevant first:\n${included.map((item) => `- ${item.text}`).join("\n")}`
+    : ""
+
+  return {
+    query,
+    terms,
+    options,
+    seeds: seeds.map(({ node, matched, score }) => ({ id: node.id, label: node.label, matched, score })),
+    similar: [...similarity].map(([id, { score, reason }]) => ({ id, score, reason })),
+    items,
+    context,
+    usedTokens,
+  }
+}
+
+export type Retrieval = Awaited<ReturnType<typeof retrieve>>
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+import { and, eq } from "drizzle-orm"
+import { database } from "../database"
+import { memoryEdges, memorySources } from "../database/schema"
+import { appendMessage, createSession } from "../sessions/store"
+import { createUser } from "../testing/users"
+import { recordSources } from "./provenance"
+import { deleteMemory, getNode, isNew, listNodes, mergeNodes, NodeConflictError, updateNode, upsertEdge, upsertNode } from "./store"
+
+const person = (label: string, attributes = {}) => ({ kind: "entity" as const, type: "person", label, attributes })
+
+describe("upsertNode", () => {
+  it("folds labels that differ in case and spacing into one node and reinforces it", async () => {
+    const userId = await createUser()
+    const first = await upsertNode(userId, person("Bob  Smith", { city: "Paris" }))
+    const second = await upsertNode(userId, { ...person(" bob smith", { job: "baker" }), confidence: 0.5 })
+
+    expect(second.id).toBe(first.id)
+    expect(isNew(first)).toBe(true)
+    expect(isNew(second)).toBe(false)
+    expect(second.label).toBe("Bob  Smith")
+    expect(second.attributes).toEqual({ city: "Paris", job: "baker" })
+    expect(second.confidence).toBeCloseTo(0.75)
+  })
+
+  it("keeps the same label of two accounts apart", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    const ofAlice = await upsertNode(alice, person("Carol"))
+    const ofBob = await upsertNode(bob, person("Carol"))
+
+    expect(ofBob.id).not.toBe(ofAlice.id)
+    expect((await listNodes(alice)).map((node) => node.id)).toEqual([ofAlice.id])
+  })
+
+  it("tells entities and facts with the same label apart", async () => {
+    const userId = await createUser()
+    const entity = await upsertNode(userId, person("Paris"))
+    const fact = await upsertNode(userId, { kind: "fact", type: "statement", label: "Paris" })
+
+    expect(fact.id).not.toBe(entity.id)
+  })
+})
+
+describe("upsertEdge", () => {
+  it("reinforces the weight of a relation seen again", async () => {
+    const userId = await createUser()
+    const [bob, carol] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Carol"))])
+    const first = await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows" })
+    const second = await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows", weight: 0.5 })
+
+    expect(second.id).toBe(first.id)
+    expect(second.weight).toBeCloseTo(0.75)
+  })
+})
+
+describe("updateNode", () => {
+  it("refuses a rename onto another node's label", async () => {
+    const userId = await createUser()
+    const [bob, robert] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Robert"))])
+
+    await expect(updateNode(userId, robert.id, { label: "bob" })).rejects.toBeInstanceOf(NodeConflictError)
+    expect((await updateNode(userId, bob.id, { label: "Bobby" }))?.label).toBe("Bobby")
+  })
+
+  it("leaves nodes of other accounts alone", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    const node = await upsertNode(alice, person("Carol"))
+
+    expect(await updateNode(bob, node.id, { label: "Mallory" })).toBeNull()
+  })
+})
+
+describe("mergeNodes", () => {
+  it("re-points edges, folds duplicate relations and drops the ones between the two", async () => {
+    const userId = await createUser()
+    const [bob, bobSmith, carol] = await Promise.all([
+      upsertNode(userId, { ...person("Bob", { city: "Paris", job: "baker" }), confidence: 0.5 }),
+      upsertNode(userId, { ...person("Bob Smith", { city: "Lyon" }), confidence: 0.5 }),
+      upsertNode(userId, person("Carol")),
+    ])
+    await upsertEdge(userId, { sourceId: bob.id, targetId: carol.id, type: "knows", weight: 0.5 })
+    const kept = await upsertEdge(userId, { sourceId: bobSmith.id, targetId: carol.id, type: "knows", weight: 0.5 })
+    await upsertEdge(userId, { sourceId: carol.id, targetId: bob.id, type: "likes" })
+    await upsertEdge(userId, { sourceId: bob.id, targetId: bobSmith.id, type: "same_as" })
+
+    const merged = await mergeNodes(userId, bob.id, bobSmith.id)
+
+    expect(merged?.attributes).toEqual({ city: "Lyon", job: "baker" })
+    expect(merged?.confidence).toBeCloseTo(0.75)
+    expect(await getNode(userId, bob.id)).toBeNull()
+    const edges = await database.select().from(memoryEdges).where(eq(memoryEdges.userId, userId))
+    expect(edges.map(({ sourceId, targetId, type }) => ({ sourceId, targetId, type }))).toEqual(expect.arrayContaining([
+      { sourceId: bobSmith.id, targetId: carol.id, type: "knows" },
+      { sourceId: carol.id, targetId: bobSmith.id, type: "likes" },
+    ]))
+    expect(edges).toHaveLength(2)
+    expect(edges.find((edge) => edge.id === kept.id)?.weight).toBeCloseTo(0.75)
+  })
+
+  it("carries the messages a node was learned from over", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "Bob lives in Paris" })
+    const [bob, bobSmith] = await Promise.all([upsertNode(userId, person("Bob")), upsertNode(userId, person("Bob Smith"))])
+    await recordSources(userId, { nodes: [bob], edges: [] }, { sessionId: session.id, messageIds: [message.id] })
+
+    await mergeNodes(userId, bob.id, bobSmith.id)
+
+    const sources = await database.select().from(memorySources).where(and(eq(memorySources.userId, userId), eq(memorySources.messageId, message.id)))
+    expect(sources.map((source) => source.nodeId)).toEqual([bobSmith.id])
+  })
+
+  it("does not merge nodes of another account", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    const [ofAlice, ofBob] = await Promise.all([upsertNode(alice, person("Carol")), upsertNode(bob, person("Caroline"))])
+
+    expect(await mergeNodes(bob, ofAlice.id, ofBob.id)).toBeNull()
+    expect(await getNode(alice, ofAlice.id)).not.toBeNull()
+  })
+})
+
+describe("deleteMemory", () => {
+  it("removes only the account's own nodes, with their edges", async () => {
+    const [alice, bob] = await Promise.all([createUser(), createUser()])
+    const [carol, dave] = await Promise.all([upsertNode(alice, person("Carol")), upsertNode(alice, person("Dave"))])
+    const edge = await upsertEdge(alice, { sourceId: carol.id, targetId: dave.id, type: "knows" })
+
+    await deleteMemory(bob, { nodeIds: [carol.id], edgeIds: [edge.id] })
+    expect(await listNodes(alice)).toHaveLength(2)
+
+    await deleteMemory(alice, { nodeIds: [carol.id], edgeIds: [] })
+    expect((await listNodes(alice)).map((node) => node.id)).toEqual([dave.id])
+    expect(await database.select().from(memoryEdges).where(eq(memoryEdges.id, edge.id))).toEqual([])
+  })
+})
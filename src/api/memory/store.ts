@@ -0,0 +1,308 @@
+import { and, asc, desc, eq, inArray, like, ne, or, sql } from "drizzle-orm"
+import type { AnySQLiteColumn } from "drizzle-orm/sqlite-core"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { documentSources, memoryEdges, memoryNodes, memorySources, type MemoryAttributes, type MemoryNode } from "../database/schema"
+
+export interface NodeInput {
+  kind: MemoryNode["kind"]
+  type: string
+  label: string
+  attributes?: MemoryAttributes
+  confidence?: number
+}
+
+export interface EdgeInput {
+  sourceId: string
+  targetId: string
+  type: string
+  weight?: number
+  attributes?: MemoryAttributes
+  confidence?: number
+}
+
+export interface NodePatch {
+  type?: string
+  label?: string
+  attributes?: MemoryAttributes
+  confidence?: number
+}
+
+export class NodeConflictError extends Error {
+  constructor(readonly existing: MemoryNode) {
+    super(`A node labelled "${existing.label}" already exists`)
+  }
+}
+
+export interface NodeFilter {
+  kind?: MemoryNode["kind"]
+  type?: string
+  q?: string
+  limit?: number
+  offset?: number
+}
+
+export interface EdgeFilter {
+  nodeId?: string
+  type?: string
+  limit?: number
+  offset?: number
+}
+
+// Combines two independent observations of the same thing, so repeated
+// evidence raises a score towards 1 without ever exceeding it.
+const reinforce = (column: AnySQLiteColumn) =>
+  sql`1 - (1 - ${column}) * (1 - excluded.${sql.identifier(column.name)})`
+
+export const normalizeLabel = (label: string) => label.trim().toLowerCase().replace(/\s+/g, " ")
+
+export const nodeKey = (kind: MemoryNode["kind"], label: string) => `${kind}:${normalizeLabel(label)}`
+
+// One line of prose per node, used both in the model context and as the text that gets embedded.
+export const describeNode = (node: MemoryNode) => {
+  if (node.kind === "fact") return node.label
+  const attributes = Object.entries(node.attributes).map(([key, value]) => `${key}: ${value}`)
+  return `${node.label} (${node.type})${attributes.length > 0 ? ` — ${attributes.join(", ")}` : ""}`
+}
+
+// Upserts stamp new rows with one time, so a row that comes back unchanged since was created by the call
+export const isNew = (row: { createdAt: Date; updatedAt: Date }) => row.createdAt.getTime() === row.updatedAt.getTime()
+
+export async function upsertNode(userId: string, input: NodeInput) {
+  const now = new Date()
+  const [node] = await database
+    .insert(memoryNodes)
+    .values({
+      userId,
+      key: nodeKey(input.kind, input.label),
+      kind: input.kind,
+      type: input.type,
+      label: input.label.trim(),
+      attributes: input.attributes ?? {},
+      confidence: input.confidence ?? 0.5,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [memoryNodes.userId, memoryNodes.key],
+      set: {
+        attributes: sql`json_patch(${memoryNodes.attributes}, excluded.attributes)`,
+        confidence: reinforce(memoryNodes.confidence),
+        updatedAt: new Date(),
+      },
+    })
+    .returning()
+  return node
+}
+
+// Both endpoints must already be known to belong to `userId`.
+export async function upsertEdge(userId: string, input: EdgeInput) {
+  const now = new Date()
+  const [edge] = await database
+    .insert(memoryEdges)
+    .values({
+      userId,
+      sourceId: input.sourceId,
+      targetId: input.targetId,
+      type: input.type,
+      weight: input.weight ?? 0.5,
+      attributes: input.attributes ?? {},
+      confidence: input.confidence ?? 0.5,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [memoryEdges.sourceId, memoryEdges.targetId, memoryEdges.type],
+      set: {
+        weight: reinforce(memoryEdges.weight),
+        attributes: sql`json_patch(${memoryEdges.attributes}, excluded.attributes)`,
+        confidence: reinforce(memoryEdges.confidence),
+        updatedAt: new Date(),
+      },
+    })
+    .returning()
+  return edge
+}
+
+export async function listNodes(userId: string, { kind, type, q, limit = 50, offset = 0 }: NodeFilter = {}) {
+  return database
+    .select()
+    .from(memoryNodes)
+    .where(and(
+      eq(memoryNodes.userId, userId),
+      kind ? eq(memoryNodes.kind, kind) : undefined,
+      type ? eq(memoryNodes.type, type) : undefined,
+      q ? like(memoryNodes.label, `%${q}%`) : undefined,
+    ))
+    .orderBy(asc(memoryNodes.label))
+    .limit(limit)
+    .offset(offset)
+}
+
+export async function countNodes(userId: string) {
+  const [{ count }] = await database.select({ count: sql<number>`count(*)` }).from(memoryNodes).where(eq(memoryNodes.userId, userId))
+  return count
+}
+
+const findNode = async (userId: string, id: string) =>
+  database.query.memoryNodes.findFirst({ where: and(eq(memoryNodes.id, id), eq(memoryNodes.userId, userId)) })
+
+export async function getNode(userId: string, id: string) {
+  const node = await findNode(userId, id)
+  if (!node) return null
+  const edges = await database
+    .select()
+    .from(memoryEdges)
+    .where(or(eq(memoryEdges.sourceId, id), eq(memoryEdges.targetId, id)))
+  const neighborIds = [...new Set(edges.map((edge) => (edge.sourceId === id ? edge.targetId : edge.sourceId)))]
+  const neighbors = await Promise.all(slices(neighborIds, MAX_PARAMS).map((batch) =>
+    database.select().from(memoryNodes).where(inArray(memoryNodes.id, batch))
+  ))
+  return { node, edges, neighbors: neighbors.flat() }
+}
+
+export async function deleteNode(userId: string, id: string) {
+  // Edges are removed by the ON DELETE CASCADE on both endpoints.
+  const deleted = await database
+    .delete(memoryNodes)
+    .where(and(eq(memoryNodes.id, id), eq(memoryNodes.userId, userId)))
+    .returning({ id: memoryNodes.id })
+  return deleted.length > 0
+}
+
+export async function listEdges(userId: string, { nodeId, type, limit = 100, offset = 0 }: EdgeFilter = {}) {
+  return database
+    .select()
+    .from(memoryEdges)
+    .where(and(
+      eq(memoryEdges.userId, userId),
+      nodeId ? or(eq(memoryEdges.sourceId, nodeId), eq(memoryEdges.targetId, nodeId)) : undefined,
+      type ? eq(memoryEdges.type, type) : undefined,
+    ))
+    .orderBy(asc(memoryEdges.createdAt))
+    .limit(limit)
+    .offset(offset)
+}
+
+export async function getEdge(userId: string, id: string) {
+  return (await database.query.memoryEdges.findFirst({ where: and(eq(memoryEdges.id, id), eq(memoryEdges.userId, userId)) })) ?? null
+}
+
+export async function deleteEdge(userId: string, id: string) {
+  const deleted = await database
+    .delete(memoryEdges)
+    .where(and(eq(memoryEdges.id, id), eq(memoryEdges.userId, userId)))
+    .returning({ id: memoryEdges.id })
+  return deleted.length > 0
+}
+
+// Bulk removal, e.g. when rolling back memory; edges of removed nodes go with them.
+export async function deleteMemory(userId: string, { nodeIds, edgeIds }: { nodeIds: string[]; edgeIds: string[] }) {
+  for (const batch of slices(edgeIds, MAX_PARAMS)) {
+    await database.delete(memoryEdges).where(and(eq(memoryEdges.userId, userId), inArray(memoryEdges.id, batch)))
+  }
+  for (const batch of slices(nodeIds, MAX_PARAMS)) {
+    await database.delete(memoryNodes).where(and(eq(memoryNodes.userId, userId), inArray(memoryNodes.id, batch)))
+  }
+}
+
+/**
+ * Edits a node in place. Renaming onto the label of another node of the same
+ * kind is refused with a NodeConflictError, since that is a merge.
+ */
+export async function updateNode(userId: string, id: string, patch: NodePatch) {
+  const node = await findNode(userId, id)
+  if (!node) return null
+  const key = patch.label ? nodeKey(node.kind, patch.label) : node.key
+  if (key !== node.key) {
+    const existing = await database.query.memoryNodes.findFirst({
+      where: and(eq(memoryNodes.userId, userId), eq(memoryNodes.key, key), ne(memoryNodes.id, id)),
+    })
+    if (existing) throw new NodeConflictError(existing)
+  }
+  const [updated] = await database
+    .update(memoryNodes)
+    .set({ ...patch, label: patch.label?.trim(), key })
+    .where(eq(memoryNodes.id, id))
+    .returning()
+  return updated
+}
+
+// Copies the chat and document provenance of one row to another. Document sources keep
+// marking the row as created by their chunk only when `toId` is new too, so deleting the
+// document cannot take a row along that the user already had.
+async function copySources(userId: string, column: "nodeId" | "edgeId", fromId: string, toId: string, toIsNew: boolean) {
+  const rows = await database.select().from(memorySources).where(eq(memorySources[column], fromId))
+  for (const batch of slices(rows, MAX_PARAMS / 7)) {
+    await database
+      .insert(memorySources)
+      .values(batch.map((row) => ({ userId, [column]: toId, messageId: row.messageId, sessionId: row.sessionId, createdAt: row.createdAt })))
+      .onConflictDoNothing()
+  }
+  const documentRows = await database.select().from(documentSources).where(eq(documentSources[column], fromId))
+  for (const batch of slices(documentRows, MAX_PARAMS / 8)) {
+    await database
+      .insert(documentSources)
+      .values(batch.map((row) => ({
+        userId,
+        [column]: toId,
+        documentId: row.documentId,
+        page: row.page,
+        position: row.position,
+        created: row.created && toIsNew,
+        createdAt: row.createdAt,
+      })))
+      .onConflictDoNothing()
+  }
+}
+
+/**
+ * Folds `fromId` into `intoId`: edges are re-pointed (and reinforced where the
+ * same relation already exists), provenance is carried over, attributes are
+ * combined with the surviving node's values taking precedence, and `fromId` is deleted.
+ */
+export async function mergeNodes(userId: string, fromId: string, intoId: string) {
+  const [from, into] = await Promise.all([findNode(userId, fromId), findNode(userId, intoId)])
+  if (!from || !into) return null
+
+  const edges = await database.select().from(memoryEdges).where(or(eq(memoryEdges.sourceId, fromId), eq(memoryEdges.targetId, fromId)))
+  for (const edge of edges) {
+    const sourceId = edge.sourceId === fromId ? intoId : edge.sourceId
+    const targetId = edge.targetId === fromId ? intoId : edge.targetId
+    if (sourceId !== targetId) {
+      const moved = await upsertEdge(userId, { sourceId, targetId, type: edge.type, weight: edge.weight, attributes: edge.attributes, confidence: edge.confidence })
+      await copySources(userId, "edgeId", edge.id, moved.id, isNew(moved))
+    }
+    await database.delete(memoryEdges).where(eq(memoryEdges.id, edge.id))
+  }
+
+  await copySources(userId, "nodeId", fromId, intoId, false)
+  await database.delete(memoryNodes).where(eq(memoryNodes.id, fromId))
+
+  const [merged] = await database
+    .update(memoryNodes)
+    .set({
+      attributes: { ...from.attributes, ...into.attributes },
+      confidence: 1 - (1 - from.confidence) * (1 - into.confidence),
+    })
+    .where(eq(memoryNodes.id, intoId))
+    .returning()
+  return merged
+}
+
+/**
+ * The most recently updated part of the graph, with every edge between the returned nodes.
+ */
+export async function graph(userId: string, limit = 300) {
+  const nodes = await database
+    .select()
+    .from(memoryNodes)
+    .where(eq(memoryNodes.userId, userId))
+    .orderBy(desc(memoryNodes.updatedAt))
+    .limit(limit)
+  const ids = new Set(nodes.map((node) => node.id))
+  const batches = await Promise.all(slices([...ids], MAX_PARAMS).map((batch) =>
+    database.select().from(memoryEdges).where(inArray(memoryEdges.sourceId, batch))
+  ))
+  return { nodes, edges: batches.flat().filter((edge) => ids.has(edge.targetId)) }
+}
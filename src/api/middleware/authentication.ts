@@ -0,0 +1,47 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { createAuth } from "../auth";
+import { fail } from "../lib/errors";
+
+type Auth = ReturnType<typeof createAuth>;
+
+declare module "hono" {
+  interface ContextVariableMap {
+    user: Auth["$Infer"]["Session"]["user"] | null;
+    session: Auth["$Infer"]["Session"]["session"] | null;
+  }
+}
+
+const getBaseURL = (request: Request) => {
+  const url = new URL(request.url);
+  return `${url.protocol}//${url.host}`;
+};
+
+// Attaches session and user if they are authenticated in the hono context.
+export const authMiddleware = createMiddleware(async (c, next) => {
+  const auth = createAuth(getBaseURL(c.req.raw));
+  const session = await auth.api.getSession({ headers: c.req.raw.headers });
+  if (!session) {
+    c.set("user", null);
+    c.set("session", null);
+    return next();
+  }
+  c.set("user", session.user);
+  c.set("session", session.session);
+  return next();
+});
+
+// Use this middleware to protect routes such as only authenticated users can access them.
+export const authenticatedOnly = createMiddleware(
+  async (c, next) => {
+    const session = c.get("session");
+    if (!session) {
+      return fail(c, 401, "You are not authenticated");
+    } else {
+      return next();
+    }
+  }
+);
+
+// Id of the signed-in user, for handlers behind `authenticatedOnly`.
+export const currentUserId = (c: Context) => c.get("user")!.id;
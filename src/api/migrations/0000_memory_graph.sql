@@ -0,0 +1,30 @@
+CREATE TABLE `memory_edges` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_id` text NOT NULL,
+	`target_id` text NOT NULL,
+	`type` text NOT NULL,
+	`weight` real DEFAULT 0.5 NOT NULL,
+	`attributes` text DEFAULT '{}' NOT NULL,
+	`confidence` real DEFAULT 0.5 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`source_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_edges_relation_idx` ON `memory_edges` (`source_id`,`target_id`,`type`);--> statement-breakpoint
+CREATE INDEX `memory_edges_target_idx` ON `memory_edges` (`target_id`);--> statement-breakpoint
+CREATE TABLE `memory_nodes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`key` text NOT NULL,
+	`kind` text NOT NULL,
+	`type` text NOT NULL,
+	`label` text NOT NULL,
+	`attributes` text DEFAULT '{}' NOT NULL,
+	`confidence` real DEFAULT 0.5 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_nodes_key_idx` ON `memory_nodes` (`key`);--> statement-breakpoint
+CREATE INDEX `memory_nodes_type_idx` ON `memory_nodes` (`type`);
\ No newline at end of file
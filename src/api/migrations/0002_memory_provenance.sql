@@ -0,0 +1,17 @@
+CREATE TABLE `memory_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`node_id` text,
+	`edge_id` text,
+	`message_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`node_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`edge_id`) REFERENCES `memory_edges`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_sources_node_idx` ON `memory_sources` (`node_id`,`message_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_sources_edge_idx` ON `memory_sources` (`edge_id`,`message_id`);--> statement-breakpoint
+CREATE INDEX `memory_sources_message_idx` ON `memory_sources` (`message_id`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `context` text;
\ No newline at end of file
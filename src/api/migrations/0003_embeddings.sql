@@ -0,0 +1,17 @@
+CREATE TABLE `embeddings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`node_id` text,
+	`message_id` text,
+	`session_id` text,
+	`text` text NOT NULL,
+	`model` text NOT NULL,
+	`vector` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`node_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `embeddings_model_idx` ON `embeddings` (`model`);--> statement-breakpoint
+CREATE INDEX `embeddings_node_idx` ON `embeddings` (`node_id`);--> statement-breakpoint
+CREATE INDEX `embeddings_message_idx` ON `embeddings` (`message_id`);
\ No newline at end of file
@@ -0,0 +1,162 @@
+CREATE TABLE `account` (
+	`id` text PRIMARY KEY NOT NULL,
+	`account_id` text NOT NULL,
+	`provider_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`access_token` text,
+	`refresh_token` text,
+	`id_token` text,
+	`access_token_expires_at` integer,
+	`refresh_token_expires_at` integer,
+	`scope` text,
+	`password` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE INDEX `account_userId_idx` ON `account` (`user_id`);--> statement-breakpoint
+CREATE TABLE `session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`expires_at` integer NOT NULL,
+	`token` text NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	`updated_at` integer NOT NULL,
+	`ip_address` text,
+	`user_agent` text,
+	`user_id` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE UNIQUE INDEX `session_token_unique` ON `session` (`token`);--> statement-breakpoint
+CREATE INDEX `session_userId_idx` ON `session` (`user_id`);--> statement-breakpoint
+CREATE TABLE `user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`email` text NOT NULL,
+	`email_verified` integer DEFAULT false NOT NULL,
+	`image` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL
+);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_email_unique` ON `user` (`email`);--> statement-breakpoint
+CREATE TABLE `verification` (
+	`id` text PRIMARY KEY NOT NULL,
+	`identifier` text NOT NULL,
+	`value` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL
+);--> statement-breakpoint
+CREATE INDEX `verification_identifier_idx` ON `verification` (`identifier`);--> statement-breakpoint
+-- Chat and memory rows now belong to a user. Rows written before accounts existed are kept
+-- and given to the placeholder owner `legacy`, whose data the first account to sign up takes over.
+INSERT INTO `user` (`id`, `name`, `email`) SELECT 'legacy', 'Legacy data', 'legacy@localhost' WHERE EXISTS (SELECT 1 FROM `sessions`) OR EXISTS (SELECT 1 FROM `memory_nodes`);--> statement-breakpoint
+-- Renaming a table repoints the foreign keys of the old tables at the renamed one, so the new
+-- tables can take the names and the old ones are dropped without cascading into them.
+ALTER TABLE `sessions` RENAME TO `__old_sessions`;--> statement-breakpoint
+ALTER TABLE `messages` RENAME TO `__old_messages`;--> statement-breakpoint
+ALTER TABLE `memory_nodes` RENAME TO `__old_memory_nodes`;--> statement-breakpoint
+ALTER TABLE `memory_edges` RENAME TO `__old_memory_edges`;--> statement-breakpoint
+ALTER TABLE `memory_sources` RENAME TO `__old_memory_sources`;--> statement-breakpoint
+ALTER TABLE `embeddings` RENAME TO `__old_embeddings`;--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`title` text DEFAULT 'New Chat' NOT NULL,
+	`preview` text DEFAULT '' NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`context` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE TABLE `memory_nodes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`key` text NOT NULL,
+	`kind` text NOT NULL,
+	`type` text NOT NULL,
+	`label` text NOT NULL,
+	`attributes` text DEFAULT '{}' NOT NULL,
+	`confidence` real DEFAULT 0.5 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE TABLE `memory_edges` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`source_id` text NOT NULL,
+	`target_id` text NOT NULL,
+	`type` text NOT NULL,
+	`weight` real DEFAULT 0.5 NOT NULL,
+	`attributes` text DEFAULT '{}' NOT NULL,
+	`confidence` real DEFAULT 0.5 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`source_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE TABLE `memory_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`node_id` text,
+	`edge_id` text,
+	`message_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`node_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`edge_id`) REFERENCES `memory_edges`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+CREATE TABLE `embeddings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`node_id` text,
+	`message_id` text,
+	`session_id` text,
+	`text` text NOT NULL,
+	`model` text NOT NULL,
+	`vector` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`node_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+INSERT INTO `sessions` (`id`, `user_id`, `title`, `preview`, `created_at`, `updated_at`) SELECT `id`, 'legacy', `title`, `preview`, `created_at`, `updated_at` FROM `__old_sessions`;--> statement-breakpoint
+INSERT INTO `messages` (`id`, `user_id`, `session_id`, `role`, `content`, `context`, `created_at`) SELECT `id`, 'legacy', `session_id`, `role`, `content`, `context`, `created_at` FROM `__old_messages`;--> statement-breakpoint
+INSERT INTO `memory_nodes` (`id`, `user_id`, `key`, `kind`, `type`, `label`, `attributes`, `confidence`, `created_at`, `updated_at`) SELECT `id`, 'legacy', `key`, `kind`, `type`, `label`, `attributes`, `confidence`, `created_at`, `updated_at` FROM `__old_memory_nodes`;--> statement-breakpoint
+INSERT INTO `memory_edges` (`id`, `user_id`, `source_id`, `target_id`, `type`, `weight`, `attributes`, `confidence`, `created_at`, `updated_at`) SELECT `id`, 'legacy', `source_id`, `target_id`, `type`, `weight`, `attributes`, `confidence`, `created_at`, `updated_at` FROM `__old_memory_edges`;--> statement-breakpoint
+INSERT INTO `memory_sources` (`id`, `user_id`, `node_id`, `edge_id`, `message_id`, `session_id`, `created_at`) SELECT `id`, 'legacy', `node_id`, `edge_id`, `message_id`, `session_id`, `created_at` FROM `__old_memory_sources`;--> statement-breakpoint
+INSERT INTO `embeddings` (`id`, `user_id`, `node_id`, `message_id`, `session_id`, `text`, `model`, `vector`, `created_at`) SELECT `id`, 'legacy', `node_id`, `message_id`, `session_id`, `text`, `model`, `vector`, `created_at` FROM `__old_embeddings`;--> statement-breakpoint
+DROP TABLE `__old_embeddings`;--> statement-breakpoint
+DROP TABLE `__old_memory_sources`;--> statement-breakpoint
+DROP TABLE `__old_memory_edges`;--> statement-breakpoint
+DROP TABLE `__old_memory_nodes`;--> statement-breakpoint
+DROP TABLE `__old_messages`;--> statement-breakpoint
+DROP TABLE `__old_sessions`;--> statement-breakpoint
+CREATE INDEX `sessions_updated_at_idx` ON `sessions` (`user_id`,`updated_at`,`id`);--> statement-breakpoint
+CREATE INDEX `messages_session_idx` ON `messages` (`session_id`,`created_at`);--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_nodes_key_idx` ON `memory_nodes` (`user_id`,`key`);--> statement-breakpoint
+CREATE INDEX `memory_nodes_type_idx` ON `memory_nodes` (`type`);--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_edges_relation_idx` ON `memory_edges` (`source_id`,`target_id`,`type`);--> statement-breakpoint
+CREATE INDEX `memory_edges_target_idx` ON `memory_edges` (`target_id`);--> statement-breakpoint
+CREATE INDEX `memory_edges_user_idx` ON `memory_edges` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_sources_node_idx` ON `memory_sources` (`node_id`,`message_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `memory_sources_edge_idx` ON `memory_sources` (`edge_id`,`message_id`);--> statement-breakpoint
+CREATE INDEX `memory_sources_message_idx` ON `memory_sources` (`message_id`);--> statement-breakpoint
+CREATE INDEX `embeddings_model_idx` ON `embeddings` (`user_id`,`model`);--> statement-breakpoint
+CREATE INDEX `embeddings_node_idx` ON `embeddings` (`node_id`);--> statement-breakpoint
+CREATE INDEX `embeddings_message_idx` ON `embeddings` (`message_id`);
\ No newline at end of file
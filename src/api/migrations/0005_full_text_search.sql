@@ -0,0 +1,45 @@
+-- Full-text indexes over message content and session titles.
+-- Both are external-content FTS5 tables: they store only the index and read the text
+-- from the original rows, and the triggers below keep them in step with every write.
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	content,
+	content='messages',
+	tokenize='porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `sessions_fts` USING fts5(
+	title,
+	content='sessions',
+	tokenize='porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	INSERT INTO `messages_fts` (rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `content` ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.rowid, old.content);
+	INSERT INTO `messages_fts` (rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_insert` AFTER INSERT ON `sessions` BEGIN
+	INSERT INTO `sessions_fts` (rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_delete` AFTER DELETE ON `sessions` BEGIN
+	INSERT INTO `sessions_fts` (`sessions_fts`, rowid, title) VALUES ('delete', old.rowid, old.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_update` AFTER UPDATE OF `title` ON `sessions` BEGIN
+	INSERT INTO `sessions_fts` (`sessions_fts`, rowid, title) VALUES ('delete', old.rowid, old.title);
+	INSERT INTO `sessions_fts` (rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+-- Index everything written before this migration.
+INSERT INTO `messages_fts` (`messages_fts`) VALUES ('rebuild');
+--> statement-breakpoint
+INSERT INTO `sessions_fts` (`sessions_fts`) VALUES ('rebuild');
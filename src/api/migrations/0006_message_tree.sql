@@ -0,0 +1,17 @@
+ALTER TABLE `memory_sources` ADD `abandoned` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `messages` ADD `parent_id` text REFERENCES messages(id) ON DELETE cascade;--> statement-breakpoint
+CREATE INDEX `messages_parent_idx` ON `messages` (`parent_id`);--> statement-breakpoint
+ALTER TABLE `sessions` ADD `leaf_id` text;;--> statement-breakpoint
+-- Existing sessions are a single branch: every message follows the one before it.
+UPDATE `messages` SET `parent_id` = (
+	SELECT `previous`.`id` FROM `messages` AS `previous`
+	WHERE `previous`.`session_id` = `messages`.`session_id`
+		AND (`previous`.`created_at` < `messages`.`created_at` OR (`previous`.`created_at` = `messages`.`created_at` AND `previous`.`rowid` < `messages`.`rowid`))
+	ORDER BY `previous`.`created_at` DESC, `previous`.`rowid` DESC
+	LIMIT 1
+);--> statement-breakpoint
+UPDATE `sessions` SET `leaf_id` = (
+	SELECT `id` FROM `messages` WHERE `messages`.`session_id` = `sessions`.`id`
+	ORDER BY `created_at` DESC, `rowid` DESC
+	LIMIT 1
+);
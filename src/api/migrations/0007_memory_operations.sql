@@ -0,0 +1,15 @@
+CREATE TABLE `memory_operations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`session_id` text,
+	`tool` text NOT NULL,
+	`changes` text NOT NULL,
+	`sources` text DEFAULT '[]' NOT NULL,
+	`undone_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `memory_operations_user_idx` ON `memory_operations` (`user_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `parts` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `consolidation_reports` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`operation_id` text NOT NULL,
+	`details` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`operation_id`) REFERENCES `memory_operations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `consolidation_reports_user_idx` ON `consolidation_reports` (`user_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `memory_edges` ADD `decayed_at` integer;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `summary_id` text REFERENCES memory_nodes(id) ON DELETE set null;
\ No newline at end of file
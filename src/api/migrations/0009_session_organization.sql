@@ -0,0 +1,2 @@
+ALTER TABLE `sessions` ADD `pinned_at` integer;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `archived_at` integer;
\ No newline at end of file
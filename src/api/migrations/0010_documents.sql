@@ -0,0 +1,47 @@
+CREATE TABLE `document_chunks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`document_id` text NOT NULL,
+	`position` integer NOT NULL,
+	`page` integer,
+	`text` text NOT NULL,
+	`processed_at` integer,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `document_chunks_position_idx` ON `document_chunks` (`document_id`,`position`);--> statement-breakpoint
+CREATE TABLE `document_sources` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`node_id` text,
+	`edge_id` text,
+	`document_id` text NOT NULL,
+	`page` integer,
+	`position` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`node_id`) REFERENCES `memory_nodes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`edge_id`) REFERENCES `memory_edges`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `document_sources_node_idx` ON `document_sources` (`node_id`,`document_id`,`position`);--> statement-breakpoint
+CREATE UNIQUE INDEX `document_sources_edge_idx` ON `document_sources` (`edge_id`,`document_id`,`position`);--> statement-breakpoint
+CREATE INDEX `document_sources_document_idx` ON `document_sources` (`document_id`);--> statement-breakpoint
+CREATE TABLE `documents` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`content_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`key` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`pages` integer,
+	`chunks` integer DEFAULT 0 NOT NULL,
+	`processed_chunks` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `documents_user_idx` ON `documents` (`user_id`,`created_at`);
\ No newline at end of file
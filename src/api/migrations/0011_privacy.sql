@@ -0,0 +1,29 @@
+CREATE TABLE `memory_audit` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`action` text NOT NULL,
+	`kind` text NOT NULL,
+	`item_id` text NOT NULL,
+	`label` text,
+	`via` text NOT NULL,
+	`session_id` text,
+	`message_id` text,
+	`document_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `memory_audit_user_idx` ON `memory_audit` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `memory_audit_item_idx` ON `memory_audit` (`item_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `user_settings` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`redaction` text DEFAULT '["email","phone","secret"]' NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `remember` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `incognito` integer DEFAULT false NOT NULL;
\ No newline at end of file
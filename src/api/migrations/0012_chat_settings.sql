@@ -0,0 +1,21 @@
+CREATE TABLE `personas` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`system_prompt` text DEFAULT '' NOT NULL,
+	`model` text,
+	`temperature` real,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `personas_user_idx` ON `personas` (`user_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `model` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `persona_id` text REFERENCES personas(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `model` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `temperature` real;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `system_prompt` text;--> statement-breakpoint
+ALTER TABLE `user_settings` ADD `model` text;--> statement-breakpoint
+ALTER TABLE `user_settings` ADD `temperature` real;--> statement-breakpoint
+ALTER TABLE `user_settings` ADD `system_prompt` text;
\ No newline at end of file
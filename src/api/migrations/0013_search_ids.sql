@@ -0,0 +1,76 @@
+-- Keys the full-text indexes of 0005 on an explicit `search_id` instead of the hidden rowid,
+-- which SQLite may renumber (e.g. on VACUUM) for tables with a text primary key and would
+-- leave the indexes pointing at other rows. The insert triggers number new rows.
+DROP TRIGGER `messages_fts_insert`;
+--> statement-breakpoint
+DROP TRIGGER `messages_fts_delete`;
+--> statement-breakpoint
+DROP TRIGGER `messages_fts_update`;
+--> statement-breakpoint
+DROP TRIGGER `sessions_fts_insert`;
+--> statement-breakpoint
+DROP TRIGGER `sessions_fts_delete`;
+--> statement-breakpoint
+DROP TRIGGER `sessions_fts_update`;
+--> statement-breakpoint
+DROP TABLE `messages_fts`;
+--> statement-breakpoint
+DROP TABLE `sessions_fts`;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `search_id` integer;
+--> statement-breakpoint
+UPDATE `messages` SET `search_id` = `rowid`;
+--> statement-breakpoint
+CREATE UNIQUE INDEX `messages_search_id_idx` ON `messages` (`search_id`);
+--> statement-breakpoint
+ALTER TABLE `sessions` ADD `search_id` integer;
+--> statement-breakpoint
+UPDATE `sessions` SET `search_id` = `rowid`;
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sessions_search_id_idx` ON `sessions` (`search_id`);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	content,
+	content='messages',
+	content_rowid='search_id',
+	tokenize='porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `sessions_fts` USING fts5(
+	title,
+	content='sessions',
+	content_rowid='search_id',
+	tokenize='porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	UPDATE `messages` SET `search_id` = (SELECT coalesce(max(`search_id`), 0) + 1 FROM `messages`) WHERE `id` = new.id;
+	INSERT INTO `messages_fts` (rowid, content) SELECT `search_id`, `content` FROM `messages` WHERE `id` = new.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.search_id, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `content` ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.search_id, old.content);
+	INSERT INTO `messages_fts` (rowid, content) VALUES (new.search_id, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_insert` AFTER INSERT ON `sessions` BEGIN
+	UPDATE `sessions` SET `search_id` = (SELECT coalesce(max(`search_id`), 0) + 1 FROM `sessions`) WHERE `id` = new.id;
+	INSERT INTO `sessions_fts` (rowid, title) SELECT `search_id`, `title` FROM `sessions` WHERE `id` = new.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_delete` AFTER DELETE ON `sessions` BEGIN
+	INSERT INTO `sessions_fts` (`sessions_fts`, rowid, title) VALUES ('delete', old.search_id, old.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `sessions_fts_update` AFTER UPDATE OF `title` ON `sessions` BEGIN
+	INSERT INTO `sessions_fts` (`sessions_fts`, rowid, title) VALUES ('delete', old.search_id, old.title);
+	INSERT INTO `sessions_fts` (rowid, title) VALUES (new.search_id, new.title);
+END;
+--> statement-breakpoint
+INSERT INTO `messages_fts` (`messages_fts`) VALUES ('rebuild');
+--> statement-breakpoint
+INSERT INTO `sessions_fts` (`sessions_fts`) VALUES ('rebuild');
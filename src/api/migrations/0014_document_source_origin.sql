@@ -0,0 +1,9 @@
+ALTER TABLE `document_sources` ADD `created` integer DEFAULT false NOT NULL;--> statement-breakpoint
+-- Which chunk created an item was not recorded before: a node or edge that is newer than the
+-- document's upload was created by its ingestion, an older one was already there.
+UPDATE `document_sources` SET `created` = true
+WHERE `node_id` IS NOT NULL
+	AND (SELECT `created_at` FROM `memory_nodes` WHERE `id` = `document_sources`.`node_id`) >= (SELECT `created_at` FROM `documents` WHERE `id` = `document_sources`.`document_id`);--> statement-breakpoint
+UPDATE `document_sources` SET `created` = true
+WHERE `edge_id` IS NOT NULL
+	AND (SELECT `created_at` FROM `memory_edges` WHERE `id` = `document_sources`.`edge_id`) >= (SELECT `created_at` FROM `documents` WHERE `id` = `document_sources`.`document_id`);
@@ -0,0 +1 @@
+ALTER TABLE `memory_operations` ADD `document_sources` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
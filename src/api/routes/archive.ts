@@ -0,0 +1,100 @@
+import z from "zod"
+import { Hono, type Context } from "hono"
+import { exportArchive, exportMemory, exportSessions } from "../archive/export"
+import { ARCHIVE_VERSION, archiveSchema } from "../archive/format"
+import { importArchive, InvalidArchiveError } from "../archive/import"
+import { toGraphML, toJsonLd, toMarkdown } from "../archive/render"
+import { allows, billingOf, syncMemoryUsage } from "../billing"
+import { slices } from "../database/batch"
+import { fail } from "../lib/errors"
+import { zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { indexMessages, indexNodes } from "../memory/embeddings"
+import { publishFrom } from "../sync"
+
+const sessionExportQuery = z.object({
+  format: z.enum(["json", "markdown"]).default("json"),
+  // Only this session instead of all of them
+  sessionId: z.string().optional(),
+})
+
+const memoryExportQuery = z.object({
+  format: z.enum(["json", "graphml", "jsonld"]).default("json"),
+})
+
+const importQuery = z.object({
+  dryRun: z.stringbool().optional(),
+})
+
+// Rows embedded per call to the embedder after an import
+const INDEX_BATCH = 100
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const fileName = (title: string) => title.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "").toLowerCase() || "chat"
+
+const download = (c: Context, body: string, name: string, contentType: string) =>
+  c.body(body, 200, {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+  })
+
+const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+export const archiveRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  // Sessions, messages and the memory graph as one JSON file, which the import reads back.
+  .get("/", async (c) => {
+    return download(c, json(await exportArchive(currentUserId(c))), `archive-${today()}.json`, "application/json")
+  })
+
+  // Markdown has the active branch of each session, JSON all of its messages and can be imported.
+  .get("/sessions", zodValidator("query", sessionExportQuery), async (c) => {
+    const { format, sessionId } = c.req.valid("query")
+    const sessions = await exportSessions(currentUserId(c), sessionId)
+    if (sessionId && sessions.length === 0) return fail(c, 404, "Session not found")
+    const name = sessionId ? fileName(sessions[0].title) : `chats-${today()}`
+    if (format === "markdown") return download(c, toMarkdown(sessions), `${name}.md`, "text/markdown; charset=utf-8")
+    return download(c, json({ version: ARCHIVE_VERSION, exportedAt: new Date(), sessions }), `${name}.json`, "application/json")
+  })
+
+  // JSON keeps provenance and can be imported; GraphML and JSON-LD are for other tools.
+  .get("/memory", zodValidator("query", memoryExportQuery), async (c) => {
+    const { format } = c.req.valid("query")
+    const memory = await exportMemory(currentUserId(c))
+    const name = `memory-${today()}`
+    if (format === "graphml") return download(c, toGraphML(memory), `${name}.graphml`, "application/graphml+xml")
+    if (format === "jsonld") return download(c, json(toJsonLd(memory)), `${name}.jsonld`, "application/ld+json")
+    return download(c, json({ version: ARCHIVE_VERSION, exportedAt: new Date(), memory }), `${name}.json`, "application/json")
+  })
+
+  // Merges an archive into the account and reports what matched. `?dryRun=true` only reports.
+  .post("/import", zodValidator("query", importQuery), zodValidator("json", archiveSchema), async (c) => {
+    const userId = currentUserId(c)
+    const billing = billingOf(c)
+    const archive = c.req.valid("json")
+    const { dryRun = false } = c.req.valid("query")
+    try {
+      // The dry run tells how many nodes the import adds, which all have to fit the plan
+      const planned = await importArchive(userId, archive, { dryRun: true })
+      if (dryRun) return c.json({ report: planned.report })
+      const required = planned.report.nodes.created
+      if (required > 0 && !await allows(billing, userId, "memory_nodes", required)) {
+        return fail(c, 402, `This import adds ${required} nodes, more than your plan has room for`, { featureId: "memory_nodes", required })
+      }
+      const { report, sessions, messages, nodes } = await importArchive(userId, archive)
+      const remembered = messages.filter((message) => message.remember)
+      c.executionCtx.waitUntil((async () => {
+        for (const batch of slices(nodes, INDEX_BATCH)) await indexNodes(batch)
+        for (const batch of slices(remembered, INDEX_BATCH)) await indexMessages(batch)
+      })().catch((error) => console.error("Import indexing failed", error)))
+      await syncMemoryUsage(billing, userId)
+      for (const session of sessions) publishFrom(c, { type: "session.updated", session })
+      if (report.nodes.created + report.nodes.merged + report.edges.created + report.edges.merged > 0) publishFrom(c, { type: "memory.changed" })
+      return c.json({ report })
+    } catch (error) {
+      if (error instanceof InvalidArchiveError) return fail(c, 400, error.message, { target: "json", issues: error.issues })
+      throw error
+    }
+  })
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { eq, sql } from "drizzle-orm"
+import { defaultBilling } from "../billing"
+import { database } from "../database"
+import { memoryNodes } from "../database/schema"
+import { upsertNode } from "../memory/store"
+import { json, signUp } from "../testing/users"
+
+describe("usage limits", () => {
+  it("refuses a chat message once the month's messages are used up, before any reply", async () => {
+    const account = await signUp()
+    const created = await account.request("/api/sessions", json("POST", {}))
+    const { session } = await created.json<{ session: { id: string } }>()
+    await defaultBilling.setUsage(account.userId, "messages", 100)
+
+    const response = await account.request("/api/chat", json("POST", {
+      sessionId: session.id,
+      message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text: "Hello" }] },
+    }))
+
+    expect(response.status).toBe(402)
+    expect(await response.json()).toMatchObject({ details: { featureId: "messages" } })
+    expect((await defaultBilling.check(account.userId, "messages", 0)).usage).toBe(100)
+    const stored = await (await account.request(`/api/sessions/${session.id}`)).json<{ messages: unknown[] }>()
+    expect(stored.messages).toEqual([])
+  })
+
+  it("gives the message back when the reply fails before it starts", async () => {
+    const account = await signUp()
+    const created = await account.request("/api/sessions", json("POST", {}))
+    const { session } = await created.json<{ session: { id: string } }>()
+    // A row that cannot be read makes retrieval fail
+    const node = await upsertNode(account.userId, { kind: "entity", type: "person", label: "Carol" })
+    await database.update(memoryNodes).set({ attributes: sql`'{'` }).where(eq(memoryNodes.id, node.id))
+
+    const response = await account.request("/api/chat", json("POST", {
+      sessionId: session.id,
+      message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text: "Who is Carol?" }] },
+    }))
+
+    expect(response.status).toBe(500)
+    expect((await defaultBilling.check(account.userId, "messages", 0)).usage).toBe(0)
+  })
+
+  it("refuses new memory nodes once the plan's are used up", async () => {
+    const account = await signUp()
+    await defaultBilling.setUsage(account.userId, "memory_nodes", 250)
+
+    const response = await account.request("/api/memory/nodes", json("PUT", { kind: "entity", type: "person", label: "Carol" }))
+
+    expect(response.status).toBe(402)
+    expect(await response.json()).toMatchObject({ details: { featureId: "memory_nodes" } })
+  })
+
+  it("tracks stored memory nodes as they are added", async () => {
+    const account = await signUp()
+    await account.request("/api/memory/nodes", json("PUT", { kind: "entity", type: "person", label: "Carol" }))
+    await account.request("/api/memory/nodes", json("PUT", { kind: "entity", type: "person", label: "Dave" }))
+
+    expect((await defaultBilling.check(account.userId, "memory_nodes", 0)).usage).toBe(2)
+    const billing = await (await account.request("/api/billing")).json<{ features: { featureId: string; usage: number }[] }>()
+    expect(billing.features.find((feature) => feature.featureId === "memory_nodes")?.usage).toBe(2)
+  })
+})
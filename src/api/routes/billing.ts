@@ -0,0 +1,27 @@
+import z from "zod"
+import { Hono } from "hono"
+import { fail } from "../lib/errors"
+import { zodValidator } from "../lib/validator"
+import { authenticatedOnly } from "../middleware/authentication"
+import { billingOf, findPlan, plans } from "../billing"
+
+const checkoutBody = z.object({
+  planId: z.string(),
+})
+
+export const billingRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  // The current plan with the usage of every metered feature, plus the plans to choose from.
+  .get("/", async (c) => {
+    const { id, name, email } = c.get("user")!
+    const customer = await billingOf(c).customer({ id, name, email })
+    return c.json({ ...customer, plans })
+  })
+
+  .post("/checkout", zodValidator("json", checkoutBody), async (c) => {
+    const { planId } = c.req.valid("json")
+    if (!findPlan(planId)) return fail(c, 404, "Plan not found")
+    const successUrl = new URL("/billing?upgraded=1", c.req.url).toString()
+    return c.json(await billingOf(c).checkout(c.get("user")!.id, planId, successUrl))
+  })
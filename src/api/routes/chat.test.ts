@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import { defaultBilling } from "../billing"
+import type { MessageContext } from "../database/schema"
+import { json, signUp, type Account } from "../testing/users"
+
+interface StreamPart {
+  type: string
+  delta?: string
+  toolName?: string
+}
+
+// The UI message stream is server-sent events with one JSON part per event
+const partsOf = async (response: Response) =>
+  (await response.text())
+    .split("\n")
+    .filter((line) => line.startsWith("data: {"))
+    .map((line) => JSON.parse(line.slice("data: ".length)) as StreamPart)
+
+const send = async (account: Account, sessionId: string, text: string) =>
+  account.request("/api/chat", json("POST", {
+    sessionId,
+    message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text }] },
+  }))
+
+const newSession = async (account: Account) => {
+  const response = await account.request("/api/sessions", json("POST", {}))
+  return (await response.json<{ session: { id: string } }>()).session
+}
+
+// End to end through the agent and the mock gateway of scripts/mock-gateway.ts
+describe("chat", () => {
+  it("streams the reply, saves both messages and learns from them", async () => {
+    const account = await signUp()
+    const session = await newSession(account)
+
+    const response = await send(account, session.id, "My sister Carol moved to Lisbon.")
+
+    expect(response.status).toBe(200)
+    const parts = await partsOf(response)
+    const text = parts.filter((part) => part.type === "text-delta").map((part) => part.delta).join("")
+    expect(text).toBe('Mock reply to: "My sister Carol moved to Lisbon."')
+    expect(parts.at(-1)?.type).toBe("finish")
+
+    const stored = await (await account.request(`/api/sessions/${session.id}`)).json<{ messages: { role: string; content: string; model: string | null }[] }>()
+    expect(stored.messages.map(({ role, content }) => ({ role, content }))).toEqual([
+      { role: "user", content: "My sister Carol moved to Lisbon." },
+      { role: "ai", content: text },
+    ])
+    expect(stored.messages[1].model).toBe("anthropic/claude-haiku-4.5")
+    expect((await defaultBilling.check(account.userId, "messages", 0)).usage).toBe(1)
+
+    const { nodes } = await (await account.request("/api/memory/nodes?kind=entity")).json<{ nodes: { label: string }[] }>()
+    expect(nodes.map((node) => node.label)).toEqual(["Carol", "Lisbon"])
+  })
+
+  it("answers with what memory knows about the question", async () => {
+    const account = await signUp()
+    const session = await newSession(account)
+    await send(account, session.id, "Carol works at Acme.")
+
+    const parts = await partsOf(await send(account, session.id, "Where does Carol work?"))
+
+    const text = parts.filter((part) => part.type === "text-delta").map((part) => part.delta).join("")
+    expect(text).toContain("From memory:")
+    expect(text).toContain("Acme")
+  })
+
+  it("records on each reply the memory it was given and where that was learned", async () => {
+    const account = await signUp()
+    const first = await newSession(account)
+    await send(account, first.id, "Carol works at Acme.")
+    const second = await newSession(account)
+
+    await send(account, second.id, "Where does Carol work?")
+
+    const learned = await (await account.request(`/api/sessions/${first.id}`)).json<{ messages: { id: string }[] }>()
+    const stored = await (await account.request(`/api/sessions/${second.id}`)).json<{ messages: { context: MessageContext | null }[] }>()
+    const context = stored.messages[1].context!
+    const carol = context.memory.find((item) => item.text.startsWith("Carol"))
+    expect(carol?.sources).toContainEqual({ messageId: learned.messages[0].id, sessionId: first.id })
+    expect(context.messages).toContainEqual(expect.objectContaining({
+      messageId: learned.messages[0].id,
+      sessionId: first.id,
+      role: "user",
+      excerpt: "Carol works at Acme.",
+    }))
+    // Nothing came before in the new session
+    expect(context.history).toBe(0)
+  })
+
+  it("runs memory tools and keeps their cards with the reply", async () => {
+    const account = await signUp()
+    const session = await newSession(account)
+
+    const parts = await partsOf(await send(account, session.id, "remember that Dana plays the Cello"))
+
+    expect(parts.find((part) => part.type === "tool-input-available")?.toolName).toBe("remember")
+    const stored = await (await account.request(`/api/sessions/${session.id}`)).json<{ messages: { parts: { type: string }[] | null }[] }>()
+    expect(stored.messages[1].parts?.map((part) => part.type)).toContain("tool-remember")
+    const { nodes } = await (await account.request("/api/memory/nodes?kind=entity")).json<{ nodes: { label: string }[] }>()
+    expect(nodes.map((node) => node.label)).toEqual(["Cello", "Dana"])
+    const { operations } = await (await account.request("/api/memory/operations")).json<{ operations: { tool: string }[] }>()
+    expect(operations.map((operation) => operation.tool)).toEqual(["remember"])
+  })
+
+  it("undoes a tool's memory write once", async () => {
+    const account = await signUp()
+    const session = await newSession(account)
+    await send(account, session.id, "remember that Dana plays the Cello")
+    const { operations } = await (await account.request(`/api/memory/operations?sessionId=${session.id}`)).json<{ operations: { id: string }[] }>()
+
+    const undo = () => account.request(`/api/memory/operations/${operations[0].id}/undo`, { method: "POST" })
+
+    expect((await undo()).status).toBe(200)
+    const { nodes } = await (await account.request("/api/memory/nodes?kind=entity")).json<{ nodes: unknown[] }>()
+    expect(nodes).toEqual([])
+    expect((await undo()).status).toBe(409)
+  })
+})
@@ -0,0 +1,154 @@
+import z from "zod"
+import { Hono } from "hono"
+import { createAgentUIStreamResponse, getToolName, isToolUIPart, type UIMessage } from "ai"
+import { agent } from "../agent"
+import { ToolError } from "../agent/tool-error"
+import { allows, billingOf, release, reserve, syncMemoryUsage } from "../billing"
+import { textOf, toUIMessage } from "../agent/messages"
+import { fail } from "../lib/errors"
+import { zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { auditReads } from "../memory/audit"
+import { indexMessages } from "../memory/embeddings"
+import { extractMemory } from "../memory/extract"
+import { buildContext } from "../memory/provenance"
+import { retrievalOptionsSchema, retrieve } from "../memory/retrieve"
+import { appendMessage, branchTo, getSession, listMessages } from "../sessions/store"
+import { chatSettings } from "../settings/chat"
+import { CLIENT_ID_HEADER, publish, publishFrom } from "../sync"
+import { relayReply } from "../sync/relay"
+
+// The client only sends the new user message and where it goes in the message tree,
+// the history is loaded from D1.
+const chatBody = z.object({
+  sessionId: z.string(),
+  parentId: z.string().nullable().optional(),
+  message: z.object({
+    id: z.string().min(1).max(64),
+    role: z.literal("user"),
+    parts: z.array(z.looseObject({ type: z.string() })),
+    // `remember: false` is the "don't remember" toggle of the chat input
+    metadata: z.looseObject({ remember: z.boolean().optional() }).optional(),
+  }),
+  retrieval: retrievalOptionsSchema.partial().optional(),
+})
+
+// Tools whose calls change the memory graph
+const MEMORY_WRITES = new Set(["remember", "link", "forget"])
+
+export const chatRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  .post("/", zodValidator("json", chatBody), async (c) => {
+    const { sessionId, parentId, message, retrieval } = c.req.valid("json")
+    const session = await getSession(currentUserId(c), sessionId)
+    if (!session) return fail(c, 404, "Session not found")
+
+    const content = textOf(message as UIMessage)
+    if (!content) return fail(c, 400, "Message is empty")
+
+    const billing = billingOf(c)
+    // Counted before the reply is generated, so parallel requests cannot go past the limit
+    if (!await reserve(billing, session.userId, "messages")) {
+      return fail(c, 402, "You have used all messages included in your plan", { featureId: "messages" })
+    }
+
+    // Given back when anything fails before the reply starts
+    try {
+      // Resending a known message regenerates its reply as a new sibling of the previous ones.
+      // A new message under an earlier parent is an edit and starts a branch; an unknown parent
+      // (e.g. a reply that was stopped before it was saved) falls back to the active branch.
+      const stored = await listMessages(session.id)
+      const known = stored.find((item) => item.id === message.id && item.role === "user")
+      const parentKnown = parentId === null || stored.some((item) => item.id === parentId)
+      // Nothing of an incognito session or a message the user asked not to remember reaches memory
+      const remember = !session.incognito && (known ? known.remember : message.metadata?.remember !== false)
+      const appended = known
+        ? null
+        : await appendMessage(session.userId, session.id, { id: message.id, role: "user", content, remember, parentId: parentKnown ? parentId : undefined })
+      if (appended) publishFrom(c, { type: "message.created", ...appended })
+      const userMessage = known ?? appended!.message
+      // Only the branch leading to the message is sent as context
+      const history = branchTo(stored, userMessage.parentId)
+
+      const uiMessages = [...history, userMessage].map(toUIMessage)
+      const [memory, settings] = await Promise.all([
+        retrieve(session.userId, content, retrievalOptionsSchema.parse(retrieval ?? {})),
+        chatSettings(session),
+      ])
+      const context = await buildContext(memory, history.length)
+      c.executionCtx.waitUntil(
+        auditReads(session.userId, context.memory, { via: "context", sessionId: session.id, messageId: userMessage.id })
+          .catch((error) => console.error("Memory audit failed", error))
+      )
+      // A full memory stops growing, the chat itself keeps working.
+      const canRemember = await allows(billing, session.userId, "memory_nodes")
+      const origin = c.req.header(CLIENT_ID_HEADER) ?? null
+      const memoryChanged = () => publish(session.userId, { type: "memory.changed" }, origin)
+
+      return createAgentUIStreamResponse({
+        agent,
+        uiMessages,
+        options: { memoryContext: memory.context, userId: session.userId, sessionId: session.id, messageId: userMessage.id, canRemember, remember, ...settings },
+        abortSignal: c.req.raw.signal,
+        originalMessages: uiMessages,
+        generateMessageId: () => crypto.randomUUID(),
+        // Citations and the model are known before the first token, so they ride along with the start of the message
+        messageMetadata: ({ part }) => (part.type === "start" ? { context, remember, model: settings.model } : undefined),
+        // The user's other tabs follow the reply as it is generated
+        consumeSseStream: ({ stream }) => c.executionCtx.waitUntil(
+          relayReply(stream, (messageId, text) =>
+            publish(session.userId, { type: "message.streaming", sessionId: session.id, parentId: userMessage.id, messageId, text }, origin)
+          ).catch((error) => console.error("Reply relay failed", error))
+        ),
+        onError: (error) => {
+          if (error instanceof ToolError) return error.message
+          console.error("Chat stream failed", error)
+          return "The assistant is unavailable right now. Please try again."
+        },
+        onFinish: async ({ responseMessage, isAborted }) => {
+          const reply = textOf(responseMessage)
+          const toolParts = responseMessage.parts.filter(isToolUIPart)
+          // Every reply that was generated counts, stopped ones included, the message reserved for one that never came is given back.
+          if (!reply && toolParts.length === 0) {
+            c.executionCtx.waitUntil(release(billing, session.userId, "messages"))
+            return
+          }
+          const saved = await appendMessage(session.userId, session.id, {
+            id: responseMessage.id,
+            role: "ai",
+            content: reply,
+            context,
+            parts: toolParts.length > 0 ? responseMessage.parts : undefined,
+            remember,
+            model: settings.model,
+            parentId: userMessage.id,
+          })
+          const aiMessage = saved.message
+          publishFrom(c, { type: "message.created", ...saved })
+          if (remember) {
+            c.executionCtx.waitUntil(
+              indexMessages([userMessage, aiMessage]).catch((error) => console.error("Message indexing failed", error))
+            )
+          }
+          const wroteMemory = toolParts.some((part) => part.state === "output-available" && MEMORY_WRITES.has(getToolName(part)))
+          // A stopped reply is kept in the history but is not trusted as memory.
+          if (isAborted || !canRemember || !remember) {
+            if (wroteMemory) {
+              c.executionCtx.waitUntil(syncMemoryUsage(billing, session.userId).catch((error) => console.error("Usage sync failed", error)))
+              c.executionCtx.waitUntil(memoryChanged())
+            }
+            return
+          }
+          c.executionCtx.waitUntil(
+            extractMemory(session.userId, [userMessage, aiMessage], { sessionId: session.id, messageIds: [userMessage.id, aiMessage.id] })
+              .then(() => Promise.all([syncMemoryUsage(billing, session.userId), memoryChanged()]))
+              .catch((error) => console.error("Memory extraction failed", error))
+          )
+        },
+      })
+    } catch (error) {
+      await release(billing, session.userId, "messages")
+      throw error
+    }
+  })
@@ -0,0 +1,78 @@
+import z from "zod"
+import { Hono } from "hono"
+import { allows, billingOf, syncMemoryUsage } from "../billing"
+import { queueIngestion } from "../documents/ingest"
+import { contentTypeOf, SUPPORTED_EXTENSIONS } from "../documents/parse"
+import { createDocument, deleteDocument, documentFile, getDocument, listDocuments } from "../documents/store"
+import { fail } from "../lib/errors"
+import { idParam, zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { removeNodeEmbeddings } from "../memory/embeddings"
+import { publishFrom } from "../sync"
+
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024
+// Files a browser can show without running anything of theirs; the rest, HTML above all, is
+// downloaded so an upload cannot script the app's origin.
+const INLINE_TYPES = new Set(["application/pdf", "text/plain"])
+
+const uploadForm = z.object({
+  file: z.instanceof(File, { message: "Attach a file as `file`" })
+    .refine((file) => contentTypeOf(file.name), `Supported files are ${SUPPORTED_EXTENSIONS.map((extension) => `.${extension}`).join(", ")}`)
+    .refine((file) => file.size > 0, "The file is empty")
+    .refine((file) => file.size <= MAX_DOCUMENT_SIZE, "Files can be at most 10 MB"),
+})
+
+const documentQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+export const documentRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  .get("/", zodValidator("query", documentQuery), async (c) => {
+    return c.json({ documents: await listDocuments(currentUserId(c), c.req.valid("query").limit) })
+  })
+
+  // Stores the file and queues its ingestion; poll the document for progress.
+  .post("/", zodValidator("form", uploadForm), async (c) => {
+    const userId = currentUserId(c)
+    if (!await allows(billingOf(c), userId, "memory_nodes")) {
+      return fail(c, 402, "Your memory has reached the node limit of your plan", { featureId: "memory_nodes" })
+    }
+    const { file } = c.req.valid("form")
+    const document = await createDocument(userId, { name: file.name, contentType: contentTypeOf(file.name)!, data: await file.arrayBuffer() })
+    await queueIngestion(document)
+    publishFrom(c, { type: "document.updated", document })
+    return c.json({ document }, 202)
+  })
+
+  .get("/:id", zodValidator("param", idParam), async (c) => {
+    const document = await getDocument(currentUserId(c), c.req.valid("param").id)
+    if (!document) return fail(c, 404, "Document not found")
+    return c.json({ document })
+  })
+
+  // The original file, e.g. for a "page 3" link from a node's provenance.
+  .get("/:id/file", zodValidator("param", idParam), async (c) => {
+    const document = await getDocument(currentUserId(c), c.req.valid("param").id)
+    const object = document && await documentFile(document)
+    if (!document || !object) return fail(c, 404, "Document not found")
+    const disposition = INLINE_TYPES.has(document.contentType) ? "inline" : "attachment"
+    return c.body(object.body, 200, {
+      "Content-Type": document.contentType,
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(document.name)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+    })
+  })
+
+  // Also removes the memory that was learned from this document alone.
+  .delete("/:id", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const removed = await deleteDocument(userId, c.req.valid("param").id)
+    if (!removed) return fail(c, 404, "Document not found")
+    await Promise.all([removeNodeEmbeddings(removed.nodeIds), syncMemoryUsage(billingOf(c), userId)])
+    publishFrom(c, { type: "document.deleted", documentId: c.req.valid("param").id })
+    publishFrom(c, { type: "memory.changed" })
+    return c.json(removed)
+  })
@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { json, request, signUp, type Account } from "../testing/users"
+
+const putNode = async (account: Account, label: string) => {
+  const response = await account.request("/api/memory/nodes", json("PUT", { kind: "entity", type: "person", label }))
+  return (await response.json<{ node: { id: string } }>()).node
+}
+
+describe("memory routes", () => {
+  let alice: Account
+  let mallory: Account
+  let carol: { id: string }
+  let dave: { id: string }
+  let edge: { id: string }
+
+  beforeAll(async () => {
+    [alice, mallory] = await Promise.all([signUp(), signUp()])
+    carol = await putNode(alice, "Carol Zimmermann")
+    dave = await putNode(alice, "Dave")
+    const response = await alice.request("/api/memory/edges", json("PUT", { sourceId: carol.id, targetId: dave.id, type: "knows" }))
+    edge = (await response.json<{ edge: { id: string } }>()).edge
+  })
+
+  it("refuses requests without a session", async () => {
+    expect((await request("/api/memory/nodes")).status).toBe(401)
+    expect((await request("/api/memory/graph")).status).toBe(401)
+    expect((await request("/api/memory/retrieve?q=Carol")).status).toBe(401)
+  })
+
+  it("lists only the account's own memory", async () => {
+    const nodes = await (await mallory.request("/api/memory/nodes")).json<{ nodes: unknown[] }>()
+    const graph = await (await mallory.request("/api/memory/graph")).json<{ nodes: unknown[]; edges: unknown[] }>()
+    const edges = await (await mallory.request(`/api/memory/edges?nodeId=${carol.id}`)).json<{ edges: unknown[] }>()
+
+    expect(nodes.nodes).toEqual([])
+    expect(graph).toMatchObject({ nodes: [], edges: [] })
+    expect(edges.edges).toEqual([])
+    expect((await (await alice.request("/api/memory/nodes")).json<{ nodes: unknown[] }>()).nodes).toHaveLength(2)
+  })
+
+  it("answers for another account's nodes and edges as if they did not exist", async () => {
+    expect((await mallory.request(`/api/memory/nodes/${carol.id}`)).status).toBe(404)
+    expect((await mallory.request(`/api/memory/nodes/${carol.id}`, json("PATCH", { label: "Mallory" }))).status).toBe(404)
+    expect((await mallory.request(`/api/memory/nodes/${carol.id}`, { method: "DELETE" })).status).toBe(404)
+    expect((await mallory.request(`/api/memory/nodes/${carol.id}/purge`, { method: "POST" })).status).toBe(404)
+    expect((await mallory.request(`/api/memory/edges/${edge.id}`)).status).toBe(404)
+    expect((await mallory.request(`/api/memory/edges/${edge.id}`, { method: "DELETE" })).status).toBe(404)
+
+    const node = await (await alice.request(`/api/memory/nodes/${carol.id}`)).json<{ node: { label: string } }>()
+    expect(node.node.label).toBe("Carol Zimmermann")
+    expect((await alice.request(`/api/memory/edges/${edge.id}`)).status).toBe(200)
+  })
+
+  it("does not merge into or link to another account's nodes", async () => {
+    const own = await putNode(mallory, "Carol")
+
+    expect((await mallory.request(`/api/memory/nodes/${own.id}/merge`, json("POST", { intoId: carol.id }))).status).toBe(404)
+    expect((await mallory.request(`/api/memory/nodes/${carol.id}/merge`, json("POST", { intoId: own.id }))).status).toBe(404)
+    expect((await mallory.request("/api/memory/edges", json("PUT", { sourceId: own.id, targetId: carol.id, type: "knows" }))).status).toBe(404)
+  })
+
+  it("retrieves only from the account's own memory", async () => {
+    const retrieval = await (await mallory.request("/api/memory/retrieve?q=Zimmermann")).json<{ seeds: unknown[]; items: unknown[] }>()
+
+    expect(retrieval.seeds).toEqual([])
+    expect(retrieval.items).toEqual([])
+    const own = await (await alice.request("/api/memory/retrieve?q=Zimmermann")).json<{ seeds: { id: string }[] }>()
+    expect(own.seeds.map((seed) => seed.id)).toContain(carol.id)
+  })
+
+  it("keeps the audit log of an account to itself", async () => {
+    const log = await (await mallory.request(`/api/memory/audit?itemId=${carol.id}`)).json<{ entries: unknown[] }>()
+
+    expect(log.entries).toEqual([])
+  })
+})
+
+// What the Memory Explorer reads and edits
+describe("memory explorer routes", () => {
+  it("sends the graph of the most recent nodes with the edges between them", async () => {
+    const account = await signUp()
+    const [bob, carol] = [await putNode(account, "Bob"), await putNode(account, "Carol")]
+    await account.request("/api/memory/edges", json("PUT", { sourceId: bob.id, targetId: carol.id, type: "knows" }))
+    const erin = await putNode(account, "Erin")
+
+    const all = await (await account.request("/api/memory/graph")).json<{ nodes: { id: string }[]; edges: unknown[] }>()
+    const recent = await (await account.request("/api/memory/graph?limit=2")).json<{ nodes: { id: string }[]; edges: unknown[] }>()
+
+    expect(all.nodes).toHaveLength(3)
+    expect(all.edges).toHaveLength(1)
+    // Bob is left out, and with him the edge to Carol
+    expect(recent.nodes.map((node) => node.id).sort()).toEqual([carol.id, erin.id].sort())
+    expect(recent.edges).toEqual([])
+  })
+
+  it("shows a node with its edges, neighbours and the messages it was learned from", async () => {
+    const account = await signUp()
+    const session = (await (await account.request("/api/sessions", json("POST", {}))).json<{ session: { id: string } }>()).session
+    await account.request("/api/chat", json("POST", {
+      sessionId: session.id,
+      message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text: "My sister Carol moved to Lisbon." }] },
+    }))
+    const { nodes } = await (await account.request("/api/memory/nodes?q=Carol&kind=entity")).json<{ nodes: { id: string }[] }>()
+
+    const detail = await (await account.request(`/api/memory/nodes/${nodes[0].id}`)).json<{
+      node: { label: string }
+      edges: unknown[]
+      neighbors: { label: string }[]
+      sources: { sessionId: string; role: string; excerpt: string }[]
+    }>()
+
+    expect(detail.node.label).toBe("Carol")
+    expect(detail.edges.length).toBeGreaterThan(0)
+    expect(detail.neighbors.map((node) => node.label)).toContain("Lisbon")
+    expect(detail.sources).toContainEqual(expect.objectContaining({ sessionId: session.id, role: "user", excerpt: "My sister Carol moved to Lisbon." }))
+  })
+
+  it("refuses a rename onto another node and points at it instead", async () => {
+    const account = await signUp()
+    const [bob, robert] = [await putNode(account, "Bob"), await putNode(account, "Robert")]
+
+    const response = await account.request(`/api/memory/nodes/${robert.id}`, json("PATCH", { label: "bob" }))
+
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ code: "conflict", details: { existingId: bob.id } })
+  })
+
+  it("merges a node into another, keeping its edges", async () => {
+    const account = await signUp()
+    const [bob, bobSmith, carol] = [await putNode(account, "Bob"), await putNode(account, "Bob Smith"), await putNode(account, "Carol")]
+    await account.request("/api/memory/edges", json("PUT", { sourceId: bob.id, targetId: carol.id, type: "knows" }))
+
+    expect((await account.request(`/api/memory/nodes/${bob.id}/merge`, json("POST", { intoId: bob.id }))).status).toBe(400)
+    const response = await account.request(`/api/memory/nodes/${bob.id}/merge`, json("POST", { intoId: bobSmith.id }))
+
+    expect(response.status).toBe(200)
+    expect((await account.request(`/api/memory/nodes/${bob.id}`)).status).toBe(404)
+    const { edges } = await (await account.request(`/api/memory/edges?nodeId=${bobSmith.id}`)).json<{ edges: { targetId: string }[] }>()
+    expect(edges.map((edge) => edge.targetId)).toEqual([carol.id])
+  })
+})
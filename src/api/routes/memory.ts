@@ -0,0 +1,307 @@
+import z from "zod"
+import { Hono, type Context } from "hono"
+import { allows, billingOf, syncMemoryUsage } from "../billing"
+import { audited, auditGraph, listAudit, type AuditOrigin } from "../memory/audit"
+import { nodeDocuments } from "../documents/store"
+import { fail } from "../lib/errors"
+import { idParam, zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { indexNodes, reembed, removeNodeEmbeddings } from "../memory/embeddings"
+import { consolidate, consolidationOptionsSchema, getReport, listReports, revertReport } from "../memory/consolidate"
+import { extractMemory } from "../memory/extract"
+import { retrievalOptionsSchema, retrieve } from "../memory/retrieve"
+import { getOperation, listOperations, summarize, undoOperation } from "../memory/journal"
+import { abandonedMemory, nodeSources } from "../memory/provenance"
+import { purgeNode } from "../memory/purge"
+import { redactInput, redactionOf } from "../memory/redact"
+import { getSession, listMessages } from "../sessions/store"
+import { publishMemoryChanges } from "../sync"
+import { deleteEdge, deleteMemory, deleteNode, getEdge, getNode, graph, listEdges, listNodes, mergeNodes, NodeConflictError, updateNode, upsertEdge, upsertNode } from "../memory/store"
+
+const attributes = z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+const score = z.number().min(0).max(1)
+const page = {
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+}
+
+const nodeQuery = z.object({
+  kind: z.enum(["entity", "fact"]).optional(),
+  type: z.string().optional(),
+  q: z.string().optional(),
+  ...page,
+})
+
+const nodeBody = z.object({
+  kind: z.enum(["entity", "fact"]),
+  type: z.string().min(1),
+  label: z.string().trim().min(1),
+  attributes: attributes.optional(),
+  confidence: score.optional(),
+})
+
+const nodePatch = nodeBody.omit({ kind: true }).partial()
+
+const mergeBody = z.object({
+  intoId: z.string(),
+})
+
+const graphQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+})
+
+const edgeQuery = z.object({
+  nodeId: z.string().optional(),
+  type: z.string().optional(),
+  ...page,
+})
+
+const edgeBody = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  type: z.string().min(1),
+  weight: score.optional(),
+  attributes: attributes.optional(),
+  confidence: score.optional(),
+})
+
+const extractBody = z.object({
+  messages: z.array(z.object({
+    role: z.enum(["user", "ai"]),
+    content: z.string(),
+  })).min(1),
+  source: z.object({
+    sessionId: z.string(),
+    messageIds: z.array(z.string()).min(1),
+  }).optional(),
+})
+
+const reembedBody = z.object({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+})
+
+const operationQuery = z.object({
+  sessionId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+const reportQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+const auditQuery = z.object({
+  itemId: z.string().optional(),
+  action: z.enum(["created", "updated", "deleted", "read", "purged"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().optional(),
+})
+
+const retrieveQuery = retrievalOptionsSchema.extend({
+  q: z.string().trim().min(1),
+})
+
+// Writes made in the Memory Explorer or through the API directly
+const MANUAL: AuditOrigin = { via: "manual" }
+
+const memoryFull = (c: Context) =>
+  fail(c, 402, "Your memory has reached the node limit of your plan", { featureId: "memory_nodes" })
+
+export const memoryRoutes = new Hono()
+  .use(authenticatedOnly)
+  .use(publishMemoryChanges)
+
+  .get("/graph", zodValidator("query", graphQuery), async (c) => {
+    return c.json(await graph(currentUserId(c), c.req.valid("query").limit))
+  })
+
+  .get("/nodes", zodValidator("query", nodeQuery), async (c) => {
+    return c.json({ nodes: await listNodes(currentUserId(c), c.req.valid("query")) })
+  })
+
+  .get("/nodes/:id", zodValidator("param", idParam), async (c) => {
+    const result = await getNode(currentUserId(c), c.req.valid("param").id)
+    if (!result) return fail(c, 404, "Node not found")
+    const [sources, documents] = await Promise.all([nodeSources(result.node.id), nodeDocuments(result.node.id)])
+    return c.json({ ...result, sources, documents })
+  })
+
+  .patch("/nodes/:id", zodValidator("param", idParam), zodValidator("json", nodePatch), async (c) => {
+    const userId = currentUserId(c)
+    const { id } = c.req.valid("param")
+    const patch = redactInput(c.req.valid("json"), await redactionOf(userId))
+    try {
+      const node = await audited(userId, { nodeIds: [id], edgeIds: [] }, MANUAL, () => updateNode(userId, id, patch))
+      if (!node) return fail(c, 404, "Node not found")
+      await indexNodes([node])
+      return c.json({ node })
+    } catch (error) {
+      if (error instanceof NodeConflictError) return fail(c, 409, error.message, { existingId: error.existing.id })
+      throw error
+    }
+  })
+
+  .post("/nodes/:id/merge", zodValidator("param", idParam), zodValidator("json", mergeBody), async (c) => {
+    const userId = currentUserId(c)
+    const { id } = c.req.valid("param")
+    const { intoId } = c.req.valid("json")
+    if (intoId === id) return fail(c, 400, "A node cannot be merged into itself")
+    const node = await audited(userId, { nodeIds: [id, intoId], edgeIds: [] }, MANUAL, () => mergeNodes(userId, id, intoId))
+    if (!node) return fail(c, 404, "Node not found")
+    await Promise.all([indexNodes([node]), removeNodeEmbeddings([id]), syncMemoryUsage(billingOf(c), userId)])
+    return c.json({ node })
+  })
+
+  .put("/nodes", zodValidator("json", nodeBody), async (c) => {
+    const userId = currentUserId(c)
+    if (!await allows(billingOf(c), userId, "memory_nodes")) return memoryFull(c)
+    const node = await upsertNode(userId, redactInput(c.req.valid("json"), await redactionOf(userId)))
+    await auditGraph(userId, { nodes: [node], edges: [] }, MANUAL)
+    await Promise.all([indexNodes([node]), syncMemoryUsage(billingOf(c), userId)])
+    return c.json({ node })
+  })
+
+  .delete("/nodes/:id", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const { id } = c.req.valid("param")
+    if (!await audited(userId, { nodeIds: [id], edgeIds: [] }, MANUAL, () => deleteNode(userId, id))) return fail(c, 404, "Node not found")
+    await Promise.all([removeNodeEmbeddings([id]), syncMemoryUsage(billingOf(c), userId)])
+    return c.body(null, 204)
+  })
+
+  // Deletes a node and the facts derived from it for good, including the copies kept for undo.
+  .post("/nodes/:id/purge", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const purged = await purgeNode(userId, c.req.valid("param").id)
+    if (!purged) return fail(c, 404, "Node not found")
+    await syncMemoryUsage(billingOf(c), userId)
+    return c.json(purged)
+  })
+
+  .get("/edges", zodValidator("query", edgeQuery), async (c) => {
+    return c.json({ edges: await listEdges(currentUserId(c), c.req.valid("query")) })
+  })
+
+  .get("/edges/:id", zodValidator("param", idParam), async (c) => {
+    const edge = await getEdge(currentUserId(c), c.req.valid("param").id)
+    if (!edge) return fail(c, 404, "Edge not found")
+    return c.json({ edge })
+  })
+
+  .put("/edges", zodValidator("json", edgeBody), async (c) => {
+    const userId = currentUserId(c)
+    const body = c.req.valid("json")
+    if (body.sourceId === body.targetId) return fail(c, 400, "An edge must connect two different nodes")
+    const [source, target] = await Promise.all([getNode(userId, body.sourceId), getNode(userId, body.targetId)])
+    if (!source || !target) return fail(c, 404, "Node not found")
+    const edge = await upsertEdge(userId, redactInput(body, await redactionOf(userId)))
+    await auditGraph(userId, { nodes: [], edges: [edge] }, MANUAL)
+    return c.json({ edge })
+  })
+
+  .delete("/edges/:id", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const { id } = c.req.valid("param")
+    if (!await audited(userId, { nodeIds: [], edgeIds: [id] }, MANUAL, () => deleteEdge(userId, id))) return fail(c, 404, "Edge not found")
+    return c.body(null, 204)
+  })
+
+  // Memory that only came from conversation branches the user navigated away from.
+  .get("/abandoned", async (c) => {
+    return c.json(await abandonedMemory(currentUserId(c)))
+  })
+
+  // Rolls that memory back. Switching back to the branch later does not bring it back.
+  .delete("/abandoned", async (c) => {
+    const userId = currentUserId(c)
+    const abandoned = await abandonedMemory(userId)
+    await audited(userId, abandoned, MANUAL, () => deleteMemory(userId, abandoned))
+    await Promise.all([removeNodeEmbeddings(abandoned.nodeIds), syncMemoryUsage(billingOf(c), userId)])
+    return c.json(abandoned)
+  })
+
+  // Every write to and read from memory, newest first, optionally for one node or edge or one action.
+  .get("/audit", zodValidator("query", auditQuery), async (c) => {
+    return c.json(await listAudit(currentUserId(c), c.req.valid("query")))
+  })
+
+  // Journal of the memory writes made by the agent's tools, newest first.
+  .get("/operations", zodValidator("query", operationQuery), async (c) => {
+    return c.json({ operations: await listOperations(currentUserId(c), c.req.valid("query")) })
+  })
+
+  .get("/operations/:id", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const operation = await getOperation(userId, c.req.valid("param").id)
+    if (!operation) return fail(c, 404, "Operation not found")
+    return c.json({ operation, changes: await summarize(userId, operation.changes) })
+  })
+
+  .post("/operations/:id/undo", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const operation = await getOperation(userId, c.req.valid("param").id)
+    if (!operation) return fail(c, 404, "Operation not found")
+    if (operation.undoneAt) return fail(c, 409, "This change was already undone")
+    const undone = await undoOperation(userId, operation)
+    if (!undone) return fail(c, 409, "This change was already undone")
+    await syncMemoryUsage(billingOf(c), userId)
+    return c.json({ operation: undone })
+  })
+
+  // Reports of the scheduled memory consolidation, newest first.
+  .get("/consolidations", zodValidator("query", reportQuery), async (c) => {
+    return c.json({ reports: await listReports(currentUserId(c), c.req.valid("query").limit) })
+  })
+
+  // Runs consolidation for the current user right away, e.g. to try other options.
+  .post("/consolidations", zodValidator("json", consolidationOptionsSchema), async (c) => {
+    const userId = currentUserId(c)
+    const report = await consolidate(userId, c.req.valid("json"))
+    if (report) await syncMemoryUsage(billingOf(c), userId)
+    return c.json({ report })
+  })
+
+  .get("/consolidations/:id", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const report = await getReport(userId, c.req.valid("param").id)
+    if (!report) return fail(c, 404, "Report not found")
+    const operation = await getOperation(userId, report.operationId)
+    return c.json({ report, changes: await summarize(userId, operation?.changes ?? []) })
+  })
+
+  .post("/consolidations/:id/revert", zodValidator("param", idParam), async (c) => {
+    const userId = currentUserId(c)
+    const report = await getReport(userId, c.req.valid("param").id)
+    if (!report) return fail(c, 404, "Report not found")
+    const operation = await revertReport(userId, report)
+    if (!operation) return fail(c, 409, "This consolidation was already reverted")
+    await syncMemoryUsage(billingOf(c), userId)
+    return c.json({ report: { ...report, revertedAt: operation.undoneAt } })
+  })
+
+  // Turns a finished exchange into graph nodes and edges.
+  .post("/extract", zodValidator("json", extractBody), async (c) => {
+    const userId = currentUserId(c)
+    const { messages, source } = c.req.valid("json")
+    if (source) {
+      const session = await getSession(userId, source.sessionId)
+      const known = new Map(session ? (await listMessages(session.id)).map((message) => [message.id, message]) : [])
+      if (!source.messageIds.every((id) => known.has(id))) return fail(c, 404, "Source messages not found")
+      if (session!.incognito || source.messageIds.some((id) => !known.get(id)!.remember)) return fail(c, 409, "These messages are not remembered")
+    }
+    if (!await allows(billingOf(c), userId, "memory_nodes")) return memoryFull(c)
+    const result = await extractMemory(userId, messages, source)
+    await syncMemoryUsage(billingOf(c), userId)
+    return c.json(result)
+  })
+
+  // Shows what the chat route would put into the model context for a message, and why.
+  .get("/retrieve", zodValidator("query", retrieveQuery), async (c) => {
+    const { q, ...options } = c.req.valid("query")
+    return c.json(await retrieve(currentUserId(c), q, options))
+  })
+
+  // Rebuilds the embedding index page by page, e.g. after EMBEDDING_MODEL changed. See `bun run memory:reembed`.
+  .post("/reembed", zodValidator("json", reembedBody), async (c) => {
+    return c.json(await reembed(currentUserId(c), c.req.valid("json")))
+  })
@@ -0,0 +1,50 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { json, request, signUp, type Account } from "../testing/users"
+
+describe("session routes", () => {
+  let alice: Account
+  let mallory: Account
+  let session: { id: string }
+
+  beforeAll(async () => {
+    [alice, mallory] = await Promise.all([signUp(), signUp()])
+    const created = await alice.request("/api/sessions", json("POST", { title: "Quarterly planning" }))
+    session = (await created.json<{ session: { id: string } }>()).session
+    await alice.request(`/api/sessions/${session.id}/messages`, json("POST", { role: "user", content: "Budget for the Lisbon offsite" }))
+  })
+
+  it("refuses requests without a session", async () => {
+    expect((await request("/api/sessions")).status).toBe(401)
+    expect((await request(`/api/sessions/${session.id}`)).status).toBe(401)
+  })
+
+  it("lists and searches only the account's own sessions", async () => {
+    const list = await (await mallory.request("/api/sessions")).json<{ sessions: unknown[] }>()
+    const search = await (await mallory.request("/api/sessions/search?q=Lisbon")).json<{ messages: unknown[]; sessions: unknown[] }>()
+
+    expect(list.sessions).toEqual([])
+    expect(search).toEqual({ messages: [], sessions: [] })
+    const own = await (await alice.request("/api/sessions/search?q=Lisbon")).json<{ messages: { sessionId: string }[] }>()
+    expect(own.messages.map((hit) => hit.sessionId)).toEqual([session.id])
+  })
+
+  it("answers for another account's session as if it did not exist", async () => {
+    expect((await mallory.request(`/api/sessions/${session.id}`)).status).toBe(404)
+    expect((await mallory.request(`/api/sessions/${session.id}`, json("PATCH", { title: "Mine now" }))).status).toBe(404)
+    expect((await mallory.request(`/api/sessions/${session.id}/messages`, json("POST", { role: "user", content: "Hi" }))).status).toBe(404)
+    expect((await mallory.request(`/api/sessions/${session.id}`, { method: "DELETE" })).status).toBe(404)
+
+    const own = await (await alice.request(`/api/sessions/${session.id}`)).json<{ session: { title: string }; messages: unknown[] }>()
+    expect(own.session.title).toBe("Quarterly planning")
+    expect(own.messages).toHaveLength(1)
+  })
+
+  it("does not stream replies into another account's session", async () => {
+    const response = await mallory.request("/api/chat", json("POST", {
+      sessionId: session.id,
+      message: { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text: "Hello" }] },
+    }))
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,158 @@
+import z from "zod"
+import { Hono } from "hono"
+import { billingOf, syncMemoryUsage } from "../billing"
+import { fail } from "../lib/errors"
+import { idParam, zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { removeMessageEmbeddings } from "../memory/embeddings"
+import { purgeLearnedFrom } from "../memory/purge"
+import { searchSessions } from "../sessions/search"
+import { chatSettingsSchema } from "../settings/chat"
+import { getPersona } from "../settings/personas"
+import { activeBranch, appendMessage, createSession, deleteSession, getSession, listMessages, listSessions, selectBranch, setRemember, updateSession } from "../sessions/store"
+import { generateTitle } from "../sessions/title"
+import { publishFrom, scrubEvents } from "../sync"
+
+const sessionQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+  view: z.enum(["recent", "pinned", "archived"]).optional(),
+})
+
+const searchQuery = z.object({
+  q: z.string().trim().min(1).max(200),
+  role: z.enum(["user", "ai"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+})
+
+// Overrides of the account's chat settings, null clears one
+const sessionChatSettings = chatSettingsSchema.partial().extend({
+  personaId: z.string().min(1).max(64).nullable().optional(),
+})
+
+const sessionBody = sessionChatSettings.extend({
+  title: z.string().trim().min(1).max(200).optional(),
+  incognito: z.boolean().optional(),
+})
+
+const sessionPatch = sessionChatSettings.extend({
+  title: z.string().trim().min(1).max(200).optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  incognito: z.boolean().optional(),
+})
+
+const messageBody = z.object({
+  role: z.enum(["user", "ai"]),
+  content: z.string().trim().min(1),
+  parentId: z.string().nullable().optional(),
+})
+
+const branchBody = z.object({
+  messageId: z.string(),
+})
+
+const messageParam = idParam.extend({
+  messageId: z.string().min(1).max(64),
+})
+
+const messagePatch = z.object({
+  remember: z.boolean(),
+})
+
+export const sessionRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  .get("/", zodValidator("query", sessionQuery), async (c) => {
+    return c.json(await listSessions(currentUserId(c), c.req.valid("query")))
+  })
+
+  // Full-text search over message content and session titles, see migration 0005.
+  .get("/search", zodValidator("query", searchQuery), async (c) => {
+    return c.json(await searchSessions(currentUserId(c), c.req.valid("query")))
+  })
+
+  .post("/", zodValidator("json", sessionBody), async (c) => {
+    const body = c.req.valid("json")
+    if (body.personaId && !(await getPersona(currentUserId(c), body.personaId))) return fail(c, 404, "Persona not found")
+    const session = await createSession(currentUserId(c), body)
+    publishFrom(c, { type: "session.updated", session })
+    return c.json({ session }, 201)
+  })
+
+  .get("/:id", zodValidator("param", idParam), async (c) => {
+    const session = await getSession(currentUserId(c), c.req.valid("param").id)
+    if (!session) return fail(c, 404, "Session not found")
+    return c.json({ session, messages: await activeBranch(session) })
+  })
+
+  .patch("/:id", zodValidator("param", idParam), zodValidator("json", sessionPatch), async (c) => {
+    const patch = c.req.valid("json")
+    if (patch.personaId && !(await getPersona(currentUserId(c), patch.personaId))) return fail(c, 404, "Persona not found")
+    const session = await updateSession(currentUserId(c), c.req.valid("param").id, patch)
+    if (!session) return fail(c, 404, "Session not found")
+    publishFrom(c, { type: "session.updated", session })
+    return c.json({ session })
+  })
+
+  .delete("/:id", zodValidator("param", idParam), async (c) => {
+    const removed = await deleteSession(currentUserId(c), c.req.valid("param").id)
+    if (!removed) return fail(c, 404, "Session not found")
+    await Promise.all([removeMessageEmbeddings(removed), scrubEvents(currentUserId(c), [c.req.valid("param").id])])
+    publishFrom(c, { type: "session.deleted", sessionId: c.req.valid("param").id })
+    return c.body(null, 204)
+  })
+
+  // Called by the client after the first exchange; a session that already has a title keeps it.
+  .post("/:id/title", zodValidator("param", idParam), async (c) => {
+    const session = await getSession(currentUserId(c), c.req.valid("param").id)
+    if (!session) return fail(c, 404, "Session not found")
+    const titled = await generateTitle(session)
+    if (titled.title !== session.title) publishFrom(c, { type: "session.updated", session: titled })
+    return c.json({ session: titled })
+  })
+
+  // Switches to the branch through a message, e.g. another version of an edited prompt.
+  .post("/:id/branch", zodValidator("param", idParam), zodValidator("json", branchBody), async (c) => {
+    const session = await getSession(currentUserId(c), c.req.valid("param").id)
+    if (!session) return fail(c, 404, "Session not found")
+    const result = await selectBranch(session, c.req.valid("json").messageId)
+    if (!result) return fail(c, 404, "Message not found")
+    publishFrom(c, { type: "session.updated", session: result.session })
+    return c.json(result)
+  })
+
+  .post("/:id/messages", zodValidator("param", idParam), zodValidator("json", messageBody), async (c) => {
+    const session = await getSession(currentUserId(c), c.req.valid("param").id)
+    if (!session) return fail(c, 404, "Session not found")
+    const body = c.req.valid("json")
+    if (body.parentId && !(await listMessages(session.id)).some((message) => message.id === body.parentId)) {
+      return fail(c, 404, "Parent message not found")
+    }
+    const appended = await appendMessage(session.userId, session.id, { ...body, remember: !session.incognito })
+    publishFrom(c, { type: "message.created", ...appended })
+    return c.json(appended, 201)
+  })
+
+  // "Don't remember" after the fact also purges what was learned from the message and its replies alone.
+  .patch("/:id/messages/:messageId", zodValidator("param", messageParam), zodValidator("json", messagePatch), async (c) => {
+    const { id, messageId } = c.req.valid("param")
+    const { remember } = c.req.valid("json")
+    const session = await getSession(currentUserId(c), id)
+    if (!session) return fail(c, 404, "Session not found")
+    const updated = await setRemember(session.id, messageId, remember)
+    if (!updated) return fail(c, 404, "Message not found")
+    if (!remember) {
+      const purged = await purgeLearnedFrom(session.userId, updated.map((message) => message.id), { sessionId: session.id, messageId })
+      await removeMessageEmbeddings(updated)
+      if (purged.nodeIds.length > 0 || purged.edgeIds.length > 0) {
+        await syncMemoryUsage(billingOf(c), session.userId)
+        publishFrom(c, { type: "memory.changed" })
+      }
+    }
+    for (const message of updated) publishFrom(c, { type: "message.updated", message })
+    return c.json({ messages: updated })
+  })
@@ -0,0 +1,60 @@
+import z from "zod"
+import { Hono } from "hono"
+import { CHAT_MODELS, DEFAULT_CHAT_MODEL, SYSTEM_PROMPT_LENGTH, TEMPERATURE_RANGE } from "../agent/models"
+import { REDACTION_CATEGORIES } from "../database/schema"
+import { fail } from "../lib/errors"
+import { idParam, zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { chatSettingsSchema } from "../settings/chat"
+import { createPersona, deletePersona, listPersonas, updatePersona } from "../settings/personas"
+import { getSettings, updateSettings } from "../settings/store"
+
+const settingsPatch = chatSettingsSchema.partial().extend({
+  redaction: z.array(z.enum(REDACTION_CATEGORIES)).transform((categories) => [...new Set(categories)]).optional(),
+})
+
+const personaBody = chatSettingsSchema.pick({ model: true, temperature: true }).partial().extend({
+  name: z.string().trim().min(1).max(80),
+  // A persona's prompt replaces the account's, so an empty one is kept as such
+  systemPrompt: z.string().trim().max(SYSTEM_PROMPT_LENGTH).optional(),
+})
+
+const personaPatch = personaBody.partial()
+
+export const settingsRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  .get("/", async (c) => {
+    return c.json({ settings: await getSettings(currentUserId(c)) })
+  })
+
+  // Redaction takes effect for the next write to memory, what is stored already stays as it is.
+  // Chat settings apply from the next reply of every session that does not override them.
+  .patch("/", zodValidator("json", settingsPatch), async (c) => {
+    return c.json({ settings: await updateSettings(currentUserId(c), c.req.valid("json")) })
+  })
+
+  // The models a chat can choose from and the limits of the other chat settings, see src/api/agent/models.ts
+  .get("/models", (c) => {
+    return c.json({ models: CHAT_MODELS, defaultModel: DEFAULT_CHAT_MODEL, temperature: TEMPERATURE_RANGE, systemPromptLength: SYSTEM_PROMPT_LENGTH })
+  })
+
+  .get("/personas", async (c) => {
+    return c.json({ personas: await listPersonas(currentUserId(c)) })
+  })
+
+  .post("/personas", zodValidator("json", personaBody), async (c) => {
+    return c.json({ persona: await createPersona(currentUserId(c), c.req.valid("json")) }, 201)
+  })
+
+  .patch("/personas/:id", zodValidator("param", idParam), zodValidator("json", personaPatch), async (c) => {
+    const persona = await updatePersona(currentUserId(c), c.req.valid("param").id, c.req.valid("json"))
+    if (!persona) return fail(c, 404, "Persona not found")
+    return c.json({ persona })
+  })
+
+  // Sessions that used the persona fall back to the account's settings.
+  .delete("/personas/:id", zodValidator("param", idParam), async (c) => {
+    if (!await deletePersona(currentUserId(c), c.req.valid("param").id)) return fail(c, 404, "Persona not found")
+    return c.body(null, 204)
+  })
@@ -0,0 +1,23 @@
+import { env } from "cloudflare:workers"
+import z from "zod"
+import { Hono } from "hono"
+import { fail } from "../lib/errors"
+import { zodValidator } from "../lib/validator"
+import { authenticatedOnly, currentUserId } from "../middleware/authentication"
+import { syncRoom } from "../sync"
+
+const syncQuery = z.object({
+  // Id of the last event the client received, to resume after a reconnect
+  after: z.coerce.number().int().min(0).optional(),
+})
+
+export const syncRoutes = new Hono()
+  .use(authenticatedOnly)
+
+  // The WebSocket every open tab holds, served by the user's SyncRoom (src/api/sync/room.ts).
+  .get("/", zodValidator("query", syncQuery), async (c) => {
+    if (c.req.header("Upgrade")?.toLowerCase() !== "websocket") return fail(c, 426, "Expected a WebSocket upgrade")
+    // CORS does not cover WebSockets: without this, any site could open one with the user's cookie
+    if (c.req.header("Origin") !== new URL(env.VITE_BASE_URL).origin) return fail(c, 403, "WebSockets are only served to the app's own origin")
+    return syncRoom(currentUserId(c)).fetch(c.req.raw)
+  })
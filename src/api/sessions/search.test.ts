@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { eq } from "drizzle-orm"
+import { database } from "../database"
+import { messages, sessions } from "../database/schema"
+import { createUser } from "../testing/users"
+import { HIGHLIGHT_END, HIGHLIGHT_START, searchSessions, toMatchQuery } from "./search"
+import { appendMessage, createSession, deleteSession, updateSession } from "./store"
+
+const ids = (hits: { messageId: string }[]) => hits.map((hit) => hit.messageId)
+
+describe("toMatchQuery", () => {
+  it("quotes every word as a prefix and drops FTS5 syntax", () => {
+    expect(toMatchQuery('lisbon OR "trip" NEAR(x')).toBe('"lisbon"* "OR"* "trip"* "NEAR"* "x"*')
+    expect(toMatchQuery("  -*  ")).toBe("")
+  })
+})
+
+describe("searchSessions", () => {
+  it("finds messages by stemmed prefixes and highlights what matched", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId, { title: "Holidays" })
+    const { message } = await appendMessage(userId, session.id, { role: "user", content: "We are planning trips to Lisbon in spring" })
+
+    const { messages: hits } = await searchSessions(userId, { q: "plan lisb" })
+
+    expect(ids(hits)).toEqual([message.id])
+    expect(hits[0]).toMatchObject({ sessionId: session.id, sessionTitle: "Holidays", role: "user" })
+    expect(hits[0].snippet).toContain(`${HIGHLIGHT_START}Lisbon${HIGHLIGHT_END}`)
+  })
+
+  it("finds sessions by title and follows renames", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId, { title: "Kitchen renovation" })
+
+    expect((await searchSessions(userId, { q: "kitchen" })).sessions.map((hit) => hit.sessionId)).toEqual([session.id])
+    await updateSession(userId, session.id, { title: "Bathroom renovation" })
+    expect((await searchSessions(userId, { q: "kitchen" })).sessions).toEqual([])
+    expect((await searchSessions(userId, { q: "bathroom" })).sessions.map((hit) => hit.sessionId)).toEqual([session.id])
+  })
+
+  it("follows edits of message content", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    const { message } = await appendMessage(userId, session.id, { role: "ai", content: "The capital is Canberra" })
+
+    await database.update(messages).set({ content: "The capital is Wellington" }).where(eq(messages.id, message.id))
+
+    expect((await searchSessions(userId, { q: "canberra" })).messages).toEqual([])
+    expect(ids((await searchSessions(userId, { q: "wellington" })).messages)).toEqual([message.id])
+  })
+
+  it("forgets deleted sessions and their messages", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId, { title: "Saxophone lessons" })
+    await appendMessage(userId, session.id, { role: "user", content: "Saxophone reeds are expensive" })
+
+    await deleteSession(userId, session.id)
+
+    expect(await searchSessions(userId, { q: "saxophone" })).toEqual({ messages: [], sessions: [] })
+  })
+
+  it("keys each row on its own search id, not on the rowid", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId, { title: "Origami" })
+    const first = await appendMessage(userId, session.id, { role: "user", content: "Folding a paper crane" })
+    const second = await appendMessage(userId, session.id, { role: "ai", content: "Start with a square base" })
+
+    const rows = await database.select({ id: messages.id, searchId: messages.searchId }).from(messages).where(eq(messages.sessionId, session.id))
+    const [row] = await database.select({ searchId: sessions.searchId }).from(sessions).where(eq(sessions.id, session.id))
+
+    expect(row.searchId).not.toBeNull()
+    expect(new Set(rows.map((item) => item.searchId)).size).toBe(2)
+    expect(ids((await searchSessions(userId, { q: "crane" })).messages)).toEqual([first.message.id])
+    expect(ids((await searchSessions(userId, { q: "square" })).messages)).toEqual([second.message.id])
+  })
+
+  it("filters by role and date, and only searches the account's own sessions", async () => {
+    const [userId, otherId] = await Promise.all([createUser(), createUser()])
+    const session = await createSession(userId)
+    const question = await appendMessage(userId, session.id, { role: "user", content: "Is the marathon in April?" })
+    const answer = await appendMessage(userId, session.id, { role: "ai", content: "Yes, the marathon is in April" })
+
+    expect(ids((await searchSessions(userId, { q: "marathon", role: "ai" })).messages)).toEqual([answer.message.id])
+    expect(ids((await searchSessions(userId, { q: "marathon", role: "user" })).messages)).toEqual([question.message.id])
+    expect((await searchSessions(userId, { q: "marathon", to: new Date(question.message.createdAt.getTime() - 1) })).messages).toEqual([])
+    expect((await searchSessions(otherId, { q: "marathon" })).messages).toEqual([])
+  })
+})
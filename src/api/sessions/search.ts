@@ -0,0 +1,89 @@
+import { sql } from "drizzle-orm"
+import { database } from "../database"
+import type { Message } from "../database/schema"
+
+export interface SearchFilter {
+  q: string
+  role?: Message["role"]
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+// Matched terms are wrapped in these control characters, the client turns them into highlights.
+export const HIGHLIGHT_START = "\u0002"
+export const HIGHLIGHT_END = "\u0003"
+
+const SNIPPET_TOKENS = 16
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix so results
+ * show up while typing. Quoting each word keeps FTS5 operators in the input inert.
+ */
+export const toMatchQuery = (q: string) =>
+  (q.match(/[\p{L}\p{N}_]+/gu) ?? []).map((word) => `"${word}"*`).join(" ")
+
+interface MessageHitRow {
+  messageId: string
+  sessionId: string
+  sessionTitle: string
+  role: Message["role"]
+  createdAt: number
+  snippet: string
+}
+
+interface SessionHitRow {
+  sessionId: string
+  title: string
+  updatedAt: number
+}
+
+/**
+ * Searches the user's messages and session titles, best matches first.
+ * Titles have no role, so they are left out when filtering by role.
+ */
+export async function searchSessions(userId: string, { q, role, from, to, limit = 20, offset = 0 }: SearchFilter) {
+  const match = toMatchQuery(q)
+  if (!match) return { messages: [], sessions: [] }
+
+  const messageHits = await database.all<MessageHitRow>(sql`
+    SELECT
+      m.id AS messageId,
+      m.session_id AS sessionId,
+      s.title AS sessionTitle,
+      m.role AS role,
+      m.created_at AS createdAt,
+      snippet(messages_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM messages_fts
+    JOIN messages m ON m.search_id = messages_fts.rowid
+    JOIN sessions s ON s.id = m.session_id
+    WHERE messages_fts MATCH ${match}
+      AND m.user_id = ${userId}
+      ${role ? sql`AND m.role = ${role}` : sql``}
+      ${from ? sql`AND m.created_at >= ${from.getTime()}` : sql``}
+      ${to ? sql`AND m.created_at <= ${to.getTime()}` : sql``}
+    ORDER BY messages_fts.rank
+    LIMIT ${limit} OFFSET ${offset}
+  `)
+
+  const sessionHits = role || offset > 0 ? [] : await database.all<SessionHitRow>(sql`
+    SELECT
+      s.id AS sessionId,
+      highlight(sessions_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS title,
+      s.updated_at AS updatedAt
+    FROM sessions_fts
+    JOIN sessions s ON s.search_id = sessions_fts.rowid
+    WHERE sessions_fts MATCH ${match}
+      AND s.user_id = ${userId}
+      ${from ? sql`AND s.updated_at >= ${from.getTime()}` : sql``}
+      ${to ? sql`AND s.updated_at <= ${to.getTime()}` : sql``}
+    ORDER BY sessions_fts.rank
+    LIMIT 5
+  `)
+
+  return {
+    messages: messageHits.map((hit) => ({ ...hit, createdAt: new Date(hit.createdAt) })),
+    sessions: sessionHits.map((hit) => ({ ...hit, updatedAt: new Date(hit.updatedAt) })),
+  }
+}
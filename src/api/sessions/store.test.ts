@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { createUser } from "../testing/users"
+import { appendMessage, createSession, getSession, listSessions, selectBranch, toPreview, updateSession } from "./store"
+
+describe("selectBranch", () => {
+  it("switches to the newest reply of the chosen branch without moving the session", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    const { message: question } = await appendMessage(userId, session.id, { role: "user", content: "Hi" })
+    const { message: first } = await appendMessage(userId, session.id, { role: "ai", content: "Hello", parentId: question.id })
+    await appendMessage(userId, session.id, { role: "ai", content: "Hey there", parentId: question.id })
+    const before = (await getSession(userId, session.id))!
+
+    const selected = await selectBranch(before, first.id)
+
+    expect(selected?.messages.map((message) => message.id)).toEqual([question.id, first.id])
+    expect(selected?.session).toMatchObject({ leafId: first.id, preview: "Hello", updatedAt: before.updatedAt })
+  })
+
+  it("returns null for a message of another session", async () => {
+    const userId = await createUser()
+    const [session, other] = await Promise.all([createSession(userId), createSession(userId)])
+    const { message } = await appendMessage(userId, other.id, { role: "user", content: "Hi" })
+
+    expect(await selectBranch(session, message.id)).toBeNull()
+  })
+})
+
+describe("toPreview", () => {
+  it("flattens Markdown to one line of text", () => {
+    expect(toPreview("## Plan\n\n- **Book** the [flight](https://example.com)\n```js\nbook()\n```")).toBe("Plan Book the flight book()")
+  })
+
+  it("cuts long text off with an ellipsis", () => {
+    const preview = toPreview("word ".repeat(100))
+
+    expect(preview).toHaveLength(120)
+    expect(preview.endsWith("…")).toBe(true)
+  })
+})
+
+describe("listSessions", () => {
+  it("lists pinned and archived sessions apart from the recent ones", async () => {
+    const userId = await createUser()
+    const [recent, pinned, archived] = [await createSession(userId), await createSession(userId), await createSession(userId)]
+    await updateSession(userId, pinned.id, { pinned: true })
+    await updateSession(userId, archived.id, { pinned: true })
+    // Archiving unpins
+    await updateSession(userId, archived.id, { archived: true })
+
+    const ids = async (view: "recent" | "pinned" | "archived") => (await listSessions(userId, { view })).sessions.map((session) => session.id)
+
+    expect(await ids("recent")).toEqual([recent.id])
+    expect(await ids("pinned")).toEqual([pinned.id])
+    expect(await ids("archived")).toEqual([archived.id])
+    expect((await getSession(userId, archived.id))?.pinnedAt).toBeNull()
+  })
+
+  it("pages through sessions with the cursor", async () => {
+    const userId = await createUser()
+    const created = [await createSession(userId), await createSession(userId), await createSession(userId)]
+
+    const first = await listSessions(userId, { limit: 2 })
+    const second = await listSessions(userId, { limit: 2, cursor: first.nextCursor! })
+
+    expect(first.sessions).toHaveLength(2)
+    // Sessions created in the same millisecond are ordered by id
+    expect([...first.sessions, ...second.sessions].map((session) => session.id).sort()).toEqual(created.map((session) => session.id).sort())
+    expect(second.nextCursor).toBeNull()
+  })
+})
@@ -0,0 +1,248 @@
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt, or } from "drizzle-orm"
+import { database } from "../database"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { memorySources, messages, sessions, type Message, type MessageContext, type Session } from "../database/schema"
+
+export interface SessionPage {
+  limit?: number
+  cursor?: string
+  view?: SessionView
+}
+
+// "recent" leaves out pinned and archived sessions, which the sidebar lists separately
+export type SessionView = "recent" | "pinned" | "archived"
+
+// Overrides of the account's chat settings, see src/api/settings/chat.ts; null clears one
+export interface SessionChatSettings {
+  personaId?: string | null
+  model?: string | null
+  temperature?: number | null
+  systemPrompt?: string | null
+}
+
+export interface SessionInput extends SessionChatSettings {
+  title?: string
+  incognito?: boolean
+}
+
+export interface SessionPatch extends SessionChatSettings {
+  title?: string
+  pinned?: boolean
+  archived?: boolean
+  incognito?: boolean
+}
+
+export interface MessageInput {
+  id?: string
+  role: Message["role"]
+  content: string
+  context?: MessageContext
+  parts?: Message["parts"]
+  remember?: boolean
+  // The model that wrote an AI message
+  model?: string
+  // Defaults to the session's active leaf, i.e. continuing the conversation
+  parentId?: string | null
+}
+
+const PREVIEW_LENGTH = 120
+
+// Cursors point at the last session of a page as "<updatedAt ms>:<id>".
+const encodeCursor = (session: Session) => `${session.updatedAt.getTime()}:${session.id}`
+
+const decodeCursor = (cursor: string) => {
+  const [time, ...id] = cursor.split(":")
+  return { updatedAt: new Date(Number(time)), id: id.join(":") }
+}
+
+const VIEWS = {
+  recent: and(isNull(sessions.pinnedAt), isNull(sessions.archivedAt)),
+  pinned: and(isNotNull(sessions.pinnedAt), isNull(sessions.archivedAt)),
+  archived: isNotNull(sessions.archivedAt),
+}
+
+// Markdown syntax is only noise in a one-line preview
+const plainText = (content: string) =>
+  content
+    .replace(/^\s*(```|~~~).*$/gm, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/\*\*|__|~~|`|\$\$?/g, "")
+
+export const toPreview = (content: string) => {
+  const flat = plainText(content).replace(/\s+/g, " ").trim()
+  return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH - 1)}…` : flat
+}
+
+export async function createSession(userId: string, input: SessionInput = {}) {
+  const [session] = await database.insert(sessions).values({ userId, ...input }).returning()
+  return session
+}
+
+export async function listSessions(userId: string, { limit = 20, cursor, view = "recent" }: SessionPage = {}) {
+  const after = cursor ? decodeCursor(cursor) : undefined
+  const rows = await database
+    .select()
+    .from(sessions)
+    .where(and(
+      eq(sessions.userId, userId),
+      VIEWS[view],
+      after ? or(
+        lt(sessions.updatedAt, after.updatedAt),
+        and(eq(sessions.updatedAt, after.updatedAt), lt(sessions.id, after.id)),
+      ) : undefined,
+    ))
+    .orderBy(desc(sessions.updatedAt), desc(sessions.id))
+    .limit(limit + 1)
+  const page = rows.slice(0, limit)
+  return {
+    sessions: page,
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  }
+}
+
+export async function getSession(userId: string, id: string) {
+  return (await database.query.sessions.findFirst({ where: and(eq(sessions.id, id), eq(sessions.userId, userId)) })) ?? null
+}
+
+// A flag that is switched on keeps the time it was first switched on
+const stamp = (flag: boolean | undefined, current: Date | null) => (flag === undefined ? undefined : flag ? current ?? new Date() : null)
+
+/**
+ * Renames, pins, archives, switches incognito on or off or changes the chat settings of a
+ * session. Archiving unpins it and pinning unarchives it. None of this counts as activity, so
+ * the session keeps its place in the list. Incognito and chat settings only apply to messages
+ * sent from then on.
+ */
+export async function updateSession(userId: string, id: string, { title, pinned, archived, incognito, ...chat }: SessionPatch) {
+  const session = await getSession(userId, id)
+  if (!session) return null
+  const [updated] = await database
+    .update(sessions)
+    .set({
+      title,
+      incognito,
+      ...chat,
+      pinnedAt: archived ? null : stamp(pinned, session.pinnedAt),
+      archivedAt: pinned && !archived ? null : stamp(archived, session.archivedAt),
+      updatedAt: session.updatedAt,
+    })
+    .where(eq(sessions.id, id))
+    .returning()
+  return updated
+}
+
+/**
+ * Deletes a session with its messages and their provenance, and returns the messages
+ * so their embeddings can be removed too. Memory learned from it stays.
+ * Returns null when the session does not belong to `userId`.
+ */
+export async function deleteSession(userId: string, id: string) {
+  const session = await getSession(userId, id)
+  if (!session) return null
+  const removed = await listMessages(id)
+  await database.delete(sessions).where(eq(sessions.id, id))
+  return removed
+}
+
+// Every message of the session, across all branches, oldest first.
+export async function listMessages(sessionId: string) {
+  return database
+    .select()
+    .from(messages)
+    .where(eq(messages.sessionId, sessionId))
+    .orderBy(asc(messages.createdAt))
+}
+
+// The branch ending in `leafId`, root first.
+export const branchTo = <T extends Pick<Message, "id" | "parentId">>(all: T[], leafId: string | null) => {
+  const byId = new Map(all.map((message) => [message.id, message]))
+  const branch: T[] = []
+  for (let current = leafId ? byId.get(leafId) : undefined; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    branch.push(current)
+  }
+  return branch.reverse()
+}
+
+// Switching to a message shows its most recent continuation.
+const newestLeaf = (all: Message[], message: Message): Message => {
+  const children = all.filter((item) => item.parentId === message.id)
+  return children.length === 0 ? message : newestLeaf(all, children[children.length - 1])
+}
+
+// Adds the ids of each message's siblings, itself included, for "< 2/3 >" navigation.
+const withSiblings = (all: Message[], branch: Message[]) =>
+  branch.map((message) => ({
+    ...message,
+    siblingIds: all.filter((item) => item.parentId === message.parentId).map((item) => item.id),
+  }))
+
+export async function activeBranch(session: Session) {
+  const all = await listMessages(session.id)
+  return withSiblings(all, branchTo(all, session.leafId))
+}
+
+/**
+ * Flags the provenance of memory learned from messages off the active branch, and clears
+ * the flag for messages on it. Switching back to a branch therefore restores its memory.
+ */
+async function markAbandonedSources(sessionId: string, activeIds: string[]) {
+  await database.batch([
+    database.update(memorySources).set({ abandoned: true }).where(eq(memorySources.sessionId, sessionId)),
+    ...slices(activeIds, MAX_PARAMS).map((batch) =>
+      database.update(memorySources).set({ abandoned: false }).where(and(eq(memorySources.sessionId, sessionId), inArray(memorySources.messageId, batch)))
+    ),
+  ])
+}
+
+// The session must already be known to belong to `userId`.
+export async function appendMessage(userId: string, sessionId: string, input: MessageInput) {
+  const current = await database.query.sessions.findFirst({ where: eq(sessions.id, sessionId), columns: { leafId: true } })
+  const leafId = current?.leafId ?? null
+  const parentId = input.parentId === undefined ? leafId : input.parentId
+  const [message] = await database.insert(messages).values({ userId, sessionId, ...input, parentId }).returning()
+  const [session] = await database
+    .update(sessions)
+    // A reply that only called tools keeps the previous preview
+    .set({ preview: toPreview(input.content) || undefined, leafId: message.id, updatedAt: message.createdAt })
+    .where(eq(sessions.id, sessionId))
+    .returning()
+  // Anything but a continuation of the active branch leaves the previous branch behind.
+  if (parentId !== leafId) {
+    await markAbandonedSources(sessionId, branchTo(await listMessages(sessionId), message.id).map((item) => item.id))
+  }
+  return { message, session }
+}
+
+/**
+ * Switches remembering a message on or off, along with the replies to it when it is a user
+ * message. Returns the changed messages, or null when the message is not part of the session.
+ */
+export async function setRemember(sessionId: string, messageId: string, remember: boolean) {
+  const all = await listMessages(sessionId)
+  const message = all.find((item) => item.id === messageId)
+  if (!message) return null
+  const replies = message.role === "user" ? all.filter((item) => item.parentId === message.id && item.role === "ai") : []
+  const ids = [message.id, ...replies.map((item) => item.id)]
+  return database.update(messages).set({ remember }).where(and(eq(messages.sessionId, sessionId), inArray(messages.id, ids))).returning()
+}
+
+/**
+ * Makes the branch through `messageId` the active one, down to its most recent reply.
+ * Returns null when the message is not part of the session.
+ */
+export async function selectBranch(session: Session, messageId: string) {
+  const all = await listMessages(session.id)
+  const message = all.find((item) => item.id === messageId)
+  if (!message) return null
+  const leaf = newestLeaf(all, message)
+  const branch = branchTo(all, leaf.id)
+  const [updated] = await database
+    .update(sessions)
+    // Switching branches is not activity, the session keeps its place in the sidebar
+    .set({ leafId: leaf.id, preview: toPreview(leaf.content) || undefined, updatedAt: session.updatedAt })
+    .where(eq(sessions.id, session.id))
+    .returning()
+  await markAbandonedSources(session.id, branch.map((item) => item.id))
+  return { session: updated, messages: withSiblings(all, branch) }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_TITLE } from "../database/schema"
+import { createUser } from "../testing/users"
+import { appendMessage, createSession, getSession, updateSession } from "./store"
+import { generateTitle } from "./title"
+
+// The mock gateway titles a conversation with the first words of its opening message
+describe("generateTitle", () => {
+  it("names a session after its first exchange without moving it in the list", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    await appendMessage(userId, session.id, { role: "user", content: "planning a trip to Lisbon in May" })
+    await appendMessage(userId, session.id, { role: "ai", content: "Sounds great!" })
+    const before = (await getSession(userId, session.id))!
+
+    const titled = await generateTitle(before)
+
+    expect(titled).toMatchObject({ title: "Planning A Trip To Lisbon", updatedAt: before.updatedAt })
+  })
+
+  it("waits for the first reply", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    await appendMessage(userId, session.id, { role: "user", content: "planning a trip" })
+
+    expect((await generateTitle((await getSession(userId, session.id))!)).title).toBe(DEFAULT_TITLE)
+  })
+
+  it("keeps a title the user gave, also when it arrives while the title is generated", async () => {
+    const userId = await createUser()
+    const session = await createSession(userId)
+    await appendMessage(userId, session.id, { role: "user", content: "planning a trip" })
+    await appendMessage(userId, session.id, { role: "ai", content: "Where to?" })
+    const stale = (await getSession(userId, session.id))!
+    await updateSession(userId, session.id, { title: "Holidays" })
+
+    expect((await generateTitle(stale)).title).toBe("Holidays")
+    expect((await getSession(userId, session.id))?.title).toBe("Holidays")
+  })
+})
@@ -0,0 +1,47 @@
+import dedent from "dedent"
+import { generateText } from "ai"
+import { and, eq } from "drizzle-orm"
+import { EXTRACTION_MODEL, openai } from "../agent/gateway"
+import { database } from "../database"
+import { DEFAULT_TITLE, sessions, type Session } from "../database/schema"
+import { transcript } from "../memory/extract"
+import { activeBranch, getSession } from "./store"
+
+const INSTRUCTIONS = dedent`
+  Write a short title for this conversation, as it would appear in a list of chats.
+  Use at most six words in the language of the conversation, without quotes or trailing punctuation.
+`
+
+const MAX_TITLE_LENGTH = 80
+
+const cleanTitle = (text: string) =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/^(title:\s*)?["'“”\s]+|["'“”.!\s]+$/gi, "")
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim()
+
+/**
+ * Names a session after its first exchange. Sessions that already have a title, generated
+ * or given by the user, and sessions without a reply yet are returned unchanged.
+ */
+export async function generateTitle(session: Session) {
+  if (session.title !== DEFAULT_TITLE) return session
+  const exchange = (await activeBranch(session)).slice(0, 2)
+  if (!exchange.some((message) => message.role === "ai")) return session
+
+  const { text } = await generateText({
+    model: openai.chat(EXTRACTION_MODEL),
+    system: INSTRUCTIONS,
+    prompt: transcript(exchange),
+  })
+  const title = cleanTitle(text)
+  if (!title) return session
+  // A rename that happened while the model was busy wins
+  const [updated] = await database
+    .update(sessions)
+    .set({ title, updatedAt: session.updatedAt })
+    .where(and(eq(sessions.id, session.id), eq(sessions.title, DEFAULT_TITLE)))
+    .returning()
+  return updated ?? (await getSession(session.userId, session.id)) ?? session
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_CHAT_MODEL } from "../agent/models"
+import { createSession } from "../sessions/store"
+import { createUser } from "../testing/users"
+import { chatSettings, chatSettingsSchema } from "./chat"
+import { createPersona, deletePersona } from "./personas"
+import { updateSettings } from "./store"
+
+describe("chatSettings", () => {
+  it("falls back to the app's defaults", async () => {
+    const userId = await createUser()
+
+    expect(await chatSettings(await createSession(userId))).toEqual({ model: DEFAULT_CHAT_MODEL, temperature: null, systemPrompt: "" })
+  })
+
+  it("takes each setting from the session, then its persona, then the account", async () => {
+    const userId = await createUser()
+    await updateSettings(userId, { model: "openai/gpt-5-mini", temperature: 0.2, systemPrompt: "Be brief." })
+    const persona = await createPersona(userId, { name: "Pirate", systemPrompt: "Talk like a pirate.", temperature: 0.9 })
+
+    const fromAccount = await chatSettings(await createSession(userId))
+    const fromPersona = await chatSettings(await createSession(userId, { personaId: persona.id }))
+    const fromSession = await chatSettings(await createSession(userId, { personaId: persona.id, model: "anthropic/claude-sonnet-4.5", temperature: 0 }))
+
+    expect(fromAccount).toEqual({ model: "openai/gpt-5-mini", temperature: 0.2, systemPrompt: "Be brief." })
+    expect(fromPersona).toEqual({ model: "openai/gpt-5-mini", temperature: 0.9, systemPrompt: "Talk like a pirate." })
+    // A temperature of 0 is a choice, not a missing one
+    expect(fromSession).toEqual({ model: "anthropic/claude-sonnet-4.5", temperature: 0, systemPrompt: "Talk like a pirate." })
+  })
+
+  it("lets a persona without a prompt stand in for the account's", async () => {
+    const userId = await createUser()
+    await updateSettings(userId, { systemPrompt: "Be brief." })
+    const persona = await createPersona(userId, { name: "Plain" })
+
+    expect((await chatSettings(await createSession(userId, { personaId: persona.id }))).systemPrompt).toBe("")
+  })
+
+  it("skips models that are no longer offered and personas that are gone", async () => {
+    const userId = await createUser()
+    await updateSettings(userId, { model: "anthropic/claude-opus-4.5", systemPrompt: "Be brief." })
+    const persona = await createPersona(userId, { name: "Gone", systemPrompt: "Talk like a pirate." })
+    const session = await createSession(userId, { personaId: persona.id, model: "openai/gpt-3.5-turbo" })
+    await deletePersona(userId, persona.id)
+
+    expect(await chatSettings({ ...session, personaId: persona.id })).toEqual({ model: "anthropic/claude-opus-4.5", temperature: null, systemPrompt: "Be brief." })
+  })
+
+  it("ignores a persona of another account", async () => {
+    const [alice, mallory] = await Promise.all([createUser(), createUser()])
+    const persona = await createPersona(alice, { name: "Pirate", systemPrompt: "Talk like a pirate." })
+    const session = await createSession(mallory)
+
+    expect((await chatSettings({ ...session, personaId: persona.id })).systemPrompt).toBe("")
+  })
+})
+
+describe("chatSettingsSchema", () => {
+  it("treats an empty system prompt as none and refuses unknown models", () => {
+    expect(chatSettingsSchema.parse({ model: null, temperature: null, systemPrompt: "  " })).toEqual({ model: null, temperature: null, systemPrompt: null })
+    expect(chatSettingsSchema.safeParse({ model: "openai/gpt-3.5-turbo", temperature: null, systemPrompt: null }).success).toBe(false)
+  })
+})
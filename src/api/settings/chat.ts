@@ -0,0 +1,42 @@
+import z from "zod"
+import { CHAT_MODEL_IDS, DEFAULT_CHAT_MODEL, isChatModel, SYSTEM_PROMPT_LENGTH, TEMPERATURE_RANGE, type ChatModel } from "../agent/models"
+import type { Session } from "../database/schema"
+import { getPersona } from "./personas"
+import { getSettings } from "./store"
+
+/**
+ * The chat settings an account, persona or session can set. Null clears a setting, so the
+ * next level's applies; an empty system prompt counts as none.
+ */
+export const chatSettingsSchema = z.object({
+  model: z.enum(CHAT_MODEL_IDS).nullable(),
+  temperature: z.number().min(TEMPERATURE_RANGE.min).max(TEMPERATURE_RANGE.max).nullable(),
+  systemPrompt: z.string().trim().max(SYSTEM_PROMPT_LENGTH).nullable().transform((prompt) => prompt || null),
+})
+
+// What a chat is answered with
+export interface ChatSettings {
+  model: ChatModel
+  // Null leaves it to the model's default
+  temperature: number | null
+  // Added to the app's instructions, empty for none
+  systemPrompt: string
+}
+
+/**
+ * The settings of a session's next reply. Each one comes from the session when it overrides
+ * it, then from its persona, then from the account, then from the app. A persona's prompt
+ * stands in for the account's, even when it is empty. A model that is no longer offered is
+ * skipped like an unset one.
+ */
+export async function chatSettings(session: Session): Promise<ChatSettings> {
+  const [settings, persona] = await Promise.all([
+    getSettings(session.userId),
+    session.personaId ? getPersona(session.userId, session.personaId) : null,
+  ])
+  return {
+    model: [session.model, persona?.model, settings.model].find(isChatModel) ?? DEFAULT_CHAT_MODEL,
+    temperature: session.temperature ?? persona?.temperature ?? settings.temperature ?? null,
+    systemPrompt: session.systemPrompt ?? (persona ? persona.systemPrompt : settings.systemPrompt) ?? "",
+  }
+}
@@ -0,0 +1,41 @@
+import { and, asc, eq } from "drizzle-orm"
+import { database } from "../database"
+import { personas } from "../database/schema"
+
+export interface PersonaInput {
+  name: string
+  systemPrompt?: string
+  model?: string | null
+  temperature?: number | null
+}
+
+export type PersonaPatch = Partial<PersonaInput>
+
+export async function listPersonas(userId: string) {
+  return database.select().from(personas).where(eq(personas.userId, userId)).orderBy(asc(personas.createdAt))
+}
+
+export async function getPersona(userId: string, id: string) {
+  return (await database.query.personas.findFirst({ where: and(eq(personas.id, id), eq(personas.userId, userId)) })) ?? null
+}
+
+export async function createPersona(userId: string, input: PersonaInput) {
+  const [persona] = await database.insert(personas).values({ userId, ...input }).returning()
+  return persona
+}
+
+// Returns null when the persona does not belong to `userId`.
+export async function updatePersona(userId: string, id: string, patch: PersonaPatch) {
+  const [persona] = await database
+    .update(personas)
+    .set(patch)
+    .where(and(eq(personas.id, id), eq(personas.userId, userId)))
+    .returning()
+  return persona ?? null
+}
+
+// Sessions that used the persona fall back to the account's settings.
+export async function deletePersona(userId: string, id: string) {
+  const removed = await database.delete(personas).where(and(eq(personas.id, id), eq(personas.userId, userId))).returning({ id: personas.id })
+  return removed.length > 0
+}
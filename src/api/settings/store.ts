@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm"
+import { database } from "../database"
+import { REDACTION_CATEGORIES, userSettings, type RedactionCategory } from "../database/schema"
+
+export interface SettingsPatch {
+  redaction?: RedactionCategory[]
+  // Null goes back to the app's default
+  model?: string | null
+  temperature?: number | null
+  systemPrompt?: string | null
+}
+
+// What an account uses until it changes something
+const defaults = (userId: string) => ({
+  userId,
+  redaction: [...REDACTION_CATEGORIES],
+  model: null,
+  temperature: null,
+  systemPrompt: null,
+  updatedAt: new Date(0),
+})
+
+export async function getSettings(userId: string) {
+  return (await database.query.userSettings.findFirst({ where: eq(userSettings.userId, userId) })) ?? defaults(userId)
+}
+
+export async function updateSettings(userId: string, patch: SettingsPatch) {
+  const [settings] = await database
+    .insert(userSettings)
+    .values({ ...defaults(userId), ...patch, updatedAt: new Date() })
+    .onConflictDoUpdate({ target: userSettings.userId, set: { ...patch, updatedAt: new Date() } })
+    .returning()
+  return settings
+}
@@ -0,0 +1,33 @@
+import type { Document, Message, Session } from "../database/schema"
+
+/**
+ * What the open tabs of a user are told about. Each event carries the new state rather than
+ * a diff, so applying one twice, e.g. in the tab that made the change, does no harm.
+ */
+export type SyncEvent =
+  // Created, renamed, pinned, archived or switched to another branch
+  | { type: "session.updated"; session: Session }
+  | { type: "session.deleted"; sessionId: string }
+  // Along with the session, whose preview and active branch it changed
+  | { type: "message.created"; message: Message; session: Session }
+  // Switched to be remembered or not
+  | { type: "message.updated"; message: Message }
+  // The text of a reply while it is generated; the saved reply follows as "message.created"
+  | { type: "message.streaming"; sessionId: string; parentId: string; messageId: string; text: string }
+  // Anything that changed nodes or edges; clients load the graph again
+  | { type: "memory.changed" }
+  | { type: "document.updated"; document: Document }
+  | { type: "document.deleted"; documentId: string }
+
+// Only of interest while a reply is generated, so they are neither numbered nor replayed
+export const TRANSIENT_EVENTS: ReadonlySet<SyncEvent["type"]> = new Set(["message.streaming"])
+
+/**
+ * What the WebSocket sends. Events have the id a reconnecting client resumes after (null for
+ * transient ones) and the `X-Client-Id` of the tab that caused them, if any. "sync.ready"
+ * follows the replay on connect; `resumed` is false when events were missed that are no longer
+ * kept, and the client has to load its state again.
+ */
+export type SyncMessage =
+  | (SyncEvent & { id: number | null; origin: string | null })
+  | { type: "sync.ready"; lastEventId: number; resumed: boolean }
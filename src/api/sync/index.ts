@@ -0,0 +1,31 @@
+import { env } from "cloudflare:workers"
+import type { Context } from "hono"
+import { createMiddleware } from "hono/factory"
+import { currentUserId } from "../middleware/authentication"
+import type { SyncEvent } from "./events"
+
+export type { SyncEvent, SyncMessage } from "./events"
+export { SyncRoom } from "./room"
+
+// Sent by the web app with every request, so a tab can tell its own changes from others'
+export const CLIENT_ID_HEADER = "X-Client-Id"
+
+export const syncRoom = (userId: string) => env.SYNC.get(env.SYNC.idFromName(userId))
+
+// Sync is best effort: a failed broadcast is logged and never fails the change itself.
+export const publish = (userId: string, event: SyncEvent, origin: string | null = null) =>
+  syncRoom(userId).publish(event, origin).catch((error) => console.error("Sync failed", event.type, error))
+
+// Removes the events that still carry what was deleted; like publishing, a failure is only logged
+export const scrubEvents = (userId: string, ids: string[]) =>
+  ids.length === 0 ? Promise.resolve() : syncRoom(userId).scrub(ids).catch((error) => console.error("Sync scrub failed", error))
+
+// Publishes after the response, on behalf of the tab that made the request
+export const publishFrom = (c: Context, event: SyncEvent) =>
+  c.executionCtx.waitUntil(publish(currentUserId(c), event, c.req.header(CLIENT_ID_HEADER) ?? null))
+
+// Announces "memory.changed" after every successful write to the routes it guards.
+export const publishMemoryChanges = createMiddleware(async (c, next) => {
+  await next()
+  if (c.req.method !== "GET" && c.res.ok) publishFrom(c, { type: "memory.changed" })
+})
@@ -0,0 +1,37 @@
+// A growing reply is published at most this often
+const RELAY_INTERVAL = 150
+
+/**
+ * Follows the SSE stream of a chat reply and hands on its text as it grows, so the user's
+ * other tabs can show the reply while it is generated. The whole text is passed each time
+ * rather than the new tokens, which lets a tab that opens mid-reply catch up.
+ */
+export async function relayReply(stream: ReadableStream<string>, send: (messageId: string, text: string) => Promise<unknown>) {
+  let buffer = ""
+  let messageId: string | null = null
+  let text = ""
+  let sent = ""
+  let sentAt = 0
+
+  const flush = async () => {
+    if (!messageId || text === sent) return
+    sent = text
+    sentAt = Date.now()
+    await send(messageId, text)
+  }
+
+  const reader = stream.getReader()
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    buffer += read.value
+    const events = buffer.split("\n\n")
+    buffer = events.pop() ?? ""
+    for (const event of events) {
+      if (!event.startsWith("data: ") || event === "data: [DONE]") continue
+      const part = JSON.parse(event.slice("data: ".length)) as { type: string; messageId?: string; delta?: string }
+      if (part.type === "start" && part.messageId) messageId = part.messageId
+      if (part.type === "text-delta") text += part.delta ?? ""
+    }
+    if (Date.now() - sentAt >= RELAY_INTERVAL) await flush()
+  }
+  await flush()
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { syncRoom, type SyncMessage } from "."
+
+type Ready = Extract<SyncMessage, { type: "sync.ready" }>
+
+// Opens a socket to a fresh room and collects what it is sent
+async function connect(room: ReturnType<typeof syncRoom>, after?: number) {
+  const response = await room.fetch(`http://sync/${after === undefined ? "" : `?after=${after}`}`, { headers: { Upgrade: "websocket" } })
+  const socket = response.webSocket!
+  const received: SyncMessage[] = []
+  const waiters: (() => void)[] = []
+  socket.addEventListener("message", (event) => {
+    received.push(JSON.parse(event.data as string))
+    waiters.splice(0).forEach((wake) => wake())
+  })
+  socket.accept()
+  const until = async (done: () => boolean) => {
+    while (!done()) await new Promise<void>((resolve) => waiters.push(resolve))
+  }
+  // Resolves with the first `count` messages once they have arrived
+  const next = async (count: number) => {
+    await until(() => received.length >= count)
+    return received.slice(0, count)
+  }
+  // The replay ends with "sync.ready"
+  await until(() => received.some((message) => message.type === "sync.ready"))
+  const ready = received.findIndex((message) => message.type === "sync.ready")
+  return { socket, next, replayed: received.slice(0, ready), ready: received[ready] as Ready }
+}
+
+const deleted = (sessionId: string) => ({ type: "session.deleted" as const, sessionId })
+
+describe("SyncRoom", () => {
+  it("broadcasts events to every socket, numbering all but the transient ones", async () => {
+    const room = syncRoom(crypto.randomUUID())
+    const [first, second] = [await connect(room), await connect(room)]
+
+    await room.publish(deleted("a"), "tab-1")
+    await room.publish({ type: "message.streaming", sessionId: "a", parentId: "p", messageId: "m", text: "Hel" }, null)
+
+    for (const tab of [first, second]) {
+      expect(await tab.next(3)).toMatchObject([
+        { type: "sync.ready", lastEventId: 0, resumed: false },
+        { type: "session.deleted", sessionId: "a", id: 1, origin: "tab-1" },
+        { type: "message.streaming", text: "Hel", id: null },
+      ])
+      tab.socket.close()
+    }
+  })
+
+  it("replays what a reconnecting tab missed", async () => {
+    const room = syncRoom(crypto.randomUUID())
+    for (const id of ["a", "b", "c"]) await room.publish(deleted(id), null)
+    await room.publish({ type: "message.streaming", sessionId: "c", parentId: "p", messageId: "m", text: "Hi" }, null)
+
+    const tab = await connect(room, 1)
+
+    expect(tab.replayed.map((message) => message.type === "session.deleted" && message.sessionId)).toEqual(["b", "c"])
+    expect(tab.ready).toEqual({ type: "sync.ready", lastEventId: 3, resumed: true })
+    tab.socket.close()
+  })
+
+  it("tells a tab that resumes from an unknown id to load its state again", async () => {
+    const room = syncRoom(crypto.randomUUID())
+    await room.publish(deleted("a"), null)
+
+    const fromTheFuture = await connect(room, 7)
+
+    expect(fromTheFuture.replayed).toEqual([])
+    expect(fromTheFuture.ready).toMatchObject({ lastEventId: 1, resumed: false })
+    fromTheFuture.socket.close()
+  })
+
+  it("scrubs every event up to the last one that mentions a deleted id", async () => {
+    const room = syncRoom(crypto.randomUUID())
+    for (const id of ["a", "secret", "b", "secret", "c"]) await room.publish(deleted(id), null)
+
+    await room.scrub(["secret"])
+    const resumed = await connect(room, 4)
+    const tooOld = await connect(room, 1)
+
+    expect(resumed.replayed.map((message) => message.type === "session.deleted" && message.sessionId)).toEqual(["c"])
+    expect(resumed.ready.resumed).toBe(true)
+    // Events 2 to 4 are gone, so the tab cannot tell what it missed
+    expect(tooOld.replayed).toEqual([])
+    expect(tooOld.ready).toMatchObject({ lastEventId: 5, resumed: false })
+    resumed.socket.close()
+    tooOld.socket.close()
+  })
+})
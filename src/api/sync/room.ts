@@ -0,0 +1,96 @@
+import { DurableObject } from "cloudflare:workers"
+import { MAX_PARAMS, slices } from "../database/batch"
+import { TRANSIENT_EVENTS, type SyncEvent, type SyncMessage } from "./events"
+
+// Events kept for reconnecting clients; one that missed more starts over
+const RETAINED_EVENTS = 500
+
+interface EventRow extends Record<string, SqlStorageValue> {
+  id: number
+  origin: string | null
+  data: string
+}
+
+/**
+ * The sync hub of one user. Every open tab holds a WebSocket to it, and the worker publishes
+ * events to it over RPC. Events are numbered and kept in the object's storage, so a tab
+ * that reconnects with `?after=<id>` receives what it missed. The sockets hibernate between
+ * events, heartbeats are answered without waking the object.
+ */
+export class SyncRoom extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env)
+    ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS events (id INTEGER PRIMARY KEY AUTOINCREMENT, origin TEXT, data TEXT NOT NULL)")
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"))
+  }
+
+  // The upgrade request, forwarded by src/api/routes/sync.ts
+  fetch(request: Request) {
+    const after = new URL(request.url).searchParams.get("after")
+    const { 0: client, 1: server } = new WebSocketPair()
+    this.ctx.acceptWebSocket(server)
+    this.replay(server, after === null ? null : Number(after))
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  publish(event: SyncEvent, origin: string | null) {
+    if (TRANSIENT_EVENTS.has(event.type)) {
+      this.broadcast({ ...event, id: null, origin })
+      return
+    }
+    const { id } = this.ctx.storage.sql
+      .exec<{ id: number }>("INSERT INTO events (origin, data) VALUES (?, ?) RETURNING id", origin, JSON.stringify(event))
+      .one()
+    this.ctx.storage.sql.exec("DELETE FROM events WHERE id <= ?", id - RETAINED_EVENTS)
+    this.broadcast({ ...event, id, origin })
+  }
+
+  /**
+   * Drops every kept event up to the last one that mentions one of the ids, e.g. of a deleted
+   * session or of purged memory, so what is gone cannot be replayed. Tabs that would have
+   * resumed from before that event find the gap and load their state again.
+   */
+  scrub(ids: string[]) {
+    let last = 0
+    for (const batch of slices(ids, MAX_PARAMS)) {
+      const mentions = batch.map(() => "instr(data, ?) > 0").join(" OR ")
+      const { id } = this.ctx.storage.sql.exec<{ id: number | null }>(`SELECT max(id) AS id FROM events WHERE ${mentions}`, ...batch).one()
+      last = Math.max(last, id ?? 0)
+    }
+    if (last > 0) this.ctx.storage.sql.exec("DELETE FROM events WHERE id <= ?", last)
+  }
+
+  webSocketClose(socket: WebSocket, code: number, reason: string) {
+    try {
+      socket.close(code, reason)
+    } catch {
+      // Already closed, or a code that cannot be echoed such as 1006
+    }
+  }
+
+  private replay(socket: WebSocket, after: number | null) {
+    const { first, last } = this.ctx.storage.sql
+      .exec<{ first: number | null; last: number | null }>("SELECT min(id) AS first, max(id) AS last FROM events")
+      .one()
+    const lastEventId = last ?? 0
+    // Ids are never reused, so a gap before the oldest kept event or an id from the future means missed events
+    const resumed = after !== null && Number.isInteger(after) && after <= lastEventId && after >= (first ?? 1) - 1
+    if (resumed) {
+      for (const row of this.ctx.storage.sql.exec<EventRow>("SELECT id, origin, data FROM events WHERE id > ? ORDER BY id", after)) {
+        socket.send(JSON.stringify({ ...JSON.parse(row.data), id: row.id, origin: row.origin }))
+      }
+    }
+    socket.send(JSON.stringify({ type: "sync.ready", lastEventId, resumed } satisfies SyncMessage))
+  }
+
+  private broadcast(message: SyncMessage) {
+    const data = JSON.stringify(message)
+    for (const socket of this.ctx.getWebSockets()) {
+      try {
+        socket.send(data)
+      } catch {
+        // The socket is closing; its client reconnects and resumes
+      }
+    }
+  }
+}
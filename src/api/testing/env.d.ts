@@ -0,0 +1,6 @@
+declare namespace Cloudflare {
+  interface Env {
+    // Set by vitest.config.ts, applied by ./setup.ts
+    TEST_MIGRATIONS: import("cloudflare:test").D1Migration[]
+  }
+}
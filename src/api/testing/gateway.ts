@@ -0,0 +1,17 @@
+import type { AddressInfo } from "node:net"
+import type { TestProject } from "vitest/node"
+import { mockGateway } from "../../../scripts/mock-gateway"
+
+declare module "vitest" {
+  interface ProvidedContext {
+    gatewayUrl: string
+  }
+}
+
+// Global setup: runs the mock gateway in Node for the whole run, vitest.config.ts points the worker at it
+export default async function setup(project: TestProject) {
+  await new Promise<void>((resolve) => mockGateway.listen(0, "127.0.0.1", resolve))
+  const { port } = mockGateway.address() as AddressInfo
+  project.provide("gatewayUrl", `http://127.0.0.1:${port}`)
+  return () => new Promise<void>((resolve) => mockGateway.close(() => resolve()))
+}
@@ -0,0 +1,55 @@
+import { createExecutionContext, waitOnExecutionContext } from "cloudflare:test"
+import { env } from "cloudflare:workers"
+import { database } from "../database"
+import { user } from "../database/schema"
+import worker from "../index"
+
+const BASE_URL = "http://localhost:5173"
+
+// An account row for tests that call the stores directly
+export async function createUser() {
+  const id = crypto.randomUUID()
+  await database.insert(user).values({ id, name: "Test", email: `${id}@example.com` })
+  return id
+}
+
+// Request options for a route that reads a JSON body
+export const json = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+})
+
+/**
+ * Sends a request through the whole worker. The body is read to its end first, so a streamed
+ * reply has finished and the work it left running (saving, extraction) is waited for too.
+ */
+export async function request(path: string, init: RequestInit = {}) {
+  const ctx = createExecutionContext()
+  const response = await worker.fetch(new Request(new URL(path, BASE_URL), init), env, ctx)
+  const read = response.body ? new Response(await response.arrayBuffer(), response) : response
+  await waitOnExecutionContext(ctx)
+  return read
+}
+
+/**
+ * Signs a new account up through Better Auth. Returns its id and a `request` that carries
+ * its session cookie.
+ */
+export async function signUp() {
+  const response = await request("/api/auth/sign-up/email", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Origin: BASE_URL },
+    body: JSON.stringify({ name: "Test", email: `${crypto.randomUUID()}@example.com`, password: "correct horse battery" }),
+  })
+  if (!response.ok) throw new Error(`Sign-up failed with ${response.status}`)
+  const { user } = await response.json<{ user: { id: string } }>()
+  const cookie = response.headers.getSetCookie().map((value) => value.split(";")[0]).join("; ")
+  return {
+    userId: user.id,
+    request: (path: string, init: RequestInit = {}) =>
+      request(path, { ...init, headers: { ...init.headers, Cookie: cookie, Origin: BASE_URL } }),
+  }
+}
+
+export type Account = Awaited<ReturnType<typeof signUp>>
@@ -1,12 +1,33 @@
 import { Route, Switch } from "wouter";
+import Billing from "./pages/billing";
 import Index from "./pages/index";
+import Memory from "./pages/memory";
+import SignIn from "./pages/sign-in";
+import SignUp from "./pages/sign-up";
 import { Provider } from "./components/provider";
+import { RequireAuth } from "./components/require-auth";
 
 function App() {
 	return (
 		<Provider>
 			<Switch>
-				<Route path="/" component={Index} />
+				<Route path="/sign-in" component={SignIn} />
+				<Route path="/sign-up" component={SignUp} />
+				<Route path="/">
+					<RequireAuth>
+						<Index />
+					</RequireAuth>
+				</Route>
+				<Route path="/memory">
+					<RequireAuth>
+						<Memory />
+					</RequireAuth>
+				</Route>
+				<Route path="/billing">
+					<RequireAuth>
+						<Billing />
+					</RequireAuth>
+				</Route>
 			</Switch>
 		</Provider>
 	);
@@ -0,0 +1,107 @@
+import type { ReactNode } from "react";
+
+interface AuthLayoutProps {
+  title: string;
+  subtitle: string;
+  children: ReactNode;
+  footer: ReactNode;
+}
+
+// A small constellation of memories that slowly link up behind the form.
+const NODES = [
+  { x: 18, y: 22, r: 5, delay: 0 },
+  { x: 42, y: 12, r: 3, delay: 0.6 },
+  { x: 70, y: 26, r: 6, delay: 1.2 },
+  { x: 86, y: 52, r: 4, delay: 0.3 },
+  { x: 62, y: 70, r: 5, delay: 0.9 },
+  { x: 30, y: 80, r: 4, delay: 1.5 },
+  { x: 12, y: 56, r: 3, delay: 1.8 },
+  { x: 48, y: 46, r: 7, delay: 0.4 },
+];
+
+const LINKS = [[0, 1], [1, 2], [2, 3], [3, 4], [4, 5], [5, 6], [6, 0], [7, 0], [7, 2], [7, 4], [7, 5], [1, 7]];
+
+export function AuthLayout({ title, subtitle, children, footer }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen w-screen flex bg-[#0a0a0f] font-sans text-white overflow-hidden">
+      <div className="hidden lg:flex relative flex-1 items-end p-12 border-r border-[#1f1f2e] bg-gradient-to-br from-[#12121a] via-[#0d0d14] to-[#0a0a0f]">
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid slice">
+          <defs>
+            <linearGradient id="auth-link" x1="0" x2="1">
+              <stop offset="0%" stopColor="#34d399" />
+              <stop offset="100%" stopColor="#22d3ee" />
+            </linearGradient>
+          </defs>
+          {LINKS.map(([from, to], index) => (
+            <line
+              key={index}
+              x1={NODES[from].x}
+              y1={NODES[from].y}
+              x2={NODES[to].x}
+              y2={NODES[to].y}
+              stroke="url(#auth-link)"
+              strokeWidth={0.25}
+              strokeDasharray="1.5 1"
+              className="animate-pulse"
+              style={{ animationDelay: `${index * 0.35}s`, animationDuration: "3.5s", opacity: 0.45 }}
+            />
+          ))}
+          {NODES.map((node, index) => (
+            <g key={index}>
+              <circle cx={node.x} cy={node.y} r={node.r * 0.9} fill="#34d399" opacity={0.08} className="animate-ping" style={{ animationDelay: `${node.delay}s`, animationDuration: "4s", transformOrigin: `${node.x}px ${node.y}px` }} />
+              <circle cx={node.x} cy={node.y} r={node.r * 0.35} fill={index % 2 ? "#22d3ee" : "#34d399"} />
+            </g>
+          ))}
+        </svg>
+        <div className="relative max-w-md">
+          <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-emerald-400 to-cyan-500 flex items-center justify-center shadow-lg shadow-emerald-500/20 mb-6">
+            <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+            </svg>
+          </div>
+          <h1 className="text-4xl font-bold tracking-tight leading-tight">
+            Conversations that <span className="bg-gradient-to-r from-emerald-400 to-cyan-400 bg-clip-text text-transparent">remember</span>.
+          </h1>
+          <p className="mt-4 text-[#8b8baa]">
+            NeuralChat turns every exchange into a private knowledge graph, so the next answer starts where the last one left off.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 lg:max-w-xl flex items-center justify-center p-6">
+        <div className="w-full max-w-sm">
+          <div className="lg:hidden flex items-center gap-3 mb-10">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-400 to-cyan-500 flex items-center justify-center shadow-lg shadow-emerald-500/20">
+              <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+            </div>
+            <span className="font-bold tracking-tight">NeuralChat</span>
+          </div>
+          <h2 className="text-2xl font-semibold tracking-tight">{title}</h2>
+          <p className="text-sm text-[#6b6b8a] mt-1 mb-8">{subtitle}</p>
+          {children}
+          <p className="mt-8 text-sm text-[#6b6b8a] text-center">{footer}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const fieldClass = `
+  w-full px-4 py-3 rounded-xl
+  bg-[#12121a] border border-[#252535]
+  text-white placeholder-[#4a4a6a] text-sm
+  focus:outline-none focus:border-emerald-500/50 focus:ring-2 focus:ring-emerald-500/10
+  transition-colors duration-200
+`;
+
+export const submitClass = `
+  w-full py-3 rounded-xl
+  bg-gradient-to-r from-emerald-500 to-cyan-500
+  text-white font-medium text-sm
+  shadow-lg shadow-emerald-500/20
+  hover:shadow-emerald-500/40 hover:brightness-110
+  disabled:opacity-60 disabled:cursor-not-allowed
+  transition-all duration-200
+`;
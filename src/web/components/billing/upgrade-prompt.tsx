@@ -0,0 +1,22 @@
+import { Link } from "wouter";
+
+interface UpgradePromptProps {
+  message: string;
+}
+
+export function UpgradePrompt({ message }: UpgradePromptProps) {
+  return (
+    <div className="flex items-center gap-3 rounded-2xl px-4 py-3 bg-amber-500/10 border border-amber-500/30 text-sm text-amber-200">
+      <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+      </svg>
+      <span>{message}. Upgrade to keep going.</span>
+      <Link
+        href="/billing"
+        className="px-2.5 py-1 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-100 text-xs font-medium transition-colors whitespace-nowrap"
+      >
+        View plans
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { FeatureBalance } from "../../lib/api";
+
+interface UsageBarProps {
+  balance: FeatureBalance;
+  className?: string;
+}
+
+// Share of the included usage that is used up, null for unlimited features.
+export const usedShare = (balance: FeatureBalance) =>
+  balance.limit === null ? null : balance.limit === 0 ? 1 : Math.min(balance.usage / balance.limit, 1);
+
+export const remainingOf = (balance: FeatureBalance) =>
+  balance.limit === null ? null : Math.max(balance.limit - balance.usage, 0);
+
+export function UsageBar({ balance, className = "h-1.5" }: UsageBarProps) {
+  const share = usedShare(balance);
+  const tone = share === null || share < 0.8 ? "bg-emerald-500" : share < 1 ? "bg-amber-400" : "bg-red-400";
+
+  return (
+    <div className={`w-full rounded-full bg-[#1f1f2e] overflow-hidden ${className}`}>
+      <div className={`h-full rounded-full transition-all ${tone}`} style={{ width: `${(share ?? 0) * 100}%` }} />
+    </div>
+  );
+}
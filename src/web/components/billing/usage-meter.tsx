@@ -0,0 +1,34 @@
+import { Link } from "wouter";
+import { fetchBilling, type FeatureBalance } from "../../lib/api";
+import { useResource } from "../../lib/resource";
+import { remainingOf, UsageBar } from "./usage-bar";
+
+interface UsageMeterProps {
+  // Changing it reloads the usage, e.g. after a reply was counted
+  refreshKey?: unknown;
+}
+
+const summarize = (messages: FeatureBalance) => {
+  const remaining = remainingOf(messages);
+  if (remaining === null) return "Unlimited messages";
+  if (remaining === 0 && messages.overage) return "Billed per message";
+  return `${remaining} message${remaining === 1 ? "" : "s"} left`;
+};
+
+export function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const { data: billing } = useResource(fetchBilling, [refreshKey]);
+
+  if (!billing) return null;
+  const plan = billing.plans.find((item) => item.id === billing.planId);
+  const messages = billing.features.find((feature) => feature.featureId === "messages");
+
+  return (
+    <Link href="/billing" className="block px-2 py-2 mb-1 rounded-xl hover:bg-[#1a1a28] transition-colors" title="Usage and plans">
+      <div className="flex items-center justify-between text-xs mb-1.5">
+        <span className="text-[#a0a0ba] font-medium">{plan?.name ?? billing.planId} Plan</span>
+        {messages && <span className="text-[#6b6b8a]">{summarize(messages)}</span>}
+      </div>
+      {messages && <UsageBar balance={messages} className="h-1" />}
+    </Link>
+  );
+}
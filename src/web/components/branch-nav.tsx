@@ -0,0 +1,40 @@
+interface BranchNavProps {
+  messageId: string;
+  siblingIds: string[];
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+}
+
+// "< 2/3 >" between the versions of an edited prompt or a regenerated reply.
+export function BranchNav({ messageId, siblingIds, disabled, onSelect }: BranchNavProps) {
+  const index = siblingIds.indexOf(messageId);
+  if (siblingIds.length < 2 || index === -1) return null;
+
+  const buttonClass = "p-0.5 rounded hover:bg-[#1a1a28] hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+  return (
+    <div className="flex items-center gap-0.5 text-[11px] text-[#6b6b8a] select-none">
+      <button
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className={buttonClass}
+        title="Previous version"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+      </button>
+      <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className={buttonClass}
+        title="Next version"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import type { Session, SessionPatch } from "../lib/api";
+import { effectiveSettings, modelName, type ChatOptions } from "../lib/chat-settings";
+import { ChatSettingsFields, type ChatSettingsDraft } from "./settings/chat-settings-fields";
+
+interface ChatSettingsMenuProps {
+  session: Session | undefined;
+  options: ChatOptions | undefined;
+  onChange: (patch: SessionPatch) => void;
+}
+
+const draftOf = (session: Session) =>
+  ({ model: session.model, temperature: session.temperature, systemPrompt: session.systemPrompt }) as ChatSettingsDraft;
+
+/**
+ * The model button of the chat header. It shows what the next reply is written with and opens
+ * the session's overrides: a persona, plus a model, temperature and prompt of its own. What the
+ * session leaves unset comes from the persona, then from the account's settings.
+ */
+export function ChatSettingsMenu({ session, options, onChange }: ChatSettingsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ChatSettingsDraft | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  // Edits start over from the session whenever the menu opens or another session is shown
+  useEffect(() => {
+    setDraft(session ? draftOf(session) : null);
+  }, [open, session?.id]);
+
+  if (!options) return null;
+  const effective = effectiveSettings(options, session);
+  // What the session's own settings fall back to
+  const inherited = effectiveSettings(options, session && { ...session, model: null, temperature: null, systemPrompt: null });
+  const from = inherited.persona ? inherited.persona.name : "chat default";
+  const overridden = !!session && (session.personaId !== null || session.model !== null || session.temperature !== null || session.systemPrompt !== null);
+
+  const apply = () => {
+    if (draft) onChange(draft);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        disabled={!session}
+        title="Model and instructions of this chat"
+        className="flex items-center gap-1.5 max-w-[12rem] px-2.5 py-1.5 rounded-lg text-xs text-[#8b8baa] hover:bg-[#1a1a28] hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      >
+        {overridden && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 shrink-0" title="This chat has settings of its own" />}
+        <span className="truncate">
+          {effective.persona ? `${effective.persona.name} · ` : ""}
+          {modelName(options, effective.model)}
+        </span>
+        <svg className={`w-3 h-3 shrink-0 transition-transform ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && session && draft && (
+        <div className="absolute right-0 top-full mt-2 w-80 z-30 rounded-xl border border-[#252535] bg-[#12121a] shadow-xl shadow-black/40 p-3 space-y-3 animate-message-in">
+          <div>
+            <label className="block text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-1.5" htmlFor="session-persona">
+              Persona
+            </label>
+            <select
+              id="session-persona"
+              value={inherited.persona?.id ?? ""}
+              onChange={(event) => onChange({ personaId: event.target.value || null })}
+              className="w-full bg-[#0d0d14] border border-[#252535] rounded-lg px-2.5 py-1.5 text-xs text-[#e0e0f0] outline-none focus:border-emerald-500/50"
+            >
+              <option value="">None</option>
+              {options.personas.map((persona) => (
+                <option key={persona.id} value={persona.id}>{persona.name}</option>
+              ))}
+            </select>
+            {options.personas.length === 0 && (
+              <p className="text-[10px] text-[#4a4a6a] mt-1">Add personas in the settings of the sidebar.</p>
+            )}
+          </div>
+          <ChatSettingsFields options={options} draft={draft} onChange={setDraft} inherited={{ ...inherited, from }} />
+          <div className="flex gap-2">
+            <button
+              onClick={apply}
+              className="flex-1 py-1.5 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 text-xs transition-colors"
+            >
+              Apply to this chat
+            </button>
+            {overridden && (
+              <button
+                onClick={() => {
+                  onChange({ personaId: null, model: null, temperature: null, systemPrompt: null });
+                  setOpen(false);
+                }}
+                className="px-3 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors"
+                title="Use the chat defaults again"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+          <p className="text-[10px] text-[#4a4a6a]">Applies from the next reply.</p>
+        </div>
+      )}
+    </div>
+  );
+}
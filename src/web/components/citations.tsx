@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import type { MessageContext } from "../lib/api";
+import { messageLink } from "../lib/chat";
+import { formatRelativeTime } from "../lib/time";
+
+interface CitationsProps {
+  context?: MessageContext;
+}
+
+const ChipIcon = () => (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+  </svg>
+);
+
+// Expands the "Source" badge of an AI message into what was actually in its context.
+export function Citations({ context }: CitationsProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!context || context.memory.length === 0) {
+    return (
+      <div className="mt-2 flex items-center gap-1.5">
+        <span
+          title={context ? `Answered from ${context.history} earlier message${context.history === 1 ? "" : "s"} in this chat` : undefined}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-[#1f1f2e] text-[#6b6b8a] border border-[#252535]"
+        >
+          <ChipIcon />
+          Source: Conversation only
+        </span>
+      </div>
+    );
+  }
+
+  const sessions = new Map(context.messages.map((message) => [message.messageId, message]));
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/20 transition-colors"
+      >
+        <ChipIcon />
+        Source: Graph Memory · {context.memory.length} citation{context.memory.length === 1 ? "" : "s"}
+        <svg className={`w-3 h-3 transition-transform duration-200 ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-3 rounded-xl bg-[#101018] border border-[#252535] p-3 text-xs animate-message-in">
+          <div>
+            <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-1.5">Memory</p>
+            <ol className="space-y-1.5">
+              {context.memory.map((item, index) => (
+                <li key={item.id} className="flex gap-2">
+                  <span className="text-[#4a4a6a] tabular-nums">[{index + 1}]</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[#c0c0d8]">
+                      <span className="text-[10px] text-[#6b6b8a] mr-1">{item.kind === "edge" ? "relation" : "node"}</span>
+                      {item.kind === "node" ? (
+                        <Link href={`/memory?node=${item.id}`} className="hover:text-white hover:underline underline-offset-2">{item.text}</Link>
+                      ) : item.text}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 mt-0.5 text-[10px] text-[#5a5a7a]">
+                      <span>relevance {Math.round(item.score * 100)}%</span>
+                      {item.sources.map((source) => (
+                        <Link
+                          key={source.messageId}
+                          href={messageLink(source.sessionId, source.messageId)}
+                          className="text-emerald-400/80 hover:text-emerald-300 underline-offset-2 hover:underline"
+                        >
+                          from “{sessions.get(source.messageId)?.sessionTitle ?? "a chat"}”
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {context.messages.length > 0 && (
+            <div>
+              <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-1.5">Learned from</p>
+              <ul className="space-y-1.5">
+                {context.messages.map((message) => (
+                  <li key={message.messageId}>
+                    <Link
+                      href={messageLink(message.sessionId, message.messageId)}
+                      className="block rounded-lg px-2 py-1.5 hover:bg-[#1a1a28] transition-colors"
+                    >
+                      <p className="text-[#a0a0ba] truncate">
+                        <span className="text-[#6b6b8a]">{message.role === "user" ? "You" : "Assistant"}:</span> {message.excerpt}
+                      </p>
+                      <p className="text-[10px] text-[#4a4a6a] mt-0.5">
+                        {message.sessionTitle} · {formatRelativeTime(message.createdAt)}
+                      </p>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-[10px] text-[#4a4a6a]">
+            Plus {context.history} earlier message{context.history === 1 ? "" : "s"} from this chat.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
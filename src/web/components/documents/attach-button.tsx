@@ -0,0 +1,42 @@
+import { useRef } from "react";
+import { uploadDocument, type MemoryDocument } from "../../lib/api";
+
+// Mirrors the formats the ingestion worker can read
+const ACCEPTED = ".txt,.md,.markdown,.html,.htm,.pdf";
+
+interface AttachButtonProps {
+  onUploaded: (document: MemoryDocument) => void;
+  onError: (error: Error) => void;
+  className?: string;
+}
+
+/**
+ * Uploads files into memory. Each one is reported as soon as it is stored; reading it happens in the background.
+ */
+export function AttachButton({ onUploaded, onError, className = "" }: AttachButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const upload = (files: FileList | null) => {
+    for (const file of files ?? []) {
+      uploadDocument(file)
+        .then(({ document }) => onUploaded(document))
+        .catch(onError);
+    }
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept={ACCEPTED} multiple hidden onChange={(event) => upload(event.target.files)} />
+      <button
+        onClick={() => inputRef.current?.click()}
+        title="Add documents to memory (text, Markdown, HTML or PDF)"
+        className={`p-2.5 rounded-xl shrink-0 text-[#6b6b8a] hover:bg-[#1f1f2e] hover:text-white transition-colors ${className}`}
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+        </svg>
+      </button>
+    </>
+  );
+}
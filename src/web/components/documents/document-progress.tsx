@@ -0,0 +1,79 @@
+import { useEffect, type ReactNode } from "react";
+import { fetchDocument, type MemoryDocument } from "../../lib/api";
+import { useSyncEvents, useSyncStatus } from "../../lib/sync";
+
+const POLL_INTERVAL = 1500;
+
+export const isIngesting = (document: MemoryDocument) => document.status === "queued" || document.status === "processing";
+
+const describe = (document: MemoryDocument) => {
+  switch (document.status) {
+    case "queued":
+      return "Waiting to be read…";
+    case "processing":
+      return `Reading ${document.processedChunks} of ${document.chunks} parts`;
+    case "ready":
+      return document.pages ? `Added to memory · ${document.pages} pages` : "Added to memory";
+    case "failed":
+      return document.error ?? "Could not be read";
+  }
+};
+
+/**
+ * Refreshes the documents that are still being ingested until they are ready or failed.
+ * Ingestion publishes its progress over the sync connection; while that is down, the
+ * documents are polled instead.
+ */
+export function useIngestionProgress(documents: MemoryDocument[], onUpdate: (document: MemoryDocument) => void) {
+  const pending = documents.filter(isIngesting).map((document) => document.id).join(",");
+  const connected = useSyncStatus() === "connected";
+
+  useSyncEvents((event) => {
+    if (event.type === "document.updated" && documents.some((document) => document.id === event.document.id)) onUpdate(event.document);
+  });
+
+  useEffect(() => {
+    if (!pending) return;
+    const refresh = () => {
+      for (const id of pending.split(",")) {
+        fetchDocument(id)
+          .then(({ document }) => onUpdate(document))
+          // The next poll or progress event tries again, and the row keeps its last known state meanwhile
+          .catch(() => undefined);
+      }
+    };
+    // Once right away for progress published before the documents were listed or while disconnected
+    refresh();
+    if (connected) return;
+    const timer = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(timer);
+    // Restarts only when the set of pending documents changes, `onUpdate` should not depend on render state
+  }, [pending, connected]);
+}
+
+interface DocumentProgressProps {
+  document: MemoryDocument;
+  // An action such as dismiss or delete, shown on the right
+  children?: ReactNode;
+}
+
+export function DocumentProgress({ document, children }: DocumentProgressProps) {
+  const share = document.status === "ready" ? 1 : document.chunks ? document.processedChunks / document.chunks : 0;
+  const tone = document.status === "failed" ? "bg-red-400" : document.status === "ready" ? "bg-emerald-500" : "bg-cyan-400";
+
+  return (
+    <div className="flex items-center gap-2.5 min-w-0 rounded-xl border border-[#252535] bg-[#12121a] px-3 py-2">
+      <svg className="w-4 h-4 shrink-0 text-[#6b6b8a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+      </svg>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-white truncate" title={document.name}>{document.name}</p>
+        <p className={`text-[10px] truncate ${document.status === "failed" ? "text-red-300" : "text-[#6b6b8a]"}`}>{describe(document)}</p>
+        <div className="mt-1 h-0.5 w-full rounded-full bg-[#1f1f2e] overflow-hidden">
+          <div className={`h-full rounded-full transition-all ${tone}`} style={{ width: `${share * 100}%` }} />
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { deleteDocument, documentUrl, fetchDocuments, type MemoryDocument } from "../../lib/api";
+import { useResource } from "../../lib/resource";
+import { useSyncEvents } from "../../lib/sync";
+import { RequestError } from "../request-error";
+import { AttachButton } from "./attach-button";
+import { DocumentProgress, isIngesting, useIngestionProgress } from "./document-progress";
+
+interface DocumentsPanelProps {
+  // Called when memory changed through a document, so the graph can be reloaded
+  onChanged: () => void;
+}
+
+/**
+ * Uploaded documents of the Memory Explorer. Deleting one also forgets what was learned from it alone.
+ */
+export function DocumentsPanel({ onChanged }: DocumentsPanelProps) {
+  const { data: documents, error: loadError, reload, setData: setDocuments } = useResource<MemoryDocument[]>(
+    async () => (await fetchDocuments()).documents,
+    [],
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useIngestionProgress(documents ?? [], (document) => {
+    setDocuments((previous) => previous?.map((item) => (item.id === document.id ? document : item)));
+    if (!isIngesting(document)) onChanged();
+  });
+
+  // Uploads and deletions from other tabs; progress of listed documents arrives through useIngestionProgress
+  useSyncEvents((event) => {
+    if (event.type === "document.updated" && documents && !documents.some((item) => item.id === event.document.id)) {
+      setDocuments((previous) => [event.document, ...(previous ?? [])]);
+    }
+    if (event.type === "document.deleted") {
+      setDocuments((previous) => previous?.filter((item) => item.id !== event.documentId));
+    }
+  });
+
+  const handleDelete = async (document: MemoryDocument) => {
+    setDeleting(document.id);
+    try {
+      await deleteDocument(document.id);
+      setDocuments((previous) => previous?.filter((item) => item.id !== document.id));
+      onChanged();
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    } finally {
+      setDeleting(null);
+      setConfirming(null);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-white">Documents</h3>
+          <p className="text-xs text-[#6b6b8a]">Text, Markdown, HTML and PDF files</p>
+        </div>
+        <AttachButton
+          onUploaded={(document) => {
+            setError(null);
+            setDocuments((previous) => [document, ...(previous ?? [])]);
+          }}
+          onError={(uploadError) => setError(uploadError.message)}
+        />
+      </div>
+      {loadError && !documents && <RequestError error={loadError} onRetry={() => void reload()} />}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {documents?.length === 0 && <p className="text-xs text-[#5a5a7a]">No documents yet. Attach one to add what it says to memory.</p>}
+      <ul className="space-y-2">
+        {documents?.map((document) => (
+          <li key={document.id}>
+            <DocumentProgress document={document}>
+              <div className="flex items-center gap-1 shrink-0">
+                <a
+                  href={documentUrl(document.id)}
+                  target="_blank"
+                  rel="noreferrer"
+                  title="Open the file"
+                  className="p-1 rounded-md text-[#6b6b8a] hover:bg-[#1f1f2e] hover:text-white transition-colors"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                  </svg>
+                </a>
+                {confirming === document.id ? (
+                  <button
+                    onClick={() => void handleDelete(document)}
+                    disabled={deleting === document.id}
+                    className="px-2 py-0.5 rounded-md bg-red-500/20 text-[10px] text-red-300 hover:bg-red-500/30 disabled:opacity-50 transition-colors"
+                  >
+                    {deleting === document.id ? "Deleting…" : "Delete?"}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setConfirming(document.id)}
+                    title="Delete the document and the memory learned only from it"
+                    className="p-1 rounded-md text-[#6b6b8a] hover:bg-red-500/10 hover:text-red-300 transition-colors"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            </DocumentProgress>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
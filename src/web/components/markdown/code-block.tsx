@@ -0,0 +1,55 @@
+import { isValidElement, useEffect, useRef, useState, type ComponentProps } from "react";
+
+const COPIED_FOR = 2000;
+
+// The language of a fenced block ends up as a `language-*` class on the inner <code>.
+const languageOf = (children: ComponentProps<"pre">["children"]) => {
+  if (!isValidElement<{ className?: string }>(children)) return null;
+  return children.props.className?.match(/language-([\w+#-]+)/)?.[1] ?? null;
+};
+
+// A fenced code block with its language and a copy button in the header.
+export function CodeBlock({ children }: ComponentProps<"pre">) {
+  const codeRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const language = languageOf(children);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_FOR);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copy = async () => {
+    // Highlighting splits the code into spans, the text content is the original source
+    await navigator.clipboard.writeText(codeRef.current?.textContent ?? "");
+    setCopied(true);
+  };
+
+  return (
+    <div className="my-3 rounded-xl overflow-hidden border border-[#252535] bg-[#0d0d14] text-[#e0e0f0]">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-[#1f1f2e] bg-[#12121a] text-[11px] text-[#6b6b8a]">
+        <span className="font-mono">{language ?? "text"}</span>
+        <button
+          onClick={() => void copy()}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-[#1a1a28] hover:text-white transition-colors"
+          title="Copy code"
+        >
+          {copied ? (
+            <svg className="w-3.5 h-3.5 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          ) : (
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          )}
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre ref={codeRef} className="px-4 py-3 overflow-x-auto text-[13px] leading-relaxed">
+        {children}
+      </pre>
+    </div>
+  );
+}
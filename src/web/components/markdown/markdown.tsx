@@ -0,0 +1,60 @@
+import { memo, useMemo } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import "katex/dist/katex.min.css";
+import { normalizeMath, repairMarkdown } from "../../lib/markdown";
+import { CodeBlock } from "./code-block";
+
+interface MarkdownProps {
+  content: string;
+  // Closes unfinished syntax of a reply that is still arriving
+  streaming?: boolean;
+  // Keeps single line breaks, for text people typed rather than Markdown a model wrote
+  preserveBreaks?: boolean;
+}
+
+const remarkPlugins: Options["remarkPlugins"] = [remarkGfm, remarkMath];
+const rehypePlugins: Options["rehypePlugins"] = [[rehypeKatex, { strict: false }], [rehypeHighlight, { detect: true }]];
+
+const components: Components = {
+  pre: CodeBlock,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+  // Images are linked rather than loaded, a reply should not make the browser fetch arbitrary URLs
+  img: ({ src, alt }) => (
+    <a href={typeof src === "string" ? src : undefined} target="_blank" rel="noopener noreferrer">
+      {alt || "image"}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+/**
+ * Renders message text as GitHub-flavoured Markdown with math and highlighted code.
+ * Raw HTML in the text is shown as text, react-markdown never injects it, and unsafe
+ * link protocols such as `javascript:` are dropped.
+ */
+export const Markdown = memo(function Markdown({ content, streaming, preserveBreaks }: MarkdownProps) {
+  const source = useMemo(() => {
+    const normalized = normalizeMath(content);
+    return streaming ? repairMarkdown(normalized) : normalized;
+  }, [content, streaming]);
+
+  return (
+    <div className={`markdown text-sm leading-relaxed break-words ${streaming ? "streaming" : ""} ${preserveBreaks ? "preserve-breaks" : ""}`}>
+      <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+});
@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { ApiError, archiveUrl, importArchive, memoryExportUrl, sessionsExportUrl, type ImportReport } from "../../lib/api";
+
+interface ArchivePanelProps {
+  // Called after an import, so the graph can be reloaded
+  onImported: () => void;
+}
+
+interface PendingImport {
+  name: string;
+  archive: unknown;
+  report: ImportReport;
+}
+
+const EXPORTS = [
+  { label: "Everything", format: "JSON", href: archiveUrl() },
+  { label: "Chats", format: "JSON", href: sessionsExportUrl("json") },
+  { label: "Chats", format: "Markdown", href: sessionsExportUrl("markdown") },
+  { label: "Memory graph", format: "JSON", href: memoryExportUrl("json") },
+  { label: "Memory graph", format: "GraphML", href: memoryExportUrl("graphml") },
+  { label: "Memory graph", format: "JSON-LD", href: memoryExportUrl("jsonld") },
+];
+
+const sectionTitle = "text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2";
+
+// An invalid archive lists what is wrong with it, by path
+const describeError = (error: unknown) => {
+  if (error instanceof SyntaxError) return "This file is not valid JSON.";
+  const issues = error instanceof ApiError && Array.isArray(error.details?.issues) ? (error.details.issues as { path: string; message: string }[]) : [];
+  if (issues.length === 0) return (error as Error).message;
+  return ["The archive cannot be imported:", ...issues.slice(0, 5).map((issue) => `${issue.path || "archive"}: ${issue.message}`)].join("\n");
+};
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+function ReportSummary({ report }: { report: ImportReport }) {
+  const lines = [
+    `${report.sessions.created} chats with ${report.messages} messages${report.sessions.skipped > 0 ? `, ${report.sessions.skipped} already here` : ""}`,
+    `${report.nodes.created} new nodes, ${report.nodes.merged} matched existing ones`,
+    `${report.edges.created} new relations, ${report.edges.merged} matched existing ones`,
+  ];
+  const conflicts = report.conflicts.filter((conflict) => conflict.fields.length > 0);
+  return (
+    <div className="space-y-2">
+      <ul className="text-xs text-[#c0c0d8] space-y-0.5">
+        {lines.map((line) => <li key={line}>{line}</li>)}
+      </ul>
+      {conflicts.length > 0 && (
+        <div>
+          <p className="text-[10px] text-amber-300 mb-1">
+            {conflicts.length} {conflicts.length === 1 ? "item differs" : "items differ"} from what you have; your values are kept.
+          </p>
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {conflicts.slice(0, 50).map((conflict) => (
+              <li key={`${conflict.kind}:${conflict.id}`} className="text-[10px] text-[#8b8baa]">
+                <span className="text-[#c0c0d8]">{conflict.label}</span>
+                {conflict.fields.map((field) => (
+                  <span key={field.name} className="block pl-2">
+                    {field.name}: {formatValue(field.existing)} ≠ {formatValue(field.imported)}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Downloads of the account's chats and memory, and the import of an archive. Importing first
+ * shows what a dry run reports, and writes only once confirmed.
+ */
+export function ArchivePanel({ onImported }: ArchivePanelProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [imported, setImported] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(describeError(actionError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (file: File) => run(async () => {
+    setPending(null);
+    setImported(null);
+    const archive: unknown = JSON.parse(await file.text());
+    const { report } = await importArchive(archive, true);
+    setPending({ name: file.name, archive, report });
+  });
+
+  const handleImport = () => run(async () => {
+    if (!pending) return;
+    const { report } = await importArchive(pending.archive, false);
+    setPending(null);
+    setImported(report);
+    onImported();
+  });
+
+  return (
+    <div className="p-4 space-y-5">
+      <div>
+        <h3 className="text-sm font-semibold text-white">Export & Import</h3>
+        <p className="text-xs text-[#6b6b8a]">Back up your chats and memory, or bring them from another account.</p>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>Export</p>
+        <ul className="space-y-1">
+          {EXPORTS.map((item) => (
+            <li key={`${item.label}:${item.format}`}>
+              <a
+                href={item.href}
+                download
+                className="flex items-center justify-between px-2.5 py-1.5 rounded-lg text-xs text-[#c0c0d8] hover:bg-[#1a1a28] transition-colors"
+              >
+                <span>{item.label}</span>
+                <span className="text-[10px] text-[#6b6b8a]">{item.format}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+        <p className="text-[10px] text-[#4a4a6a] mt-2">Uploaded documents are not included.</p>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>Import</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) void handleFile(file);
+          }}
+        />
+        {!pending && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={busy}
+            className="w-full py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs disabled:opacity-50 transition-colors"
+          >
+            {busy ? "Checking…" : "Choose a JSON archive…"}
+          </button>
+        )}
+        {error && <p className="text-xs text-red-300 mt-2 whitespace-pre-line">{error}</p>}
+        {pending && (
+          <div className="rounded-lg border border-[#252535] p-3 space-y-3">
+            <p className="text-xs text-white truncate">Importing {pending.name} would add</p>
+            <ReportSummary report={pending.report} />
+            <div className="flex gap-2">
+              <button
+                onClick={() => void handleImport()}
+                disabled={busy}
+                className="flex-1 py-1.5 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 text-xs disabled:opacity-50 transition-colors"
+              >
+                {busy ? "Importing…" : "Import"}
+              </button>
+              <button
+                onClick={() => setPending(null)}
+                disabled={busy}
+                className="flex-1 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        {imported && (
+          <div className="rounded-lg border border-emerald-500/30 bg-emerald-500/5 p-3 space-y-2">
+            <p className="text-xs text-emerald-300">Imported</p>
+            <ReportSummary report={imported} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { fetchAudit, type AuditEntry } from "../../lib/api";
+import { messageLink } from "../../lib/chat";
+import { useResource } from "../../lib/resource";
+import { useSyncEvents } from "../../lib/sync";
+import { formatRelativeTime } from "../../lib/time";
+import { RequestError } from "../request-error";
+
+interface AuditLogProps {
+  // Only the history of this node or edge, otherwise every entry of the account
+  itemId?: string;
+  onSelect?: (nodeId: string) => void;
+}
+
+const ACTIONS: Record<AuditEntry["action"], { label: string; className: string }> = {
+  created: { label: "Learned", className: "text-emerald-400" },
+  updated: { label: "Updated", className: "text-cyan-400" },
+  deleted: { label: "Deleted", className: "text-red-300" },
+  read: { label: "Read", className: "text-[#8b8baa]" },
+  purged: { label: "Purged", className: "text-red-400" },
+};
+
+const VIA: Record<AuditEntry["via"], string> = {
+  extraction: "from a chat",
+  tool: "by the assistant",
+  document: "from a document",
+  consolidation: "by consolidation",
+  manual: "by you",
+  undo: "by an undo",
+  context: "as chat context",
+  recall: "by a recall",
+  purge: "by a purge",
+  import: "by an import",
+};
+
+/**
+ * Writes to and reads from memory, newest first, with a link to the message that caused them.
+ * Every reply reads its context into the log, so it can be narrowed to one action, e.g. to find
+ * when and where an item was learned. Purged items keep their entries but no longer show what they said.
+ */
+export function AuditLog({ itemId, onSelect }: AuditLogProps) {
+  const [action, setAction] = useState<AuditEntry["action"] | "">("");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState<Error | null>(null);
+  const { data: page, error, reload, setData } = useResource(() => fetchAudit({ itemId, action: action || undefined }), [itemId, action]);
+
+  useSyncEvents((event) => {
+    if (event.type === "memory.changed" || event.type === "sync.reset") void reload();
+  });
+
+  const loadMore = async () => {
+    if (!page?.nextCursor) return;
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const next = await fetchAudit({ itemId, action: action || undefined }, page.nextCursor);
+      setData((previous) => previous && { entries: [...previous.entries, ...next.entries], nextCursor: next.nextCursor });
+    } catch (loadError) {
+      setMoreError(loadError as Error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={action}
+        onChange={(event) => {
+          setAction(event.target.value as AuditEntry["action"] | "");
+          setMoreError(null);
+        }}
+        aria-label="Show entries of"
+        className="bg-[#12121a] border border-[#252535] rounded-lg px-2 py-1 text-[10px] text-[#c0c0d8] outline-none focus:border-emerald-500/50"
+      >
+        <option value="">Everything</option>
+        {Object.entries(ACTIONS).map(([value, { label }]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      {!page ? (
+        error ? <RequestError error={error} onRetry={() => void reload()} /> : <p className="text-xs text-[#5a5a7a]">Loading…</p>
+      ) : page.entries.length === 0 ? (
+        <p className="text-xs text-[#5a5a7a]">Nothing recorded yet.</p>
+      ) : (
+        <AuditEntries entries={page.entries} itemId={itemId} onSelect={onSelect} />
+      )}
+      {page?.nextCursor && moreError && <RequestError error={moreError} onRetry={() => void loadMore()} />}
+      {page?.nextCursor && !moreError && (
+        <button
+          onClick={() => void loadMore()}
+          disabled={loadingMore}
+          className="w-full py-1.5 text-xs text-[#6b6b8a] hover:text-emerald-400 disabled:opacity-50 transition-colors"
+        >
+          {loadingMore ? "Loading…" : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function AuditEntries({ entries, itemId, onSelect }: AuditLogProps & { entries: AuditEntry[] }) {
+  return (
+    <ul className="space-y-1.5">
+      {entries.map((entry) => (
+        <li key={entry.id} className="text-xs leading-snug">
+          <p className="text-[#a0a0ba]">
+            <span className={ACTIONS[entry.action].className}>{ACTIONS[entry.action].label}</span>{" "}
+            {!itemId && (entry.label === null ? (
+              <span className="italic text-[#5a5a7a]">purged {entry.kind}</span>
+            ) : entry.kind === "node" && onSelect && entry.action !== "deleted" ? (
+              <button onClick={() => onSelect(entry.itemId)} className="text-white hover:underline text-left">{entry.label}</button>
+            ) : (
+              <span className="text-white">{entry.label}</span>
+            ))}{" "}
+            {VIA[entry.via]}
+          </p>
+          <p className="text-[10px] text-[#4a4a6a]" title={new Date(entry.createdAt).toLocaleString()}>
+            {formatRelativeTime(entry.createdAt)}
+            {entry.sessionId && entry.messageId && (
+              <>
+                {" · "}
+                <Link href={messageLink(entry.sessionId, entry.messageId)} className="hover:text-emerald-400 hover:underline">
+                  message
+                </Link>
+              </>
+            )}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,8 @@
+const PALETTE = ["#34d399", "#22d3ee", "#a78bfa", "#f472b6", "#fbbf24", "#60a5fa", "#fb7185", "#4ade80", "#f97316", "#c084fc"];
+
+// Stable colour per node type, so "person" looks the same on every visit.
+export const colorOf = (type: string) => {
+  let hash = 0;
+  for (const char of type) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+};
@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { forceCenter, forceCollide, forceLink, forceManyBody, forceSimulation, type Simulation, type SimulationLinkDatum, type SimulationNodeDatum } from "d3-force";
+import type { MemoryEdge, MemoryNode } from "../../lib/api";
+import { colorOf } from "./colors";
+
+interface GraphCanvasProps {
+  nodes: MemoryNode[];
+  edges: MemoryEdge[];
+  selectedId: string | null;
+  matches: Set<string> | null;
+  // Memory only supported by replies on abandoned branches, drawn dashed
+  abandoned: Set<string>;
+  onSelect: (id: string | null) => void;
+}
+
+interface SimNode extends SimulationNodeDatum {
+  id: string;
+  node: MemoryNode;
+}
+
+interface SimLink extends SimulationLinkDatum<SimNode> {
+  edge: MemoryEdge;
+}
+
+interface Transform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+
+const radiusOf = (node: MemoryNode) => (node.kind === "fact" ? 5 : 7 + node.confidence * 6);
+
+const endpoint = (value: SimLink["source"]) => value as SimNode;
+
+// Force-directed view of the memory graph. Drag the background to pan, scroll to zoom, drag a node to pin it.
+export function GraphCanvas({ nodes, edges, selectedId, matches, abandoned, onSelect }: GraphCanvasProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const simulationRef = useRef<Simulation<SimNode, SimLink> | null>(null);
+  const positionsRef = useRef(new Map<string, SimNode>());
+  const dragRef = useRef<{ kind: "pan"; x: number; y: number } | { kind: "node"; node: SimNode; moved: boolean } | null>(null);
+  const [simNodes, setSimNodes] = useState<SimNode[]>([]);
+  const [simLinks, setSimLinks] = useState<SimLink[]>([]);
+  const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, k: 1 });
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { width, height } = svg.getBoundingClientRect();
+    setTransform((current) => (current.x === 0 && current.y === 0 ? { x: width / 2, y: height / 2, k: 1 } : current));
+  }, []);
+
+  useEffect(() => {
+    // Keep positions of nodes that survive a refresh so edits do not reshuffle the layout.
+    const previous = positionsRef.current;
+    const next = nodes.map((node) => {
+      const known = previous.get(node.id);
+      return known ? Object.assign(known, { node }) : { id: node.id, node };
+    });
+    positionsRef.current = new Map(next.map((node) => [node.id, node]));
+    const links: SimLink[] = edges
+      .filter((edge) => positionsRef.current.has(edge.sourceId) && positionsRef.current.has(edge.targetId))
+      .map((edge) => ({ edge, source: edge.sourceId, target: edge.targetId }));
+
+    const simulation = forceSimulation(next)
+      .force("link", forceLink<SimNode, SimLink>(links).id((node) => node.id).distance((link) => 60 + (1 - link.edge.weight) * 60))
+      .force("charge", forceManyBody().strength(-180))
+      .force("center", forceCenter(0, 0))
+      .force("collide", forceCollide<SimNode>((node) => radiusOf(node.node) + 4))
+      .on("tick", () => setTick((tick) => tick + 1));
+    simulationRef.current = simulation;
+    setSimNodes(next);
+    setSimLinks(links);
+    return () => {
+      simulation.stop();
+    };
+  }, [nodes, edges]);
+
+  // Wheel events must be non-passive to stop the page from scrolling while zooming.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      setTransform((current) => {
+        const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.k * Math.exp(-event.deltaY * 0.0015)));
+        return { k, x: px - ((px - current.x) / current.k) * k, y: py - ((py - current.y) / current.k) * k };
+      });
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const toGraph = (event: ReactPointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left - transform.x) / transform.k,
+      y: (event.clientY - rect.top - transform.y) / transform.k,
+    };
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent, node?: SimNode) => {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    if (node) {
+      dragRef.current = { kind: "node", node, moved: false };
+      return;
+    }
+    dragRef.current = { kind: "pan", x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === "pan") {
+      const dx = event.clientX - drag.x;
+      const dy = event.clientY - drag.y;
+      dragRef.current = { kind: "pan", x: event.clientX, y: event.clientY };
+      setTransform((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+      return;
+    }
+    const { x, y } = toGraph(event);
+    drag.node.fx = x;
+    drag.node.fy = y;
+    if (!drag.moved) simulationRef.current?.alphaTarget(0.3).restart();
+    drag.moved = true;
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(event.pointerId);
+    simulationRef.current?.alphaTarget(0);
+    if (drag?.kind === "node" && !drag.moved) onSelect(drag.node.id);
+  };
+
+  const neighbors = new Set<string>();
+  if (selectedId) {
+    for (const link of simLinks) {
+      if (endpoint(link.source).id === selectedId) neighbors.add(endpoint(link.target).id);
+      if (endpoint(link.target).id === selectedId) neighbors.add(endpoint(link.source).id);
+    }
+  }
+
+  const isDimmed = (id: string) => {
+    if (matches) return !matches.has(id);
+    if (selectedId) return id !== selectedId && !neighbors.has(id);
+    return false;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing"
+      onPointerDown={(event) => handlePointerDown(event)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onDoubleClick={() => onSelect(null)}
+    >
+      <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+        {simLinks.map((link) => {
+          const source = endpoint(link.source);
+          const target = endpoint(link.target);
+          const active = selectedId !== null && (source.id === selectedId || target.id === selectedId);
+          const dimmed = isDimmed(source.id) && isDimmed(target.id);
+          return (
+            <g key={link.edge.id} opacity={dimmed ? 0.15 : 1}>
+              <line
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke={active ? "#34d399" : "#2e2e44"}
+                strokeWidth={0.5 + link.edge.weight * 2}
+                strokeDasharray={abandoned.has(link.edge.id) ? "4 3" : undefined}
+              />
+              {(active || transform.k > 1.6) && (
+                <text
+                  x={((source.x ?? 0) + (target.x ?? 0)) / 2}
+                  y={((source.y ?? 0) + (target.y ?? 0)) / 2}
+                  className="fill-[#6b6b8a] text-[8px] pointer-events-none"
+                  textAnchor="middle"
+                >
+                  {link.edge.type.replace(/_/g, " ")}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {simNodes.map((simNode) => {
+          const { node } = simNode;
+          const selected = node.id === selectedId;
+          const radius = radiusOf(node);
+          const stale = abandoned.has(node.id);
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${simNode.x ?? 0},${simNode.y ?? 0})`}
+              opacity={isDimmed(node.id) ? 0.2 : 1}
+              className="cursor-pointer"
+              onPointerDown={(event) => handlePointerDown(event, simNode)}
+            >
+              <circle
+                r={radius}
+                fill={colorOf(node.type)}
+                fillOpacity={stale ? 0.2 : node.kind === "fact" ? 0.5 : 0.9}
+                stroke={selected ? "#ffffff" : stale ? colorOf(node.type) : "#0a0a0f"}
+                strokeWidth={selected ? 2.5 : 1.5}
+                strokeDasharray={stale && !selected ? "3 2" : undefined}
+              />
+              {(node.kind === "entity" || selected || transform.k > 1.6) && (
+                <text
+                  y={radius + 11}
+                  textAnchor="middle"
+                  className={`text-[10px] pointer-events-none ${selected ? "fill-white font-semibold" : "fill-[#a0a0ba]"}`}
+                >
+                  {node.label.length > 32 ? `${node.label.slice(0, 31)}…` : node.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { ApiError, deleteEdge, deleteNode, documentUrl, fetchNode, mergeNode, purgeNode, updateNode, type MemoryAttributes, type MemoryNode } from "../../lib/api";
+import { messageLink } from "../../lib/chat";
+import { useResource } from "../../lib/resource";
+import { isOwn, useSyncEvents } from "../../lib/sync";
+import { formatRelativeTime } from "../../lib/time";
+import { RequestError } from "../request-error";
+import { AuditLog } from "./audit-log";
+import { colorOf } from "./colors";
+
+interface NodePanelProps {
+  nodeId: string;
+  nodes: MemoryNode[];
+  onSelect: (id: string | null) => void;
+  onChanged: () => void;
+}
+
+type Mode = "view" | "edit" | "merge";
+
+// Attribute values are edited as text and turned back into numbers and booleans where they look like one.
+const parseValue = (value: string): MemoryAttributes[string] => {
+  const trimmed = value.trim();
+  if (trimmed === "true" || trimmed === "false") return trimmed === "true";
+  if (trimmed === "null") return null;
+  if (trimmed !== "" && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  return value;
+};
+
+const sectionTitle = "text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2";
+const inputClass = "w-full bg-[#0a0a0f] border border-[#252535] rounded-lg px-2.5 py-1.5 text-sm text-white placeholder-[#4a4a6a] focus:outline-none focus:border-emerald-500/50";
+
+export function NodePanel({ nodeId, nodes, onSelect, onChanged }: NodePanelProps) {
+  const { data, error: loadError, reload } = useResource(() => fetchNode(nodeId), [nodeId]);
+  // The previous node stays loaded until the selected one arrives
+  const detail = data?.node.id === nodeId ? data : null;
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>("view");
+  const [busy, setBusy] = useState(false);
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState("");
+  const [attributes, setAttributes] = useState<[string, string][]>([]);
+  const [mergeQuery, setMergeQuery] = useState("");
+  const [conflictId, setConflictId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMode("view");
+    setError(null);
+    setConflictId(null);
+  }, [nodeId]);
+
+  // Changes from elsewhere are shown unless a form is open, which keeps what the user typed
+  useSyncEvents((event) => {
+    if (event.type === "memory.changed" && !isOwn(event) && mode === "view") void reload();
+  });
+
+  const startEditing = () => {
+    if (!detail) return;
+    setLabel(detail.node.label);
+    setType(detail.node.type);
+    setAttributes(Object.entries(detail.node.attributes).map(([key, value]) => [key, String(value)]));
+    setConflictId(null);
+    setMode("edit");
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError((actionError as Error).message);
+      // The server also refuses renames onto a node this panel does not know about
+      if (actionError instanceof ApiError && typeof actionError.details?.existingId === "string") setConflictId(actionError.details.existingId);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const existing = nodes.find((node) => node.id !== nodeId && node.kind === detail?.node.kind && node.label.trim().toLowerCase() === label.trim().toLowerCase());
+    if (existing) {
+      setConflictId(existing.id);
+      throw new Error(`A node labelled "${existing.label}" already exists. Merge into it instead?`);
+    }
+    await updateNode(nodeId, {
+      label,
+      type,
+      attributes: Object.fromEntries(attributes.filter(([key]) => key.trim()).map(([key, value]) => [key.trim(), parseValue(value)])),
+    });
+    setMode("view");
+    await reload();
+    onChanged();
+  });
+
+  const handleMerge = (intoId: string) => run(async () => {
+    await mergeNode(nodeId, intoId);
+    onChanged();
+    onSelect(intoId);
+  });
+
+  const handleDelete = () => run(async () => {
+    if (!window.confirm(`Forget "${detail?.node.label}" and all of its relations?`)) return;
+    await deleteNode(nodeId);
+    onChanged();
+    onSelect(null);
+  });
+
+  // Unlike deleting, purging cannot be undone and also takes the facts about the node alone
+  const handlePurge = () => run(async () => {
+    if (!window.confirm(`Purge "${detail?.node.label}" and everything derived from it? This cannot be undone.`)) return;
+    await purgeNode(nodeId);
+    onChanged();
+    onSelect(null);
+  });
+
+  const handleDeleteEdge = (edgeId: string) => run(async () => {
+    await deleteEdge(edgeId);
+    await reload();
+    onChanged();
+  });
+
+  const mergeCandidates = useMemo(() => {
+    const query = mergeQuery.trim().toLowerCase();
+    return nodes
+      .filter((node) => node.id !== nodeId && node.kind === detail?.node.kind)
+      .filter((node) => !query || node.label.toLowerCase().includes(query))
+      .slice(0, 8);
+  }, [nodes, nodeId, detail, mergeQuery]);
+
+  if (!detail) {
+    return (
+      <div className="p-4 text-sm text-[#6b6b8a]">
+        {loadError ? <RequestError error={loadError} onRetry={() => void reload()} /> : "Loading…"}
+      </div>
+    );
+  }
+
+  const { node, edges, neighbors, sources, documents } = detail;
+  const neighborsById = new Map(neighbors.map((neighbor) => [neighbor.id, neighbor]));
+
+  return (
+    <div className="p-4 space-y-5 text-sm">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorOf(node.type) }} />
+          <span className="text-[10px] uppercase tracking-widest text-[#6b6b8a]">{node.kind} · {node.type}</span>
+          <button onClick={() => onSelect(null)} className="ml-auto p-1 rounded hover:bg-[#1a1a28] text-[#6b6b8a]" title="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <h3 className="text-white font-semibold text-base break-words">{node.label}</h3>
+        <p className="text-[10px] text-[#5a5a7a] mt-1">
+          confidence {Math.round(node.confidence * 100)}% · updated {formatRelativeTime(node.updatedAt)}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-300">
+          {error}
+          {conflictId && (
+            <button onClick={() => handleMerge(conflictId)} className="block mt-1 text-emerald-400 hover:underline">
+              Merge into existing node
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode === "view" && (
+        <div className="flex gap-2">
+          <button onClick={startEditing} className="flex-1 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors">Edit</button>
+          <button onClick={() => setMode("merge")} className="flex-1 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors">Merge</button>
+          <button onClick={handleDelete} disabled={busy} className="flex-1 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-300 text-xs transition-colors">Delete</button>
+          <button
+            onClick={handlePurge}
+            disabled={busy}
+            title="Delete with the facts derived from it, including the copies kept for undo"
+            className="flex-1 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-200 text-xs transition-colors"
+          >
+            Purge
+          </button>
+        </div>
+      )}
+
+      {mode === "edit" && (
+        <div className="space-y-2">
+          <label className="block">
+            <span className="text-[10px] text-[#6b6b8a]">Label</span>
+            <input value={label} onChange={(event) => setLabel(event.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-[10px] text-[#6b6b8a]">Type</span>
+            <input value={type} onChange={(event) => setType(event.target.value)} className={inputClass} />
+          </label>
+          <div>
+            <span className="text-[10px] text-[#6b6b8a]">Attributes</span>
+            <div className="space-y-1.5 mt-1">
+              {attributes.map(([key, value], index) => (
+                <div key={index} className="flex gap-1.5">
+                  <input
+                    value={key}
+                    placeholder="key"
+                    onChange={(event) => setAttributes((rows) => rows.map((row, i) => (i === index ? [event.target.value, row[1]] : row)))}
+                    className={inputClass}
+                  />
+                  <input
+                    value={value}
+                    placeholder="value"
+                    onChange={(event) => setAttributes((rows) => rows.map((row, i) => (i === index ? [row[0], event.target.value] : row)))}
+                    className={inputClass}
+                  />
+                  <button onClick={() => setAttributes((rows) => rows.filter((_, i) => i !== index))} className="px-2 text-[#6b6b8a] hover:text-red-300">×</button>
+                </div>
+              ))}
+              <button onClick={() => setAttributes((rows) => [...rows, ["", ""]])} className="text-xs text-emerald-400 hover:underline">+ Add attribute</button>
+            </div>
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button onClick={handleSave} disabled={busy || !label.trim() || !type.trim()} className="flex-1 py-1.5 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 text-xs disabled:opacity-50 transition-colors">Save</button>
+            <button onClick={() => setMode("view")} className="flex-1 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {mode === "merge" && (
+        <div className="space-y-2">
+          <p className="text-xs text-[#8b8baa]">
+            Merge <span className="text-white">{node.label}</span> into another node. Its relations and sources move over and it is removed.
+          </p>
+          <input value={mergeQuery} onChange={(event) => setMergeQuery(event.target.value)} placeholder="Find a node…" className={inputClass} autoFocus />
+          <ul className="space-y-1">
+            {mergeCandidates.map((candidate) => (
+              <li key={candidate.id}>
+                <button
+                  onClick={() => handleMerge(candidate.id)}
+                  disabled={busy}
+                  className="w-full text-left px-2.5 py-1.5 rounded-lg hover:bg-[#1a1a28] text-[#c0c0d8] text-xs flex items-center gap-2 transition-colors"
+                >
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(candidate.type) }} />
+                  <span className="truncate">{candidate.label}</span>
+                  <span className="ml-auto text-[10px] text-[#5a5a7a]">{candidate.type}</span>
+                </button>
+              </li>
+            ))}
+            {mergeCandidates.length === 0 && <li className="text-xs text-[#5a5a7a] px-2.5">No matching nodes.</li>}
+          </ul>
+          <button onClick={() => setMode("view")} className="w-full py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors">Cancel</button>
+        </div>
+      )}
+
+      {mode === "view" && (
+        <div>
+          <p className={sectionTitle}>Attributes</p>
+          {Object.keys(node.attributes).length === 0 ? (
+            <p className="text-xs text-[#5a5a7a]">None</p>
+          ) : (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+              {Object.entries(node.attributes).map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="text-[#6b6b8a]">{key}</dt>
+                  <dd className="text-[#c0c0d8] break-words">{String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+
+      <div>
+        <p className={sectionTitle}>Relations · {edges.length}</p>
+        {edges.length === 0 && <p className="text-xs text-[#5a5a7a]">None</p>}
+        <ul className="space-y-1">
+          {edges.map((edge) => {
+            const outgoing = edge.sourceId === node.id;
+            const other = neighborsById.get(outgoing ? edge.targetId : edge.sourceId);
+            return (
+              <li key={edge.id} className="group flex items-center gap-2 text-xs">
+                <span className="text-[#5a5a7a] shrink-0">{outgoing ? "→" : "←"}</span>
+                <span className="text-[#6b6b8a] shrink-0">{edge.type.replace(/_/g, " ")}</span>
+                <button onClick={() => other && onSelect(other.id)} className="text-emerald-400/90 hover:underline truncate text-left">
+                  {other?.label ?? "unknown"}
+                </button>
+                <span className="ml-auto text-[10px] text-[#4a4a6a] tabular-nums">{edge.weight.toFixed(2)}</span>
+                <button
+                  onClick={() => handleDeleteEdge(edge.id)}
+                  disabled={busy}
+                  title="Remove relation"
+                  className="opacity-0 group-hover:opacity-100 text-[#6b6b8a] hover:text-red-300 transition-opacity"
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>Learned from · {sources.length + documents.length}</p>
+        {sources.length === 0 && documents.length === 0 && <p className="text-xs text-[#5a5a7a]">Added manually or before sources were recorded.</p>}
+        {documents.length > 0 && (
+          <ul className="space-y-1 mb-1">
+            {documents.map((source) => (
+              <li key={`${source.documentId}:${source.page}`}>
+                <a
+                  href={documentUrl(source.documentId, source.page)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-[#1a1a28] transition-colors"
+                >
+                  <svg className="w-3.5 h-3.5 shrink-0 text-[#6b6b8a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <span className="text-xs text-[#a0a0ba] truncate">{source.name}</span>
+                  {source.page && <span className="text-[10px] text-[#4a4a6a] shrink-0">p. {source.page}</span>}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+        <ul className="space-y-1">
+          {sources.map((source) => (
+            <li key={source.messageId}>
+              <Link href={messageLink(source.sessionId, source.messageId)} className="block rounded-lg px-2 py-1.5 hover:bg-[#1a1a28] transition-colors">
+                <p className="text-xs text-[#a0a0ba] line-clamp-2">
+                  <span className="text-[#6b6b8a]">{source.role === "user" ? "You" : "Assistant"}:</span> {source.excerpt}
+                </p>
+                <p className="text-[10px] text-[#4a4a6a] mt-0.5">{source.sessionTitle} · {formatRelativeTime(source.createdAt)}</p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>History</p>
+        <AuditLog itemId={node.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { fetchSettings, updateSettings, type RedactionCategory } from "../../lib/api";
+import { useResource } from "../../lib/resource";
+import { RequestError } from "../request-error";
+import { AuditLog } from "./audit-log";
+
+interface PrivacyPanelProps {
+  onSelect: (nodeId: string) => void;
+}
+
+const CATEGORIES: { id: RedactionCategory; label: string; example: string }[] = [
+  { id: "email", label: "Email addresses", example: "ann@example.com" },
+  { id: "phone", label: "Phone numbers", example: "+1 555 010 0199" },
+  { id: "secret", label: "Keys and tokens", example: "sk-…, ghp_…, JWTs" },
+];
+
+const sectionTitle = "text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2";
+
+/**
+ * What is masked before it is written to memory, and the log of every write and read.
+ */
+export function PrivacyPanel({ onSelect }: PrivacyPanelProps) {
+  const { data: settings, error: loadError, reload, setData: setSettings } = useResource(async () => (await fetchSettings()).settings, []);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async (category: RedactionCategory) => {
+    if (!settings) return;
+    const redaction = settings.redaction.includes(category)
+      ? settings.redaction.filter((item) => item !== category)
+      : [...settings.redaction, category];
+    setError(null);
+    try {
+      setSettings((await updateSettings({ redaction })).settings);
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-5">
+      <div>
+        <h3 className="text-sm font-semibold text-white">Privacy</h3>
+        <p className="text-xs text-[#6b6b8a]">Incognito chats and messages marked "don't remember" never reach memory.</p>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>Redact before remembering</p>
+        {loadError && !settings && <RequestError error={loadError} onRetry={() => void reload()} />}
+        {error && <p className="text-xs text-red-300 mb-2">{error}</p>}
+        {settings && (
+          <ul className="space-y-1.5">
+            {CATEGORIES.map((category) => (
+              <li key={category.id}>
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.redaction.includes(category.id)}
+                    onChange={() => void toggle(category.id)}
+                    className="mt-0.5 accent-emerald-500"
+                  />
+                  <span>
+                    <span className="block text-xs text-[#c0c0d8]">{category.label}</span>
+                    <span className="block text-[10px] text-[#5a5a7a]">{category.example}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-[10px] text-[#4a4a6a] mt-2">Applies to what is learned from now on.</p>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>Activity</p>
+        <AuditLog onSelect={onSelect} />
+      </div>
+    </div>
+  );
+}
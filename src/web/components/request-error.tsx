@@ -0,0 +1,34 @@
+import { ApiError } from "../lib/api";
+
+interface RequestErrorProps {
+  error: Error;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * A failed request with a retry button. The request id is shown so a report can be matched to the server logs.
+ */
+export function RequestError({ error, onRetry, className = "" }: RequestErrorProps) {
+  const requestId = error instanceof ApiError ? error.requestId : null;
+
+  return (
+    <div className={`flex items-start gap-3 rounded-xl px-4 py-3 bg-red-500/10 border border-red-500/30 text-sm text-red-300 ${className}`}>
+      <svg className="w-4 h-4 mt-0.5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+      </svg>
+      <div className="flex-1 min-w-0">
+        <p className="break-words">{error.message || "Something went wrong."}</p>
+        {requestId && <p className="mt-0.5 text-[10px] text-red-300/60 font-mono truncate">Request {requestId}</p>}
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="px-2.5 py-1 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-200 text-xs font-medium transition-colors shrink-0"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
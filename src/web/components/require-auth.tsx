@@ -0,0 +1,29 @@
+import type { ReactNode } from "react";
+import { Redirect, useLocation, useSearch } from "wouter";
+import { authClient } from "../lib/auth";
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Sends signed-out visitors to the sign-in page and back to where they were headed afterwards.
+export function RequireAuth({ children }: RequireAuthProps) {
+  const { data, isPending } = authClient.useSession();
+  const [location] = useLocation();
+  const search = useSearch();
+
+  if (isPending) {
+    return (
+      <div className="h-screen w-screen flex items-center justify-center bg-[#0a0a0f]">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-400 to-cyan-500 animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    const next = `${location}${search ? `?${search}` : ""}`;
+    return <Redirect to={next === "/" ? "/sign-in" : `/sign-in?next=${encodeURIComponent(next)}`} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { sessionsExportUrl, type Session } from "../lib/api";
+
+interface SessionMenuProps {
+  session: Session | undefined;
+  onRename: () => void;
+  onPin: (pinned: boolean) => void;
+  onArchive: (archived: boolean) => void;
+  onIncognito: (incognito: boolean) => void;
+  onDelete: () => void;
+}
+
+interface ItemProps {
+  onClick: () => void;
+  danger?: boolean;
+  children: ReactNode;
+}
+
+function Item({ onClick, danger, children }: ItemProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+        danger ? "text-red-300 hover:bg-red-500/10" : "text-[#a0a0ba] hover:bg-[#1a1a28] hover:text-white"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * The "⋮" menu of the chat header: rename, pin, archive, switch incognito, export or delete the open session.
+ * Deleting asks for a second click, since it takes the messages with it.
+ */
+export function SessionMenu({ session, onRename, onPin, onArchive, onIncognito, onDelete }: SessionMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) setConfirming(false);
+  }, [open]);
+
+  // Runs an action and closes the menu
+  const choose = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        disabled={!session}
+        title="Session options"
+        className="p-2 rounded-lg hover:bg-[#1a1a28] text-[#8b8baa] disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
+        </svg>
+      </button>
+      {open && session && (
+        <div className="absolute right-0 top-full mt-2 w-48 z-30 rounded-xl border border-[#252535] bg-[#12121a] shadow-xl shadow-black/40 p-1.5 animate-message-in">
+          <Item onClick={choose(onRename)}>Rename</Item>
+          <Item onClick={choose(() => onPin(!session.pinnedAt))}>{session.pinnedAt ? "Unpin" : "Pin to top"}</Item>
+          <Item onClick={choose(() => onArchive(!session.archivedAt))}>{session.archivedAt ? "Unarchive" : "Archive"}</Item>
+          <Item onClick={choose(() => onIncognito(!session.incognito))}>{session.incognito ? "Remember from now on" : "Go incognito"}</Item>
+          {(["markdown", "json"] as const).map((format) => (
+            <a
+              key={format}
+              href={sessionsExportUrl(format, session.id)}
+              download
+              onClick={() => setOpen(false)}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-[#a0a0ba] hover:bg-[#1a1a28] hover:text-white transition-colors"
+            >
+              {format === "markdown" ? "Export as Markdown" : "Export as JSON"}
+            </a>
+          ))}
+          {confirming ? (
+            <Item onClick={choose(onDelete)} danger>
+              Delete for good?
+            </Item>
+          ) : (
+            <Item onClick={() => setConfirming(true)} danger>
+              Delete
+            </Item>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
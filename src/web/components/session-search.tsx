@@ -0,0 +1,213 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useLocation } from "wouter";
+import { searchSessions, type MessageHit, type SessionHit } from "../lib/api";
+import { messageLink } from "../lib/chat";
+import { formatRelativeTime } from "../lib/time";
+
+const ROLES = [
+  { value: undefined, label: "All" },
+  { value: "user", label: "You" },
+  { value: "ai", label: "AI" },
+] as const;
+
+const SEARCH_DELAY = 250;
+
+interface SessionSearchProps {
+  now: number;
+  // Reports whether results are shown in place of the session list
+  onActiveChange: (active: boolean) => void;
+  onOpen: () => void;
+}
+
+interface Results {
+  messages: MessageHit[];
+  sessions: SessionHit[];
+}
+
+// The server wraps matched terms in \u0002...\u0003.
+const highlight = (text: string): ReactNode[] =>
+  text.split(/(\u0002[^\u0003]*\u0003)/).map((part, index) =>
+    part.startsWith("\u0002")
+      ? <mark key={index} className="bg-emerald-500/25 text-emerald-200 rounded px-0.5">{part.slice(1, -1)}</mark>
+      : part
+  );
+
+// Date inputs give local days; the range covers both of them completely.
+const dayStart = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const dayEnd = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+export function SessionSearch({ now, onActiveChange, onOpen }: SessionSearchProps) {
+  const [query, setQuery] = useState("");
+  const [role, setRole] = useState<"user" | "ai" | undefined>();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [results, setResults] = useState<Results | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [, navigate] = useLocation();
+  const active = query.trim().length > 0;
+
+  useEffect(() => {
+    onActiveChange(active);
+  }, [active, onActiveChange]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await searchSessions({ q, role, from: dayStart(from), to: dayEnd(to) });
+        if (cancelled) return;
+        setResults(found);
+        setError(null);
+      } catch (searchError) {
+        if (!cancelled) setError((searchError as Error).message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, role, from, to]);
+
+  const open = (href: string) => {
+    navigate(href);
+    onOpen();
+  };
+
+  const filtered = role !== undefined || from !== "" || to !== "";
+  const empty = results && results.messages.length === 0 && results.sessions.length === 0;
+
+  return (
+    <>
+      <div className="px-3 pb-2">
+        <div className="flex items-center gap-2 bg-[#12121a] border border-[#252535] rounded-xl px-3 focus-within:border-emerald-500/50 transition-colors">
+          <svg className="w-4 h-4 text-[#5a5a7a] shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+          </svg>
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={(event) => event.key === "Escape" && setQuery("")}
+            placeholder="Search chats…"
+            className="flex-1 min-w-0 bg-transparent py-2 text-sm text-white placeholder-[#4a4a6a] outline-none"
+          />
+          <button
+            onClick={() => setShowFilters((value) => !value)}
+            title="Filters"
+            className={`p-1 rounded-md transition-colors ${filtered || showFilters ? "text-emerald-400" : "text-[#5a5a7a] hover:text-[#8b8baa]"}`}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8.5V19l-4 2v-8.5L3 4z" />
+            </svg>
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="mt-2 p-2 rounded-xl border border-[#1f1f2e] bg-[#0d0d14] space-y-2 text-xs">
+            <div className="flex items-center gap-1">
+              {ROLES.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setRole(option.value)}
+                  className={`px-2 py-1 rounded-lg transition-colors ${
+                    role === option.value ? "bg-emerald-500/20 text-emerald-300" : "text-[#8b8baa] hover:bg-[#1a1a28]"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1.5 text-[#6b6b8a]">
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(event) => setFrom(event.target.value)}
+                className="flex-1 min-w-0 bg-[#12121a] border border-[#252535] rounded-lg px-1.5 py-1 text-[#c0c0d8] [color-scheme:dark]"
+              />
+              <span>–</span>
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(event) => setTo(event.target.value)}
+                className="flex-1 min-w-0 bg-[#12121a] border border-[#252535] rounded-lg px-1.5 py-1 text-[#c0c0d8] [color-scheme:dark]"
+              />
+            </div>
+            {filtered && (
+              <button
+                onClick={() => {
+                  setRole(undefined);
+                  setFrom("");
+                  setTo("");
+                }}
+                className="text-[#6b6b8a] hover:text-emerald-400 transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {active && (
+        <div className="flex-1 overflow-y-auto px-3 py-2">
+          {error && <p className="text-xs text-red-300 px-2">{error}</p>}
+          {loading && !results && <p className="text-xs text-[#5a5a7a] px-2">Searching…</p>}
+          {empty && <p className="text-xs text-[#5a5a7a] px-2">No matches.</p>}
+
+          {results && results.sessions.length > 0 && (
+            <>
+              <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2 px-2">Sessions</p>
+              <nav className="space-y-1 mb-4">
+                {results.sessions.map((hit) => (
+                  <button
+                    key={hit.sessionId}
+                    onClick={() => open(`/?session=${encodeURIComponent(hit.sessionId)}`)}
+                    className="w-full text-left px-3 py-2 rounded-xl hover:bg-[#1a1a28] transition-colors"
+                  >
+                    <p className="text-sm text-[#c0c0d8] truncate">{highlight(hit.title)}</p>
+                    <p className="text-[10px] text-[#4a4a6a] mt-0.5">{formatRelativeTime(hit.updatedAt, now)}</p>
+                  </button>
+                ))}
+              </nav>
+            </>
+          )}
+
+          {results && results.messages.length > 0 && (
+            <>
+              <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2 px-2">Messages</p>
+              <nav className="space-y-1">
+                {results.messages.map((hit) => (
+                  <button
+                    key={hit.messageId}
+                    onClick={() => open(messageLink(hit.sessionId, hit.messageId))}
+                    className="w-full text-left px-3 py-2 rounded-xl hover:bg-[#1a1a28] transition-colors"
+                  >
+                    <div className="flex items-center gap-2 text-[10px] text-[#5a5a7a]">
+                      <span className={hit.role === "user" ? "text-cyan-400" : "text-emerald-400"}>
+                        {hit.role === "user" ? "You" : "AI"}
+                      </span>
+                      <span className="truncate flex-1">{hit.sessionTitle}</span>
+                      <span className="shrink-0">{formatRelativeTime(hit.createdAt, now)}</span>
+                    </div>
+                    <p className="text-xs text-[#a0a0ba] mt-1 line-clamp-3 break-words">{highlight(hit.snippet)}</p>
+                  </button>
+                ))}
+              </nav>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useId } from "react";
+import type { ChatModel } from "../../lib/api";
+import { modelName, takesTemperature, type ChatOptions } from "../../lib/chat-settings";
+
+// The chat settings being edited; null falls back to `inherited`
+export interface ChatSettingsDraft {
+  model: ChatModel | null;
+  temperature: number | null;
+  systemPrompt: string | null;
+}
+
+interface ChatSettingsFieldsProps {
+  options: ChatOptions;
+  draft: ChatSettingsDraft;
+  onChange: (draft: ChatSettingsDraft) => void;
+  // What applies where the draft sets nothing, and where that comes from
+  inherited: { model: string; temperature: number | null; systemPrompt: string; from: string };
+}
+
+const title = "text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold";
+const label = `block ${title} mb-1.5`;
+const field = "w-full bg-[#12121a] border border-[#252535] rounded-lg px-2.5 py-1.5 text-xs text-[#e0e0f0] outline-none focus:border-emerald-500/50";
+
+const providersOf = (options: ChatOptions) => [...new Set(options.models.map((model) => model.provider))];
+
+/**
+ * Model, temperature and system prompt, as the account, a persona and a session set them.
+ * Each one can be left to what applies otherwise, which is shown in its place.
+ */
+export function ChatSettingsFields({ options, draft, onChange, inherited }: ChatSettingsFieldsProps) {
+  const id = useId();
+  const { min, max } = options.temperature;
+  const update = (patch: Partial<ChatSettingsDraft>) => onChange({ ...draft, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={label} htmlFor={`${id}-model`}>Model</label>
+        <select
+          id={`${id}-model`}
+          value={draft.model ?? ""}
+          onChange={(event) => update({ model: (event.target.value || null) as ChatModel | null })}
+          className={field}
+        >
+          <option value="">{`${modelName(options, inherited.model)} (${inherited.from})`}</option>
+          {providersOf(options).map((provider) => (
+            <optgroup key={provider} label={provider}>
+              {options.models.filter((model) => model.provider === provider).map((model) => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      {takesTemperature(options, draft.model ?? inherited.model) ? (
+        <div>
+          <div className="flex items-center justify-between mb-1.5">
+            <span className={title}>Temperature</span>
+            <label className="flex items-center gap-1.5 text-[10px] text-[#6b6b8a] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.temperature !== null}
+                onChange={(event) => update({ temperature: event.target.checked ? inherited.temperature ?? (min + max) / 2 : null })}
+                className="accent-emerald-500"
+              />
+              Set
+            </label>
+          </div>
+          {draft.temperature !== null ? (
+            <div className="flex items-center gap-2">
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={0.1}
+                value={draft.temperature}
+                onChange={(event) => update({ temperature: Number(event.target.value) })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-8 text-right text-xs text-[#c0c0d8] tabular-nums">{draft.temperature.toFixed(1)}</span>
+            </div>
+          ) : (
+            <p className="text-xs text-[#6b6b8a]">
+              {inherited.temperature === null ? "The model's default" : inherited.temperature.toFixed(1)} ({inherited.from})
+            </p>
+          )}
+          <p className="text-[10px] text-[#4a4a6a] mt-1">Lower is more focused, higher more varied.</p>
+        </div>
+      ) : (
+        <div>
+          <span className={title}>Temperature</span>
+          <p className="text-xs text-[#6b6b8a] mt-1.5">{modelName(options, draft.model ?? inherited.model)} does not take a temperature.</p>
+        </div>
+      )}
+
+      <div>
+        <label className={label} htmlFor={`${id}-prompt`}>System prompt</label>
+        <textarea
+          id={`${id}-prompt`}
+          value={draft.systemPrompt ?? ""}
+          onChange={(event) => update({ systemPrompt: event.target.value || null })}
+          placeholder={inherited.systemPrompt ? `${inherited.systemPrompt} (${inherited.from})` : "How the assistant should answer, e.g. \"Be brief and use British English.\""}
+          maxLength={options.systemPromptLength}
+          rows={4}
+          className={`${field} resize-y leading-relaxed`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { createPersona, deletePersona, updatePersona, updateSettings, type Persona } from "../../lib/api";
+import { effectiveSettings, modelName, type ChatOptions } from "../../lib/chat-settings";
+import type { Resource } from "../../lib/resource";
+import { RequestError } from "../request-error";
+import { ChatSettingsFields, type ChatSettingsDraft } from "./chat-settings-fields";
+
+interface SettingsPanelProps {
+  options: Resource<ChatOptions>;
+  onClose: () => void;
+}
+
+// A persona being written; `id` is null for a new one
+interface PersonaDraft extends ChatSettingsDraft {
+  id: string | null;
+  name: string;
+}
+
+const sectionTitle = "text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2";
+const primary = "px-3 py-1.5 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 text-xs disabled:opacity-50 transition-colors";
+const secondary = "px-3 py-1.5 rounded-lg bg-[#1a1a28] hover:bg-[#252535] text-[#c0c0d8] text-xs transition-colors";
+
+const draftOf = (settings: { model: string | null; temperature: number | null; systemPrompt: string | null }) =>
+  ({ model: settings.model, temperature: settings.temperature, systemPrompt: settings.systemPrompt }) as ChatSettingsDraft;
+
+const sameDraft = (a: ChatSettingsDraft, b: ChatSettingsDraft) =>
+  a.model === b.model && a.temperature === b.temperature && (a.systemPrompt ?? "") === (b.systemPrompt ?? "");
+
+/**
+ * The account's chat settings, opened from the gear of the sidebar: the defaults every chat
+ * starts with and the personas a chat can switch to. Chats can override both from their header.
+ */
+export function SettingsPanel({ options: resource, onClose }: SettingsPanelProps) {
+  const { data: options, error: loadError, reload, setData } = resource;
+  const [defaults, setDefaults] = useState<ChatSettingsDraft | null>(null);
+  const [persona, setPersona] = useState<PersonaDraft | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const close = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", close);
+    return () => document.removeEventListener("keydown", close);
+  }, [onClose]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError((actionError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveDefaults = (draft: ChatSettingsDraft) => run(async () => {
+    const { settings } = await updateSettings(draft);
+    setData((previous) => previous && { ...previous, settings });
+    setDefaults(null);
+  });
+
+  const savePersona = (draft: PersonaDraft) => run(async () => {
+    const input = { name: draft.name.trim(), model: draft.model, temperature: draft.temperature, systemPrompt: draft.systemPrompt ?? "" };
+    const saved = draft.id ? (await updatePersona(draft.id, input)).persona : (await createPersona(input)).persona;
+    setData((previous) => previous && {
+      ...previous,
+      personas: draft.id ? previous.personas.map((item) => (item.id === saved.id ? saved : item)) : [...previous.personas, saved],
+    });
+    setPersona(null);
+  });
+
+  const removePersona = (id: string) => run(async () => {
+    await deletePersona(id);
+    setData((previous) => previous && { ...previous, personas: previous.personas.filter((item) => item.id !== id) });
+    setDeleting(null);
+  });
+
+  const editPersona = (item: Persona) => setPersona({ id: item.id, name: item.name, ...draftOf(item), systemPrompt: item.systemPrompt || null });
+
+  const saved = options && draftOf(options.settings);
+  const draft = defaults ?? saved;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Settings"
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl border border-[#252535] bg-[#0d0d14] shadow-2xl shadow-black/50 animate-message-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#1f1f2e]">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Settings</h3>
+            <p className="text-xs text-[#6b6b8a]">How the assistant answers. Each chat can change these from its header.</p>
+          </div>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-lg text-[#6b6b8a] hover:bg-[#1a1a28] hover:text-white transition-colors">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {loadError && !options && <RequestError error={loadError} onRetry={() => void reload()} />}
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          {options && draft && saved && (
+            <div>
+              <p className={sectionTitle}>Chat defaults</p>
+              <ChatSettingsFields
+                options={options}
+                draft={draft}
+                onChange={setDefaults}
+                inherited={{ model: options.defaultModel, temperature: null, systemPrompt: "", from: "app default" }}
+              />
+              {!sameDraft(draft, saved) && (
+                <div className="flex gap-2 mt-3">
+                  <button onClick={() => void saveDefaults(draft)} disabled={busy} className={primary}>Save</button>
+                  <button onClick={() => setDefaults(null)} className={secondary}>Discard</button>
+                </div>
+              )}
+              <p className="text-[10px] text-[#4a4a6a] mt-2">Applies from the next reply of every chat that does not set its own.</p>
+            </div>
+          )}
+
+          {options && (
+            <div>
+              <p className={sectionTitle}>Personas</p>
+              {options.personas.length === 0 && !persona && (
+                <p className="text-xs text-[#5a5a7a] mb-2">Personas are sets of instructions, a model and a temperature that any chat can switch to.</p>
+              )}
+              <ul className="space-y-1 mb-2">
+                {options.personas.map((item) => (
+                  <li key={item.id} className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1a1a28] group">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-[#e0e0f0] truncate">{item.name}</p>
+                      <p className="text-[10px] text-[#6b6b8a] truncate">
+                        {[item.model && modelName(options, item.model), item.temperature !== null && `temperature ${item.temperature.toFixed(1)}`, item.systemPrompt]
+                          .filter(Boolean)
+                          .join(" · ") || "No instructions"}
+                      </p>
+                    </div>
+                    <button onClick={() => editPersona(item)} className="text-[10px] text-[#6b6b8a] hover:text-white transition-colors">Edit</button>
+                    {deleting === item.id ? (
+                      <button onClick={() => void removePersona(item.id)} disabled={busy} className="text-[10px] text-red-300 hover:text-red-200">
+                        Delete for good?
+                      </button>
+                    ) : (
+                      <button onClick={() => setDeleting(item.id)} className="text-[10px] text-[#6b6b8a] hover:text-red-300 transition-colors">Delete</button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {persona ? (
+                <div className="rounded-lg border border-[#252535] p-3 space-y-3">
+                  <input
+                    autoFocus
+                    value={persona.name}
+                    onChange={(event) => setPersona({ ...persona, name: event.target.value })}
+                    placeholder="Name, e.g. Code reviewer"
+                    maxLength={80}
+                    className="w-full bg-[#12121a] border border-[#252535] rounded-lg px-2.5 py-1.5 text-xs text-white outline-none focus:border-emerald-500/50"
+                  />
+                  <ChatSettingsFields
+                    options={options}
+                    draft={persona}
+                    onChange={(fields) => setPersona({ ...persona, ...fields })}
+                    // A persona's prompt replaces the account's, so there is none to fall back to
+                    inherited={{ ...effectiveSettings(options, undefined), systemPrompt: "", from: "chat default" }}
+                  />
+                  <div className="flex gap-2">
+                    <button onClick={() => void savePersona(persona)} disabled={busy || !persona.name.trim()} className={primary}>
+                      {persona.id ? "Save" : "Add persona"}
+                    </button>
+                    <button onClick={() => setPersona(null)} className={secondary}>Cancel</button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setPersona({ id: null, name: "", model: null, temperature: null, systemPrompt: null })}
+                  className={`w-full ${secondary}`}
+                >
+                  New persona
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
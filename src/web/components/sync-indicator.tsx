@@ -0,0 +1,23 @@
+import { useSyncStatus, type SyncStatus } from "../lib/sync";
+
+const STATES: Record<SyncStatus, { label: string; dot: string }> = {
+  connecting: { label: "Connecting…", dot: "bg-amber-400 animate-pulse" },
+  connected: { label: "Connected to Graph Memory", dot: "bg-emerald-400" },
+  reconnecting: { label: "Reconnecting…", dot: "bg-amber-400 animate-pulse" },
+  offline: { label: "Offline", dot: "bg-red-400" },
+};
+
+/**
+ * The state of the live connection that keeps this tab in sync with the user's other tabs and devices.
+ */
+export function SyncIndicator() {
+  const status = useSyncStatus();
+  const { label, dot } = STATES[status];
+
+  return (
+    <div className="flex items-center gap-2 mt-0.5" role="status" title={label}>
+      <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${dot}`} />
+      <span className="text-xs text-[#6b6b8a] truncate">{label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Link } from "wouter";
+import type { ToolUIPart } from "ai";
+import { fetchOperation, undoOperation, type ChangeSummary } from "../lib/api";
+import type { ChatTools, MemoryWrite } from "../lib/chat";
+
+type ToolPart = ToolUIPart<ChatTools>;
+
+interface ToolCardProps {
+  part: ToolPart;
+}
+
+const TITLES: Record<keyof ChatTools, { pending: string; done: string }> = {
+  calculate: { pending: "Calculating…", done: "Calculated" },
+  remember: { pending: "Remembering…", done: "Remembered" },
+  recall: { pending: "Searching memory…", done: "Searched memory" },
+  link: { pending: "Linking…", done: "Linked" },
+  forget: { pending: "Forgetting…", done: "Forgot" },
+};
+
+const CHANGE_STYLES: Record<ChangeSummary["change"], { sign: string; className: string }> = {
+  created: { sign: "+", className: "text-emerald-400" },
+  updated: { sign: "~", className: "text-amber-300" },
+  deleted: { sign: "−", className: "text-red-300" },
+};
+
+const toolName = (part: ToolPart) => part.type.slice("tool-".length) as keyof ChatTools;
+
+function StateIcon({ state }: { state: ToolPart["state"] }) {
+  if (state === "output-available") {
+    return (
+      <svg className="w-3.5 h-3.5 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+      </svg>
+    );
+  }
+  if (state === "output-error" || state === "output-denied") {
+    return (
+      <svg className="w-3.5 h-3.5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    );
+  }
+  return <span className="w-3 h-3 rounded-full border-2 border-emerald-400/30 border-t-emerald-400 animate-spin" />;
+}
+
+// The nodes and edges a memory write touched, with an undo for the whole write.
+function MemoryChanges({ output }: { output: MemoryWrite }) {
+  const [undone, setUndone] = useState(false);
+  const [undoing, setUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The card may be rendered again long after the write, e.g. after a reload
+  useEffect(() => {
+    let cancelled = false;
+    fetchOperation(output.operationId)
+      .then(({ operation }) => !cancelled && setUndone(operation.undoneAt !== null))
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [output.operationId]);
+
+  const undo = async () => {
+    setUndoing(true);
+    try {
+      await undoOperation(output.operationId);
+      setUndone(true);
+      setError(null);
+    } catch (undoError) {
+      setError((undoError as Error).message);
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  return (
+    <>
+      <ul className={`space-y-1 ${undone ? "opacity-50 line-through" : ""}`}>
+        {output.changes.map((change) => {
+          const style = CHANGE_STYLES[change.change];
+          const linked = change.kind === "node" && change.change !== "deleted" && !undone;
+          return (
+            <li key={`${change.kind}:${change.id}`} className="flex items-start gap-2">
+              <span className={`font-mono w-3 shrink-0 ${style.className}`} title={change.change}>{style.sign}</span>
+              <span className="text-[10px] uppercase tracking-wide text-[#5a5a7a] w-8 shrink-0 pt-px">{change.kind}</span>
+              {linked ? (
+                <Link href={`/memory?node=${change.id}`} className="min-w-0 break-words hover:text-emerald-300 transition-colors">
+                  {change.label}
+                </Link>
+              ) : (
+                <span className="min-w-0 break-words">{change.label}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="mt-2 flex items-center gap-2">
+        {undone ? (
+          <span className="text-[#6b6b8a]">Undone</span>
+        ) : (
+          <button
+            onClick={() => void undo()}
+            disabled={undoing}
+            className="px-2 py-0.5 rounded-md border border-[#2e2e44] text-[#a0a0ba] hover:bg-[#1a1a28] hover:text-white disabled:opacity-50 transition-colors"
+          >
+            {undoing ? "Undoing…" : "Undo"}
+          </button>
+        )}
+        {error && <span className="text-red-300">{error}</span>}
+      </div>
+    </>
+  );
+}
+
+function toolBody(part: ToolPart): ReactNode {
+  if (part.state === "output-error") return <p className="text-red-300 break-words">{part.errorText}</p>;
+  if (part.state === "output-denied") return <p className="text-red-300">The call was not allowed.</p>;
+
+  switch (part.type) {
+    case "tool-calculate":
+      return (
+        <p className="font-mono break-all">
+          {part.input?.expression}
+          {part.state === "output-available" && <span className="text-emerald-300"> = {part.output}</span>}
+        </p>
+      );
+    case "tool-recall":
+      if (part.state !== "output-available") return part.input?.query ? <p className="text-[#8b8baa]">“{part.input.query}”</p> : null;
+      return (
+        <>
+          <p className="text-[#8b8baa] mb-1">“{part.input.query}”</p>
+          {part.output.items.length === 0 && <p className="text-[#6b6b8a]">Nothing found.</p>}
+          <ul className="space-y-1">
+            {part.output.items.map((item) => (
+              <li key={item.id} className="flex items-start gap-2">
+                <span className="text-[10px] uppercase tracking-wide text-[#5a5a7a] w-8 shrink-0 pt-px">{item.kind}</span>
+                <span className="min-w-0 break-words flex-1">{item.text}</span>
+                <span className="font-mono text-[10px] text-[#5a5a7a] shrink-0 pt-px">{item.score.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      );
+    case "tool-remember":
+    case "tool-link":
+    case "tool-forget":
+      return part.state === "output-available" ? <MemoryChanges output={part.output} /> : null;
+  }
+}
+
+/**
+ * One tool call of an AI message: pending while the call runs, then its result
+ * or error. Memory writes list exactly what changed and can be undone from here.
+ */
+export function ToolCard({ part }: ToolCardProps) {
+  const name = toolName(part);
+  const title = TITLES[name] ?? { pending: name, done: name };
+  const done = part.state === "output-available" || part.state === "output-error" || part.state === "output-denied";
+  const body = toolBody(part);
+
+  return (
+    <div className="my-2 rounded-xl border border-[#252535] bg-[#0d0d14] text-xs text-[#c0c0d8] overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-[#1f1f2e] bg-[#12121a]">
+        <StateIcon state={part.state} />
+        <span className="font-medium">{done ? title.done : title.pending}</span>
+        <span className="ml-auto font-mono text-[10px] text-[#4a4a6a]">{name}</span>
+      </div>
+      {body && <div className="px-3 py-2">{body}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { authClient } from "../lib/auth";
+
+const initialsOf = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("") || "?";
+
+export function UserMenu() {
+  const { data } = authClient.useSession();
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  if (!data) return null;
+  const { user } = data;
+
+  const handleSignOut = async () => {
+    await authClient.signOut();
+    navigate("/sign-in");
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex-1 min-w-0">
+      {open && (
+        <div className="absolute bottom-full left-0 right-0 mb-2 rounded-xl border border-[#252535] bg-[#12121a] shadow-xl shadow-black/40 p-1.5 animate-message-in">
+          <div className="px-3 py-2 border-b border-[#1f1f2e] mb-1">
+            <p className="text-sm text-white truncate">{user.name}</p>
+            <p className="text-xs text-[#6b6b8a] truncate">{user.email}</p>
+          </div>
+          <Link href="/memory" className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-[#a0a0ba] hover:bg-[#1a1a28] hover:text-white transition-colors">
+            Memory Explorer
+          </Link>
+          <Link href="/billing" className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-[#a0a0ba] hover:bg-[#1a1a28] hover:text-white transition-colors">
+            Plan & Usage
+          </Link>
+          <button onClick={handleSignOut} className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-red-300 hover:bg-red-500/10 transition-colors">
+            Sign out
+          </button>
+        </div>
+      )}
+      <button onClick={() => setOpen((value) => !value)} className="w-full flex items-center gap-3 p-2 rounded-xl hover:bg-[#1a1a28] transition-colors text-left">
+        <div className="w-9 h-9 rounded-full bg-gradient-to-br from-violet-500 to-fuchsia-500 flex items-center justify-center text-white text-sm font-semibold shrink-0">
+          {initialsOf(user.name)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-white truncate">{user.name}</p>
+          <p className="text-xs text-[#6b6b8a] truncate">{user.email}</p>
+        </div>
+        <svg className={`w-4 h-4 text-[#6b6b8a] transition-transform ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
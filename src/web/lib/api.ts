@@ -0,0 +1,266 @@
+import type { UIMessage } from "ai"
+import type { ClientResponse, InferRequestType, InferResponseType } from "hono/client"
+import type { SuccessStatusCode } from "hono/utils/http-status"
+import type { ChatModel } from "../../api/agent/models"
+import type { ArchiveInput } from "../../api/archive/format"
+import type { FeatureId } from "../../api/billing/types"
+import type { MessageContext } from "../../api/database/schema"
+import type { ErrorCode, ErrorDetails, ErrorEnvelope } from "../../api/lib/errors"
+import { client } from "./client"
+
+export type { ChatModel, FeatureId, MessageContext }
+
+const { sessions, memory, documents, billing, settings, archive } = client.api
+
+// Serialized UI parts are too deep for the compiler, so messages keep the AI SDK's type for them
+type WithUIParts<T> = T extends readonly (infer Item)[]
+  ? WithUIParts<Item>[]
+  : T extends object ? { [K in keyof T]: K extends "parts" ? UIMessage["parts"] | null : WithUIParts<T[K]> } : T
+
+// What a route answers with when it succeeds, and what it takes, as the client infers them from the routes
+type ResponseOf<Endpoint> = WithUIParts<InferResponseType<Endpoint, SuccessStatusCode>>
+type InputOf<Endpoint, Target extends "json" | "query"> = NonNullable<InferRequestType<Endpoint>[Target & keyof InferRequestType<Endpoint>]>
+
+// Title of a session the model has not named yet
+export const DEFAULT_TITLE = "New Chat"
+
+export type SessionPage = ResponseOf<typeof sessions.$get>
+export type Session = SessionPage["sessions"][number]
+export type SessionView = NonNullable<InputOf<typeof sessions.$get, "query">["view"]>
+export type SessionPatch = InputOf<(typeof sessions)[":id"]["$patch"], "json">
+
+// The active branch of a session; each message lists the ids of its alternative versions (itself included)
+export type SessionBranch = ResponseOf<(typeof sessions)[":id"]["$get"]>
+export type BranchMessage = SessionBranch["messages"][number]
+export type Message = ResponseOf<(typeof sessions)[":id"]["messages"]["$post"]>["message"]
+
+export type SearchFilter = InputOf<typeof sessions.search.$get, "query">
+export type MessageHit = ResponseOf<typeof sessions.search.$get>["messages"][number]
+export type SessionHit = ResponseOf<typeof sessions.search.$get>["sessions"][number]
+
+export type MemoryNode = ResponseOf<typeof memory.graph.$get>["nodes"][number]
+export type MemoryEdge = ResponseOf<typeof memory.graph.$get>["edges"][number]
+export type MemoryAttributes = MemoryNode["attributes"]
+export type NodePatch = InputOf<(typeof memory.nodes)[":id"]["$patch"], "json">
+
+// One node or edge touched by a memory tool call
+export type ChangeSummary = ResponseOf<(typeof memory.operations)[":id"]["$get"]>["changes"][number]
+
+// One write to or read from memory; `label` is null once the item was purged
+export type AuditEntry = ResponseOf<typeof memory.audit.$get>["entries"][number]
+
+// An uploaded file; ingestion extracts it into memory chunk by chunk
+export type MemoryDocument = ResponseOf<(typeof documents)[":id"]["$get"]>["document"]
+
+export type Settings = ResponseOf<typeof settings.$get>["settings"]
+export type RedactionCategory = Settings["redaction"][number]
+export type SettingsPatch = InputOf<typeof settings.$patch, "json">
+export type ChatModelOption = ResponseOf<typeof settings.models.$get>["models"][number]
+
+// Reusable chat settings; its prompt replaces the account's
+export type Persona = ResponseOf<typeof settings.personas.$get>["personas"][number]
+export type PersonaInput = InputOf<typeof settings.personas.$post, "json">
+
+// What importing an archive did or, in a dry run, would do
+export type ImportReport = ResponseOf<typeof archive.import.$post>["report"]
+export type SessionExportFormat = NonNullable<InputOf<typeof archive.sessions.$get, "query">["format"]>
+export type MemoryExportFormat = NonNullable<InputOf<typeof archive.memory.$get, "query">["format"]>
+
+export type Billing = ResponseOf<typeof billing.$get>
+export type FeatureBalance = Billing["features"][number]
+export type Plan = Billing["plans"][number]
+
+export interface ApiErrorInfo {
+  status: number
+  code: ErrorCode
+  details: ErrorDetails | null
+  requestId: string | null
+}
+
+// Every failed request, carrying the error envelope of the API.
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ErrorCode
+  readonly details: ErrorDetails | null
+  readonly requestId: string | null
+
+  constructor(message: string, { status, code, details, requestId }: ApiErrorInfo) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.code = code
+    this.details = details
+    this.requestId = requestId
+  }
+
+  // Client errors will fail the same way again, unlike outages and server errors
+  get retryable() {
+    return this.status >= 500 || this.status === 0
+  }
+}
+
+// Thrown for 402 responses, so callers can offer an upgrade instead of a retry.
+export class QuotaExceededError extends ApiError {
+  readonly featureId: FeatureId
+
+  constructor(message: string, featureId: FeatureId, info: ApiErrorInfo) {
+    super(message, info)
+    this.name = "QuotaExceededError"
+    this.featureId = featureId
+  }
+}
+
+type Success<R> = R extends ClientResponse<infer Body, infer Status, string> ? (Status extends SuccessStatusCode ? WithUIParts<Body> : never) : never
+
+// Builds the error of a failed response from its envelope. Other bodies, e.g. of a proxy, get a generic message.
+export async function toApiError(response: Response) {
+  const body = await response.json().catch(() => null) as Partial<ErrorEnvelope> | null
+  const error = {
+    status: response.status,
+    code: body?.code ?? "internal_error",
+    details: body?.details ?? null,
+    requestId: body?.requestId ?? response.headers.get("X-Request-Id"),
+  }
+  const message = body?.message ?? `Request failed with status ${response.status}`
+  const featureId = error.details?.featureId as FeatureId | undefined
+  return response.status === 402 && featureId ? new QuotaExceededError(message, featureId, error) : new ApiError(message, error)
+}
+
+// Resolves to the body of a successful response, throws an ApiError otherwise.
+async function call<R extends ClientResponse<unknown, number, string>>(pending: Promise<R>): Promise<Success<R>> {
+  const response = await pending
+  if (!response.ok) throw await toApiError(response)
+  if (response.status === 204) return null as Success<R>
+  return response.json() as Promise<Success<R>>
+}
+
+export const fetchSessions = (cursor?: string | null, view: SessionView = "recent") =>
+  call(sessions.$get({ query: { view, ...(cursor && { cursor }) } }))
+
+export const searchSessions = (filter: SearchFilter) =>
+  call(sessions.search.$get({ query: filter }))
+
+export const createSession = (incognito = false) =>
+  call(sessions.$post({ json: { incognito } }))
+
+export const fetchSession = (id: string) =>
+  call(sessions[":id"].$get({ param: { id } }))
+
+export const updateSession = (id: string, patch: SessionPatch) =>
+  call(sessions[":id"].$patch({ param: { id }, json: patch }))
+
+export const deleteSession = (id: string) =>
+  call(sessions[":id"].$delete({ param: { id } }))
+
+// Names the session after its first exchange, unless it already has a title
+export const titleSession = (id: string) =>
+  call(sessions[":id"].title.$post({ param: { id } }))
+
+export const selectBranch = (sessionId: string, messageId: string) =>
+  call(sessions[":id"].branch.$post({ param: { id: sessionId }, json: { messageId } }))
+
+export const appendMessage = (sessionId: string, message: Pick<Message, "role" | "content">) =>
+  call(sessions[":id"].messages.$post({ param: { id: sessionId }, json: message }))
+
+// Not remembering a message also purges what memory learned from it and its replies alone
+export const rememberMessage = (sessionId: string, messageId: string, remember: boolean) =>
+  call(sessions[":id"].messages[":messageId"].$patch({ param: { id: sessionId, messageId }, json: { remember } }))
+
+export const fetchGraph = () =>
+  call(memory.graph.$get({ query: {} }))
+
+export const fetchNode = (id: string) =>
+  call(memory.nodes[":id"].$get({ param: { id } }))
+
+export const updateNode = (id: string, patch: NodePatch) =>
+  call(memory.nodes[":id"].$patch({ param: { id }, json: patch }))
+
+export const mergeNode = (id: string, intoId: string) =>
+  call(memory.nodes[":id"].merge.$post({ param: { id }, json: { intoId } }))
+
+export const deleteNode = (id: string) =>
+  call(memory.nodes[":id"].$delete({ param: { id } }))
+
+// Deletes the node and the facts about it alone for good, it cannot be undone
+export const purgeNode = (id: string) =>
+  call(memory.nodes[":id"].purge.$post({ param: { id } }))
+
+export type AuditFilter = Pick<InputOf<typeof memory.audit.$get, "query">, "itemId" | "action">
+
+export const fetchAudit = ({ itemId, action }: AuditFilter = {}, cursor?: string | null) =>
+  call(memory.audit.$get({ query: { ...(itemId && { itemId }), ...(action && { action }), ...(cursor && { cursor }) } }))
+
+export const deleteEdge = (id: string) =>
+  call(memory.edges[":id"].$delete({ param: { id } }))
+
+export const fetchAbandoned = () =>
+  call(memory.abandoned.$get())
+
+export const rollbackAbandoned = () =>
+  call(memory.abandoned.$delete())
+
+export const fetchOperation = (id: string) =>
+  call(memory.operations[":id"].$get({ param: { id } }))
+
+export const undoOperation = (id: string) =>
+  call(memory.operations[":id"].undo.$post({ param: { id } }))
+
+export const fetchDocuments = () =>
+  call(documents.$get({ query: {} }))
+
+export const fetchDocument = (id: string) =>
+  call(documents[":id"].$get({ param: { id } }))
+
+export const uploadDocument = (file: File) =>
+  call(documents.$post({ form: { file } }))
+
+// Also removes the memory that was learned from this document alone
+export const deleteDocument = (id: string) =>
+  call(documents[":id"].$delete({ param: { id } }))
+
+export const documentUrl = (id: string, page?: number | null) =>
+  `${documents[":id"].file.$url({ param: { id } }).pathname}${page ? `#page=${page}` : ""}`
+
+const pathOf = (url: URL) => `${url.pathname}${url.search}`
+
+// Download links; the browser sends the session cookie along
+export const archiveUrl = () =>
+  pathOf(archive.$url())
+
+export const sessionsExportUrl = (format: SessionExportFormat, sessionId?: string) =>
+  pathOf(archive.sessions.$url({ query: { format, ...(sessionId && { sessionId }) } }))
+
+export const memoryExportUrl = (format: MemoryExportFormat) =>
+  pathOf(archive.memory.$url({ query: { format } }))
+
+// The archive is checked by the API, a dry run reports what importing it would do
+export const importArchive = (file: unknown, dryRun: boolean) =>
+  call(archive.import.$post({ query: { dryRun: String(dryRun) }, json: file as ArchiveInput }))
+
+export const fetchSettings = () =>
+  call(settings.$get())
+
+export const updateSettings = (patch: SettingsPatch) =>
+  call(settings.$patch({ json: patch }))
+
+export const fetchModels = () =>
+  call(settings.models.$get())
+
+export const fetchPersonas = () =>
+  call(settings.personas.$get())
+
+export const createPersona = (input: PersonaInput) =>
+  call(settings.personas.$post({ json: input }))
+
+export const updatePersona = (id: string, patch: Partial<PersonaInput>) =>
+  call(settings.personas[":id"].$patch({ param: { id }, json: patch }))
+
+// Sessions that used the persona go back to the account's settings
+export const deletePersona = (id: string) =>
+  call(settings.personas[":id"].$delete({ param: { id } }))
+
+export const fetchBilling = () =>
+  call(billing.$get())
+
+export const checkout = (planId: string) =>
+  call(billing.checkout.$post({ json: { planId } }))
@@ -0,0 +1,45 @@
+import { fetchModels, fetchPersonas, fetchSettings, type ChatModelOption, type Persona, type Session, type Settings } from "./api"
+import { useResource } from "./resource"
+
+// Everything the settings panel and the chat header choose from
+export interface ChatOptions {
+  models: ChatModelOption[]
+  defaultModel: string
+  temperature: { min: number; max: number }
+  systemPromptLength: number
+  personas: Persona[]
+  settings: Settings
+}
+
+// What a reply of the session is written with, as src/api/settings/chat.ts resolves it
+export interface EffectiveChatSettings {
+  model: string
+  temperature: number | null
+  systemPrompt: string
+  persona: Persona | null
+}
+
+export const useChatOptions = () =>
+  useResource<ChatOptions>(async () => {
+    const [{ models, ...limits }, { personas }, { settings }] = await Promise.all([fetchModels(), fetchPersonas(), fetchSettings()])
+    return { models: [...models], ...limits, personas, settings }
+  }, [])
+
+export const modelName = (options: ChatOptions | undefined, id: string) =>
+  options?.models.find((model) => model.id === id)?.name ?? id
+
+// Reasoning models are called without a temperature, see src/api/agent/models.ts
+export const takesTemperature = (options: ChatOptions, id: string) =>
+  options.models.find((model) => model.id === id)?.supportsTemperature ?? true
+
+// Each setting comes from the session, then its persona, then the account, then the app
+export function effectiveSettings(options: ChatOptions, session: Session | undefined): EffectiveChatSettings {
+  const persona = options.personas.find((item) => item.id === session?.personaId) ?? null
+  const offered = (id: string | null | undefined): id is string => options.models.some((model) => model.id === id)
+  return {
+    model: [session?.model, persona?.model, options.settings.model].find(offered) ?? options.defaultModel,
+    temperature: session?.temperature ?? persona?.temperature ?? options.settings.temperature ?? null,
+    systemPrompt: session?.systemPrompt ?? (persona ? persona.systemPrompt : options.settings.systemPrompt) ?? "",
+    persona,
+  }
+}
@@ -0,0 +1,53 @@
+import type { UIDataTypes, UIMessage } from "ai"
+import type { ChangeSummary, Message, MessageContext } from "./api"
+
+export interface ChatMessageMetadata {
+  context?: MessageContext
+  // False when memory does not learn from the message
+  remember?: boolean
+  // The model that wrote a reply
+  model?: string
+}
+
+// What remember, link and forget return: the journal entry and every node and edge they touched
+export interface MemoryWrite {
+  operationId: string
+  changes: ChangeSummary[]
+}
+
+export interface RecalledItem {
+  kind: "node" | "edge"
+  id: string
+  text: string
+  score: number
+}
+
+// Inputs and outputs of the agent's tools in src/api/agent
+export type ChatTools = {
+  calculate: { input: { expression: string }; output: string }
+  remember: {
+    input: { entities?: { label: string; type: string }[]; facts?: { statement: string; about: string[] }[] }
+    output: MemoryWrite
+  }
+  recall: { input: { query: string; limit?: number }; output: { items: RecalledItem[] } }
+  link: { input: { source: string; target: string; type: string; weight?: number }; output: MemoryWrite }
+  forget: { input: { ids: string[] }; output: MemoryWrite }
+}
+
+export type ChatMessage = UIMessage<ChatMessageMetadata, UIDataTypes, ChatTools>
+
+export const textOf = (message: Pick<UIMessage, "parts">) =>
+  message.parts.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("")
+
+export const toUIMessage = (message: Message): ChatMessage => ({
+  id: message.id,
+  role: message.role === "ai" ? "assistant" : "user",
+  parts: (message.parts as ChatMessage["parts"] | null) ?? [{ type: "text", text: message.content }],
+  metadata: { ...(message.context && { context: message.context }), remember: message.remember, ...(message.model && { model: message.model }) },
+})
+
+// Messages are remembered unless said otherwise, e.g. by the "don't remember" toggle
+export const isRemembered = (message: Pick<ChatMessage, "metadata">) => message.metadata?.remember !== false
+
+export const messageLink = (sessionId: string, messageId: string) =>
+  `/?session=${encodeURIComponent(sessionId)}&message=${encodeURIComponent(messageId)}`
@@ -0,0 +1,15 @@
+/// <reference path="../../../worker-configuration.d.ts" />
+// The route types reference the worker's bindings, which only the reference above declares for the web build.
+import { hc } from "hono/client"
+import type { AppType } from "../../api/index"
+
+// Identifies this tab in sync events, so it can tell its own changes from others' (see lib/sync.ts)
+export const CLIENT_ID = crypto.randomUUID()
+export const CLIENT_ID_HEADER = "X-Client-Id"
+
+// Typed RPC client for the API; paths, inputs and JSON responses are inferred from the routes.
+// The base is absolute because `$url()` builds URL objects.
+export const client = hc<AppType>(window.location.origin, {
+  init: { credentials: "same-origin" },
+  headers: { [CLIENT_ID_HEADER]: CLIENT_ID },
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { mapProse, normalizeMath, repairMarkdown } from "./markdown"
+
+describe("mapProse", () => {
+  it("leaves fenced code and inline code alone", () => {
+    const text = "a `a` a\n```js\na\n```\na"
+
+    expect(mapProse(text, (prose) => prose.replace(/a/g, "b"))).toBe("b `a` b\n```js\na\n```\nb")
+  })
+
+  it("only ends a fence on a closing fence of the same kind that is at least as long", () => {
+    const text = "````\n```\na\n````\na"
+
+    expect(mapProse(text, (prose) => prose.replace(/a/g, "b"))).toBe("````\n```\na\n````\nb")
+  })
+})
+
+describe("normalizeMath", () => {
+  it("turns bracket delimiters into dollars outside code", () => {
+    expect(normalizeMath("\\(x^2\\) and \\[y\\] but `\\(z\\)`")).toBe("$x^2$ and $$y$$ but `\\(z\\)`")
+  })
+})
+
+describe("repairMarkdown", () => {
+  it("closes an unfinished code block with its own fence", () => {
+    expect(repairMarkdown("Look:\n~~~~python\nprint(**kwargs")).toBe("Look:\n~~~~python\nprint(**kwargs\n~~~~")
+  })
+
+  it("closes emphasis, strikethrough and inline code of the last paragraph only", () => {
+    expect(repairMarkdown("**Done** ~~old\n\nThis is **bold and ~~gone")).toBe("**Done** ~~old\n\nThis is **bold and ~~gone~~**")
+    expect(repairMarkdown("Run `npm")).toBe("Run `npm`")
+    // Asterisks inside a finished code span are not emphasis
+    expect(repairMarkdown("Use `**` for **bold")).toBe("Use `**` for **bold**")
+  })
+
+  it("shows a link whose target is still arriving as its text", () => {
+    expect(repairMarkdown("See [the docs](https://exa")).toBe("See the docs")
+  })
+
+  it("closes math blocks, on their own line when they were opened on one", () => {
+    expect(repairMarkdown("Sum $$x + y")).toBe("Sum $$x + y$$")
+    expect(repairMarkdown("$$\nx + y\n\nz")).toBe("$$\nx + y\n\nz\n$$")
+  })
+
+  it("leaves finished Markdown as it is", () => {
+    const text = "# Title\n\n**bold**, `code` and [a link](https://example.com)\n\n```\ncode\n```"
+
+    expect(repairMarkdown(text)).toBe(text)
+  })
+})
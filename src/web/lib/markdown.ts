@@ -0,0 +1,80 @@
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+// An inline code span, its content is literal.
+const INLINE_CODE = /(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g
+
+const outsideInlineCode = (prose: string, transform: (prose: string) => string) => {
+  let result = ""
+  let last = 0
+  for (const match of prose.matchAll(INLINE_CODE)) {
+    result += transform(prose.slice(last, match.index)) + match[0]
+    last = match.index + match[0].length
+  }
+  return result + transform(prose.slice(last))
+}
+
+/**
+ * Runs `transform` on everything outside fenced code blocks and inline code spans,
+ * so rewriting prose never touches code that happens to contain the same characters.
+ */
+export function mapProse(text: string, transform: (prose: string) => string) {
+  let result = ""
+  let prose = ""
+  let open: string | null = null
+  for (const line of text.split(/(?<=\n)/)) {
+    const fence = line.match(FENCE)?.[1]
+    if (open) {
+      if (fence && fence[0] === open[0] && fence.length >= open.length && line.trim() === fence) open = null
+      result += line
+    } else if (fence) {
+      result += outsideInlineCode(prose, transform) + line
+      prose = ""
+      open = fence
+    } else {
+      prose += line
+    }
+  }
+  return result + outsideInlineCode(prose, transform)
+}
+
+// Some models write \( \) and \[ \], the math plugin only understands dollars.
+export const normalizeMath = (text: string) =>
+  mapProse(text, (prose) =>
+    prose
+      .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `$$${math}$$`)
+      .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math}$`)
+  )
+
+const count = (text: string, token: string) => text.split(token).length - 1
+
+/**
+ * Closes whatever a reply that is still streaming left open, so half a code block or
+ * bold phrase does not turn the rest of the message into garbage until the next token.
+ */
+export function repairMarkdown(text: string) {
+  const fences = text.split("\n").flatMap((line) => line.match(FENCE)?.[1] ?? [])
+  // Inside an unfinished code block everything else is literal.
+  if (fences.length % 2 === 1) return `${text}\n${fences[fences.length - 1]}`
+
+  // Only the last paragraph can still be incomplete.
+  const start = text.lastIndexOf("\n\n") + 1
+  const head = text.slice(0, start)
+  // A link whose target is still arriving shows as plain text
+  const tail = text.slice(start).replace(/!?\[([^\]]*)\]\([^)]*$/, "$1")
+
+  const prose = tail.replace(INLINE_CODE, "")
+  if (count(prose, "`") % 2 === 1) return `${head}${tail}\``
+
+  let closing = ""
+  if (count(prose, "**") % 2 === 1) closing = `**${closing}`
+  if (count(prose, "~~") % 2 === 1) closing = `~~${closing}`
+  // Block math can span paragraphs, so its dollars are counted over the whole text.
+  let dollars = 0
+  mapProse(text, (part) => {
+    dollars += count(part, "$$")
+    return part
+  })
+  // A block opened on its own line has to be closed on its own line as well
+  if (dollars % 2 === 1) closing += /(^|\n) {0,3}\$\$[^$\n]*\n[^$]*$/.test(text) ? "\n$$" : "$$"
+  return `${head}${tail}${closing}`
+}
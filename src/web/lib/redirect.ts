@@ -0,0 +1,2 @@
+// Only same-app paths are followed after signing in, never another origin.
+export const safeRedirect = (next: string | null) => (next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
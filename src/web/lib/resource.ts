@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState, type DependencyList, type Dispatch, type SetStateAction } from "react"
+import { ApiError } from "./api"
+
+export interface Resource<T> {
+  data: T | undefined
+  error: Error | null
+  // True until the first load settles and again while reloading
+  loading: boolean
+  // Loads again, keeping the current data on screen meanwhile
+  reload: () => Promise<void>
+  // Replaces the data locally, e.g. with the result of a mutation
+  setData: Dispatch<SetStateAction<T | undefined>>
+}
+
+// Server errors and dropped connections are retried this many times before they are shown
+const RETRIES = 2
+const RETRY_DELAY = 600
+
+const isRetryable = (error: unknown) => !(error instanceof ApiError) || error.retryable
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Loads data for a component and tracks its loading and error state. A change of `deps`
+ * loads again while the previous data stays available; responses of superseded loads are
+ * dropped, so a slow request cannot overwrite a newer one. Client errors such as a 404
+ * fail right away, others are retried.
+ */
+export function useResource<T>(load: () => Promise<T>, deps: DependencyList): Resource<T> {
+  const [data, setData] = useState<T>()
+  const [error, setError] = useState<Error | null>(null)
+  const [loading, setLoading] = useState(true)
+  const latest = useRef(0)
+
+  // `deps` stands in for whatever `load` reads, as with useEffect
+  const run = useCallback(async () => {
+    const request = ++latest.current
+    setLoading(true)
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await load()
+        if (request !== latest.current) return
+        setData(result)
+        setError(null)
+        break
+      } catch (loadError) {
+        if (request !== latest.current) return
+        if (attempt < RETRIES && isRetryable(loadError)) {
+          await sleep(RETRY_DELAY * 2 ** attempt)
+          continue
+        }
+        setError(loadError as Error)
+        break
+      }
+    }
+    setLoading(false)
+  }, deps)
+
+  useEffect(() => {
+    void run()
+  }, [run])
+
+  return { data, error, loading, reload: run, setData }
+}
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useSyncExternalStore } from "react"
+import type { MemoryDocument, Message, Session } from "./api"
+import { client, CLIENT_ID } from "./client"
+
+// The events of src/api/sync/events.ts as they arrive over the WebSocket
+export type SyncEvent = {
+  // Null for streaming text, which is not replayed, and for "sync.reset"
+  id: number | null
+  // CLIENT_ID of the tab that made the change, see `isOwn`
+  origin: string | null
+} & (
+  | { type: "session.updated"; session: Session }
+  | { type: "session.deleted"; sessionId: string }
+  | { type: "message.created"; message: Message; session: Session }
+  | { type: "message.updated"; message: Message }
+  | { type: "message.streaming"; sessionId: string; parentId: string; messageId: string; text: string }
+  | { type: "memory.changed" }
+  | { type: "document.updated"; document: MemoryDocument }
+  | { type: "document.deleted"; documentId: string }
+  // Events were missed while disconnected and are no longer kept: load everything again
+  | { type: "sync.reset" }
+)
+
+type SyncMessage = SyncEvent | { type: "sync.ready"; lastEventId: number; resumed: boolean }
+
+export type SyncStatus = "connecting" | "connected" | "reconnecting" | "offline"
+
+// Reconnects back off exponentially between these delays
+const RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30_000
+// Failed attempts in a row after which the server counts as unreachable
+const OFFLINE_AFTER = 4
+// A ping keeps the socket from idling out; without any answer it is given up as dead
+const HEARTBEAT_INTERVAL = 25_000
+const HEARTBEAT_TIMEOUT = 10_000
+// The socket stays open this long without subscribers, e.g. while switching pages
+const IDLE_TIMEOUT = 5_000
+
+// Whether the event is the echo of a change this tab made itself
+export const isOwn = (event: SyncEvent) => event.origin === CLIENT_ID
+
+/**
+ * The WebSocket of this tab to the user's SyncRoom, shared by every component that listens.
+ * It opens with the first subscriber and reconnects with backoff, resuming after the last
+ * event it received. Status is "connected" once the server has replayed what was missed.
+ */
+class SyncConnection {
+  private status: SyncStatus = "connecting"
+  private socket: WebSocket | null = null
+  private lastEventId: number | null = null
+  private connectedBefore = false
+  private attempts = 0
+  private lastSeen = 0
+  private retryTimer: ReturnType<typeof setTimeout> | undefined
+  private idleTimer: ReturnType<typeof setTimeout> | undefined
+  private heartbeat: ReturnType<typeof setInterval> | undefined
+  private listeners = new Set<(event: SyncEvent) => void>()
+  private statusListeners = new Set<() => void>()
+
+  constructor() {
+    window.addEventListener("online", () => this.reconnectNow())
+    window.addEventListener("offline", () => {
+      this.drop()
+      this.setStatus("offline")
+    })
+    // Timers are throttled in background tabs, so a tab that comes back does not wait for its backoff
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "visible") this.reconnectNow()
+    })
+  }
+
+  subscribe = (listener: (event: SyncEvent) => void) => {
+    this.listeners.add(listener)
+    this.retain()
+    return () => {
+      this.listeners.delete(listener)
+      this.release()
+    }
+  }
+
+  subscribeStatus = (listener: () => void) => {
+    this.statusListeners.add(listener)
+    this.retain()
+    return () => {
+      this.statusListeners.delete(listener)
+      this.release()
+    }
+  }
+
+  getStatus = () => this.status
+
+  private get active() {
+    return this.listeners.size + this.statusListeners.size > 0
+  }
+
+  private retain() {
+    clearTimeout(this.idleTimer)
+    if (!this.socket && this.retryTimer === undefined) this.open()
+  }
+
+  private release() {
+    if (this.active) return
+    this.idleTimer = setTimeout(() => {
+      if (this.active) return
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+      this.drop()
+    }, IDLE_TIMEOUT)
+  }
+
+  private open() {
+    this.retryTimer = undefined
+    if (!navigator.onLine) {
+      this.setStatus("offline")
+      return
+    }
+    const url = client.api.sync.$url({ query: this.lastEventId === null ? {} : { after: String(this.lastEventId) } })
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:"
+    const socket = new WebSocket(url)
+    this.socket = socket
+    this.lastSeen = Date.now()
+    socket.onmessage = (message) => this.receive(message.data)
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.drop()
+      this.scheduleReconnect()
+    }
+    this.heartbeat = setInterval(() => this.checkHeartbeat(socket), HEARTBEAT_INTERVAL)
+  }
+
+  private receive(data: string) {
+    this.lastSeen = Date.now()
+    if (data === "pong") return
+    const message = JSON.parse(data) as SyncMessage
+    if (message.type === "sync.ready") {
+      if (!message.resumed && this.connectedBefore) this.emit({ type: "sync.reset", id: null, origin: null })
+      this.lastEventId = message.lastEventId
+      this.connectedBefore = true
+      this.attempts = 0
+      this.setStatus("connected")
+      return
+    }
+    if (message.id !== null) this.lastEventId = message.id
+    this.emit(message)
+  }
+
+  private checkHeartbeat(socket: WebSocket) {
+    if (Date.now() - this.lastSeen > HEARTBEAT_INTERVAL + HEARTBEAT_TIMEOUT) {
+      // A dead connection may take minutes to report its close, so it is abandoned right away
+      this.drop()
+      this.scheduleReconnect()
+    } else if (socket.readyState === WebSocket.OPEN) {
+      socket.send("ping")
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.active) return
+    if (!navigator.onLine || this.attempts >= OFFLINE_AFTER) this.setStatus("offline")
+    else this.setStatus(this.connectedBefore ? "reconnecting" : "connecting")
+    const delay = Math.min(MAX_RECONNECT_DELAY, RECONNECT_DELAY * 2 ** this.attempts++)
+    // Jitter keeps the tabs of a user from reconnecting all at once after an outage
+    this.retryTimer = setTimeout(() => this.open(), delay * (0.5 + Math.random() / 2))
+  }
+
+  private reconnectNow() {
+    if (!this.active || this.socket) return
+    clearTimeout(this.retryTimer)
+    this.attempts = 0
+    this.open()
+  }
+
+  private drop() {
+    clearInterval(this.heartbeat)
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+  }
+
+  private setStatus(status: SyncStatus) {
+    if (status === this.status) return
+    this.status = status
+    for (const listener of this.statusListeners) listener()
+  }
+
+  private emit(event: SyncEvent) {
+    for (const listener of this.listeners) {
+      // A failing listener is reported like an uncaught error without keeping the event from the others
+      try {
+        listener(event)
+      } catch (error) {
+        reportError(error)
+      }
+    }
+  }
+}
+
+const connection = new SyncConnection()
+
+/**
+ * Calls `handler` with every sync event while the component is mounted. The latest
+ * `handler` is used, so it may read the component's current state.
+ */
+export function useSyncEvents(handler: (event: SyncEvent) => void) {
+  const latest = useRef(handler)
+  useEffect(() => {
+    latest.current = handler
+  })
+  useEffect(() => connection.subscribe((event) => latest.current(event)), [])
+}
+
+export const useSyncStatus = () => useSyncExternalStore(connection.subscribeStatus, connection.getStatus)
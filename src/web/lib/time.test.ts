@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { dateGroup } from "./time"
+
+describe("dateGroup", () => {
+  const now = new Date(2026, 9, 19, 10, 30).getTime()
+
+  it("groups by calendar day rather than by 24 hours", () => {
+    expect(dateGroup(new Date(2026, 9, 19, 0, 5), now)).toBe("Today")
+    expect(dateGroup(new Date(2026, 9, 18, 23, 55), now)).toBe("Yesterday")
+    expect(dateGroup(new Date(2026, 9, 18, 0, 0), now)).toBe("Yesterday")
+  })
+
+  it("puts the week before yesterday together and everything else in Older", () => {
+    expect(dateGroup(new Date(2026, 9, 17, 23, 0), now)).toBe("Previous 7 days")
+    expect(dateGroup(new Date(2026, 9, 12, 1, 0), now)).toBe("Previous 7 days")
+    expect(dateGroup(new Date(2026, 9, 11, 23, 0), now)).toBe("Older")
+  })
+
+  it("counts times after now, from another device's clock, as today", () => {
+    expect(dateGroup(new Date(2026, 9, 20, 9, 0), now)).toBe("Today")
+  })
+})
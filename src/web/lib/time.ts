@@ -0,0 +1,34 @@
+const formatter = new Intl.RelativeTimeFormat("en", { numeric: "auto" })
+
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+]
+
+// "just now", "5 minutes ago", "yesterday", "2 weeks ago"...
+export function formatRelativeTime(date: string | Date, now = Date.now()) {
+  const seconds = Math.round((new Date(date).getTime() - now) / 1000)
+  const unit = UNITS.find(([, size]) => Math.abs(seconds) >= size)
+  if (!unit) return "just now"
+  return formatter.format(Math.round(seconds / unit[1]), unit[0])
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DATE_GROUPS = ["Today", "Yesterday", "Previous 7 days", "Older"] as const
+
+export type DateGroup = (typeof DATE_GROUPS)[number]
+
+// Calendar days in local time, so "Yesterday" starts at midnight rather than 24 hours ago
+export function dateGroup(date: string | Date, now = Date.now()): DateGroup {
+  const midnight = new Date(now)
+  midnight.setHours(0, 0, 0, 0)
+  const days = Math.ceil((midnight.getTime() - new Date(date).getTime()) / DAY_MS)
+  if (days <= 0) return "Today"
+  if (days === 1) return "Yesterday"
+  return days <= 7 ? "Previous 7 days" : "Older"
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { UsageBar } from "../components/billing/usage-bar";
+import { RequestError } from "../components/request-error";
+import { checkout, fetchBilling, type Plan } from "../lib/api";
+import { useResource } from "../lib/resource";
+
+const formatLimit = (value: number | null) => (value === null ? "Unlimited" : value.toLocaleString());
+
+const formatPrice = (plan: Plan) => (plan.price ? `$${plan.price}` : "$0");
+
+const formatReset = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+function Billing() {
+  const { data: billing, error: loadError, reload } = useResource(fetchBilling, []);
+  const [error, setError] = useState<Error | null>(null);
+  const [pendingPlan, setPendingPlan] = useState<string | null>(null);
+  const search = useSearch();
+  const upgraded = useMemo(() => new URLSearchParams(search).has("upgraded"), [search]);
+
+  const handleChoose = async (planId: string) => {
+    setPendingPlan(planId);
+    try {
+      const { url } = await checkout(planId);
+      // Paid plans go through the provider's checkout and come back to ?upgraded
+      if (url) {
+        window.location.href = url;
+        return;
+      }
+      await reload();
+    } catch (checkoutError) {
+      setError(checkoutError as Error);
+    } finally {
+      setPendingPlan(null);
+    }
+  };
+
+  const currentPlan = billing?.plans.find((plan) => plan.id === billing.planId);
+  const featureName = (featureId: string) =>
+    billing?.plans.flatMap((plan) => plan.features).find((feature) => feature.featureId === featureId)?.name ?? featureId;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] font-sans">
+      <header className="h-16 border-b border-[#1f1f2e] flex items-center px-4 gap-4 bg-[#0d0d14]/80 backdrop-blur-xl">
+        <Link href="/" className="p-2 rounded-lg hover:bg-[#1a1a28] text-[#8b8baa] transition-colors" title="Back to chat">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div className="min-w-0">
+          <h2 className="font-semibold text-white truncate">Plan & Usage</h2>
+          <p className="text-xs text-[#6b6b8a]">{currentPlan ? `${currentPlan.name} Plan` : "Loading…"}</p>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-6 space-y-8">
+        {upgraded && (
+          <p className="rounded-xl px-4 py-3 bg-emerald-500/10 border border-emerald-500/30 text-sm text-emerald-300">
+            Your plan has been updated.
+          </p>
+        )}
+        {loadError && !billing && <RequestError error={loadError} onRetry={() => void reload()} />}
+        {error && <RequestError error={error} />}
+
+        {billing && (
+          <section>
+            <h3 className="text-sm font-medium text-[#a0a0ba] mb-3">Usage</h3>
+            <div className="rounded-2xl border border-[#1f1f2e] bg-[#12121a] divide-y divide-[#1f1f2e]">
+              {billing.features.map((balance) => (
+                <div key={balance.featureId} className="p-4">
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-sm text-white">{featureName(balance.featureId)}</span>
+                    <span className="text-xs text-[#8b8baa]">
+                      {balance.usage.toLocaleString()} / {formatLimit(balance.limit)}
+                    </span>
+                  </div>
+                  <UsageBar balance={balance} />
+                  <p className="mt-2 text-xs text-[#6b6b8a]">
+                    {balance.resetsAt ? `Resets ${formatReset(balance.resetsAt)}` : "Counts everything currently stored"}
+                    {balance.overage && " · usage past the limit is billed"}
+                    {!balance.allowed && " · limit reached"}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {billing && (
+          <section>
+            <h3 className="text-sm font-medium text-[#a0a0ba] mb-3">Plans</h3>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {billing.plans.map((plan) => {
+                const current = plan.id === billing.planId;
+                return (
+                  <div
+                    key={plan.id}
+                    className={`rounded-2xl border p-5 flex flex-col ${
+                      current ? "border-emerald-500/40 bg-emerald-500/5" : "border-[#1f1f2e] bg-[#12121a]"
+                    }`}
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <h4 className="text-white font-semibold">{plan.name}</h4>
+                      <p className="text-white">
+                        <span className="text-2xl font-semibold">{formatPrice(plan)}</span>
+                        <span className="text-xs text-[#6b6b8a]"> / month</span>
+                      </p>
+                    </div>
+                    <ul className="mt-4 space-y-1.5 text-sm text-[#a0a0ba] flex-1">
+                      {plan.features.map((feature) => (
+                        <li key={feature.featureId}>
+                          {formatLimit(feature.included)} {feature.name.toLowerCase()}
+                          {feature.interval && ` per ${feature.interval}`}
+                          {feature.overage && ", then billed per use"}
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={() => handleChoose(plan.id)}
+                      disabled={current || pendingPlan !== null}
+                      className="mt-5 w-full py-2 rounded-xl text-sm font-medium transition-colors bg-emerald-500 hover:bg-emerald-400 text-white disabled:bg-[#1f1f2e] disabled:text-[#6b6b8a]"
+                    >
+                      {current ? "Current plan" : pendingPlan === plan.id ? "Redirecting…" : `Switch to ${plan.name}`}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Billing;
@@ -1,81 +1,435 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useChat } from "@ai-sdk/react";
+import { DefaultChatTransport, isStaticToolUIPart } from "ai";
+import { Link, useLocation, useSearch } from "wouter";
+import { UpgradePrompt } from "../components/billing/upgrade-prompt";
+import { UsageMeter } from "../components/billing/usage-meter";
+import { BranchNav } from "../components/branch-nav";
+import { ChatSettingsMenu } from "../components/chat-settings-menu";
+import { AttachButton } from "../components/documents/attach-button";
+import { DocumentProgress, isIngesting, useIngestionProgress } from "../components/documents/document-progress";
+import { Citations } from "../components/citations";
+import { Markdown } from "../components/markdown/markdown";
+import { RequestError } from "../components/request-error";
+import { SessionMenu } from "../components/session-menu";
+import { SessionSearch } from "../components/session-search";
+import { SettingsPanel } from "../components/settings/settings-panel";
+import { SyncIndicator } from "../components/sync-indicator";
+import { ToolCard } from "../components/tool-card";
+import { UserMenu } from "../components/user-menu";
+import {
+  createSession,
+  DEFAULT_TITLE,
+  deleteSession,
+  fetchSession,
+  fetchSessions,
+  QuotaExceededError,
+  rememberMessage,
+  selectBranch,
+  titleSession,
+  toApiError,
+  updateSession,
+  type BranchMessage,
+  type MemoryDocument,
+  type Session,
+  type SessionPatch,
+  type SessionView,
+} from "../lib/api";
+import { isRemembered, textOf, toUIMessage, type ChatMessage } from "../lib/chat";
+import { modelName, useChatOptions } from "../lib/chat-settings";
+import { CLIENT_ID, CLIENT_ID_HEADER } from "../lib/client";
+import { isOwn, useSyncEvents } from "../lib/sync";
+import { DATE_GROUPS, dateGroup, formatRelativeTime } from "../lib/time";
 
-interface Message {
-  id: string;
-  role: "user" | "ai";
-  content: string;
-  source?: string;
-}
-
-interface Session {
-  id: string;
-  title: string;
-  preview: string;
-  timestamp: string;
-}
+const WELCOME_MESSAGE: ChatMessage = {
+  id: "welcome",
+  role: "assistant",
+  parts: [{ type: "text", text: "Hello! I'm your AI assistant powered by Graph Memory. How can I help you today?" }],
+};
 
-const INITIAL_SESSIONS: Session[] = [
-  { id: "1", title: "Project Discussion", preview: "Let's review the architecture...", timestamp: "2 hours ago" },
-  { id: "2", title: "Code Review", preview: "The refactoring looks good...", timestamp: "Yesterday" },
-  { id: "3", title: "Research Notes", preview: "Found some interesting papers...", timestamp: "3 days ago" },
-  { id: "4", title: "Bug Investigation", preview: "The issue seems to be in...", timestamp: "1 week ago" },
-  { id: "5", title: "Feature Planning", preview: "We should consider adding...", timestamp: "2 weeks ago" },
-];
-
-const INITIAL_MESSAGES: Message[] = [
-  { id: "1", role: "ai", content: "Hello! I'm your AI assistant powered by Graph Memory. How can I help you today?", source: "Graph Memory" },
-  { id: "2", role: "user", content: "Can you explain how the memory system works?" },
-  { id: "3", role: "ai", content: "The Graph Memory system stores information as interconnected nodes, allowing for contextual retrieval based on relationships rather than just keywords. This means I can understand context and provide more relevant responses by tracing connections between concepts.", source: "Graph Memory" },
-];
-
-const AI_RESPONSES = [
-  "That's an interesting question! Based on my understanding, I'd suggest exploring that angle further.",
-  "Great point! Let me think about this... I believe the key insight here is the relationship between those concepts.",
-  "I've processed your input and here's what I found in my knowledge graph.",
-  "That's a fascinating topic! My graph memory suggests several related concepts we could explore.",
-  "Absolutely! Let me retrieve some relevant context from my memory banks.",
-];
+const byActivity = (a: Session, b: Session) => b.updatedAt.localeCompare(a.updatedAt);
 
 function Index() {
-  const [messages, setMessages] = useState<Message[]>(INITIAL_MESSAGES);
+  // Every session loaded so far, from any of the views; the sidebar sorts them into sections
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [cursors, setCursors] = useState<Record<SessionView, string | null>>({ recent: null, pinned: null, archived: null });
+  const [showArchived, setShowArchived] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [activeSession, setActiveSession] = useState("1");
+  const [activeSession, setActiveSession] = useState<string | null>(null);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [usageVersion, setUsageVersion] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [siblings, setSiblings] = useState<Record<string, string[]>>({});
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // Files attached from the input area, shown until dismissed
+  const [uploads, setUploads] = useState<MemoryDocument[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // The last request of the sidebar or a message action that failed, shown above the input until retried
+  const [failure, setFailure] = useState<{ error: Error; retry: () => void } | null>(null);
+  // The "don't remember" toggle of the input, which applies to the next message only
+  const [dontRemember, setDontRemember] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Models, personas and the account's defaults, for the settings panel and the header
+  const chatOptions = useChatOptions();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const linked = useMemo(() => {
+    const params = new URLSearchParams(search);
+    return { session: params.get("session"), message: params.get("message") };
+  }, [search]);
+  const pendingFocusRef = useRef<string | null>(linked.message);
+  const activeSessionRef = useRef<string | null>(null);
+  // Replies saved while another tab streamed them; their last streamed text can arrive after them
+  const savedRepliesRef = useRef(new Set<string>());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  // The server owns the history, so only the newest message is sent along with the session id.
+  // Its parent is the message shown before it, which differs from the newest one after an edit.
+  const transport = useMemo(() => new DefaultChatTransport({
+    api: "/api/chat",
+    headers: { [CLIENT_ID_HEADER]: CLIENT_ID },
+    prepareSendMessagesRequest: ({ messages }) => ({
+      body: {
+        sessionId: activeSessionRef.current,
+        parentId: messages.length > 1 ? messages[messages.length - 2].id : null,
+        message: messages[messages.length - 1],
+      },
+    }),
+    // Failed requests throw the API's error, so an exhausted quota becomes an upgrade prompt
+    fetch: async (input, init) => {
+      const response = await fetch(input, init);
+      if (!response.ok) throw await toApiError(response);
+      return response;
+    },
+  }), []);
+
+  const { messages, setMessages, sendMessage, regenerate, stop, status, error, clearError } = useChat<ChatMessage>({
+    transport,
+    onFinish: ({ message }) => {
+      if (activeSessionRef.current) {
+        touchSession(activeSessionRef.current, textOf(message));
+        void refreshSession(activeSessionRef.current);
+      }
+      setUsageVersion((version) => version + 1);
+    },
+  });
+  const isResponding = status === "submitted" || status === "streaming";
+
+  useIngestionProgress(uploads, (document) =>
+    setUploads((previous) => previous.map((item) => (item.id === document.id ? document : item))),
+  );
+  const current = sessions.find((session) => session.id === activeSession);
+
+  const pinned = useMemo(() => sessions.filter((session) => session.pinnedAt && !session.archivedAt).sort(byActivity), [sessions]);
+  const archived = useMemo(() => sessions.filter((session) => session.archivedAt).sort(byActivity), [sessions]);
+  const groups = useMemo(() => {
+    const recent = sessions.filter((session) => !session.pinnedAt && !session.archivedAt).sort(byActivity);
+    return DATE_GROUPS
+      .map((label) => ({ label, sessions: recent.filter((session) => dateGroup(session.updatedAt, now) === label) }))
+      .filter((group) => group.sessions.length > 0);
+  }, [sessions, now]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Follow the conversation, unless a citation link asked for a specific message
+  useEffect(() => {
+    const focus = pendingFocusRef.current && document.getElementById(`message-${pendingFocusRef.current}`);
+    if (!focus) {
+      scrollToBottom();
+      return;
+    }
+    focus.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlighted(pendingFocusRef.current);
+    pendingFocusRef.current = null;
+    const timeout = setTimeout(() => setHighlighted(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [messages, status]);
+
+  // Keep relative timestamps fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const focusSession = (id: string | null) => {
+    stop();
+    clearError();
+    setFailure(null);
+    activeSessionRef.current = id;
+    setActiveSession(id);
+    setMessages([]);
+    setSiblings({});
+    setEditing(null);
+    setRenaming(null);
+  };
+
+  // Adds sessions or replaces the loaded versions of them
+  const mergeSessions = (incoming: Session[]) => {
+    const ids = new Set(incoming.map((session) => session.id));
+    setSessions((prev) => [...prev.filter((session) => !ids.has(session.id)), ...incoming]);
+  };
+
+  const report = (error: unknown, retry: () => Promise<unknown>) =>
+    setFailure({ error: error as Error, retry: () => void retry() });
+
+  const showBranch = (branch: BranchMessage[]) => {
+    setMessages(branch.map(toUIMessage));
+    setSiblings(Object.fromEntries(branch.map((message) => [message.id, message.siblingIds])));
+  };
+
+  const selectSession = async (id: string) => {
+    focusSession(id);
+    setLoadingMessages(true);
+    try {
+      const { messages } = await fetchSession(id);
+      // A link into another branch switches to that branch
+      const focus = pendingFocusRef.current;
+      const branch = focus && !messages.some((message) => message.id === focus)
+        ? (await selectBranch(id, focus).catch(() => null))?.messages ?? messages
+        : messages;
+      if (activeSessionRef.current === id) showBranch(branch);
+    } catch (error) {
+      if (activeSessionRef.current === id) report(error, () => selectSession(id));
+    } finally {
+      if (activeSessionRef.current === id) setLoadingMessages(false);
+    }
+  };
+
+  // New replies and edits add versions, so the "< 2/3 >" counts are reloaded after each turn,
+  // along with the server's preview. The first exchange also gets the session a title.
+  const refreshSession = async (sessionId: string) => {
+    try {
+      const { session, messages } = await fetchSession(sessionId);
+      mergeSessions([session]);
+      if (activeSessionRef.current === sessionId) {
+        setSiblings(Object.fromEntries(messages.map((message) => [message.id, message.siblingIds])));
+      }
+      if (session.title === DEFAULT_TITLE && messages.some((message) => message.role === "ai")) {
+        mergeSessions([(await titleSession(sessionId)).session]);
+      }
+    } catch (error) {
+      report(error, () => refreshSession(sessionId));
+    }
+  };
+
+  // Shows the active branch as the server has it, e.g. after another tab added to it
+  const reloadBranch = async (sessionId: string) => {
+    try {
+      const { session, messages } = await fetchSession(sessionId);
+      mergeSessions([session]);
+      if (activeSessionRef.current === sessionId) showBranch(messages);
+    } catch (error) {
+      report(error, () => reloadBranch(sessionId));
+    }
+  };
+
+  const switchBranch = async (messageId: string) => {
+    const sessionId = activeSessionRef.current;
+    if (!sessionId || isResponding) return;
+    try {
+      const { messages } = await selectBranch(sessionId, messageId);
+      if (activeSessionRef.current !== sessionId) return;
+      pendingFocusRef.current = messageId;
+      showBranch(messages);
+    } catch (error) {
+      report(error, () => switchBranch(messageId));
+    }
+  };
+
+  // An edited prompt is sent as a sibling of the original, under the same parent
+  const handleEdit = (index: number, text: string) => {
+    const content = text.trim();
+    setEditing(null);
+    if (!content || isResponding || content === textOf(messages[index])) return;
+    setMessages(messages.slice(0, index));
+    sendMessage({ text: content, metadata: { remember: isRemembered(messages[index]) } });
+  };
+
+  // Applies what the server says about remembering messages to the ones shown
+  const applyRemember = (updated: { id: string; remember: boolean }[]) => {
+    const remembered = new Map(updated.map((message) => [message.id, message.remember]));
+    setMessages((previous) => previous.map((message) =>
+      remembered.has(message.id) ? { ...message, metadata: { ...message.metadata, remember: remembered.get(message.id) } } : message,
+    ));
+  };
+
+  // Not remembering a sent message also takes back what memory learned from it and its replies alone
+  const toggleRemember = async (message: ChatMessage) => {
+    const sessionId = activeSessionRef.current;
+    if (!sessionId) return;
+    try {
+      applyRemember((await rememberMessage(sessionId, message.id, !isRemembered(message))).messages);
+    } catch (error) {
+      report(error, () => toggleRemember(message));
+    }
+  };
+
+  // Sessions are ordered by activity, so a touched session moves to the top
+  const touchSession = (id: string, preview: string) => {
+    setSessions((prev) => {
+      const session = prev.find((s) => s.id === id);
+      if (!session) return prev;
+      const touched = { ...session, preview: preview.replace(/\s+/g, " ").trim(), updatedAt: new Date().toISOString() };
+      return [touched, ...prev.filter((s) => s.id !== id)];
+    });
+  };
+
+  const loadSessions = async (view: SessionView, cursor?: string | null) => {
+    try {
+      const page = await fetchSessions(cursor, view);
+      mergeSessions(page.sessions);
+      setCursors((prev) => ({ ...prev, [view]: page.nextCursor }));
+      return page.sessions;
+    } catch (error) {
+      report(error, () => loadSessions(view, cursor));
+      return [];
+    }
+  };
+
+  useEffect(() => {
+    Promise.all([loadSessions("pinned"), loadSessions("recent")]).then((loaded) => {
+      if (linked.session) return;
+      const [latest] = loaded.flat().sort(byActivity);
+      if (latest) selectSession(latest.id);
+    });
+  }, []);
+
+  const toggleArchived = () => {
+    if (!showArchived && archived.length === 0) void loadSessions("archived");
+    setShowArchived((value) => !value);
+  };
+
+  const changeSession = async (id: string, patch: SessionPatch) => {
+    try {
+      mergeSessions([(await updateSession(id, patch)).session]);
+    } catch (error) {
+      report(error, () => changeSession(id, patch));
+    }
+  };
+
+  const forgetSession = (id: string) => {
+    setSessions((prev) => prev.filter((session) => session.id !== id));
+    if (activeSessionRef.current !== id) return;
+    if (search) navigate("/", { replace: true });
+    focusSession(null);
+  };
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      forgetSession(id);
+    } catch (error) {
+      report(error, () => removeSession(id));
+    }
+  };
+
+  // Changes from the user's other tabs and devices. While this tab streams a reply of its own,
+  // its messages are left alone; the reload after the reply picks up what happened meanwhile.
+  useSyncEvents((event) => {
+    const active = activeSessionRef.current;
+    switch (event.type) {
+      case "session.updated": {
+        mergeSessions([event.session]);
+        const shownLeaf = messages[messages.length - 1]?.id ?? null;
+        // Another tab switched to a different branch
+        if (!isOwn(event) && event.session.id === active && !isResponding && event.session.leafId !== shownLeaf) {
+          void reloadBranch(event.session.id);
+        }
+        break;
+      }
+      case "session.deleted":
+        forgetSession(event.sessionId);
+        break;
+      case "message.created":
+        savedRepliesRef.current.add(event.message.id);
+        mergeSessions([event.session]);
+        setUsageVersion((version) => version + 1);
+        if (!isOwn(event) && event.message.sessionId === active && !isResponding) void reloadBranch(active);
+        break;
+      case "message.updated":
+        if (event.message.sessionId === active) applyRemember([event.message]);
+        break;
+      case "message.streaming":
+        if (isOwn(event) || event.sessionId !== active || isResponding || savedRepliesRef.current.has(event.messageId)) break;
+        setMessages((previous) => {
+          const parent = previous.findIndex((message) => message.id === event.parentId);
+          if (parent === -1) return previous;
+          const reply: ChatMessage = { id: event.messageId, role: "assistant", parts: [{ type: "text", text: event.text }] };
+          return [...previous.slice(0, parent + 1), reply];
+        });
+        break;
+      case "sync.reset":
+        void Promise.all([loadSessions("pinned"), loadSessions("recent")]);
+        if (active && !isResponding) void reloadBranch(active);
+        break;
+    }
+  });
+
+  const commitRename = () => {
+    const title = renaming?.trim();
+    setRenaming(null);
+    if (current && title && title !== current.title) void changeSession(current.id, { title });
+  };
+
+  // Citation links point at "/?session=...&message=..."
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!linked.session) return;
+    pendingFocusRef.current = linked.message;
+    if (linked.session !== activeSessionRef.current) {
+      selectSession(linked.session);
+    } else if (linked.message && !messages.some((message) => message.id === linked.message)) {
+      switchBranch(linked.message);
+    } else if (linked.message) {
+      document.getElementById(`message-${linked.message}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlighted(linked.message);
+      pendingFocusRef.current = null;
+    }
+  }, [linked]);
+
+  const startSession = async (incognito = false) => {
+    const { session } = await createSession(incognito);
+    mergeSessions([session]);
+    focusSession(session.id);
+    return session;
+  };
 
-  const handleSend = () => {
-    if (!inputValue.trim()) return;
+  const handleNewChat = async (incognito = false) => {
+    try {
+      await startSession(incognito);
+      setSidebarOpen(false);
+      inputRef.current?.focus();
+    } catch (error) {
+      report(error, () => handleNewChat(incognito));
+    }
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content: inputValue.trim(),
-    };
+  const send = async (text: string) => {
+    const content = text.trim();
+    if (!content || isResponding) return;
 
-    setMessages((prev) => [...prev, userMessage]);
     setInputValue("");
 
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "ai",
-        content: AI_RESPONSES[Math.floor(Math.random() * AI_RESPONSES.length)],
-        source: "Graph Memory",
-      };
-      setMessages((prev) => [...prev, aiResponse]);
-    }, 800);
+    try {
+      const sessionId = activeSessionRef.current ?? (await startSession()).id;
+      touchSession(sessionId, content);
+      sendMessage({ text: content, metadata: { remember: !dontRemember } });
+      setDontRemember(false);
+    } catch (error) {
+      // The text goes back into the input until it is sent again
+      setInputValue(content);
+      report(error, () => send(content));
+    }
   };
 
+  const handleSend = () => send(inputValue);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -83,6 +437,48 @@ function Index() {
     }
   };
 
+  const renderSession = (session: Session) => (
+    <button
+      key={session.id}
+      onClick={() => {
+        if (search) navigate("/", { replace: true });
+        selectSession(session.id);
+        setSidebarOpen(false);
+      }}
+      className={`
+        w-full text-left p-3 rounded-xl
+        transition-all duration-200
+        group relative
+        ${activeSession === session.id 
+          ? "bg-gradient-to-r from-emerald-500/15 to-cyan-500/10 border border-emerald-500/20" 
+          : "hover:bg-[#1a1a28] border border-transparent"}
+      `}
+    >
+      <div className="flex items-start gap-3">
+        <div className={`
+          w-8 h-8 rounded-lg flex items-center justify-center shrink-0 mt-0.5
+          ${activeSession === session.id 
+            ? "bg-emerald-500/20 text-emerald-400" 
+            : "bg-[#1f1f2e] text-[#6b6b8a] group-hover:bg-[#252535] group-hover:text-[#8b8baa]"}
+          transition-colors duration-200
+        `}>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+          </svg>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className={`font-medium text-sm truncate ${activeSession === session.id ? "text-white" : "text-[#a0a0ba]"}`}>
+            {session.title}
+          </p>
+          <p className="text-xs text-[#5a5a7a] truncate mt-0.5">{session.preview || "No messages yet"}</p>
+          <p className="text-[10px] text-[#4a4a6a] mt-1" title={new Date(session.updatedAt).toLocaleString()}>
+            {formatRelativeTime(session.updatedAt, now)}
+          </p>
+        </div>
+      </div>
+    </button>
+  );
+
   return (
     <div className="h-screen w-screen flex overflow-hidden bg-[#0a0a0f] font-sans">
       {/* Mobile overlay */}
@@ -119,7 +515,7 @@ function Index() {
 
         {/* New chat button */}
         <div className="p-3">
-          <button className="
+          <button onClick={() => handleNewChat()} className="
             w-full py-3 px-4 rounded-xl
             bg-gradient-to-r from-emerald-500/10 to-cyan-500/10
             border border-emerald-500/30
@@ -135,67 +531,93 @@ function Index() {
             </svg>
             New Chat
           </button>
+          <button onClick={() => handleNewChat(true)} className="
+            mt-2 w-full py-2 px-4 rounded-xl
+            text-[#8b8baa] text-sm
+            flex items-center justify-center gap-2
+            hover:bg-[#1a1a28] hover:text-white
+            transition-colors duration-200
+          " title="Nothing said in an incognito chat is remembered">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+            </svg>
+            Incognito Chat
+          </button>
+          <Link href="/memory" className="
+            mt-2 w-full py-2 px-4 rounded-xl
+            text-[#8b8baa] text-sm
+            flex items-center justify-center gap-2
+            hover:bg-[#1a1a28] hover:text-white
+            transition-colors duration-200
+          ">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <circle cx="6" cy="6" r="2.5" strokeWidth={1.5} />
+              <circle cx="18" cy="8" r="2.5" strokeWidth={1.5} />
+              <circle cx="10" cy="18" r="2.5" strokeWidth={1.5} />
+              <path strokeLinecap="round" strokeWidth={1.5} d="M8.3 6.9l7.4.8M7.1 8.2l2 7.4M11.8 16.3l4.6-6.3" />
+            </svg>
+            Memory Explorer
+          </Link>
         </div>
 
-        {/* Sessions list */}
-        <div className="flex-1 overflow-y-auto px-3 py-2">
-          <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-3 px-2">Recent Sessions</p>
-          <nav className="space-y-1">
-            {INITIAL_SESSIONS.map((session) => (
-              <button
-                key={session.id}
-                onClick={() => {
-                  setActiveSession(session.id);
-                  setSidebarOpen(false);
-                }}
-                className={`
-                  w-full text-left p-3 rounded-xl
-                  transition-all duration-200
-                  group relative
-                  ${activeSession === session.id 
-                    ? "bg-gradient-to-r from-emerald-500/15 to-cyan-500/10 border border-emerald-500/20" 
-                    : "hover:bg-[#1a1a28] border border-transparent"}
-                `}
-              >
-                <div className="flex items-start gap-3">
-                  <div className={`
-                    w-8 h-8 rounded-lg flex items-center justify-center shrink-0 mt-0.5
-                    ${activeSession === session.id 
-                      ? "bg-emerald-500/20 text-emerald-400" 
-                      : "bg-[#1f1f2e] text-[#6b6b8a] group-hover:bg-[#252535] group-hover:text-[#8b8baa]"}
-                    transition-colors duration-200
-                  `}>
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                    </svg>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className={`font-medium text-sm truncate ${activeSession === session.id ? "text-white" : "text-[#a0a0ba]"}`}>
-                      {session.title}
-                    </p>
-                    <p className="text-xs text-[#5a5a7a] truncate mt-0.5">{session.preview}</p>
-                    <p className="text-[10px] text-[#4a4a6a] mt-1">{session.timestamp}</p>
-                  </div>
-                </div>
-              </button>
-            ))}
-          </nav>
+        <SessionSearch now={now} onActiveChange={setSearching} onOpen={() => setSidebarOpen(false)} />
+
+        {/* Sessions list, replaced by search results while searching */}
+        <div className={`flex-1 overflow-y-auto px-3 py-2 ${searching ? "hidden" : ""}`}>
+          {pinned.length === 0 && groups.length === 0 && (
+            <p className="text-xs text-[#5a5a7a] px-2">No sessions yet. Start a new chat.</p>
+          )}
+          {[{ label: "Pinned", sessions: pinned }, ...groups].filter((section) => section.sessions.length > 0).map((section) => (
+            <section key={section.label} className="mb-4">
+              <p className="text-[10px] uppercase tracking-widest text-[#4a4a6a] font-semibold mb-2 px-2">{section.label}</p>
+              <nav className="space-y-1">{section.sessions.map(renderSession)}</nav>
+            </section>
+          ))}
+          {cursors.recent && (
+            <button
+              onClick={() => loadSessions("recent", cursors.recent)}
+              className="w-full py-2 text-xs text-[#6b6b8a] hover:text-emerald-400 transition-colors"
+            >
+              Load more
+            </button>
+          )}
+
+          <button
+            onClick={toggleArchived}
+            className="w-full flex items-center gap-1.5 px-2 py-2 text-[10px] uppercase tracking-widest font-semibold text-[#4a4a6a] hover:text-[#8b8baa] transition-colors"
+          >
+            <svg className={`w-3 h-3 transition-transform ${showArchived ? "rotate-90" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            Archived
+          </button>
+          {showArchived && (
+            <nav className="space-y-1">
+              {archived.length === 0 && <p className="text-xs text-[#5a5a7a] px-2">No archived sessions.</p>}
+              {archived.map(renderSession)}
+              {cursors.archived && (
+                <button
+                  onClick={() => loadSessions("archived", cursors.archived)}
+                  className="w-full py-2 text-xs text-[#6b6b8a] hover:text-emerald-400 transition-colors"
+                >
+                  Load more
+                </button>
+              )}
+            </nav>
+          )}
         </div>
 
         {/* Sidebar footer */}
         <div className="p-3 border-t border-[#1f1f2e]">
-          <div className="flex items-center gap-3 p-2 rounded-xl hover:bg-[#1a1a28] transition-colors cursor-pointer">
-            <div className="w-9 h-9 rounded-full bg-gradient-to-br from-violet-500 to-fuchsia-500 flex items-center justify-center text-white text-sm font-semibold">
-              U
-            </div>
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-white truncate">User</p>
-              <p className="text-xs text-[#6b6b8a]">Free Plan</p>
-            </div>
-            <svg className="w-4 h-4 text-[#6b6b8a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-            </svg>
+          <UsageMeter refreshKey={usageVersion} />
+          <div className="flex items-center gap-1">
+            <UserMenu />
+            <button onClick={() => setShowSettings(true)} className="p-2 rounded-lg hover:bg-[#1a1a28] transition-colors" title="Settings">
+              <svg className="w-4 h-4 text-[#6b6b8a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
           </div>
         </div>
       </aside>
@@ -215,28 +637,58 @@ function Index() {
           </button>
 
           <div className="flex-1 min-w-0">
-            <h2 className="font-semibold text-white truncate">
-              {INITIAL_SESSIONS.find(s => s.id === activeSession)?.title || "New Chat"}
-            </h2>
-            <div className="flex items-center gap-2 mt-0.5">
-              <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
-              <span className="text-xs text-[#6b6b8a]">Connected to Graph Memory</span>
-            </div>
+            {renaming !== null && current ? (
+              <input
+                autoFocus
+                value={renaming}
+                onChange={(event) => setRenaming(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") commitRename();
+                  if (event.key === "Escape") setRenaming(null);
+                }}
+                onBlur={commitRename}
+                maxLength={200}
+                className="w-full bg-[#12121a] border border-emerald-500/40 rounded-lg px-2 py-0.5 font-semibold text-white outline-none"
+              />
+            ) : (
+              <h2 className="font-semibold text-white truncate flex items-center gap-2">
+                <span className="truncate">{current?.title || DEFAULT_TITLE}</span>
+                {current?.incognito && (
+                  <span
+                    className="shrink-0 px-1.5 py-0.5 rounded-md bg-[#1f1f2e] text-[10px] font-medium uppercase tracking-wider text-[#8b8baa]"
+                    title="Nothing said in this chat is remembered"
+                  >
+                    Incognito
+                  </span>
+                )}
+              </h2>
+            )}
+            <SyncIndicator />
           </div>
 
-          <button className="p-2 rounded-lg hover:bg-[#1a1a28] text-[#8b8baa] transition-colors">
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
-            </svg>
-          </button>
+          <ChatSettingsMenu
+            session={current}
+            options={chatOptions.data}
+            onChange={(patch) => current && void changeSession(current.id, patch)}
+          />
+
+          <SessionMenu
+            session={current}
+            onRename={() => current && setRenaming(current.title)}
+            onPin={(pinned) => current && void changeSession(current.id, { pinned })}
+            onArchive={(archived) => current && void changeSession(current.id, { archived })}
+            onIncognito={(incognito) => current && void changeSession(current.id, { incognito })}
+            onDelete={() => current && void removeSession(current.id)}
+          />
         </header>
 
         {/* Messages area */}
         <div className="flex-1 overflow-y-auto scroll-smooth">
           <div className="max-w-3xl mx-auto px-4 py-6 space-y-6">
-            {messages.map((message, index) => (
+            {(messages.length > 0 || loadingMessages ? messages : [WELCOME_MESSAGE]).map((message, index) => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex ${message.role === "user" ? "justify-end" : "justify-start"} animate-message-in`}
                 style={{ animationDelay: `${index * 50}ms` }}
               >
@@ -256,36 +708,179 @@ function Index() {
                     {message.role === "user" ? (
                       <span className="text-white text-xs font-semibold">U</span>
                     ) : (
-                      <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                      </svg>
-                    )}
+                        <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                        </svg>
+              )}
                   </div>
 
-                  {/* Message bubble */}
-                  <div className={`
-                    relative rounded-2xl px-4 py-3
-                    ${message.role === "user" 
-                      ? "bg-gradient-to-br from-violet-600/90 to-fuchsia-600/90 text-white rounded-tr-sm" 
-                      : "bg-[#16161f] border border-[#252535] text-[#e0e0f0] rounded-tl-sm"}
-                  `}>
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
-                    
-                    {/* Source badge for AI messages */}
-                    {message.role === "ai" && message.source && (
-                      <div className="mt-2 flex items-center gap-1.5">
-                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">
-                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
-                          </svg>
-                          Source: {message.source}
-                        </span>
+                  <div className={`flex flex-col gap-1 min-w-0 ${message.role === "user" ? "items-end" : "items-start"}`}>
+                    {/* Message bubble */}
+                    <div className={`
+                      relative max-w-full rounded-2xl px-4 py-3 transition-shadow duration-500
+                      ${editing?.id === message.id ? "w-full min-w-[16rem]" : ""}
+                      ${highlighted === message.id ? "ring-2 ring-emerald-400/60 shadow-lg shadow-emerald-500/20" : ""}
+                      ${message.role === "user" 
+                        ? "bg-gradient-to-br from-violet-600/90 to-fuchsia-600/90 text-white rounded-tr-sm" 
+                        : "bg-[#16161f] border border-[#252535] text-[#e0e0f0] rounded-tl-sm"}
+                    `}>
+                      {editing?.id === message.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            autoFocus
+                            value={editing.text}
+                            onChange={(event) => setEditing({ id: message.id, text: event.target.value })}
+                            onKeyDown={(event) => {
+                              if (event.key === "Escape") setEditing(null);
+                              if (event.key === "Enter" && !event.shiftKey) {
+                                event.preventDefault();
+                                handleEdit(index, editing.text);
+                              }
+                            }}
+                            rows={Math.min(editing.text.split("\n").length + 1, 8)}
+                            className="w-full bg-black/20 rounded-lg px-2 py-1.5 text-sm leading-relaxed outline-none resize-none"
+                          />
+                          <div className="flex justify-end gap-2 text-xs">
+                            <button onClick={() => setEditing(null)} className="px-2.5 py-1 rounded-lg hover:bg-white/10 transition-colors">
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => handleEdit(index, editing.text)}
+                              className="px-2.5 py-1 rounded-lg bg-white/20 hover:bg-white/30 font-medium transition-colors"
+                            >
+                              Send
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        message.parts.map((part, partIndex) => {
+                          if (part.type === "text") {
+                            return (
+                              <Markdown
+                                key={partIndex}
+                                content={part.text}
+                                streaming={status === "streaming" && index === messages.length - 1 && partIndex === message.parts.length - 1}
+                                preserveBreaks={message.role === "user"}
+                              />
+                            );
+                          }
+                          return isStaticToolUIPart(part) ? <ToolCard key={part.toolCallId} part={part} /> : null;
+                        })
+                      )}
+                      
+                      {/* Source badge for AI messages */}
+                      {message.role === "assistant" && message.id !== WELCOME_MESSAGE.id && !(isResponding && index === messages.length - 1) && (
+                        <Citations context={message.metadata?.context} />
+                      )}
+                    </div>
+
+                    {/* Branch navigation, edit and regenerate */}
+                    {message.id !== WELCOME_MESSAGE.id && editing?.id !== message.id && !(isResponding && index >= messages.length - 2) && (
+                      <div className="flex items-center gap-1 px-1 text-[#6b6b8a]">
+                        <BranchNav
+                          messageId={message.id}
+                          siblingIds={siblings[message.id] ?? []}
+                          disabled={isResponding}
+                          onSelect={switchBranch}
+                        />
+                        {!isRemembered(message) && (
+                          <span className="px-1 text-[10px]" title="Memory does not learn from this message">Not remembered</span>
+                        )}
+                        {message.metadata?.model && (
+                          <span className="px-1 text-[10px]" title={`Written by ${message.metadata.model}`}>
+                            {modelName(chatOptions.data, message.metadata.model)}
+                          </span>
+                        )}
+                        {message.role === "user" && !current?.incognito && (
+                          <button
+                            onClick={() => void toggleRemember(message)}
+                            disabled={isResponding}
+                            className="p-1 rounded hover:bg-[#1a1a28] hover:text-white disabled:opacity-30 transition-colors"
+                            title={isRemembered(message) ? "Don't remember this message and forget what was learned from it" : "Remember future replies to this message"}
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              {isRemembered(message) ? (
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                              ) : (
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0zM2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                              )}
+                            </svg>
+                          </button>
+                        )}
+                        {message.role === "user" ? (
+                          <button
+                            onClick={() => setEditing({ id: message.id, text: textOf(message) })}
+                            disabled={isResponding}
+                            className="p-1 rounded hover:bg-[#1a1a28] hover:text-white disabled:opacity-30 transition-colors"
+                            title="Edit message"
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M4 20h4L18.768 9.232a2.5 2.5 0 00-3.536-3.536L4.5 16.464V20z" />
+                            </svg>
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => regenerate({ messageId: message.id })}
+                            disabled={isResponding}
+                            className="p-1 rounded hover:bg-[#1a1a28] hover:text-white disabled:opacity-30 transition-colors"
+                            title="Regenerate reply"
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
                 </div>
               </div>
             ))}
+
+            {/* Typing indicator until the first token arrives */}
+            {status === "submitted" && (
+              <div className="flex justify-start animate-message-in">
+                <div className="flex gap-3">
+                  <div className="w-8 h-8 rounded-lg shrink-0 flex items-center justify-center bg-gradient-to-br from-emerald-400 to-cyan-500 shadow-lg shadow-emerald-500/20">
+                    <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                    </svg>
+                  </div>
+                  <div className="rounded-2xl rounded-tl-sm px-4 py-4 bg-[#16161f] border border-[#252535] flex items-center gap-1">
+                    {[0, 150, 300].map((delay) => (
+                      <span
+                        key={delay}
+                        className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-bounce"
+                        style={{ animationDelay: `${delay}ms` }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Error state with retry, or an upgrade prompt once the plan is used up */}
+            {error instanceof QuotaExceededError && (
+              <div className="flex justify-start animate-message-in">
+                <UpgradePrompt message={error.message} />
+              </div>
+            )}
+            {error && !(error instanceof QuotaExceededError) && (
+              <div className="flex justify-start animate-message-in">
+                <div className="flex items-center gap-3 rounded-2xl px-4 py-3 bg-red-500/10 border border-red-500/30 text-sm text-red-300">
+                  <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span>{error.message || "Something went wrong."}</span>
+                  <button
+                    onClick={() => regenerate()}
+                    className="px-2.5 py-1 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-200 text-xs font-medium transition-colors"
+                  >
+                    Retry
+                  </button>
+                </div>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
         </div>
@@ -293,13 +888,71 @@ function Index() {
         {/* Input area */}
         <div className="border-t border-[#1f1f2e] p-4 bg-gradient-to-t from-[#0a0a0f] to-transparent">
           <div className="max-w-3xl mx-auto">
+            {failure && (
+              <RequestError
+                error={failure.error}
+                onRetry={() => {
+                  setFailure(null);
+                  failure.retry();
+                }}
+                className="mb-2 animate-message-in"
+              />
+            )}
+            {(uploads.length > 0 || uploadError) && (
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                {uploads.map((upload) => (
+                  <div key={upload.id} className="w-60 animate-message-in">
+                    <DocumentProgress document={upload}>
+                      {!isIngesting(upload) && (
+                        <button
+                          onClick={() => setUploads((previous) => previous.filter((item) => item.id !== upload.id))}
+                          title="Dismiss"
+                          className="p-1 rounded-md text-[#6b6b8a] hover:bg-[#1f1f2e] hover:text-white transition-colors"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </DocumentProgress>
+                  </div>
+                ))}
+                {uploadError && (
+                  <button onClick={() => setUploadError(null)} title="Dismiss" className="text-xs text-red-300 hover:text-red-200">
+                    {uploadError}
+                  </button>
+                )}
+              </div>
+            )}
             <div className="relative flex items-end gap-3 bg-[#12121a] rounded-2xl border border-[#252535] p-3 focus-within:border-emerald-500/50 transition-colors shadow-xl shadow-black/20">
+              <AttachButton
+                className="-my-1 -ml-1"
+                onUploaded={(document) => {
+                  setUploadError(null);
+                  setUploads((previous) => [...previous, document]);
+                }}
+                onError={(error) => setUploadError(error.message)}
+              />
+              {!current?.incognito && (
+                <button
+                  onClick={() => setDontRemember((value) => !value)}
+                  title={dontRemember ? "This message will not be remembered" : "Don't remember the next message"}
+                  aria-pressed={dontRemember}
+                  className={`-my-1 p-2 rounded-lg shrink-0 transition-colors ${
+                    dontRemember ? "bg-amber-500/15 text-amber-300" : "text-[#6b6b8a] hover:bg-[#1f1f2e] hover:text-white"
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                  </svg>
+                </button>
+              )}
               <textarea
                 ref={inputRef}
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Send a message..."
+                placeholder={current?.incognito ? "Send a message, it will not be remembered..." : dontRemember ? "Send a message that will not be remembered..." : "Send a message..."}
                 rows={1}
                 className="
                   flex-1 bg-transparent text-white placeholder-[#5a5a7a]
@@ -317,21 +970,33 @@ function Index() {
                 }}
               />
               
-              <button
-                onClick={handleSend}
-                disabled={!inputValue.trim()}
-                className={`
-                  p-2.5 rounded-xl shrink-0
-                  transition-all duration-200 ease-out
-                  ${inputValue.trim() 
-                    ? "bg-gradient-to-r from-emerald-500 to-cyan-500 text-white hover:shadow-lg hover:shadow-emerald-500/25 hover:scale-105" 
-                    : "bg-[#1f1f2e] text-[#4a4a6a] cursor-not-allowed"}
-                `}
-              >
-                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                </svg>
-              </button>
+              {isResponding ? (
+                <button
+                  onClick={() => stop()}
+                  title="Stop generating"
+                  className="p-2.5 rounded-xl shrink-0 bg-[#1f1f2e] text-[#a0a0ba] hover:bg-[#252535] hover:text-white transition-all duration-200 ease-out"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="7" y="7" width="10" height="10" rx="1.5" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!inputValue.trim()}
+                  className={`
+                    p-2.5 rounded-xl shrink-0
+                    transition-all duration-200 ease-out
+                    ${inputValue.trim() 
+                      ? "bg-gradient-to-r from-emerald-500 to-cyan-500 text-white hover:shadow-lg hover:shadow-emerald-500/25 hover:scale-105" 
+                      : "bg-[#1f1f2e] text-[#4a4a6a] cursor-not-allowed"}
+                  `}
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                  </svg>
+                </button>
+              )}
             </div>
             
             <p className="text-center text-[10px] text-[#4a4a6a] mt-3">
@@ -341,6 +1006,8 @@ function Index() {
         </div>
       </main>
 
+      {showSettings && <SettingsPanel options={chatOptions} onClose={() => setShowSettings(false)} />}
+
       {/* Animations */}
       <style>{`
         @keyframes message-in {
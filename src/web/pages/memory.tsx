@@ -0,0 +1,266 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { DocumentsPanel } from "../components/documents/documents-panel";
+import { ArchivePanel } from "../components/memory/archive-panel";
+import { GraphCanvas } from "../components/memory/graph-canvas";
+import { NodePanel } from "../components/memory/node-panel";
+import { PrivacyPanel } from "../components/memory/privacy-panel";
+import { colorOf } from "../components/memory/colors";
+import { RequestError } from "../components/request-error";
+import { fetchAbandoned, fetchGraph, rollbackAbandoned, type MemoryEdge, type MemoryNode } from "../lib/api";
+import { useResource } from "../lib/resource";
+import { isOwn, useSyncEvents } from "../lib/sync";
+
+const FOCUS_OPTIONS = [0, 1, 2] as const;
+
+// Every node within `hops` edges of `id`, including itself.
+const neighborhood = (id: string, edges: MemoryEdge[], hops: number) => {
+  const reached = new Set([id]);
+  let frontier = [id];
+  for (let hop = 0; hop < hops; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [[edge.sourceId, edge.targetId], [edge.targetId, edge.sourceId]]) {
+        if (frontier.includes(from) && !reached.has(to)) {
+          reached.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+};
+
+function Memory() {
+  const { data, error: loadError, loading, reload } = useResource(async () => {
+    const [graph, stale] = await Promise.all([fetchGraph(), fetchAbandoned()]);
+    return { ...graph, abandoned: new Set([...stale.nodeIds, ...stale.edgeIds]) };
+  }, []);
+  const [error, setError] = useState<Error | null>(null);
+  const [query, setQuery] = useState("");
+  const [hiddenTypes, setHiddenTypes] = useState<Set<string>>(new Set());
+  const [focus, setFocus] = useState<number>(0);
+  const [confirmRollback, setConfirmRollback] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const selectedId = useMemo(() => new URLSearchParams(search).get("node"), [search]);
+
+  // Memory changed elsewhere, e.g. by a reply in another tab or a document being ingested
+  useSyncEvents((event) => {
+    if ((event.type === "memory.changed" && !isOwn(event)) || event.type === "sync.reset") void reload();
+  });
+
+  const select = (id: string | null) => navigate(id ? `/memory?node=${id}` : "/memory", { replace: true });
+
+  const nodes = useMemo<MemoryNode[]>(() => data?.nodes ?? [], [data]);
+  const edges = useMemo<MemoryEdge[]>(() => data?.edges ?? [], [data]);
+  const abandoned = useMemo(() => data?.abandoned ?? new Set<string>(), [data]);
+
+  const types = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const node of nodes) counts.set(node.type, (counts.get(node.type) ?? 0) + 1);
+    return [...counts].sort((a, b) => b[1] - a[1]);
+  }, [nodes]);
+
+  const visible = useMemo(() => {
+    const focused = selectedId && focus > 0 ? neighborhood(selectedId, edges, focus) : null;
+    const shown = nodes.filter((node) => !hiddenTypes.has(node.type) && (!focused || focused.has(node.id)));
+    const ids = new Set(shown.map((node) => node.id));
+    return { nodes: shown, edges: edges.filter((edge) => ids.has(edge.sourceId) && ids.has(edge.targetId)) };
+  }, [nodes, edges, hiddenTypes, selectedId, focus]);
+
+  const matches = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return null;
+    return new Set(visible.nodes.filter((node) => node.label.toLowerCase().includes(term)).map((node) => node.id));
+  }, [visible.nodes, query]);
+
+  const toggleType = (type: string) => {
+    setHiddenTypes((current) => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const abandonedNodes = nodes.filter((node) => abandoned.has(node.id)).length;
+
+  const handleRollback = async () => {
+    setRollingBack(true);
+    try {
+      await rollbackAbandoned();
+      if (selectedId && abandoned.has(selectedId)) select(null);
+      await reload();
+    } catch (rollbackError) {
+      setError(rollbackError as Error);
+    } finally {
+      setRollingBack(false);
+      setConfirmRollback(false);
+    }
+  };
+
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "Enter" || !matches || matches.size === 0) return;
+    select([...matches][0]);
+    setQuery("");
+  };
+
+  return (
+    <div className="h-screen w-screen flex flex-col overflow-hidden bg-[#0a0a0f] font-sans">
+      <header className="h-16 border-b border-[#1f1f2e] flex items-center px-4 gap-4 bg-[#0d0d14]/80 backdrop-blur-xl shrink-0">
+        <Link href="/" className="p-2 rounded-lg hover:bg-[#1a1a28] text-[#8b8baa] transition-colors" title="Back to chat">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div className="min-w-0">
+          <h2 className="font-semibold text-white truncate">Memory Explorer</h2>
+          <p className="text-xs text-[#6b6b8a]">
+            {nodes.length} node{nodes.length === 1 ? "" : "s"} · {edges.length} relation{edges.length === 1 ? "" : "s"}
+          </p>
+        </div>
+        <div className="flex-1" />
+        {abandonedNodes > 0 && (confirmRollback ? (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-[#8b8baa] hidden md:inline">Forget memory from abandoned branches?</span>
+            <button
+              onClick={() => void handleRollback()}
+              disabled={rollingBack}
+              className="px-2.5 py-1.5 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 disabled:opacity-50 transition-colors"
+            >
+              {rollingBack ? "Rolling back…" : "Forget"}
+            </button>
+            <button
+              onClick={() => setConfirmRollback(false)}
+              className="px-2.5 py-1.5 rounded-lg text-[#8b8baa] hover:bg-[#1a1a28] transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmRollback(true)}
+            title="Memory learned only from replies you edited away or regenerated"
+            className="px-3 py-1.5 rounded-lg border border-dashed border-[#3a3a55] text-xs text-[#a0a0ba] hover:bg-[#1a1a28] transition-colors"
+          >
+            Roll back {abandonedNodes} abandoned
+          </button>
+        ))}
+        <button
+          onClick={() => setShowDocuments((value) => !value)}
+          className={`px-3 py-1.5 rounded-lg text-xs transition-colors ${
+            showDocuments ? "bg-emerald-500/20 text-emerald-300" : "text-[#a0a0ba] hover:bg-[#1a1a28]"
+          }`}
+        >
+          Documents
+        </button>
+        <button
+          onClick={() => setShowPrivacy((value) => !value)}
+          className={`px-3 py-1.5 rounded-lg text-xs transition-colors ${
+            showPrivacy ? "bg-emerald-500/20 text-emerald-300" : "text-[#a0a0ba] hover:bg-[#1a1a28]"
+          }`}
+        >
+          Privacy
+        </button>
+        <button
+          onClick={() => setShowArchive((value) => !value)}
+          className={`px-3 py-1.5 rounded-lg text-xs transition-colors ${
+            showArchive ? "bg-emerald-500/20 text-emerald-300" : "text-[#a0a0ba] hover:bg-[#1a1a28]"
+          }`}
+        >
+          Export & Import
+        </button>
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          placeholder="Search memory…"
+          className="w-48 md:w-64 bg-[#12121a] border border-[#252535] rounded-xl px-3 py-2 text-sm text-white placeholder-[#4a4a6a] focus:outline-none focus:border-emerald-500/50"
+        />
+      </header>
+
+      <div className="px-4 py-2 border-b border-[#1f1f2e] flex flex-wrap items-center gap-2 bg-[#0d0d14] shrink-0">
+        {types.map(([type, count]) => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs border transition-colors ${
+              hiddenTypes.has(type)
+                ? "border-[#252535] text-[#4a4a6a]"
+                : "border-[#2e2e44] text-[#c0c0d8] bg-[#1a1a28]"
+            }`}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(type), opacity: hiddenTypes.has(type) ? 0.3 : 1 }} />
+            {type}
+            <span className="text-[#5a5a7a]">{count}</span>
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1 text-xs text-[#6b6b8a]">
+          <span>Focus</span>
+          {FOCUS_OPTIONS.map((hops) => (
+            <button
+              key={hops}
+              onClick={() => setFocus(hops)}
+              disabled={!selectedId && hops > 0}
+              title={hops === 0 ? "Show the whole graph" : `Only show nodes within ${hops} hop${hops > 1 ? "s" : ""} of the selection`}
+              className={`px-2 py-1 rounded-lg transition-colors disabled:opacity-40 ${
+                focus === hops ? "bg-emerald-500/20 text-emerald-300" : "hover:bg-[#1a1a28]"
+              }`}
+            >
+              {hops === 0 ? "All" : `${hops} hop${hops > 1 ? "s" : ""}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 relative min-w-0">
+          {loading && !data && <p className="absolute inset-0 flex items-center justify-center pointer-events-none text-sm text-[#6b6b8a]">Loading memory…</p>}
+          {(error ?? (!data && loadError)) && (
+            <div className="absolute top-4 inset-x-4 z-10 flex justify-center">
+              <RequestError
+                error={(error ?? loadError)!}
+                onRetry={error ? () => setError(null) : () => void reload()}
+                className="max-w-lg shadow-xl shadow-black/30"
+              />
+            </div>
+          )}
+          {data && nodes.length === 0 && (
+            <p className="absolute inset-0 flex items-center justify-center pointer-events-none text-sm text-[#6b6b8a]">
+              Nothing remembered yet. Facts appear here as you chat or add documents.
+            </p>
+          )}
+          <GraphCanvas nodes={visible.nodes} edges={visible.edges} selectedId={selectedId} matches={matches} abandoned={abandoned} onSelect={select} />
+        </div>
+        {showDocuments && (
+          <aside className="w-80 shrink-0 border-l border-[#1f1f2e] bg-[#0d0d14] overflow-y-auto">
+            <DocumentsPanel onChanged={() => void reload()} />
+          </aside>
+        )}
+        {showPrivacy && (
+          <aside className="w-80 shrink-0 border-l border-[#1f1f2e] bg-[#0d0d14] overflow-y-auto">
+            <PrivacyPanel onSelect={select} />
+          </aside>
+        )}
+        {showArchive && (
+          <aside className="w-80 shrink-0 border-l border-[#1f1f2e] bg-[#0d0d14] overflow-y-auto">
+            <ArchivePanel onImported={() => void reload()} />
+          </aside>
+        )}
+        {selectedId && (
+          <aside className="w-80 shrink-0 border-l border-[#1f1f2e] bg-gradient-to-b from-[#12121a] to-[#0d0d14] overflow-y-auto">
+            <NodePanel nodeId={selectedId} nodes={nodes} onSelect={select} onChanged={reload} />
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Memory;
@@ -0,0 +1,65 @@
+import { useForm } from "react-hook-form";
+import { Link, useLocation, useSearch } from "wouter";
+import { AuthLayout, fieldClass, submitClass } from "../components/auth-layout";
+import { authClient } from "../lib/auth";
+import { safeRedirect } from "../lib/redirect";
+
+interface SignInForm {
+  email: string;
+  password: string;
+}
+
+export default function SignIn() {
+  const [, setLocation] = useLocation();
+  const next = safeRedirect(new URLSearchParams(useSearch()).get("next"));
+  const { register, handleSubmit, setError, formState: { errors, isSubmitting } } = useForm<SignInForm>();
+
+  const onSubmit = async (data: SignInForm) => {
+    const { error } = await authClient.signIn.email({
+      email: data.email,
+      password: data.password,
+    });
+
+    if (error) {
+      setError("root", { message: error.message || "Sign in failed" });
+      return;
+    }
+
+    setLocation(next);
+  };
+
+  return (
+    <AuthLayout
+      title="Welcome back"
+      subtitle="Sign in to pick up where your memory left off."
+      footer={
+        <>
+          New here?{" "}
+          <Link href={`/sign-up${next === "/" ? "" : `?next=${encodeURIComponent(next)}`}`} className="text-emerald-400 hover:text-emerald-300">
+            Create an account
+          </Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {errors.root && (
+          <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">{errors.root.message}</div>
+        )}
+
+        <div className="space-y-1.5">
+          <label htmlFor="email" className="text-xs font-medium text-[#8b8baa]">Email</label>
+          <input id="email" type="email" autoComplete="email" placeholder="you@example.com" className={fieldClass} {...register("email", { required: true })} />
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor="password" className="text-xs font-medium text-[#8b8baa]">Password</label>
+          <input id="password" type="password" autoComplete="current-password" placeholder="••••••••" className={fieldClass} {...register("password", { required: true })} />
+        </div>
+
+        <button type="submit" disabled={isSubmitting} className={submitClass}>
+          {isSubmitting ? "Signing in..." : "Sign In"}
+        </button>
+      </form>
+    </AuthLayout>
+  );
+}
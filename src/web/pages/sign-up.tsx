@@ -0,0 +1,85 @@
+import { useForm } from "react-hook-form";
+import { Link, useLocation, useSearch } from "wouter";
+import { AuthLayout, fieldClass, submitClass } from "../components/auth-layout";
+import { authClient } from "../lib/auth";
+import { safeRedirect } from "../lib/redirect";
+
+interface SignUpForm {
+  name: string;
+  email: string;
+  password: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function SignUp() {
+  const [, setLocation] = useLocation();
+  const next = safeRedirect(new URLSearchParams(useSearch()).get("next"));
+  const { register, handleSubmit, setError, formState: { errors, isSubmitting } } = useForm<SignUpForm>();
+
+  const onSubmit = async (data: SignUpForm) => {
+    const { error } = await authClient.signUp.email({
+      name: data.name,
+      email: data.email,
+      password: data.password,
+    });
+
+    if (error) {
+      setError("root", { message: error.message || "Sign up failed" });
+      return;
+    }
+
+    setLocation(next);
+  };
+
+  return (
+    <AuthLayout
+      title="Create your account"
+      subtitle="Your memory graph is private to you from the first message."
+      footer={
+        <>
+          Already have an account?{" "}
+          <Link href={`/sign-in${next === "/" ? "" : `?next=${encodeURIComponent(next)}`}`} className="text-emerald-400 hover:text-emerald-300">
+            Sign in
+          </Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {errors.root && (
+          <div className="rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">{errors.root.message}</div>
+        )}
+
+        <div className="space-y-1.5">
+          <label htmlFor="name" className="text-xs font-medium text-[#8b8baa]">Name</label>
+          <input id="name" type="text" autoComplete="name" placeholder="Ada Lovelace" className={fieldClass} {...register("name", { required: true })} />
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor="email" className="text-xs font-medium text-[#8b8baa]">Email</label>
+          <input id="email" type="email" autoComplete="email" placeholder="you@example.com" className={fieldClass} {...register("email", { required: true })} />
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor="password" className="text-xs font-medium text-[#8b8baa]">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+            className={fieldClass}
+            {...register("password", {
+              required: true,
+              minLength: { value: MIN_PASSWORD_LENGTH, message: `Use at least ${MIN_PASSWORD_LENGTH} characters` },
+            })}
+          />
+          {errors.password?.message && <p className="text-xs text-red-300">{errors.password.message}</p>}
+        </div>
+
+        <button type="submit" disabled={isSubmitting} className={submitClass}>
+          {isSubmitting ? "Signing up..." : "Sign Up"}
+        </button>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,33 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+import { cloudflareTest, readD1Migrations } from "@cloudflare/vitest-pool-workers";
+
+// Tests run inside workerd with the bindings of wrangler.json, a D1 database migrated from scratch
+// and the mock gateway of scripts/mock-gateway.ts, started by src/api/testing/gateway.ts
+export default defineConfig(async () => {
+	const migrations = await readD1Migrations(path.join(__dirname, "src/api/migrations"));
+	return {
+		plugins: [
+			cloudflareTest(({ inject }) => ({
+				wrangler: { configPath: "./wrangler.json" },
+				miniflare: {
+					bindings: {
+						TEST_MIGRATIONS: migrations,
+						AI_GATEWAY_BASE_URL: inject("gatewayUrl"),
+						AI_GATEWAY_API_KEY: "test",
+						BETTER_AUTH_SECRET: "test-secret-that-is-long-enough-for-better-auth",
+						VITE_BASE_URL: "http://localhost:5173",
+						BILLING_BACKEND: "local",
+						EMBEDDING_MODEL: "hash-256",
+						VECTOR_BACKEND: "d1",
+					},
+				},
+			})),
+		],
+		test: {
+			include: ["src/api/**/*.test.ts", "src/web/lib/**/*.test.ts"],
+			globalSetup: ["./src/api/testing/gateway.ts"],
+			setupFiles: ["./src/api/testing/setup.ts"],
+		},
+	};
+});
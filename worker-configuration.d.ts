@@ -1,9 +1,10 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 75d5e237f2fd3e8c1e1259a5d1124020)
+// Generated by Wrangler by running `wrangler types` (hash: 3f4e691ab12326b5c932b47f1929022a)
 // Runtime types generated with workerd@1.20251118.0 2025-10-08 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/api/index");
+		durableNamespaces: "SyncRoom";
 	}
 	interface Env {
 		BETTER_AUTH_SECRET: string;
@@ -11,8 +12,15 @@ declare namespace Cloudflare {
 		AI_GATEWAY_BASE_URL: string;
 		AI_GATEWAY_API_KEY: string;
 		AUTUMN_SECRET_KEY: string;
+		BILLING_BACKEND: string;
+		EMBEDDING_MODEL: string;
+		VECTOR_BACKEND: string;
 		BUCKET: R2Bucket;
+		CONSOLIDATION_QUEUE: Queue;
 		DB: D1Database;
+		INGEST_QUEUE: Queue;
+		SYNC: DurableObjectNamespace<import("./src/api/index").SyncRoom>;
+		VECTORIZE: Vectorize;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -20,7 +28,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BETTER_AUTH_SECRET" | "VITE_BASE_URL" | "AI_GATEWAY_BASE_URL" | "AI_GATEWAY_API_KEY" | "AUTUMN_SECRET_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BETTER_AUTH_SECRET" | "VITE_BASE_URL" | "AI_GATEWAY_BASE_URL" | "AI_GATEWAY_API_KEY" | "AUTUMN_SECRET_KEY" | "BILLING_BACKEND" | "EMBEDDING_MODEL" | "VECTOR_BACKEND">> {}
 }
 
 // Begin runtime types